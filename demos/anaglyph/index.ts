@@ -20,8 +20,9 @@ import {
   TextureStore,
   Layer,
   RectilinearView,
+  stereo,
+  type AnaglyphType,
 } from '../../src/index';
-import { colorTransformEffects } from './colorTransformEffects.js';
 
 // Create viewer.
 var viewer = new Viewer(document.getElementById('pano'));
@@ -52,7 +53,7 @@ var right = createLayer(stage, view, geometry, 'right');
 
 // Add layers into the stage.
 // The left image must be rendered on top of the right image.
-// See colorTransformEffects.js for an explanation.
+// See stereo.anaglyphEffects for an explanation.
 stage.addLayer(right);
 stage.addLayer(left);
 
@@ -78,8 +79,8 @@ function createLayer(stage, view, geometry, eye) {
 // Update the effects to match the chosen anaglyph type.
 var typeElement = document.getElementById('type') as HTMLSelectElement;
 function updateEffects() {
-  var type = typeElement.value;
-  var effects = colorTransformEffects[type]();
+  var type = typeElement.value as AnaglyphType;
+  var effects = stereo.anaglyphEffects(type);
   left.setEffects(effects.left);
   right.setEffects(effects.right);
 }
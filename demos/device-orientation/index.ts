@@ -15,11 +15,11 @@
  */
 import {
   CubeGeometry,
+  DeviceOrientationControlMethod,
   ImageUrlSource,
   RectilinearView,
   Viewer,
 } from '../../src/index';
-import DeviceOrientationControlMethod from './DeviceOrientationControlMethod.js';
 
 // Create viewer.
 var viewer = new Viewer(document.getElementById('pano'));
@@ -58,41 +58,29 @@ var enabled = false;
 
 var toggleElement = document.getElementById('toggleDeviceOrientation');
 
-function requestPermissionForIOS() {
-  // @ts-ignore
-  window.DeviceOrientationEvent.requestPermission()
-    .then((response) => {
-      if (response === 'granted') {
-        enableDeviceOrientation();
+function enable() {
+  DeviceOrientationControlMethod.requestPermission()
+    .then(function (granted) {
+      if (!granted) {
+        return;
       }
+      deviceOrientationControlMethod.getOrientation(function (
+        err,
+        orientation
+      ) {
+        if (!err) {
+          view.setPitch(orientation.pitch);
+        }
+      });
+      controls.enableMethod('deviceOrientation');
+      enabled = true;
+      toggleElement.className = 'enabled';
     })
-    .catch((e) => {
+    .catch(function (e) {
       console.error(e);
     });
 }
 
-function enableDeviceOrientation() {
-  deviceOrientationControlMethod.getPitch(function (err, pitch) {
-    if (!err) {
-      view.setPitch(pitch);
-    }
-  });
-  controls.enableMethod('deviceOrientation');
-  enabled = true;
-  toggleElement.className = 'enabled';
-}
-
-function enable() {
-  if (window.DeviceOrientationEvent) {
-    // @ts-ignore
-    if (typeof window.DeviceOrientationEvent.requestPermission === 'function') {
-      requestPermissionForIOS();
-    } else {
-      enableDeviceOrientation();
-    }
-  }
-}
-
 function disable() {
   controls.disableMethod('deviceOrientation');
   enabled = false;
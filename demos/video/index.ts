@@ -14,14 +14,15 @@
  * limitations under the License.
  */
 import * as Marzipano from '../../src/index';
-import VideoAsset from './VideoAsset.js';
 
 // Create viewer.
 var viewer = new Marzipano.Viewer(document.getElementById('pano'));
 
-// Create asset and source.
-var asset = new VideoAsset();
-var source = new Marzipano.SingleAssetSource(asset);
+// Create source.
+var source = new Marzipano.VideoSource(
+  '//www.marzipano.net/media/video/mercedes-f1-1280x640.mp4',
+  { loop: true }
+);
 
 // Create geometry.
 // This is a trivial equirectangular geometry with a single level.
@@ -64,35 +65,8 @@ function tryStart() {
   }
   started = true;
 
-  var video = document.createElement('video');
-  video.src = '//www.marzipano.net/media/video/mercedes-f1-1280x640.mp4';
-  video.crossOrigin = 'anonymous';
-
-  video.autoplay = true;
-  video.loop = true;
-
-  // Prevent the video from going full screen on iOS.
-  video.playsInline = true;
-  // @ts-ignore
-  video.webkitPlaysInline = true;
-
-  video.play();
-
-  waitForReadyState(video, video.HAVE_METADATA, 100, function () {
-    waitForReadyState(video, video.HAVE_ENOUGH_DATA, 100, function () {
-      asset.setVideo(video);
-    });
+  source.play().catch(function (err) {
+    console.error(err);
+    started = false;
   });
 }
-
-// Wait for an element to reach the given readyState by polling.
-// The HTML5 video element exposes a `readystatechange` event that could be
-// listened for instead, but it seems to be unreliable on some browsers.
-function waitForReadyState(element, readyState, interval, done) {
-  var timer = setInterval(function () {
-    if (element.readyState >= readyState) {
-      clearInterval(timer);
-      done(null, true);
-    }
-  }, interval);
-}
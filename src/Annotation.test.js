@@ -0,0 +1,76 @@
+import { suite, test, assert } from 'vitest';
+import sinon from 'sinon';
+
+import Annotation from './Annotation';
+
+var triangle = [
+  { yaw: 0, pitch: 0 },
+  { yaw: 0.1, pitch: 0 },
+  { yaw: 0, pitch: 0.1 },
+];
+
+suite('Annotation', function () {
+  test('requires enough points', function () {
+    assert.throws(function () {
+      new Annotation('polygon', triangle.slice(0, 2));
+    });
+    assert.throws(function () {
+      new Annotation('polyline', triangle.slice(0, 1));
+    });
+    assert.throws(function () {
+      new Annotation('circle', triangle);
+    });
+    assert.isTrue(new Annotation('polygon', triangle).closed());
+    assert.isFalse(new Annotation('polyline', triangle.slice(0, 2)).closed());
+  });
+
+  test('copies points', function () {
+    var points = triangle.map(function (point) {
+      return Object.assign({}, point);
+    });
+    var annotation = new Annotation('polygon', points);
+    points[0].yaw = 1;
+    assert.deepEqual(annotation.points(), triangle);
+  });
+
+  test('merges styles', function () {
+    var annotation = new Annotation('polygon', triangle, {
+      style: { stroke: 'red' },
+      hoverStyle: { strokeWidth: 4 },
+    });
+    assert.equal(annotation.style().stroke, 'red');
+    assert.equal(annotation.style().strokeWidth, 2);
+    assert.isString(annotation.style().fill);
+    assert.equal(annotation.style(true).stroke, 'red');
+    assert.equal(annotation.style(true).strokeWidth, 4);
+  });
+
+  test('emits change events', function () {
+    var annotation = new Annotation('polygon', triangle);
+    var spy = sinon.spy();
+    annotation.addEventListener('change', spy);
+    annotation.setPoints(triangle);
+    annotation.setStyle({ fill: null });
+    annotation.hide();
+    annotation.hide();
+    annotation.show();
+    assert.equal(spy.callCount, 4);
+  });
+
+  test('serializes to JSON', function () {
+    var annotation = new Annotation('polyline', triangle, {
+      style: { stroke: 'red' },
+      data: { id: 'crack-1' },
+    });
+    var data = JSON.parse(JSON.stringify(annotation));
+    assert.deepEqual(data, {
+      type: 'polyline',
+      points: triangle,
+      style: { stroke: 'red' },
+      data: { id: 'crack-1' },
+    });
+
+    var copy = new Annotation(data.type, data.points, data);
+    assert.deepEqual(copy.toJSON(), data);
+  });
+});
@@ -0,0 +1,256 @@
+import eventEmitter from 'minimal-event-emitter';
+import clearOwnProperties from './util/clearOwnProperties';
+import { SphericalPoint } from './util/sphericalPath';
+
+export type AnnotationType = 'polygon' | 'polyline';
+
+export interface AnnotationStyle {
+  /**
+   * Fill color of a polygon, as a CSS color, or null for no fill.
+   */
+  fill?: string | null;
+  /**
+   * Stroke color, as a CSS color, or null for no stroke.
+   */
+  stroke?: string | null;
+  /**
+   * Stroke width in pixels.
+   */
+  strokeWidth?: number;
+}
+
+export interface AnnotationOptions {
+  /**
+   * The style, merged into the default one.
+   */
+  style?: AnnotationStyle;
+  /**
+   * The style applied over the style while the pointer is over the annotation.
+   */
+  hoverStyle?: AnnotationStyle;
+  /**
+   * Arbitrary data associated with the annotation. Must be serializable to
+   * JSON for {@link Annotation#toJSON} to be.
+   */
+  data?: any;
+}
+
+/**
+ * The serialized form of an {@link Annotation}, with positions in radians.
+ */
+export interface AnnotationData extends AnnotationOptions {
+  type: AnnotationType;
+  points: SphericalPoint[];
+}
+
+const defaultStyle: Required<AnnotationStyle> = {
+  fill: 'rgba(255, 255, 255, 0.3)',
+  stroke: '#fff',
+  strokeWidth: 2,
+};
+
+const minPoints = { polygon: 3, polyline: 2 };
+
+/**
+ * Signals that the annotation must be redrawn.
+ * @event Annotation#change
+ */
+
+/**
+ * @class Annotation
+ * @classdesc
+ *
+ * A polygon or polyline outlining a region of a panorama, such as a room, a
+ * door or a damaged area. Its vertices are given in `yaw` and `pitch`, and
+ * joined by great-circle arcs, i.e., the straight lines of the panorama.
+ *
+ * Clients should create annotations by calling
+ * {@link AnnotationContainer#createAnnotation}.
+ *
+ * @param {AnnotationType} type
+ * @param {SphericalPoint[]} points The vertices.
+ * @param {AnnotationOptions} [opts]
+ * @throws An error if there are too few vertices for the type.
+ */
+class Annotation {
+  #type: AnnotationType;
+  #points: SphericalPoint[];
+  #style: AnnotationStyle;
+  #hoverStyle: AnnotationStyle;
+  #data: any;
+  #visible: boolean;
+
+  constructor(
+    type: AnnotationType,
+    points: SphericalPoint[],
+    opts?: AnnotationOptions
+  ) {
+    if (!minPoints[type]) {
+      throw new Error('Unknown annotation type: ' + type);
+    }
+    opts = opts || {};
+
+    this.#type = type;
+    this.#points = [];
+    this.#style = Object.assign({}, opts.style);
+    this.#hoverStyle = Object.assign({}, opts.hoverStyle);
+    this.#data = opts.data;
+    this.#visible = true;
+
+    this.setPoints(points);
+  }
+  /**
+   * Destructor. Clients should call
+   * {@link AnnotationContainer#destroyAnnotation} instead.
+   */
+  destroy() {
+    clearOwnProperties(this);
+  }
+  /**
+   * Returns the annotation type.
+   * @return {AnnotationType}
+   */
+  type() {
+    return this.#type;
+  }
+  /**
+   * Returns whether the annotation is a closed shape.
+   * @return {boolean}
+   */
+  closed() {
+    return this.#type === 'polygon';
+  }
+  /**
+   * Returns the vertices.
+   * @return {SphericalPoint[]}
+   */
+  points() {
+    return this.#points.map((point) => ({
+      yaw: point.yaw,
+      pitch: point.pitch,
+    }));
+  }
+  /**
+   * Sets the vertices.
+   * @param {SphericalPoint[]} points
+   * @throws An error if there are too few vertices for the type.
+   */
+  setPoints(points: SphericalPoint[]) {
+    if (!points || points.length < minPoints[this.#type]) {
+      throw new Error(
+        'A ' +
+          this.#type +
+          ' requires at least ' +
+          minPoints[this.#type] +
+          ' points'
+      );
+    }
+    this.#points = points.map((point) => ({
+      yaw: point.yaw,
+      pitch: point.pitch,
+    }));
+    this.emit('change');
+  }
+  /**
+   * Returns the style, including defaults.
+   * @param {boolean} [hovered=false] Whether to apply the hover style.
+   * @return {AnnotationStyle}
+   */
+  style(hovered?: boolean): Required<AnnotationStyle> {
+    return Object.assign(
+      {},
+      defaultStyle,
+      this.#style,
+      hovered ? this.#hoverStyle : null
+    );
+  }
+  /**
+   * Sets the style.
+   * @param {AnnotationStyle} style
+   */
+  setStyle(style: AnnotationStyle) {
+    this.#style = Object.assign({}, style);
+    this.emit('change');
+  }
+  /**
+   * Returns the hover style.
+   * @return {AnnotationStyle}
+   */
+  hoverStyle() {
+    return Object.assign({}, this.#hoverStyle);
+  }
+  /**
+   * Sets the hover style.
+   * @param {AnnotationStyle} style
+   */
+  setHoverStyle(style: AnnotationStyle) {
+    this.#hoverStyle = Object.assign({}, style);
+    this.emit('change');
+  }
+  /**
+   * Returns the data associated with the annotation.
+   * @return {*}
+   */
+  data() {
+    return this.#data;
+  }
+  /**
+   * Returns whether the annotation is visible.
+   * @return {boolean}
+   */
+  visible() {
+    return this.#visible;
+  }
+  /**
+   * Shows the annotation.
+   */
+  show() {
+    if (!this.#visible) {
+      this.#visible = true;
+      this.emit('change');
+    }
+  }
+  /**
+   * Hides the annotation.
+   */
+  hide() {
+    if (this.#visible) {
+      this.#visible = false;
+      this.emit('change');
+    }
+  }
+  /**
+   * Returns the serialized form of the annotation, which may be passed to
+   * {@link AnnotationContainer#createAnnotation} to recreate it.
+   * @return {AnnotationData}
+   */
+  toJSON(): AnnotationData {
+    const result: AnnotationData = {
+      type: this.#type,
+      points: this.points(),
+    };
+    if (Object.keys(this.#style).length) {
+      result.style = Object.assign({}, this.#style);
+    }
+    if (Object.keys(this.#hoverStyle).length) {
+      result.hoverStyle = Object.assign({}, this.#hoverStyle);
+    }
+    if (this.#data !== undefined) {
+      result.data = this.#data;
+    }
+    return result;
+  }
+  emit(_arg0: string, ..._args: any[]) {
+    throw new Error('Method not implemented.');
+  }
+  addEventListener(_arg0: string, _arg1: Function) {
+    throw new Error('Method not implemented.');
+  }
+  removeEventListener(_arg0: string, _arg1: Function) {
+    throw new Error('Method not implemented.');
+  }
+}
+
+eventEmitter(Annotation);
+
+export default Annotation;
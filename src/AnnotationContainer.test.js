@@ -0,0 +1,202 @@
+import { suite, test, assert, beforeEach, afterEach } from 'vitest';
+import sinon from 'sinon';
+
+import eventEmitter from 'minimal-event-emitter';
+
+import AnnotationContainer from './AnnotationContainer';
+import RectilinearView from './views/Rectilinear';
+
+class MockRenderLoop {}
+
+eventEmitter(MockRenderLoop);
+
+// A 200x100 stage with a single layer.
+function MockStage(view) {
+  var overlays = [];
+  this.width = sinon.stub().returns(200);
+  this.height = sinon.stub().returns(100);
+  var layer = {
+    view: sinon.stub().returns(view),
+    effects: sinon.stub().returns({}),
+  };
+  this.listLayers = function () {
+    return [layer];
+  };
+  this.layerAt = function () {
+    return layer;
+  };
+  this.listOverlays = function () {
+    return overlays.slice();
+  };
+  this.addOverlay = sinon.spy(function (overlay) {
+    overlays.push(overlay);
+  });
+  this.removeOverlay = sinon.spy(function (overlay) {
+    overlays.splice(overlays.indexOf(overlay), 1);
+  });
+}
+
+function pointerEvent(type, clientX, clientY) {
+  var event = new Event(type, { bubbles: true });
+  event.clientX = clientX;
+  event.clientY = clientY;
+  event.pointerId = 1;
+  event.button = 0;
+  return event;
+}
+
+var square = [
+  { yaw: -0.1, pitch: -0.1 },
+  { yaw: 0.1, pitch: -0.1 },
+  { yaw: 0.1, pitch: 0.1 },
+  { yaw: -0.1, pitch: 0.1 },
+];
+
+suite('AnnotationContainer', function () {
+  var element, view, stage, renderLoop, container;
+
+  beforeEach(function () {
+    element = document.createElement('div');
+    element.getBoundingClientRect = function () {
+      return { left: 0, top: 0, width: 200, height: 100 };
+    };
+    view = new RectilinearView({ yaw: 0, pitch: 0, fov: 1 });
+    view.setSize({ width: 200, height: 100 });
+    stage = new MockStage(view);
+    renderLoop = new MockRenderLoop();
+    container = new AnnotationContainer(element, stage, view, renderLoop);
+  });
+
+  afterEach(function () {
+    container.destroy();
+  });
+
+  function svgPath(index) {
+    return container.domElement().querySelectorAll('path')[index];
+  }
+
+  test('manages annotations', function () {
+    var spy = sinon.spy();
+    container.addEventListener('annotationsChange', spy);
+
+    var polygon = container.createAnnotation('polygon', square);
+    var polyline = container.createAnnotation('polyline', square.slice(0, 2));
+    assert.sameOrderedMembers(container.listAnnotations(), [polygon, polyline]);
+    assert.lengthOf(container.domElement().querySelectorAll('path'), 2);
+
+    container.destroyAnnotation(polygon);
+    assert.isFalse(container.hasAnnotation(polygon));
+    assert.lengthOf(container.domElement().querySelectorAll('path'), 1);
+    assert.equal(spy.callCount, 3);
+    assert.throws(function () {
+      container.destroyAnnotation(polygon);
+    });
+  });
+
+  test('draws annotations as SVG paths', function () {
+    var polygon = container.createAnnotation('polygon', square, {
+      style: { fill: 'red', stroke: null },
+    });
+    container.createAnnotation('polyline', square.slice(0, 2));
+
+    var polygonPath = svgPath(0);
+    assert.match(polygonPath.getAttribute('d'), /^M.*Z$/);
+    assert.equal(polygonPath.getAttribute('fill'), 'red');
+    assert.equal(polygonPath.getAttribute('stroke'), 'none');
+
+    var polylinePath = svgPath(1);
+    assert.match(polylinePath.getAttribute('d'), /^M[^Z]*$/);
+    assert.equal(polylinePath.getAttribute('fill'), 'none');
+
+    // Annotations behind the camera are not drawn.
+    view.setYaw(Math.PI);
+    renderLoop.emit('afterRender');
+    assert.equal(polygonPath.getAttribute('d'), '');
+
+    polygon.hide();
+    view.setYaw(0);
+    renderLoop.emit('afterRender');
+    assert.equal(polygonPath.getAttribute('d'), '');
+  });
+
+  test('picks annotations', function () {
+    var polygon = container.createAnnotation('polygon', square);
+    var polyline = container.createAnnotation(
+      'polyline',
+      [
+        { yaw: 0.3, pitch: -0.2 },
+        { yaw: 0.3, pitch: 0.2 },
+      ],
+      { style: { strokeWidth: 2 } }
+    );
+
+    assert.strictEqual(container.pick(100, 50), polygon);
+    var x = view.coordinatesToScreen({ yaw: 0.3, pitch: 0 }).x;
+    assert.strictEqual(container.pick(x + 4, 50), polyline);
+    assert.isNull(container.pick(x + 10, 50));
+    assert.isNull(container.pick(5, 5));
+
+    container.hide();
+    assert.isNull(container.pick(100, 50));
+  });
+
+  test('emits pointer events', function () {
+    var polygon = container.createAnnotation('polygon', square, {
+      hoverStyle: { fill: 'blue' },
+    });
+    var enter = sinon.spy();
+    var leave = sinon.spy();
+    var click = sinon.spy();
+    container.addEventListener('annotationEnter', enter);
+    container.addEventListener('annotationLeave', leave);
+    container.addEventListener('annotationClick', click);
+
+    element.dispatchEvent(pointerEvent('pointermove', 100, 50));
+    assert.isTrue(enter.calledOnceWith(polygon));
+    assert.strictEqual(container.hoveredAnnotation(), polygon);
+    assert.equal(svgPath(0).getAttribute('fill'), 'blue');
+
+    element.dispatchEvent(pointerEvent('pointerdown', 100, 50));
+    element.dispatchEvent(pointerEvent('pointerup', 100, 50));
+    assert.isTrue(click.calledOnceWith(polygon));
+
+    element.dispatchEvent(pointerEvent('pointermove', 5, 5));
+    assert.isTrue(leave.calledOnceWith(polygon));
+    assert.isNull(container.hoveredAnnotation());
+    assert.notEqual(svgPath(0).getAttribute('fill'), 'blue');
+  });
+
+  test('serializes annotations', function () {
+    container.createAnnotation('polygon', square, { data: { room: 'A' } });
+    container.createAnnotation('polyline', square.slice(0, 2));
+    var data = JSON.parse(JSON.stringify(container.toJSON()));
+
+    var other = new AnnotationContainer(element, stage, view, renderLoop);
+    var annotations = other.createAnnotationsFromJSON(data);
+    assert.lengthOf(annotations, 2);
+    assert.deepEqual(annotations[0].data(), { room: 'A' });
+    assert.deepEqual(other.toJSON(), data);
+    other.destroy();
+  });
+
+  test('draws into the stage in webgl mode', function () {
+    container.createAnnotation('polygon', square);
+    var spy = sinon.spy();
+    container.addEventListener('change', spy);
+
+    container.setRenderMode('webgl');
+    assert.isTrue(stage.addOverlay.calledOnceWith(container));
+    assert.equal(container.domElement().style.display, 'none');
+
+    container.listAnnotations()[0].setStyle({ fill: 'red' });
+    assert.isTrue(spy.calledOnce);
+
+    // Paths are computed when the stage renders.
+    container.render(stage);
+    assert.strictEqual(container.pick(100, 50), container.listAnnotations()[0]);
+
+    container.setRenderMode('svg');
+    assert.isTrue(stage.removeOverlay.calledOnceWith(container));
+    assert.equal(container.domElement().style.display, 'block');
+  });
+});
@@ -0,0 +1,632 @@
+import eventEmitter from 'minimal-event-emitter';
+import Annotation, {
+  AnnotationData,
+  AnnotationOptions,
+  AnnotationType,
+} from './Annotation';
+import PointerPicker, { PointerPickEvent } from './PointerPicker';
+import WebGlSpriteRenderer from './renderers/WebGlSprite';
+import Stage from './stages/Stage';
+import WebGlStage from './stages/WebGl';
+import calcRect from './util/calcRect';
+import clearOwnProperties from './util/clearOwnProperties';
+import pixelRatio from './util/pixelRatio';
+import {
+  SphericalPoint,
+  pathContains,
+  pathDistance,
+  projectSphericalPath,
+} from './util/sphericalPath';
+import { setAbsolute, setWithVendorPrefix } from './util/dom';
+import { Rect, RectSpec } from './jsdoc-extras';
+
+const setPointerEvents = setWithVendorPrefix('pointer-events');
+
+const svgNamespace = 'http://www.w3.org/2000/svg';
+
+export type AnnotationRenderMode = 'svg' | 'webgl';
+
+export interface AnnotationContainerOptions {
+  /**
+   * Rectangular region covered by the container. See {@link Effects#rect}.
+   */
+  rect?: RectSpec;
+  /**
+   * Whether to draw the annotations as SVG over the stage, or into the
+   * {@link WebGlStage} itself, in which case they are included in snapshots.
+   * Defaults to `svg`.
+   */
+  renderMode?: AnnotationRenderMode;
+  /**
+   * Distance in pixels from the stroke within which the pointer is considered
+   * over an annotation. Defaults to 4.
+   */
+  hitTolerance?: number;
+}
+
+/**
+ * Signals that an annotation has been created or destroyed on the container.
+ * @event AnnotationContainer#annotationsChange
+ */
+
+/**
+ * Signals that an annotation has been clicked.
+ * @event AnnotationContainer#annotationClick
+ * @param {Annotation} annotation
+ * @param {PointerPickEvent} event
+ */
+
+/**
+ * Signals that the pointer has entered an annotation.
+ * @event AnnotationContainer#annotationEnter
+ * @param {Annotation} annotation
+ * @param {PointerPickEvent} event
+ */
+
+/**
+ * Signals that the pointer has left an annotation.
+ * @event AnnotationContainer#annotationLeave
+ * @param {Annotation} annotation
+ * @param {PointerPickEvent} event
+ */
+
+/**
+ * Signals that the annotations drawn into the stage must be redrawn.
+ * @event AnnotationContainer#change
+ */
+
+/**
+ * @class AnnotationContainer
+ * @classdesc
+ *
+ * Holds {@link Annotation annotations} positioned according to a
+ * {@link RectilinearView}, and draws them over the stage, either as SVG or
+ * into the {@link WebGlStage} itself.
+ *
+ * The container emits events when the pointer enters, leaves or clicks an
+ * annotation, and applies the annotation hover style while the pointer is over
+ * it. The annotations do not capture pointer events, so that they do not
+ * interfere with the {@link Controls}.
+ *
+ * Clients should usually obtain the container for a scene with
+ * {@link Scene#annotationContainer} instead of invoking the constructor.
+ *
+ * @param {Element} parentDomElement The DOM element inside which the SVG
+ *     element is created, and which receives the pointer events. Must cover
+ *     the stage.
+ * @param {Stage} stage The underlying stage.
+ * @param {RectilinearView} view The view according to which the annotations
+ *     are positioned.
+ * @param {RenderLoop} renderLoop The render loop indicating when the
+ *     annotations must be rendered.
+ * @param {AnnotationContainerOptions} [opts]
+ */
+class AnnotationContainer {
+  #parentDomElement: HTMLElement;
+  #stage: Stage;
+  #view: any;
+  #renderLoop: any;
+  #rect: RectSpec | undefined;
+  #renderMode: AnnotationRenderMode;
+  #hitTolerance: number;
+  #annotations: Annotation[];
+  #paths: Map<Annotation, number[][]>;
+  #hovered: Annotation | null;
+  #visible: boolean;
+  #svg: SVGSVGElement;
+  #svgPaths: Map<Annotation, SVGPathElement>;
+  #canvas: HTMLCanvasElement | null;
+  #renderer: WebGlSpriteRenderer | null;
+  #rendererContext: any;
+  #pointerPicker: PointerPicker;
+  #tmpRect: Required<Rect>;
+  #updateHandler: () => void;
+  #changeHandler: () => void;
+  #pointerMoveHandler: (event: PointerPickEvent) => void;
+  #clickHandler: (event: PointerPickEvent) => void;
+
+  constructor(
+    parentDomElement: HTMLElement,
+    stage: Stage,
+    view: any,
+    renderLoop: any,
+    opts?: AnnotationContainerOptions
+  ) {
+    opts = opts || {};
+
+    this.#parentDomElement = parentDomElement;
+    this.#stage = stage;
+    this.#view = view;
+    this.#renderLoop = renderLoop;
+    this.#rect = opts.rect;
+    this.#hitTolerance = opts.hitTolerance != null ? opts.hitTolerance : 4;
+
+    this.#annotations = [];
+
+    // The screen paths of the annotations, computed on the last update, in
+    // view coordinates.
+    this.#paths = new Map();
+
+    // The annotation under the pointer.
+    this.#hovered = null;
+
+    // Whether the container should be visible.
+    this.#visible = true;
+
+    // The SVG element, positioned over the rect, and its paths.
+    this.#svg = document.createElementNS(svgNamespace, 'svg');
+    setAbsolute(this.#svg);
+    setPointerEvents(this.#svg, 'none');
+    this.#parentDomElement.appendChild(this.#svg);
+    this.#svgPaths = new Map();
+
+    // The canvas and renderer used to draw into the stage, created on demand.
+    this.#canvas = null;
+    this.#renderer = null;
+    this.#rendererContext = null;
+
+    this.#tmpRect = { x: 0, y: 0, width: 0, height: 0 };
+
+    this.#updateHandler = this.#update.bind(this);
+    this.#renderLoop.addEventListener('afterRender', this.#updateHandler);
+
+    this.#changeHandler = this.#handleChange.bind(this);
+
+    this.#pointerPicker = new PointerPicker(parentDomElement, stage);
+    this.#pointerMoveHandler = this.#handlePointerMove.bind(this);
+    this.#clickHandler = this.#handleClick.bind(this);
+    this.#pointerPicker.addEventListener(
+      'pointermove',
+      this.#pointerMoveHandler
+    );
+    this.#pointerPicker.addEventListener('click', this.#clickHandler);
+
+    this.#renderMode = 'svg';
+    this.setRenderMode(opts.renderMode || 'svg');
+  }
+  /**
+   * Destructor.
+   */
+  destroy() {
+    while (this.#annotations.length) {
+      this.destroyAnnotation(this.#annotations[0]);
+    }
+    this.setRenderMode('svg');
+    this.#parentDomElement.removeChild(this.#svg);
+    this.#renderLoop.removeEventListener('afterRender', this.#updateHandler);
+    this.#pointerPicker.removeEventListener(
+      'pointermove',
+      this.#pointerMoveHandler
+    );
+    this.#pointerPicker.removeEventListener('click', this.#clickHandler);
+    this.#pointerPicker.destroy();
+    clearOwnProperties(this);
+  }
+  /**
+   * Returns the SVG element holding the annotations in `svg` mode.
+   * @return {SVGSVGElement}
+   */
+  domElement() {
+    return this.#svg;
+  }
+  setRect(rect: RectSpec) {
+    this.#rect = rect;
+    this.#handleChange();
+  }
+  rect() {
+    return this.#rect;
+  }
+  /**
+   * Returns the render mode.
+   * @return {AnnotationRenderMode}
+   */
+  renderMode() {
+    return this.#renderMode;
+  }
+  /**
+   * Sets whether to draw the annotations as SVG or into the stage.
+   * @param {AnnotationRenderMode} mode
+   */
+  setRenderMode(mode: AnnotationRenderMode) {
+    if (mode !== 'svg' && mode !== 'webgl') {
+      throw new Error('Unknown render mode: ' + mode);
+    }
+    const stage = this.#stage;
+    const isOverlay = stage.listOverlays().indexOf(this) >= 0;
+    if (mode === 'webgl' && !isOverlay) {
+      stage.addOverlay(this);
+    } else if (mode === 'svg' && isOverlay) {
+      stage.removeOverlay(this);
+      this.#destroyRenderer();
+      this.#canvas = null;
+    }
+    this.#renderMode = mode;
+    this.#update();
+  }
+  /**
+   * Creates a new annotation in this container.
+   * @param {AnnotationType} type
+   * @param {SphericalPoint[]} points The vertices.
+   * @param {AnnotationOptions} [opts]
+   * @return {Annotation}
+   */
+  createAnnotation(
+    type: AnnotationType,
+    points: SphericalPoint[],
+    opts?: AnnotationOptions
+  ) {
+    const annotation = new Annotation(type, points, opts);
+    this.#annotations.push(annotation);
+    annotation.addEventListener('change', this.#changeHandler);
+
+    const path = document.createElementNS(svgNamespace, 'path');
+    this.#svg.appendChild(path);
+    this.#svgPaths.set(annotation, path);
+
+    this.#handleChange();
+    this.emit('annotationsChange');
+    return annotation;
+  }
+  /**
+   * Creates annotations from their serialized form.
+   * @param {AnnotationData[]} data
+   * @return {Annotation[]} The new annotations.
+   */
+  createAnnotationsFromJSON(data: AnnotationData[]) {
+    return data.map((item) =>
+      this.createAnnotation(item.type, item.points, item)
+    );
+  }
+  /**
+   * Returns the serialized form of all annotations.
+   * @return {AnnotationData[]}
+   */
+  toJSON() {
+    return this.#annotations.map((annotation) => annotation.toJSON());
+  }
+  hasAnnotation(annotation: Annotation) {
+    return this.#annotations.indexOf(annotation) >= 0;
+  }
+  listAnnotations() {
+    return [...this.#annotations];
+  }
+  /**
+   * Removes an annotation from the container.
+   * @param {Annotation} annotation
+   * @throws An error if the annotation does not belong to the container.
+   */
+  destroyAnnotation(annotation: Annotation) {
+    const i = this.#annotations.indexOf(annotation);
+    if (i < 0) {
+      throw new Error('No such annotation');
+    }
+    this.#annotations.splice(i, 1);
+    annotation.removeEventListener('change', this.#changeHandler);
+
+    const path = this.#svgPaths.get(annotation);
+    if (path) {
+      this.#svg.removeChild(path);
+    }
+    this.#svgPaths.delete(annotation);
+    this.#paths.delete(annotation);
+    if (this.#hovered === annotation) {
+      this.#hovered = null;
+    }
+
+    annotation.destroy();
+    this.#handleChange();
+    this.emit('annotationsChange');
+  }
+  /**
+   * Returns the annotation under the pointer, if any.
+   * @return {?Annotation}
+   */
+  hoveredAnnotation() {
+    return this.#hovered;
+  }
+  /**
+   * Finds the topmost annotation at a point.
+   * @param {number} x The horizontal offset from the stage left, in pixels.
+   * @param {number} y The vertical offset from the stage top, in pixels.
+   * @return {?Annotation}
+   */
+  pick(x: number, y: number) {
+    if (!this.#visible) {
+      return null;
+    }
+    const rect = this.#calcRect();
+    x -= rect.x * this.#stage.width();
+    y -= rect.y * this.#stage.height();
+    if (
+      x < 0 ||
+      y < 0 ||
+      x > rect.width * this.#stage.width() ||
+      y > rect.height * this.#stage.height()
+    ) {
+      return null;
+    }
+
+    for (let i = this.#annotations.length - 1; i >= 0; i--) {
+      const annotation = this.#annotations[i];
+      const paths = this.#paths.get(annotation);
+      if (!paths || !annotation.visible()) {
+        continue;
+      }
+      const style = annotation.style(annotation === this.#hovered);
+      const closed = annotation.closed();
+      for (const path of paths) {
+        if (closed && style.fill && pathContains(path, x, y)) {
+          return annotation;
+        }
+        if (
+          pathDistance(path, closed, x, y) <=
+          style.strokeWidth / 2 + this.#hitTolerance
+        ) {
+          return annotation;
+        }
+      }
+    }
+    return null;
+  }
+  /**
+   * Hide the container, causing every contained {@link Annotation} to be
+   * hidden.
+   */
+  hide() {
+    if (this.#visible) {
+      this.#visible = false;
+      this.#handleChange();
+    }
+  }
+  /**
+   * Show the container, causing every contained {@link Annotation} to be
+   * shown.
+   */
+  show() {
+    if (!this.#visible) {
+      this.#visible = true;
+      this.#handleChange();
+    }
+  }
+  /**
+   * Draws the annotations into the stage in `webgl` mode. Called by the stage
+   * on every frame.
+   * @param {Stage} stage
+   */
+  render(stage: Stage) {
+    if (!this.#visible || !this.#isViewRendered(stage)) {
+      return;
+    }
+    this.#updatePaths();
+
+    if (!(stage instanceof WebGlStage)) {
+      return;
+    }
+    const gl = stage.webGlContext();
+    if (!gl) {
+      return;
+    }
+
+    let renderer = this.#renderer;
+    if (!renderer || this.#rendererContext !== gl) {
+      this.#destroyRenderer();
+      renderer = this.#renderer = new WebGlSpriteRenderer(gl);
+      this.#rendererContext = gl;
+    }
+
+    const canvas = this.#drawCanvas();
+    if (!canvas) {
+      return;
+    }
+    const rect = this.#calcRect();
+    const width = stage.width();
+    const height = stage.height();
+    renderer.invalidate(canvas);
+    renderer.render(
+      [
+        {
+          image: canvas,
+          left: rect.x * width,
+          top: rect.y * height,
+          width: rect.width * width,
+          height: rect.height * height,
+        },
+      ],
+      width,
+      height,
+      rect,
+      1
+    );
+  }
+  #calcRect() {
+    const rect = this.#tmpRect;
+    calcRect(this.#stage.width(), this.#stage.height(), this.#rect, rect);
+    return rect;
+  }
+  #isViewRendered(stage: Stage) {
+    return stage.listLayers().some((layer) => layer.view() === this.#view);
+  }
+  #handleChange() {
+    if (this.#renderMode === 'webgl') {
+      this.emit('change');
+    } else {
+      this.#update();
+    }
+  }
+  #update() {
+    const svg = this.#svg;
+    const visible = this.#visible && this.#renderMode === 'svg';
+    svg.style.display = visible ? 'block' : 'none';
+    if (!visible) {
+      return;
+    }
+
+    const rect = this.#calcRect();
+    const width = this.#stage.width();
+    const height = this.#stage.height();
+    svg.style.left = rect.x * width + 'px';
+    svg.style.top = rect.y * height + 'px';
+    svg.setAttribute('width', String(rect.width * width));
+    svg.setAttribute('height', String(rect.height * height));
+
+    this.#updatePaths();
+
+    for (const annotation of this.#annotations) {
+      const element = this.#svgPaths.get(annotation);
+      const paths = this.#paths.get(annotation);
+      if (!element) {
+        continue;
+      }
+      if (!paths || !annotation.visible()) {
+        element.setAttribute('d', '');
+        continue;
+      }
+      const style = annotation.style(annotation === this.#hovered);
+      const closed = annotation.closed();
+      element.setAttribute('d', svgPathData(paths, closed));
+      element.setAttribute('fill', (closed && style.fill) || 'none');
+      element.setAttribute('fill-rule', 'evenodd');
+      element.setAttribute('stroke', style.stroke || 'none');
+      element.setAttribute('stroke-width', String(style.strokeWidth));
+      element.setAttribute('stroke-linejoin', 'round');
+      element.setAttribute('stroke-linecap', 'round');
+    }
+  }
+  // Projects the annotations according to the current view.
+  #updatePaths() {
+    const view = this.#view;
+    const projection = view.projection();
+    const width = view.width();
+    const height = view.height();
+    this.#paths.clear();
+    for (const annotation of this.#annotations) {
+      if (annotation.visible()) {
+        this.#paths.set(
+          annotation,
+          projectSphericalPath(
+            annotation.points(),
+            annotation.closed(),
+            projection,
+            width,
+            height
+          )
+        );
+      }
+    }
+  }
+  #drawCanvas() {
+    const view = this.#view;
+    const ratio = pixelRatio();
+    const width = Math.max(1, Math.round(view.width() * ratio));
+    const height = Math.max(1, Math.round(view.height() * ratio));
+
+    if (!this.#canvas) {
+      this.#canvas = document.createElement('canvas');
+    }
+    const canvas = this.#canvas;
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+    const context = canvas.getContext('2d');
+    if (!context) {
+      return null;
+    }
+
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    context.clearRect(0, 0, view.width(), view.height());
+    context.lineJoin = 'round';
+    context.lineCap = 'round';
+
+    for (const annotation of this.#annotations) {
+      const paths = this.#paths.get(annotation);
+      if (!paths || !annotation.visible()) {
+        continue;
+      }
+      const style = annotation.style(annotation === this.#hovered);
+      const closed = annotation.closed();
+      context.beginPath();
+      for (const path of paths) {
+        context.moveTo(path[0], path[1]);
+        for (let i = 2; i < path.length; i += 2) {
+          context.lineTo(path[i], path[i + 1]);
+        }
+        if (closed) {
+          context.closePath();
+        }
+      }
+      if (closed && style.fill) {
+        context.fillStyle = style.fill;
+        context.fill('evenodd');
+      }
+      if (style.stroke && style.strokeWidth > 0) {
+        context.strokeStyle = style.stroke;
+        context.lineWidth = style.strokeWidth;
+        context.stroke();
+      }
+    }
+
+    return canvas;
+  }
+  #destroyRenderer() {
+    if (this.#renderer) {
+      this.#renderer.destroy();
+      this.#renderer = null;
+      this.#rendererContext = null;
+    }
+  }
+  #handlePointerMove(event: PointerPickEvent) {
+    if (event.dragging) {
+      return;
+    }
+    const annotation = this.pick(event.x, event.y);
+    const previous = this.#hovered;
+    if (annotation === previous) {
+      return;
+    }
+    this.#hovered = annotation;
+    this.#handleChange();
+    if (previous) {
+      this.emit('annotationLeave', previous, event);
+    }
+    if (annotation) {
+      this.emit('annotationEnter', annotation, event);
+    }
+  }
+  #handleClick(event: PointerPickEvent) {
+    const annotation = this.pick(event.x, event.y);
+    if (annotation) {
+      this.emit('annotationClick', annotation, event);
+    }
+  }
+  emit(_arg0: string, ..._args: any[]) {
+    throw new Error('Method not implemented.');
+  }
+  addEventListener(_arg0: string, _arg1: Function) {
+    throw new Error('Method not implemented.');
+  }
+  removeEventListener(_arg0: string, _arg1: Function) {
+    throw new Error('Method not implemented.');
+  }
+}
+
+eventEmitter(AnnotationContainer);
+
+function svgPathData(paths: number[][], closed: boolean) {
+  let data = '';
+  for (const path of paths) {
+    for (let i = 0; i < path.length; i += 2) {
+      data +=
+        (i === 0 ? 'M' : 'L') +
+        path[i].toFixed(1) +
+        ' ' +
+        path[i + 1].toFixed(1);
+    }
+    if (closed) {
+      data += 'Z';
+    }
+  }
+  return data;
+}
+
+export default AnnotationContainer;
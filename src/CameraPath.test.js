@@ -0,0 +1,242 @@
+import { suite, test, assert } from 'vitest';
+import sinon from 'sinon';
+
+import CameraPath from './CameraPath';
+
+// Mock scene running movements on demand, like Scene#startMovement does on
+// each frame.
+class MockScene {
+  constructor() {
+    this.params = { yaw: 0, pitch: 0, fov: 1 };
+    this.current = null;
+    this.step = null;
+    this.done = null;
+    var self = this;
+    this.viewObject = {
+      parameters: function (obj) {
+        return Object.assign(obj || {}, self.params);
+      },
+      setParameters: function (params) {
+        Object.assign(self.params, params);
+      },
+    };
+  }
+  view() {
+    return this.viewObject;
+  }
+  startMovement(fn, done) {
+    this.stopMovement();
+    this.current = fn;
+    this.step = fn();
+    this.done = done;
+  }
+  stopMovement() {
+    var done = this.done;
+    if (!this.current) {
+      return;
+    }
+    this.current = this.step = this.done = null;
+    if (done) {
+      done();
+    }
+  }
+  movement() {
+    return this.current;
+  }
+  // Runs the current movement for the given elapsed time.
+  frame(elapsed) {
+    var params = this.step(this.viewObject.parameters(), elapsed);
+    if (params == null) {
+      this.stopMovement();
+    } else {
+      this.viewObject.setParameters(params);
+    }
+  }
+}
+
+var keyframes = [
+  { time: 0, yaw: 0, fov: 1 },
+  { time: 1000, yaw: 1 },
+  { time: 2000, yaw: 3, fov: 2 },
+];
+
+suite('CameraPath', function () {
+  test('validates keyframes', function () {
+    assert.throws(function () {
+      new CameraPath([]);
+    });
+    assert.throws(function () {
+      new CameraPath([{ time: -1, yaw: 0 }]);
+    });
+  });
+
+  test('sorts keyframes', function () {
+    var path = new CameraPath([keyframes[2], keyframes[0], keyframes[1]]);
+    assert.deepEqual(path.keyframes(), keyframes);
+    assert.strictEqual(path.duration(), 2000);
+  });
+
+  test('linear interpolation', function () {
+    var path = new CameraPath(keyframes);
+    assert.deepEqual(path.sample(0), { yaw: 0, fov: 1 });
+    assert.deepEqual(path.sample(500), { yaw: 0.5, fov: 1 });
+    assert.deepEqual(path.sample(1500), { yaw: 2, fov: 1.5 });
+    assert.deepEqual(path.sample(3000), { yaw: 3, fov: 2 });
+  });
+
+  test('fills in parameters from neighboring keyframes', function () {
+    var path = new CameraPath([
+      { time: 0, yaw: 1 },
+      { time: 1000, pitch: 2 },
+    ]);
+    assert.deepEqual(path.sample(0), { yaw: 1, pitch: 2 });
+    assert.deepEqual(path.sample(1000), { yaw: 1, pitch: 2 });
+  });
+
+  test('per-segment easing', function () {
+    var path = new CameraPath([
+      { time: 0, yaw: 0 },
+      {
+        time: 1000,
+        yaw: 1,
+        ease: function (k) {
+          return k * k;
+        },
+      },
+    ]);
+    assert.closeTo(path.sample(500).yaw, 0.25, 1e-9);
+  });
+
+  test('spline interpolation', function () {
+    var path = new CameraPath(keyframes, { interpolation: 'spline' });
+    // Passes through the keyframes.
+    assert.closeTo(path.sample(1000).yaw, 1, 1e-9);
+    // Differs from linear interpolation within a segment.
+    var yaw = path.sample(500).yaw;
+    assert.isAbove(Math.abs(yaw - 0.5), 1e-3);
+    assert.isAbove(yaw, 0);
+    assert.isBelow(yaw, 1);
+  });
+
+  test('plays through the scene', function () {
+    var scene = new MockScene();
+    var path = new CameraPath(keyframes);
+    var keyframeSpy = sinon.spy();
+    var endSpy = sinon.spy();
+    var done = sinon.spy();
+    path.addEventListener('keyframe', keyframeSpy);
+    path.addEventListener('end', endSpy);
+
+    path.play(scene, done);
+    assert.isTrue(path.isPlaying());
+
+    scene.frame(0);
+    assert.isTrue(keyframeSpy.calledOnceWithExactly(0, keyframes[0]));
+
+    scene.frame(500);
+    assert.closeTo(scene.params.yaw, 0.5, 1e-9);
+
+    scene.frame(2500);
+    assert.strictEqual(scene.params.yaw, 3);
+    assert.strictEqual(keyframeSpy.callCount, 3);
+    assert.isTrue(endSpy.notCalled);
+
+    scene.frame(2600);
+    assert.isTrue(endSpy.calledOnce);
+    assert.isTrue(done.calledOnce);
+    assert.isFalse(path.isPlaying());
+    assert.strictEqual(path.currentTime(), 2000);
+  });
+
+  test('pause and resume', function () {
+    var scene = new MockScene();
+    var path = new CameraPath(keyframes);
+    var pauseSpy = sinon.spy();
+    var done = sinon.spy();
+    path.addEventListener('pause', pauseSpy);
+
+    path.play(scene, done);
+    scene.frame(500);
+    path.pause();
+    assert.isTrue(pauseSpy.calledOnce);
+    assert.isNull(scene.movement());
+    assert.strictEqual(path.currentTime(), 500);
+    assert.isTrue(done.notCalled);
+
+    path.resume();
+    scene.frame(0);
+    scene.frame(250);
+    assert.strictEqual(path.currentTime(), 750);
+    assert.closeTo(scene.params.yaw, 0.75, 1e-9);
+  });
+
+  test('pauses when interrupted by another movement', function () {
+    var scene = new MockScene();
+    var path = new CameraPath(keyframes);
+    var pauseSpy = sinon.spy();
+    path.addEventListener('pause', pauseSpy);
+
+    path.play(scene);
+    scene.frame(500);
+    scene.startMovement(function () {
+      return function () {};
+    });
+    assert.isTrue(pauseSpy.calledOnce);
+    assert.isFalse(path.isPlaying());
+    assert.strictEqual(path.currentTime(), 500);
+  });
+
+  test('seek', function () {
+    var scene = new MockScene();
+    var path = new CameraPath(keyframes);
+    var keyframeSpy = sinon.spy();
+    path.addEventListener('keyframe', keyframeSpy);
+
+    path.play(scene);
+    scene.frame(0);
+    path.seek(1500);
+    assert.isTrue(path.isPlaying());
+    scene.frame(0);
+    scene.frame(100);
+    assert.strictEqual(path.currentTime(), 1600);
+    assert.closeTo(scene.params.yaw, 2.2, 1e-9);
+    // The keyframe skipped over is not reported.
+    assert.isTrue(keyframeSpy.neverCalledWith(1));
+
+    path.pause();
+    path.seek(1000);
+    assert.strictEqual(scene.params.yaw, 1);
+  });
+
+  test('loop', function () {
+    var scene = new MockScene();
+    var path = new CameraPath(keyframes, { loop: true });
+    var keyframeSpy = sinon.spy();
+    var endSpy = sinon.spy();
+    path.addEventListener('keyframe', keyframeSpy);
+    path.addEventListener('end', endSpy);
+
+    path.play(scene);
+    scene.frame(0);
+    scene.frame(2500);
+    assert.strictEqual(path.currentTime(), 500);
+    assert.closeTo(scene.params.yaw, 0.5, 1e-9);
+    // Keyframes 0, 1 and 2, then 0 again.
+    assert.strictEqual(keyframeSpy.callCount, 4);
+    assert.isTrue(keyframeSpy.lastCall.calledWithExactly(0, keyframes[0]));
+    assert.isTrue(endSpy.notCalled);
+    assert.isTrue(path.isPlaying());
+  });
+
+  test('stop', function () {
+    var scene = new MockScene();
+    var path = new CameraPath(keyframes);
+    var done = sinon.spy();
+    path.play(scene, done);
+    scene.frame(500);
+    path.stop();
+    assert.isTrue(done.calledOnce);
+    assert.isFalse(path.isPlaying());
+    assert.strictEqual(path.currentTime(), 0);
+  });
+});
@@ -0,0 +1,479 @@
+import eventEmitter from 'minimal-event-emitter';
+import Scene from './Scene';
+import clearOwnProperties from './util/clearOwnProperties';
+
+/**
+ * An easing function, mapping the elapsed fraction of a segment into the
+ * fraction of the change in view parameters.
+ */
+export type CameraPathEasing = (k: number) => number;
+
+/**
+ * How view parameters are interpolated between keyframes.
+ *
+ * - `linear`: straight interpolation between the two keyframes.
+ * - `spline`: Catmull-Rom interpolation, which also takes the neighboring
+ *   keyframes into account to pass smoothly through each keyframe.
+ */
+export type CameraPathInterpolation = 'linear' | 'spline';
+
+/**
+ * A keyframe of a {@link CameraPath}.
+ *
+ * View parameters absent from a keyframe keep the value from the previous
+ * keyframe defining them. Parameters absent from every keyframe are not
+ * changed by the path. Angles are in radians and interpolated literally, so
+ * that going from a yaw of 0 to 2π performs a full turn.
+ */
+export interface CameraKeyframe {
+  /**
+   * Time of the keyframe since the start of the path, in milliseconds.
+   */
+  time: number;
+  yaw?: number;
+  pitch?: number;
+  roll?: number;
+  fov?: number;
+  /**
+   * Easing for the segment ending at this keyframe. Defaults to linear.
+   */
+  ease?: CameraPathEasing;
+  /**
+   * Interpolation for the segment ending at this keyframe. Defaults to the
+   * `interpolation` option of the path.
+   */
+  interpolation?: CameraPathInterpolation;
+}
+
+export interface CameraPathOptions {
+  /**
+   * Whether to start over when the end is reached. Defaults to false.
+   */
+  loop?: boolean;
+  /**
+   * Default interpolation between keyframes. Defaults to `linear`.
+   */
+  interpolation?: CameraPathInterpolation;
+}
+
+/**
+ * The object on which a camera path is played, i.e., a {@link Scene} or a
+ * {@link Viewer}.
+ */
+export type CameraPathTarget = Pick<
+  Scene,
+  'startMovement' | 'stopMovement' | 'movement' | 'view'
+>;
+
+export interface CameraPathParams {
+  yaw?: number;
+  pitch?: number;
+  roll?: number;
+  fov?: number;
+}
+
+const paramNames = ['yaw', 'pitch', 'roll', 'fov'] as const;
+
+function linearEase(k: number) {
+  return k;
+}
+
+function catmullRom(p0: number, p1: number, p2: number, p3: number, t: number) {
+  const t2 = t * t;
+  const t3 = t2 * t;
+  return (
+    0.5 *
+    (2 * p1 +
+      (p2 - p0) * t +
+      (2 * p0 - 5 * p1 + 4 * p2 - p3) * t2 +
+      (3 * p1 - p0 - 3 * p2 + p3) * t3)
+  );
+}
+
+/**
+ * Signals that playback has started or resumed.
+ * @event CameraPath#play
+ */
+
+/**
+ * Signals that playback has paused, either by calling
+ * {@link CameraPath#pause} or because another movement, such as one started by
+ * user interaction, has interrupted it.
+ * @event CameraPath#pause
+ */
+
+/**
+ * Signals that playback has reached a keyframe.
+ * @event CameraPath#keyframe
+ * @param {number} index The index of the keyframe, in time order.
+ * @param {CameraKeyframe} keyframe The keyframe.
+ */
+
+/**
+ * Signals that playback has reached the end of the path. Never emitted when
+ * looping.
+ * @event CameraPath#end
+ */
+
+/**
+ * @class CameraPath
+ * @classdesc
+ *
+ * A scripted camera movement through a list of keyframes, e.g. for a guided
+ * tour.
+ *
+ * The path is played on a {@link Scene} (or a {@link Viewer}) through
+ * {@link Scene#startMovement}, and may be paused, resumed and seeked. Starting
+ * another movement on the scene, e.g. by interacting with the controls,
+ * pauses playback, which may be resumed from the same point.
+ *
+ * @param {CameraKeyframe[]} keyframes The keyframes, in any order.
+ * @param {CameraPathOptions} [opts]
+ * @throws An error if the keyframe list is empty or a time is invalid.
+ */
+class CameraPath {
+  #keyframes: CameraKeyframe[];
+  #values: { [name: string]: number[] };
+  #duration: number;
+  #loop: boolean;
+  #interpolation: CameraPathInterpolation;
+  #target: CameraPathTarget | null;
+  #time: number;
+  #movement: Function | null;
+  #done: (() => void) | null;
+
+  constructor(keyframes: CameraKeyframe[], opts?: CameraPathOptions) {
+    opts = opts || {};
+
+    if (!keyframes || !keyframes.length) {
+      throw new Error('Camera path requires at least one keyframe');
+    }
+    for (let i = 0; i < keyframes.length; i++) {
+      const time = keyframes[i].time;
+      if (typeof time !== 'number' || !isFinite(time) || time < 0) {
+        throw new Error('Invalid keyframe time: ' + time);
+      }
+    }
+
+    // Sort keyframes by time, preserving the order of simultaneous ones.
+    this.#keyframes = keyframes
+      .map((keyframe, index) => ({ keyframe, index }))
+      .sort((a, b) => a.keyframe.time - b.keyframe.time || a.index - b.index)
+      .map((entry) => entry.keyframe);
+
+    this.#values = resolveValues(this.#keyframes);
+    this.#duration = this.#keyframes[this.#keyframes.length - 1].time;
+    this.#loop = !!opts.loop;
+    this.#interpolation = opts.interpolation || 'linear';
+
+    // Playback state. The path is playing when a movement is set.
+    this.#target = null;
+    this.#time = 0;
+    this.#movement = null;
+    this.#done = null;
+  }
+  /**
+   * Destructor. Stops playback without calling the completion callback.
+   */
+  destroy() {
+    this.pause();
+    clearOwnProperties(this);
+  }
+  /**
+   * Returns the keyframes, in time order.
+   * @return {CameraKeyframe[]}
+   */
+  keyframes() {
+    return this.#keyframes.slice();
+  }
+  /**
+   * Returns the duration of the path in milliseconds, i.e., the time of the
+   * last keyframe.
+   * @return {number}
+   */
+  duration() {
+    return this.#duration;
+  }
+  /**
+   * Returns whether the path starts over when the end is reached.
+   * @return {boolean}
+   */
+  loop() {
+    return this.#loop;
+  }
+  /**
+   * Sets whether the path starts over when the end is reached.
+   * @param {boolean} loop
+   */
+  setLoop(loop: boolean) {
+    this.#loop = !!loop;
+  }
+  /**
+   * Returns the current playback time in milliseconds.
+   * @return {number}
+   */
+  currentTime() {
+    return this.#time;
+  }
+  /**
+   * Returns whether the path is playing.
+   * @return {boolean}
+   */
+  isPlaying() {
+    return this.#movement != null;
+  }
+  /**
+   * Computes the view parameters at a given time. Parameters not defined by
+   * any keyframe are left unchanged.
+   *
+   * @param {number} time The time in milliseconds.
+   * @param {Object} [result] The object to store the parameters into.
+   * @return {Object} The parameters.
+   */
+  sample(time: number, result?: CameraPathParams): CameraPathParams {
+    result = result || {};
+
+    const keyframes = this.#keyframes;
+    const last = keyframes.length - 1;
+
+    // Find the segment from keyframe i to keyframe i + 1 containing the time.
+    let i = 0;
+    while (i < last && keyframes[i + 1].time <= time) {
+      i++;
+    }
+
+    let k = 0;
+    let spline = false;
+    if (i < last && time > keyframes[i].time) {
+      const next = keyframes[i + 1];
+      const fraction =
+        (time - keyframes[i].time) / (next.time - keyframes[i].time);
+      k = (next.ease || linearEase)(fraction);
+      spline = (next.interpolation || this.#interpolation) === 'spline';
+    }
+
+    for (const name of paramNames) {
+      const values = this.#values[name];
+      if (!values) {
+        continue;
+      }
+      if (k === 0 || i === last) {
+        result[name] = values[i];
+      } else if (spline) {
+        result[name] = catmullRom(
+          values[Math.max(i - 1, 0)],
+          values[i],
+          values[i + 1],
+          values[Math.min(i + 2, last)],
+          k
+        );
+      } else {
+        result[name] = values[i] + k * (values[i + 1] - values[i]);
+      }
+    }
+
+    return result;
+  }
+  /**
+   * Starts or resumes playback from the current time. Playback starts over
+   * when the end has been reached.
+   *
+   * @param {CameraPathTarget} target The scene or viewer on which to play.
+   * @param {function} [done] Function to call when the end is reached or
+   *     playback is stopped with {@link CameraPath#stop}.
+   */
+  play(target: CameraPathTarget, done?: () => void) {
+    this.#halt();
+    if (this.#time >= this.#duration && !this.#loop) {
+      this.#time = 0;
+    }
+    this.#target = target;
+    this.#done = done || null;
+    this.#start();
+    this.emit('play');
+  }
+  /**
+   * Pauses playback at the current time.
+   */
+  pause() {
+    if (this.#halt()) {
+      this.emit('pause');
+    }
+  }
+  /**
+   * Resumes paused playback on the same scene or viewer.
+   */
+  resume() {
+    if (!this.#movement && this.#target) {
+      this.#start();
+      this.emit('play');
+    }
+  }
+  /**
+   * Stops playback and rewinds to the start. Calls the completion callback
+   * passed into {@link CameraPath#play}.
+   */
+  stop() {
+    const done = this.#done;
+    this.#halt();
+    this.#time = 0;
+    this.#done = null;
+    if (done) {
+      done();
+    }
+  }
+  /**
+   * Moves playback to the given time, updating the view. Playback continues
+   * from the new time if the path is playing.
+   *
+   * @param {number} time The time in milliseconds, clamped to the duration.
+   */
+  seek(time: number) {
+    this.#time = Math.max(0, Math.min(time, this.#duration));
+    if (this.#movement) {
+      this.#start();
+    } else if (this.#target) {
+      const view = this.#target.view();
+      const params = view.parameters() as CameraPathParams;
+      view.setParameters(this.sample(this.#time, params));
+    }
+  }
+  // Starts a movement playing from the current time, replacing the current
+  // one, if any.
+  #start() {
+    const target = this.#target as CameraPathTarget;
+
+    const movement = this.#createMovement(this.#time);
+    this.#movement = movement;
+    target.startMovement(movement, () => {
+      this.#handleMovementEnd(movement);
+    });
+  }
+  // Stops the current movement. Returns whether the path was playing.
+  #halt() {
+    const movement = this.#movement;
+    if (!movement) {
+      return false;
+    }
+    this.#movement = null;
+    const target = this.#target as CameraPathTarget;
+    if (target.movement() === movement) {
+      target.stopMovement();
+    }
+    return true;
+  }
+  #handleMovementEnd(movement: Function) {
+    if (movement !== this.#movement) {
+      // Stopped by the path itself.
+      return;
+    }
+    this.#movement = null;
+
+    if (this.#time >= this.#duration && !(this.#loop && this.#duration > 0)) {
+      const done = this.#done;
+      this.#done = null;
+      this.emit('end');
+      if (done) {
+        done();
+      }
+    } else {
+      // Interrupted by another movement.
+      this.emit('pause');
+    }
+  }
+  #createMovement(startTime: number) {
+    return () => {
+      let lastElapsed = 0;
+      let first = true;
+      let finished = false;
+
+      return (params, elapsed) => {
+        if (finished) {
+          return null;
+        }
+
+        const duration = this.#duration;
+        const loop = this.#loop && duration > 0;
+        const from = this.#time;
+        let to = from + (elapsed - lastElapsed);
+        lastElapsed = elapsed;
+
+        if (first) {
+          // Include the keyframes at the starting time.
+          this.#emitKeyframes(startTime, startTime, true);
+          first = false;
+        }
+
+        if (to >= duration && loop) {
+          // Wrap around, possibly more than once after a long frame.
+          this.#emitKeyframes(from, duration, false);
+          to = to % duration;
+          this.#emitKeyframes(0, to, true);
+        } else if (to >= duration) {
+          to = duration;
+          this.#emitKeyframes(from, to, false);
+          // Apply the final parameters, then finish on the next frame.
+          finished = true;
+        } else {
+          this.#emitKeyframes(from, to, false);
+        }
+
+        this.#time = to;
+        return this.sample(to, params);
+      };
+    };
+  }
+  // Emits the keyframe events for the keyframes within the given time range.
+  #emitKeyframes(from: number, to: number, includeFrom: boolean) {
+    const keyframes = this.#keyframes;
+    for (let i = 0; i < keyframes.length; i++) {
+      const time = keyframes[i].time;
+      if ((time > from || (includeFrom && time === from)) && time <= to) {
+        this.emit('keyframe', i, keyframes[i]);
+      }
+    }
+  }
+  emit(_arg0: string, ..._args: any[]) {
+    throw new Error('Method not implemented.');
+  }
+  addEventListener(_arg0: string, _arg1: Function) {
+    throw new Error('Method not implemented.');
+  }
+  removeEventListener(_arg0: string, _arg1: Function) {
+    throw new Error('Method not implemented.');
+  }
+}
+
+eventEmitter(CameraPath);
+
+// Returns the value of each parameter at each keyframe, filling in the values
+// absent from a keyframe from the previous keyframe, or from the next one for
+// the leading keyframes. Parameters absent from every keyframe are omitted.
+function resolveValues(keyframes: CameraKeyframe[]) {
+  const result: { [name: string]: number[] } = {};
+  for (const name of paramNames) {
+    const values: number[] = [];
+    let current: number | undefined;
+    for (let i = 0; i < keyframes.length; i++) {
+      const value = keyframes[i][name];
+      if (value != null) {
+        if (current == null) {
+          // Fill in the leading keyframes.
+          for (let j = 0; j < i; j++) {
+            values[j] = value;
+          }
+        }
+        current = value;
+      }
+      if (current != null) {
+        values[i] = current;
+      }
+    }
+    if (current != null) {
+      result[name] = values;
+    }
+  }
+  return result;
+}
+
+export default CameraPath;
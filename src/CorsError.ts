@@ -0,0 +1,14 @@
+import NetworkError from './NetworkError';
+
+/**
+ * @class CorsError
+ * @extends {NetworkError}
+ * @classdesc
+ *
+ * Signals that a cross-origin request was blocked because the response did not
+ * allow it, i.e., the server is reachable but does not send the required CORS
+ * headers.
+ */
+class CorsError extends NetworkError {}
+
+export default CorsError;
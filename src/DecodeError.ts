@@ -0,0 +1,18 @@
+/**
+ * @class DecodeError
+ * @extends {Error}
+ * @classdesc
+ *
+ * Signals that the data fetched by a {@link Loader loader} could not be decoded
+ * into an image, e.g. because it is corrupt or in an unsupported format.
+ */
+class DecodeError extends Error {
+  constructor(...args: ConstructorParameters<typeof Error>) {
+    super(...args);
+    if (typeof args[0] === 'string') {
+      this.message = args[0];
+    }
+  }
+}
+
+export default DecodeError;
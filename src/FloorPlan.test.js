@@ -0,0 +1,142 @@
+import { suite, test, assert, beforeEach, afterEach } from 'vitest';
+import sinon from 'sinon';
+
+import eventEmitter from 'minimal-event-emitter';
+
+import FloorPlan from './FloorPlan';
+import RectilinearView from './views/Rectilinear';
+
+class MockViewer {
+  constructor(scenes) {
+    this.scenes = scenes;
+    this.current = scenes[0];
+    this.switchScene = sinon.spy((scene) => {
+      this.current = scene;
+      this.emit('sceneChange');
+      this.emit('viewChange');
+    });
+  }
+  scene() {
+    return this.current;
+  }
+  view() {
+    return this.current.view();
+  }
+  hasScene(scene) {
+    return this.scenes.indexOf(scene) >= 0;
+  }
+}
+
+eventEmitter(MockViewer);
+
+function MockScene() {
+  var view = new RectilinearView({ yaw: 0, pitch: 0, fov: Math.PI / 2 });
+  view.setSize({ width: 100, height: 100 });
+  this.view = sinon.stub().returns(view);
+  this.northOffset = sinon.stub().returns(0);
+}
+
+suite('FloorPlan', function () {
+  var element, scenes, viewer, plan;
+
+  beforeEach(function () {
+    element = document.createElement('div');
+    scenes = [new MockScene(), new MockScene(), new MockScene()];
+    viewer = new MockViewer(scenes);
+    plan = new FloorPlan(viewer, {
+      element: element,
+      image: 'plan.png',
+      anchors: [
+        { scene: scenes[0], x: 0.25, y: 0.5 },
+        { scene: scenes[1], x: 0.75, y: 0.5, northOffset: Math.PI / 2 },
+      ],
+    });
+  });
+
+  afterEach(function () {
+    plan.destroy();
+  });
+
+  test('places anchors', function () {
+    assert.strictEqual(element.firstChild, plan.domElement());
+    assert.equal(plan.domElement().querySelector('img').src, 'plan.png');
+
+    var anchor = plan.anchorElement(scenes[1]);
+    assert.equal(anchor.style.left, '75%');
+    assert.equal(anchor.style.top, '50%');
+    assert.isTrue(
+      plan
+        .anchorElement(scenes[0])
+        .classList.contains('floor-plan-anchor-current')
+    );
+    assert.isFalse(anchor.classList.contains('floor-plan-anchor-current'));
+    assert.isNull(plan.anchorElement(scenes[2]));
+  });
+
+  test('manages anchors', function () {
+    assert.throws(function () {
+      plan.addAnchor({ scene: scenes[0], x: 0, y: 0 });
+    });
+    plan.addAnchor({ scene: scenes[2], x: 0.5, y: 0.1, label: 'Kitchen' });
+    assert.isTrue(plan.hasAnchor(scenes[2]));
+    assert.equal(plan.anchorElement(scenes[2]).title, 'Kitchen');
+    assert.lengthOf(plan.listAnchors(), 3);
+
+    plan.removeAnchor(scenes[2]);
+    assert.isFalse(plan.hasAnchor(scenes[2]));
+    assert.lengthOf(
+      plan.domElement().querySelectorAll('.floor-plan-anchor'),
+      2
+    );
+    assert.throws(function () {
+      plan.removeAnchor(scenes[2]);
+    });
+  });
+
+  test('follows the view heading', function () {
+    var cone = plan.cone();
+    assert.equal(cone.style.display, 'block');
+    assert.equal(cone.style.left, '25%');
+    assert.closeTo(plan.heading(), 0, 1e-9);
+
+    scenes[0].view().setYaw(0.5);
+    viewer.emit('viewChange');
+    assert.closeTo(plan.heading(), 0.5, 1e-9);
+    assert.include(cone.style.transform, 'rotate(0.5rad)');
+
+    // A 90 degree cone spans from the top left to the top right diagonal.
+    var path = cone.querySelector('path').getAttribute('d');
+    assert.equal(path, 'M 40 40 L 11.72 11.72 A 40 40 0 0 1 68.28 11.72 Z');
+  });
+
+  test('switches scenes on anchor clicks', function () {
+    var spy = sinon.spy();
+    plan.addEventListener('anchorClick', spy);
+
+    plan.anchorElement(scenes[1]).dispatchEvent(new Event('click'));
+    assert.isTrue(spy.calledOnceWith(scenes[1]));
+    assert.isTrue(viewer.switchScene.calledOnceWith(scenes[1]));
+
+    // The cone moves to the new anchor, accounting for its north offset.
+    assert.equal(plan.cone().style.left, '75%');
+    assert.closeTo(plan.heading(), -Math.PI / 2, 1e-9);
+    assert.isTrue(
+      plan
+        .anchorElement(scenes[1])
+        .classList.contains('floor-plan-anchor-current')
+    );
+  });
+
+  test('defaults to the scene north offset', function () {
+    scenes[2].northOffset.returns(1);
+    plan.addAnchor({ scene: scenes[2], x: 0.5, y: 0.5 });
+    viewer.switchScene(scenes[2]);
+    assert.closeTo(plan.heading(), -1, 1e-9);
+  });
+
+  test('hides the cone for scenes without an anchor', function () {
+    viewer.switchScene(scenes[2]);
+    assert.equal(plan.cone().style.display, 'none');
+    assert.isNull(plan.heading());
+  });
+});
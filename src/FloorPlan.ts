@@ -0,0 +1,350 @@
+import eventEmitter from 'minimal-event-emitter';
+import Scene from './Scene';
+import Viewer, { SwitchSceneOptions } from './Viewer';
+import clearOwnProperties from './util/clearOwnProperties';
+import { vtoh } from './util/convertFov';
+import { setAbsolute, setTransform } from './util/dom';
+
+const svgNamespace = 'http://www.w3.org/2000/svg';
+
+/**
+ * The position of a scene on a {@link FloorPlan}.
+ */
+export interface FloorPlanAnchor {
+  scene: Scene;
+  /**
+   * Horizontal position, as a fraction of the plan width from the left.
+   */
+  x: number;
+  /**
+   * Vertical position, as a fraction of the plan height from the top.
+   */
+  y: number;
+  /**
+   * The yaw, in radians, of the scene view when facing the top of the plan.
+   * Defaults to the {@link Scene#northOffset north offset} of the scene.
+   */
+  northOffset?: number;
+  /**
+   * Text shown when hovering the anchor.
+   */
+  label?: string;
+}
+
+export interface FloorPlanOptions {
+  /**
+   * Element into which the plan is placed.
+   */
+  element: HTMLElement;
+  /**
+   * The plan image, or its URL.
+   */
+  image: HTMLImageElement | string;
+  anchors?: FloorPlanAnchor[];
+  /**
+   * Radius of the heading cone in pixels. Defaults to 40.
+   */
+  coneRadius?: number;
+  /**
+   * Fill color of the heading cone. Defaults to a translucent yellow.
+   */
+  coneColor?: string;
+  /**
+   * Options for the scene switch on anchor clicks, or false not to switch.
+   */
+  switchScene?: SwitchSceneOptions | false;
+  /**
+   * Creates the element for an anchor. The default element is a round `div`
+   * with the `floor-plan-anchor` class.
+   */
+  createAnchorElement?: (anchor: FloorPlanAnchor) => HTMLElement;
+}
+
+/**
+ * Signals that an anchor has been clicked.
+ * @event FloorPlan#anchorClick
+ * @param {Scene} scene
+ */
+
+/**
+ * @class FloorPlan
+ * @classdesc
+ *
+ * A minimap displaying the position of {@link Scene scenes} on a floor plan
+ * image, with a cone showing the heading and horizontal field of view of the
+ * current scene.
+ *
+ * Each scene is shown as an anchor element, positioned as a fraction of the
+ * plan size so that the plan may be freely resized. The anchor of the current
+ * scene has the `floor-plan-anchor-current` class. Clicking an anchor switches
+ * to its scene.
+ *
+ * The heading is measured from the top of the plan, and the `northOffset` of
+ * an anchor gives the yaw of its scene when facing the top of the plan. The
+ * plan follows the current scene of the {@link Viewer}, which changes at the
+ * start of a scene transition.
+ *
+ * @param {Viewer} viewer
+ * @param {FloorPlanOptions} opts
+ */
+class FloorPlan {
+  #viewer: Viewer;
+  #element: HTMLElement;
+  #domElement: HTMLElement;
+  #image: HTMLImageElement;
+  #cone: SVGSVGElement;
+  #conePath: SVGPathElement;
+  #coneRadius: number;
+  #switchScene: SwitchSceneOptions | false;
+  #createAnchorElement: (anchor: FloorPlanAnchor) => HTMLElement;
+  #anchors: FloorPlanAnchor[];
+  #anchorElements: Map<Scene, HTMLElement>;
+  #updateHandler: () => void;
+
+  constructor(viewer: Viewer, opts: FloorPlanOptions) {
+    if (!opts || !opts.element || !opts.image) {
+      throw new Error('FloorPlan requires an element and an image');
+    }
+
+    this.#viewer = viewer;
+    this.#element = opts.element;
+    this.#coneRadius = opts.coneRadius != null ? opts.coneRadius : 40;
+    this.#switchScene = opts.switchScene != null ? opts.switchScene : {};
+    this.#createAnchorElement =
+      opts.createAnchorElement || defaultAnchorElement;
+
+    this.#domElement = document.createElement('div');
+    this.#domElement.className = 'floor-plan';
+    this.#domElement.style.position = 'relative';
+
+    if (typeof opts.image === 'string') {
+      this.#image = document.createElement('img');
+      this.#image.src = opts.image;
+    } else {
+      this.#image = opts.image;
+    }
+    this.#image.style.display = 'block';
+    this.#image.style.width = '100%';
+    this.#domElement.appendChild(this.#image);
+
+    // The cone is drawn pointing up, and rotated around its apex.
+    const size = 2 * this.#coneRadius;
+    this.#cone = document.createElementNS(svgNamespace, 'svg');
+    this.#cone.setAttribute('class', 'floor-plan-cone');
+    this.#cone.setAttribute('width', String(size));
+    this.#cone.setAttribute('height', String(size));
+    setAbsolute(this.#cone);
+    this.#cone.style.marginLeft = this.#cone.style.marginTop =
+      -this.#coneRadius + 'px';
+    this.#cone.style.pointerEvents = 'none';
+    this.#conePath = document.createElementNS(svgNamespace, 'path');
+    this.#conePath.setAttribute(
+      'fill',
+      opts.coneColor || 'rgba(255, 204, 0, 0.5)'
+    );
+    this.#cone.appendChild(this.#conePath);
+    this.#domElement.appendChild(this.#cone);
+
+    this.#anchors = [];
+    this.#anchorElements = new Map();
+
+    this.#element.appendChild(this.#domElement);
+
+    this.#updateHandler = this.update.bind(this);
+    this.#viewer.addEventListener('sceneChange', this.#updateHandler);
+    this.#viewer.addEventListener('viewChange', this.#updateHandler);
+
+    for (const anchor of opts.anchors || []) {
+      this.addAnchor(anchor);
+    }
+    this.update();
+  }
+  /**
+   * Destructor. Removes the plan from its element.
+   */
+  destroy() {
+    this.#viewer.removeEventListener('sceneChange', this.#updateHandler);
+    this.#viewer.removeEventListener('viewChange', this.#updateHandler);
+    this.#element.removeChild(this.#domElement);
+    clearOwnProperties(this);
+  }
+  /**
+   * Returns the element holding the plan image, anchors and cone.
+   * @return {HTMLElement}
+   */
+  domElement() {
+    return this.#domElement;
+  }
+  /**
+   * Returns the cone element.
+   * @return {SVGSVGElement}
+   */
+  cone() {
+    return this.#cone;
+  }
+  /**
+   * Adds an anchor for a scene.
+   * @param {FloorPlanAnchor} anchor
+   * @throws An error if the scene already has an anchor.
+   */
+  addAnchor(anchor: FloorPlanAnchor) {
+    const scene = anchor.scene;
+    if (this.#anchorElements.has(scene)) {
+      throw new Error('Scene already has an anchor');
+    }
+    anchor = Object.assign({}, anchor);
+
+    const element = this.#createAnchorElement(anchor);
+    setAbsolute(element);
+    element.style.left = anchor.x * 100 + '%';
+    element.style.top = anchor.y * 100 + '%';
+    if (anchor.label != null) {
+      element.title = anchor.label;
+    }
+    element.addEventListener('click', () => {
+      this.#handleAnchorClick(scene);
+    });
+    // Keep the cone over the anchors.
+    this.#domElement.insertBefore(element, this.#cone);
+
+    this.#anchors.push(anchor);
+    this.#anchorElements.set(scene, element);
+    this.update();
+  }
+  /**
+   * Removes the anchor of a scene.
+   * @param {Scene} scene
+   * @throws An error if the scene has no anchor.
+   */
+  removeAnchor(scene: Scene) {
+    const element = this.#anchorElements.get(scene);
+    if (!element) {
+      throw new Error('No such anchor');
+    }
+    this.#domElement.removeChild(element);
+    this.#anchorElements.delete(scene);
+    this.#anchors = this.#anchors.filter((anchor) => anchor.scene !== scene);
+    this.update();
+  }
+  hasAnchor(scene: Scene) {
+    return this.#anchorElements.has(scene);
+  }
+  listAnchors() {
+    return this.#anchors.map((anchor) => Object.assign({}, anchor));
+  }
+  /**
+   * Returns the element of the anchor of a scene.
+   * @param {Scene} scene
+   * @return {?HTMLElement}
+   */
+  anchorElement(scene: Scene) {
+    return this.#anchorElements.get(scene) || null;
+  }
+  /**
+   * Returns the heading of the current scene view, in radians clockwise from
+   * the top of the plan, or null if the current scene has no anchor or is not
+   * displayed with a {@link RectilinearView}.
+   * @return {?number}
+   */
+  heading() {
+    const anchor = this.#currentAnchor();
+    const view: any = this.#viewer.view();
+    if (!anchor || !view || typeof view.yaw !== 'function') {
+      return null;
+    }
+    const northOffset =
+      anchor.northOffset != null
+        ? anchor.northOffset
+        : anchor.scene.northOffset();
+    return view.yaw() - northOffset;
+  }
+  /**
+   * Updates the anchors and cone to the current scene and view. Called
+   * automatically when the viewer scene or view changes.
+   */
+  update() {
+    const current = this.#viewer.scene();
+    this.#anchorElements.forEach((element, scene) => {
+      element.classList.toggle('floor-plan-anchor-current', scene === current);
+    });
+
+    const anchor = this.#currentAnchor();
+    const heading = this.heading();
+    const view: any = this.#viewer.view();
+    if (!anchor || heading == null) {
+      this.#cone.style.display = 'none';
+      return;
+    }
+    this.#cone.style.display = 'block';
+    this.#cone.style.left = anchor.x * 100 + '%';
+    this.#cone.style.top = anchor.y * 100 + '%';
+    setTransform(this.#cone, 'rotate(' + heading + 'rad)');
+
+    const fov =
+      view.width() > 0 && view.height() > 0
+        ? vtoh(view.fov(), view.width(), view.height())
+        : view.fov();
+    this.#conePath.setAttribute('d', conePathData(this.#coneRadius, fov));
+  }
+  #currentAnchor() {
+    const current = this.#viewer.scene();
+    return this.#anchors.find((anchor) => anchor.scene === current) || null;
+  }
+  #handleAnchorClick(scene: Scene) {
+    this.emit('anchorClick', scene);
+    if (this.#switchScene !== false && this.#viewer.hasScene(scene)) {
+      this.#viewer.switchScene(scene, this.#switchScene);
+    }
+  }
+  emit(_arg0: string, ..._args: any[]) {
+    throw new Error('Method not implemented.');
+  }
+  addEventListener(_arg0: string, _arg1: Function) {
+    throw new Error('Method not implemented.');
+  }
+  removeEventListener(_arg0: string, _arg1: Function) {
+    throw new Error('Method not implemented.');
+  }
+}
+
+eventEmitter(FloorPlan);
+
+function defaultAnchorElement() {
+  const element = document.createElement('div');
+  element.className = 'floor-plan-anchor';
+  element.style.width = element.style.height = '12px';
+  element.style.margin = '-6px 0 0 -6px';
+  element.style.borderRadius = '50%';
+  element.style.boxSizing = 'border-box';
+  element.style.border = '2px solid #fff';
+  element.style.background = '#333';
+  element.style.cursor = 'pointer';
+  return element;
+}
+
+// Returns the SVG path of a circular sector with its apex at the center of a
+// square of side 2 * radius, pointing up.
+function conePathData(radius: number, fov: number) {
+  const half = Math.min(fov, 2 * Math.PI - 1e-3) / 2;
+  const dx = radius * Math.sin(half);
+  const dy = radius * Math.cos(half);
+  return [
+    'M',
+    radius,
+    radius,
+    'L',
+    (radius - dx).toFixed(2),
+    (radius - dy).toFixed(2),
+    'A',
+    radius,
+    radius,
+    0,
+    half > Math.PI / 2 ? 1 : 0,
+    1,
+    (radius + dx).toFixed(2),
+    (radius - dy).toFixed(2),
+    'Z',
+  ].join(' ');
+}
+
+export default FloorPlan;
@@ -11,6 +11,9 @@ export interface Perspective {
 }
 export interface HotspotOptions {
   perspective?: Perspective;
+  minFov?: number | null;
+  maxFov?: number | null;
+  priority?: number;
 }
 
 export type HotspotCoords = RectilinearViewCoords | FlatViewCoords;
@@ -51,6 +54,13 @@ export type HotspotCoords = RectilinearViewCoords | FlatViewCoords;
  * @param {string} [opts.perspective.extraTransforms=null] If set, append this
  *     value to the CSS `transform` property used to position the hotspot. This
  *     may be used to rotate an embedded hotspot.
+ * @param {number} [opts.minFov=null] If set, the hotspot is only displayed
+ *     when the view field of view is at least this value, in radians. Ignored
+ *     for views without a field of view.
+ * @param {number} [opts.maxFov=null] If set, the hotspot is only displayed
+ *     when the view field of view is at most this value, in radians.
+ * @param {number} [opts.priority=0] When the {@link HotspotContainer} avoids
+ *     collisions, hotspots with a higher priority are kept over the others.
  */
 class Hotspot {
   #domElement: HTMLElement;
@@ -59,6 +69,10 @@ class Hotspot {
   #coords: HotspotCoords;
   #perspective: Perspective;
   #visible: boolean;
+  #suppressed: boolean;
+  #minFov: number | null;
+  #maxFov: number | null;
+  #priority: number;
   #position: { x: number; y: number };
 
   constructor(
@@ -86,6 +100,14 @@ class Hotspot {
     this.#coords = {} as HotspotCoords;
     this.#perspective = {} as Perspective;
 
+    this.#minFov = opts.minFov != null ? opts.minFov : null;
+    this.#maxFov = opts.maxFov != null ? opts.maxFov : null;
+    this.#priority = opts.priority != null ? opts.priority : 0;
+
+    // Whether the hotspot is hidden by the container layout, i.e., clustered
+    // or colliding with another hotspot.
+    this.#suppressed = false;
+
     this.setPosition(coords);
 
     // Add hotspot into the DOM.
@@ -131,6 +153,82 @@ class Hotspot {
     }
     this.update();
   }
+  /**
+   * Returns the field of view range in which the hotspot is displayed, with
+   * null for an unbounded end.
+   * @return {{min: ?number, max: ?number}}
+   */
+  fovRange() {
+    return { min: this.#minFov, max: this.#maxFov };
+  }
+  /**
+   * Sets the field of view range in which the hotspot is displayed.
+   * @param {?number} minFov The minimum field of view in radians, or null.
+   * @param {?number} maxFov The maximum field of view in radians, or null.
+   */
+  setFovRange(minFov: number | null, maxFov: number | null) {
+    this.#minFov = minFov;
+    this.#maxFov = maxFov;
+    this.update();
+  }
+  /**
+   * Returns whether the view field of view is within the hotspot range.
+   * Always true for views without a field of view.
+   * @return {boolean}
+   */
+  inFovRange() {
+    const view = this.#view;
+    if (typeof view.fov !== 'function') {
+      return true;
+    }
+    const fov = view.fov();
+    return (
+      (this.#minFov == null || fov >= this.#minFov) &&
+      (this.#maxFov == null || fov <= this.#maxFov)
+    );
+  }
+  /**
+   * Returns the hotspot priority.
+   * @return {number}
+   */
+  priority() {
+    return this.#priority;
+  }
+  /**
+   * Sets the hotspot priority, used by the {@link HotspotContainer} to
+   * resolve collisions.
+   * @param {number} priority
+   */
+  setPriority(priority: number) {
+    this.#priority = priority;
+  }
+  /**
+   * Returns whether the hotspot is visible, i.e., it has not been hidden with
+   * {@link Hotspot#hide}. It may still not be displayed for other reasons.
+   * @return {boolean}
+   */
+  visible() {
+    return this.#visible;
+  }
+  /**
+   * Returns whether the hotspot is hidden by the {@link HotspotContainer}
+   * layout, i.e., it belongs to a cluster or collides with another hotspot.
+   * @return {boolean}
+   */
+  suppressed() {
+    return this.#suppressed;
+  }
+  /**
+   * Sets whether the hotspot is hidden by the {@link HotspotContainer} layout.
+   * Clients should call {@link Hotspot#hide} instead.
+   * @param {boolean} suppressed
+   */
+  setSuppressed(suppressed: boolean) {
+    if (this.#suppressed !== suppressed) {
+      this.#suppressed = suppressed;
+      this.update();
+    }
+  }
   /**
    * Show the hotspot
    */
@@ -158,7 +256,7 @@ class Hotspot {
 
     let isVisible = false;
 
-    if (this.#visible) {
+    if (this.#visible && !this.#suppressed && this.inFovRange()) {
       const view = this.#view;
 
       if (this.#perspective.radius) {
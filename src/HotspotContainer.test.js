@@ -0,0 +1,257 @@
+import { suite, test, assert, beforeEach, afterEach } from 'vitest';
+import sinon from 'sinon';
+
+import eventEmitter from 'minimal-event-emitter';
+
+import HotspotContainer from './HotspotContainer';
+import RectilinearView from './views/Rectilinear';
+
+class MockRenderLoop {}
+
+eventEmitter(MockRenderLoop);
+
+function MockStage() {
+  this.width = sinon.stub().returns(200);
+  this.height = sinon.stub().returns(100);
+}
+
+// An element with the given size, or no size while hidden with
+// `display: none`, as laid out by a browser.
+function hotspotElement(width, height) {
+  var element = document.createElement('div');
+  Object.defineProperty(element, 'offsetWidth', {
+    get: function () {
+      return element.style.display === 'none' ? 0 : width;
+    },
+  });
+  Object.defineProperty(element, 'offsetHeight', {
+    get: function () {
+      return element.style.display === 'none' ? 0 : height;
+    },
+  });
+  return element;
+}
+
+function isDisplayed(hotspot) {
+  return hotspot.domElement().style.display !== 'none';
+}
+
+suite('HotspotContainer', function () {
+  var parent, view, renderLoop, container;
+
+  beforeEach(function () {
+    parent = document.createElement('div');
+    view = new RectilinearView({ yaw: 0, pitch: 0, fov: 1 });
+    view.setSize({ width: 200, height: 100 });
+    renderLoop = new MockRenderLoop();
+    container = new HotspotContainer(parent, new MockStage(), view, renderLoop);
+  });
+
+  afterEach(function () {
+    container.destroy();
+  });
+
+  function clusterElements() {
+    return container.domElement().querySelectorAll('.hotspot-cluster');
+  }
+
+  test('displays hotspots within their field of view range', function () {
+    var hotspot = container.createHotspot(
+      hotspotElement(10, 10),
+      { yaw: 0, pitch: 0 },
+      { minFov: 0.5, maxFov: 1.2 }
+    );
+    renderLoop.emit('afterRender');
+    assert.isTrue(isDisplayed(hotspot));
+
+    view.setFov(1.5);
+    renderLoop.emit('afterRender');
+    assert.isFalse(isDisplayed(hotspot));
+
+    view.setFov(0.4);
+    renderLoop.emit('afterRender');
+    assert.isFalse(isDisplayed(hotspot));
+
+    hotspot.setFovRange(null, null);
+    assert.isTrue(isDisplayed(hotspot));
+  });
+
+  test('hides hotspots colliding with higher priority ones', function () {
+    container.setAvoidCollisions(true);
+    var low = container.createHotspot(
+      hotspotElement(30, 20),
+      { yaw: 0, pitch: 0 },
+      { priority: 1 }
+    );
+    var high = container.createHotspot(
+      hotspotElement(30, 20),
+      { yaw: 0.05, pitch: 0 },
+      { priority: 2 }
+    );
+    var apart = container.createHotspot(hotspotElement(30, 20), {
+      yaw: 0.5,
+      pitch: 0,
+    });
+
+    renderLoop.emit('afterRender');
+    assert.isFalse(isDisplayed(low));
+    assert.isTrue(low.suppressed());
+    assert.isTrue(isDisplayed(high));
+    assert.isTrue(isDisplayed(apart));
+
+    high.setPriority(0);
+    renderLoop.emit('afterRender');
+    assert.isTrue(isDisplayed(low));
+    assert.isFalse(isDisplayed(high));
+
+    container.setAvoidCollisions(false);
+    renderLoop.emit('afterRender');
+    assert.isTrue(isDisplayed(low));
+    assert.isTrue(isDisplayed(high));
+  });
+
+  test('keeps hotspots hidden by collisions hidden', function () {
+    container.setAvoidCollisions(true);
+    var low = container.createHotspot(hotspotElement(30, 20), {
+      yaw: 0,
+      pitch: 0,
+    });
+    container.createHotspot(
+      hotspotElement(30, 20),
+      { yaw: 0.05, pitch: 0 },
+      { priority: 1 }
+    );
+
+    renderLoop.emit('afterRender');
+    assert.isFalse(isDisplayed(low));
+    // The hidden hotspot has no size, but still collides.
+    assert.strictEqual(low.domElement().offsetWidth, 0);
+    renderLoop.emit('afterRender');
+    assert.isFalse(isDisplayed(low));
+  });
+
+  test('measures hotspots that were never displayed', function () {
+    container.setAvoidCollisions(true);
+    view.setYaw(Math.PI);
+    var low = container.createHotspot(hotspotElement(30, 20), {
+      yaw: 0,
+      pitch: 0,
+    });
+    container.createHotspot(
+      hotspotElement(30, 20),
+      { yaw: 0.05, pitch: 0 },
+      { priority: 1 }
+    );
+    renderLoop.emit('afterRender');
+    assert.isFalse(isDisplayed(low));
+
+    view.setYaw(0);
+    renderLoop.emit('afterRender');
+    assert.isFalse(isDisplayed(low));
+    assert.strictEqual(low.domElement().style.visibility, '');
+  });
+
+  test('ignores hidden hotspots for collisions', function () {
+    container.setAvoidCollisions(true);
+    var low = container.createHotspot(hotspotElement(30, 20), {
+      yaw: 0,
+      pitch: 0,
+    });
+    var high = container.createHotspot(
+      hotspotElement(30, 20),
+      { yaw: 0.05, pitch: 0 },
+      { priority: 1 }
+    );
+    high.hide();
+
+    renderLoop.emit('afterRender');
+    assert.isTrue(isDisplayed(low));
+  });
+
+  test('clusters nearby hotspots until zoomed in', function () {
+    container.setClustering({ radius: 40 });
+    var first = container.createHotspot(hotspotElement(10, 10), {
+      yaw: 0,
+      pitch: 0,
+    });
+    var second = container.createHotspot(hotspotElement(10, 10), {
+      yaw: 0.05,
+      pitch: 0,
+    });
+    var apart = container.createHotspot(hotspotElement(10, 10), {
+      yaw: 0.5,
+      pitch: 0,
+    });
+
+    renderLoop.emit('afterRender');
+    assert.lengthOf(clusterElements(), 1);
+    assert.equal(clusterElements()[0].textContent, '2');
+    assert.isFalse(isDisplayed(first));
+    assert.isFalse(isDisplayed(second));
+    assert.isTrue(isDisplayed(apart));
+
+    view.setFov(0.1);
+    renderLoop.emit('afterRender');
+    assert.lengthOf(clusterElements(), 0);
+    assert.isTrue(isDisplayed(first));
+    assert.isTrue(isDisplayed(second));
+  });
+
+  test('emits an event when a cluster is clicked', function () {
+    var spy = sinon.spy();
+    container.addEventListener('clusterClick', spy);
+    container.setClustering(true);
+    var first = container.createHotspot(hotspotElement(10, 10), {
+      yaw: 0,
+      pitch: 0,
+    });
+    var second = container.createHotspot(hotspotElement(10, 10), {
+      yaw: 0.05,
+      pitch: 0,
+    });
+
+    renderLoop.emit('afterRender');
+    var element = clusterElements()[0];
+    element.dispatchEvent(new Event('click'));
+
+    assert.isTrue(spy.calledOnce);
+    assert.sameMembers(spy.firstCall.args[0], [first, second]);
+    assert.strictEqual(spy.firstCall.args[1], element);
+  });
+
+  test('creates custom cluster elements', function () {
+    var createElement = sinon.spy(function () {
+      return document.createElement('span');
+    });
+    container.setClustering({ createElement: createElement });
+    container.createHotspot(hotspotElement(10, 10), { yaw: 0, pitch: 0 });
+    container.createHotspot(hotspotElement(10, 10), { yaw: 0.05, pitch: 0 });
+
+    renderLoop.emit('afterRender');
+    renderLoop.emit('afterRender');
+
+    // The element is reused while the cluster is unchanged.
+    assert.isTrue(createElement.calledOnce);
+    assert.lengthOf(createElement.firstCall.args[0], 2);
+    assert.lengthOf(container.domElement().querySelectorAll('span'), 1);
+
+    container.setClustering(false);
+    renderLoop.emit('afterRender');
+    assert.lengthOf(container.domElement().querySelectorAll('span'), 0);
+  });
+
+  test('does not cluster embedded hotspots', function () {
+    view.coordinatesToPerspectiveTransform = sinon.stub().returns('');
+    container.setClustering(true);
+    var embedded = container.createHotspot(
+      hotspotElement(10, 10),
+      { yaw: 0, pitch: 0 },
+      { perspective: { radius: 1000 } }
+    );
+    container.createHotspot(hotspotElement(10, 10), { yaw: 0.05, pitch: 0 });
+
+    renderLoop.emit('afterRender');
+    assert.lengthOf(clusterElements(), 0);
+    assert.isTrue(isDisplayed(embedded));
+  });
+});
@@ -33,11 +33,70 @@ import { RectSpec } from './jsdoc-extras';
 
 const setPointerEvents = setWithVendorPrefix('pointer-events');
 
+export interface HotspotClusterOptions {
+  /**
+   * Distance in pixels within which hotspots are grouped into the same
+   * cluster. Defaults to 40.
+   */
+  radius?: number;
+  /**
+   * Creates the element displayed for a cluster, centered on the cluster
+   * position. Defaults to a round badge with the number of hotspots.
+   */
+  createElement?: (hotspots: Hotspot[]) => HTMLElement;
+}
+
+export interface HotspotContainerOptions {
+  /**
+   * Rectangular region covered by the container. See {@link Effects#rect}.
+   */
+  rect?: RectSpec;
+  /**
+   * Whether to group hotspots close to each other on screen into clusters.
+   * Pass an object to customize the clusters.
+   */
+  cluster?: boolean | HotspotClusterOptions;
+  /**
+   * Whether to hide hotspots overlapping a hotspot or cluster with a higher
+   * {@link Hotspot#priority priority}.
+   */
+  avoidCollisions?: boolean;
+}
+
+// A hotspot or cluster displayed by the container layout.
+interface LayoutItem {
+  hotspots: Hotspot[];
+  x: number;
+  y: number;
+  priority: number;
+}
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+interface Cluster {
+  hotspots: Hotspot[];
+  element: HTMLElement;
+  clickHandler: () => void;
+}
+
+const defaultClusterRadius = 40;
+
 /**
  * Signals that a hotspot has been created or destroyed on the container.
  * @event HotspotContainer#hotspotsChange
  */
 
+/**
+ * Signals that a cluster has been clicked. Clients will typically zoom into the
+ * cluster position so that it expands into its hotspots.
+ * @event HotspotContainer#clusterClick
+ * @param {Hotspot[]} hotspots The hotspots in the cluster.
+ * @param {HTMLElement} element The cluster element.
+ */
+
 /**
  * @class HotspotContainer
  * @classdesc
@@ -45,15 +104,20 @@ const setPointerEvents = setWithVendorPrefix('pointer-events');
  * Creates a DOM element to hold {@link Hotspot hotspots} and updates their
  * position when necessary.
  *
+ * When many hotspots are close together, the container may group them into
+ * clusters, displayed as a single element with the number of hotspots, which
+ * expand as the view zooms in. It may also hide hotspots that overlap others
+ * with a higher {@link Hotspot#priority priority}. The layout is computed on
+ * every render from the hotspot screen positions and element sizes. Hotspots
+ * embedded with a perspective transform are never clustered nor hidden.
+ *
  * @param {Element} parentDomElement The DOM element inside which the container
  *     should be created.
  * @param {Stage} stage The underlying stage.
  * @param {View} view The view according to which the hotspots are positioned.
  * @param {RenderLoop} renderLoop The render loop indicating when the hotspots
  *     must be rendered.
- * @param {Object} opts
- * @param {RectSpec} opts.rect Rectangular region covered by the container. See
- *    {@link Effects#rect}.
+ * @param {HotspotContainerOptions} [opts]
  */
 class HotspotContainer {
   #parentDomElement: any;
@@ -62,11 +126,16 @@ class HotspotContainer {
   #renderLoop: any;
   #hotspots: Hotspot[];
   #visible: boolean;
-  #rect: RectSpec;
+  #rect: RectSpec | undefined;
   #visibilityOrRectChanged: boolean;
   #stageWidth: null;
   #stageHeight: null;
   #tmpRect: any;
+  #tmpScreen: { x: number; y: number };
+  #clusterOptions: HotspotClusterOptions | null;
+  #avoidCollisions: boolean;
+  #clusters: Map<Hotspot, Cluster>;
+  #sizes: WeakMap<HTMLElement, Size>;
   #hotspotContainerWrapper: HTMLElement;
   #hotspotContainer: HTMLElement;
   #updateHandler: () => void;
@@ -76,7 +145,7 @@ class HotspotContainer {
     stage: any,
     view: any,
     renderLoop: any,
-    opts?: { rect?: any } | undefined
+    opts?: HotspotContainerOptions
   ) {
     opts = opts || {};
 
@@ -101,8 +170,21 @@ class HotspotContainer {
     this.#stageWidth = null;
     this.#stageHeight = null;
 
-    // Temporary variable to hold the calculated position and size.
+    // Temporary variables to hold the calculated position and size.
     this.#tmpRect = {};
+    this.#tmpScreen = { x: 0, y: 0 };
+
+    // The layout options.
+    this.#clusterOptions = null;
+    this.#avoidCollisions = !!opts.avoidCollisions;
+    this.setClustering(opts.cluster || false);
+
+    // The displayed clusters, by the hotspot they are positioned at.
+    this.#clusters = new Map();
+
+    // The last measured size of the hotspot and cluster elements, as elements
+    // hidden with `display: none` have no size.
+    this.#sizes = new WeakMap();
 
     // Wrapper element. When the rect effect is set, the wrapper will have nonzero
     // dimensions and `pointer-events: none` so that hotspots outside the rect are
@@ -132,6 +214,8 @@ class HotspotContainer {
       this.destroyHotspot(this.#hotspots[0]);
     }
 
+    this.#updateClusters([]);
+
     this.#parentDomElement.removeChild(this.#hotspotContainerWrapper);
 
     this.#renderLoop.removeEventListener('afterRender', this.#updateHandler);
@@ -148,6 +232,38 @@ class HotspotContainer {
   rect() {
     return this.#rect;
   }
+  /**
+   * Returns the cluster options, or null if clustering is disabled.
+   * @return {?HotspotClusterOptions}
+   */
+  clustering() {
+    return this.#clusterOptions;
+  }
+  /**
+   * Enables or disables clustering.
+   * @param {boolean|HotspotClusterOptions} cluster True or the cluster options
+   *     to enable clustering, false to disable it.
+   */
+  setClustering(cluster: boolean | HotspotClusterOptions) {
+    this.#clusterOptions = cluster
+      ? Object.assign({}, cluster === true ? {} : cluster)
+      : null;
+  }
+  /**
+   * Returns whether hotspots overlapping others with a higher priority are
+   * hidden.
+   * @return {boolean}
+   */
+  avoidsCollisions() {
+    return this.#avoidCollisions;
+  }
+  /**
+   * Sets whether to hide hotspots overlapping others with a higher priority.
+   * @param {boolean} avoidCollisions
+   */
+  setAvoidCollisions(avoidCollisions: boolean) {
+    this.#avoidCollisions = avoidCollisions;
+  }
   /**
    * Creates a new hotspot in this container.
    *
@@ -179,7 +295,13 @@ class HotspotContainer {
 
     return hotspot;
   }
-  emit(_arg0: string) {
+  emit(_arg0: string, ..._args: any[]) {
+    throw new Error('Method not implemented.');
+  }
+  addEventListener(_arg0: string, _arg1: Function) {
+    throw new Error('Method not implemented.');
+  }
+  removeEventListener(_arg0: string, _arg1: Function) {
     throw new Error('Method not implemented.');
   }
   hasHotspot(hotspot: Hotspot) {
@@ -257,12 +379,261 @@ class HotspotContainer {
     }
 
     // Update hotspots unconditionally, as the view parameters may have changed.
+    this.#layout();
     for (let i = 0; i < this.#hotspots.length; i++) {
       this.#hotspots[i].update();
     }
   }
+  // Clusters hotspots and resolves collisions, suppressing the hotspots that
+  // should not be displayed.
+  #layout() {
+    const view = this.#view;
+    const screen = this.#tmpScreen;
+
+    if (!this.#clusterOptions && !this.#avoidCollisions) {
+      this.#updateClusters([]);
+      for (const hotspot of this.#hotspots) {
+        hotspot.setSuppressed(false);
+      }
+      return;
+    }
+
+    // Collect the hotspots displayed at a point, by decreasing priority.
+    const items: LayoutItem[] = [];
+    for (const hotspot of this.#hotspots) {
+      if (
+        hotspot.visible() &&
+        !hotspot.perspective().radius &&
+        hotspot.inFovRange() &&
+        view.coordinatesToScreen(hotspot.position(), screen)
+      ) {
+        items.push({
+          hotspots: [hotspot],
+          x: screen.x,
+          y: screen.y,
+          priority: hotspot.priority(),
+        });
+      }
+    }
+    // Array#sort is stable, so that hotspots with the same priority are laid
+    // out in creation order.
+    items.sort((a, b) => b.priority - a.priority);
+
+    let laidOut = items;
+    if (this.#clusterOptions) {
+      laidOut = clusterItems(
+        items,
+        this.#clusterOptions.radius != null
+          ? this.#clusterOptions.radius
+          : defaultClusterRadius
+      );
+    }
+
+    const clusters = laidOut.filter((item) => item.hotspots.length > 1);
+    this.#updateClusters(clusters);
+
+    const elements = laidOut.map((item) => {
+      const cluster =
+        item.hotspots.length > 1 ? this.#clusters.get(item.hotspots[0]) : null;
+      return cluster ? cluster.element : item.hotspots[0].domElement();
+    });
+    // Measure all the elements before changing their style, to avoid forcing a
+    // layout for each one.
+    const sizes = this.#avoidCollisions ? this.#measure(elements) : [];
+
+    // Hide clustered hotspots, and those overlapping others with a higher
+    // priority.
+    const suppressed = new Set<Hotspot>();
+    const placed: {
+      left: number;
+      top: number;
+      right: number;
+      bottom: number;
+    }[] = [];
+    for (let i = 0; i < laidOut.length; i++) {
+      const item = laidOut[i];
+      const cluster =
+        item.hotspots.length > 1 ? this.#clusters.get(item.hotspots[0]) : null;
+      if (this.#avoidCollisions) {
+        const box = cluster
+          ? centeredBox(sizes[i], item.x, item.y)
+          : cornerBox(sizes[i], item.x, item.y);
+        if (placed.some((other) => overlaps(box, other))) {
+          if (cluster) {
+            cluster.element.style.display = 'none';
+          }
+          item.hotspots.forEach((hotspot) => suppressed.add(hotspot));
+          continue;
+        }
+        placed.push(box);
+      }
+      if (cluster) {
+        cluster.element.style.display = '';
+        positionAbsolutely(
+          cluster.element,
+          item.x,
+          item.y,
+          'translate(-50%, -50%)'
+        );
+        item.hotspots.forEach((hotspot) => suppressed.add(hotspot));
+      }
+    }
+
+    for (const hotspot of this.#hotspots) {
+      hotspot.setSuppressed(suppressed.has(hotspot));
+    }
+  }
+  // Returns the size of the given elements. Elements hidden with
+  // `display: none` have no size, so the size they had when last displayed is
+  // used instead. Those never displayed are measured with `visibility: hidden`.
+  #measure(elements: HTMLElement[]) {
+    const unmeasured = elements.filter(
+      (element) => element.style.display === 'none' && !this.#sizes.has(element)
+    );
+    const styles = unmeasured.map((element) => ({
+      display: element.style.display,
+      visibility: element.style.visibility,
+    }));
+    unmeasured.forEach((element) => {
+      element.style.display = 'block';
+      element.style.visibility = 'hidden';
+    });
+
+    const sizes = elements.map((element) => {
+      const size = this.#sizes.get(element);
+      if (size && element.style.display === 'none') {
+        return size;
+      }
+      const width = element.offsetWidth;
+      const height = element.offsetHeight;
+      // Keep the last size while the whole container is hidden.
+      if (size && !width && !height) {
+        return size;
+      }
+      const measured = { width, height };
+      this.#sizes.set(element, measured);
+      return measured;
+    });
+
+    unmeasured.forEach((element, i) => {
+      element.style.display = styles[i].display;
+      element.style.visibility = styles[i].visibility;
+    });
+    return sizes;
+  }
+  // Creates, reuses or destroys cluster elements to match the given clusters.
+  #updateClusters(items: LayoutItem[]) {
+    const previous = this.#clusters;
+    const current = new Map<Hotspot, Cluster>();
+
+    for (const item of items) {
+      const seed = item.hotspots[0];
+      let cluster = previous.get(seed);
+      if (cluster && cluster.hotspots.length !== item.hotspots.length) {
+        this.#destroyCluster(cluster);
+        cluster = undefined;
+      }
+      if (cluster) {
+        cluster.hotspots = item.hotspots;
+        previous.delete(seed);
+      } else {
+        cluster = this.#createCluster(item.hotspots);
+      }
+      current.set(seed, cluster);
+    }
+
+    previous.forEach((cluster) => this.#destroyCluster(cluster));
+    this.#clusters = current;
+  }
+  #createCluster(hotspots: Hotspot[]) {
+    const createElement =
+      (this.#clusterOptions && this.#clusterOptions.createElement) ||
+      createClusterElement;
+    const element = createElement(hotspots);
+    element.style.position = 'absolute';
+    const cluster: Cluster = {
+      hotspots,
+      element,
+      clickHandler: () => {
+        this.emit('clusterClick', cluster.hotspots, element);
+      },
+    };
+    element.addEventListener('click', cluster.clickHandler);
+    this.#hotspotContainer.appendChild(element);
+    return cluster;
+  }
+  #destroyCluster(cluster: Cluster) {
+    cluster.element.removeEventListener('click', cluster.clickHandler);
+    this.#hotspotContainer.removeChild(cluster.element);
+  }
 }
 
 eventEmitter(HotspotContainer);
 
+// Groups items, sorted by decreasing priority, around the first item within
+// the given distance in pixels.
+function clusterItems(items: LayoutItem[], radius: number) {
+  const clusters: LayoutItem[] = [];
+  for (const item of items) {
+    const cluster = clusters.find((other) => {
+      const dx = item.x - other.x;
+      const dy = item.y - other.y;
+      return dx * dx + dy * dy <= radius * radius;
+    });
+    if (cluster) {
+      cluster.hotspots.push(item.hotspots[0]);
+    } else {
+      clusters.push(item);
+    }
+  }
+  return clusters;
+}
+
+// Hotspots are placed by their top left corner.
+function cornerBox(size: Size, x: number, y: number) {
+  return {
+    left: x,
+    top: y,
+    right: x + size.width,
+    bottom: y + size.height,
+  };
+}
+
+// Clusters are centered on their position.
+function centeredBox(size: Size, x: number, y: number) {
+  const width = size.width;
+  const height = size.height;
+  return {
+    left: x - width / 2,
+    top: y - height / 2,
+    right: x + width / 2,
+    bottom: y + height / 2,
+  };
+}
+
+function overlaps(
+  a: { left: number; top: number; right: number; bottom: number },
+  b: { left: number; top: number; right: number; bottom: number }
+) {
+  return (
+    a.left < b.right && b.left < a.right && a.top < b.bottom && b.top < a.bottom
+  );
+}
+
+function createClusterElement(hotspots: Hotspot[]) {
+  const element = document.createElement('div');
+  element.classList.add('hotspot-cluster');
+  element.textContent = String(hotspots.length);
+  element.style.width = '32px';
+  element.style.height = '32px';
+  element.style.borderRadius = '50%';
+  element.style.background = 'rgba(0, 0, 0, 0.7)';
+  element.style.color = '#fff';
+  element.style.font = 'bold 13px sans-serif';
+  element.style.lineHeight = '32px';
+  element.style.textAlign = 'center';
+  element.style.cursor = 'pointer';
+  return element;
+}
+
 export default HotspotContainer;
@@ -0,0 +1,31 @@
+/**
+ * @class HttpError
+ * @extends {Error}
+ * @classdesc
+ *
+ * Signals that a server responded to a request with an unsuccessful HTTP
+ * status, such as 404 or 503. Unlike a {@link NetworkError}, the server was
+ * reached.
+ *
+ * @param {string} message
+ * @param {number} status The HTTP status code.
+ */
+class HttpError extends Error {
+  status: number;
+  constructor(message: string, status: number) {
+    super(message);
+    this.message = message;
+    this.status = status;
+  }
+  /**
+   * Returns whether the failure is likely to be temporary, i.e., whether the
+   * status is 408 (Request Timeout), 429 (Too Many Requests) or a 5xx server
+   * error.
+   * @return {boolean}
+   */
+  isTransient() {
+    return this.status === 408 || this.status === 429 || this.status >= 500;
+  }
+}
+
+export default HttpError;
@@ -150,6 +150,19 @@ suite('Layer', function () {
     }
   });
 
+  test('stereo', function () {
+    var layer = new Layer(source, geometry, view, textureStore, {
+      stereo: { layout: 'top-bottom' },
+    });
+    var spy = sinon.spy();
+    layer.addEventListener('stereoChange', spy);
+    assert.deepEqual(layer.stereo(), { layout: 'top-bottom' });
+    var stereo = { layout: 'side-by-side', output: 'split' };
+    layer.setStereo(stereo);
+    assert.strictEqual(layer.stereo(), stereo);
+    assert.isTrue(spy.calledOnceWithExactly(stereo));
+  });
+
   test('view events', function () {
     var layer = new Layer(source, geometry, view, textureStore);
     var spy = sinon.spy();
@@ -19,6 +19,7 @@ import extend from './util/extend';
 import clearOwnProperties from './util/clearOwnProperties';
 import { Effects, Geometry, Source } from './jsdoc-extras';
 import TextureStore from './TextureStore';
+import { StereoOptions } from './stereo';
 
 /**
  * Signals that the layer has been rendered.
@@ -33,6 +34,9 @@ import TextureStore from './TextureStore';
  * and {@link TextureStore} that may be added into a {@link Stage} and rendered
  * with {@link Effects}.
  *
+ * A layer whose media packs the images for both eyes is rendered once per eye,
+ * as specified by its {@link StereoOptions}.
+ *
  */
 class Layer {
   #source: any;
@@ -40,6 +44,7 @@ class Layer {
   #view: any;
   #textureStore: any;
   #effects: any;
+  #stereo: StereoOptions;
   #fixedLevelIndex: null | number;
   #viewChangeHandler: () => void;
   #textureStoreChangeHandler: () => void;
@@ -49,7 +54,7 @@ class Layer {
     geometry: Geometry,
     view: any,
     textureStore: TextureStore,
-    opts?: { effects?: Effects }
+    opts?: { effects?: Effects; stereo?: StereoOptions }
   ) {
     opts = opts || {};
 
@@ -61,6 +66,7 @@ class Layer {
     this.#textureStore = textureStore;
 
     this.#effects = opts.effects || {};
+    this.#stereo = opts.stereo || {};
 
     this.#fixedLevelIndex = null;
 
@@ -170,6 +176,21 @@ class Layer {
     extend(this.#effects, effects);
     this.emit('effectsChange', this.#effects);
   }
+  /**
+   * Returns the currently set {@link StereoOptions stereo options}.
+   * @return {StereoOptions}
+   */
+  stereo(): StereoOptions {
+    return this.#stereo;
+  }
+  /**
+   * Sets the {@link StereoOptions stereo options}.
+   * @param {StereoOptions} stereo
+   */
+  setStereo(stereo: StereoOptions) {
+    this.#stereo = stereo;
+    this.emit('stereoChange', this.#stereo);
+  }
   /**
    * Returns the fixed level index.
    * @return {(number|null)}
@@ -0,0 +1,85 @@
+import { suite, test, assert } from 'vitest';
+import sinon from 'sinon';
+
+import LinkedViews from './LinkedViews';
+import RectilinearView from './views/Rectilinear';
+import FlatView from './views/Flat';
+
+suite('LinkedViews', function () {
+  test('syncs views to the first one', function () {
+    var view1 = new RectilinearView({ yaw: 0.1, pitch: 0.2, fov: 1 });
+    var view2 = new RectilinearView();
+    new LinkedViews([view1, view2]);
+    assert.closeTo(view2.yaw(), 0.1, 1e-9);
+    assert.closeTo(view2.pitch(), 0.2, 1e-9);
+    assert.strictEqual(view2.fov(), 1);
+  });
+
+  test('propagates changes in the same frame', function () {
+    var view1 = new RectilinearView();
+    var view2 = new RectilinearView();
+    var view3 = new RectilinearView();
+    new LinkedViews([view1, view2, view3]);
+    var spy = sinon.spy();
+    view1.addEventListener('change', spy);
+
+    view2.setYaw(0.5);
+    assert.closeTo(view1.yaw(), 0.5, 1e-9);
+    assert.closeTo(view3.yaw(), 0.5, 1e-9);
+    // The change does not loop back.
+    assert.isTrue(spy.calledOnce);
+  });
+
+  test('links selected parameters', function () {
+    var view1 = new RectilinearView();
+    var view2 = new RectilinearView();
+    new LinkedViews([view1, view2], { parameters: ['yaw'] });
+    view1.setParameters({ yaw: 0.5, pitch: 0.3 });
+    assert.closeTo(view2.yaw(), 0.5, 1e-9);
+    assert.strictEqual(view2.pitch(), 0);
+  });
+
+  test('offsets', function () {
+    var view1 = new RectilinearView();
+    var view2 = new RectilinearView();
+    var linked = new LinkedViews([view1]);
+    linked.add(view2, { yaw: 0.2 });
+    assert.closeTo(view2.yaw(), 0.2, 1e-9);
+
+    view2.setYaw(0.5);
+    assert.closeTo(view1.yaw(), 0.3, 1e-9);
+
+    linked.setOffsets(view2, { yaw: -0.1 });
+    assert.deepEqual(linked.offsets(view2), { yaw: -0.1 });
+    assert.closeTo(view2.yaw(), 0.2, 1e-9);
+  });
+
+  test('flat views', function () {
+    var view1 = new FlatView({ mediaAspectRatio: 1, x: 0.3, zoom: 0.5 });
+    var view2 = new FlatView({ mediaAspectRatio: 1 });
+    new LinkedViews([view1, view2]);
+    assert.strictEqual(view2.x(), 0.3);
+    assert.strictEqual(view2.zoom(), 0.5);
+  });
+
+  test('remove', function () {
+    var view1 = new RectilinearView();
+    var view2 = new RectilinearView();
+    var linked = new LinkedViews([view1, view2]);
+    linked.remove(view2);
+    assert.isFalse(linked.has(view2));
+    view1.setYaw(0.5);
+    assert.strictEqual(view2.yaw(), 0);
+    assert.throws(function () {
+      linked.remove(view2);
+    });
+  });
+
+  test('throws when adding a view twice', function () {
+    var view = new RectilinearView();
+    var linked = new LinkedViews([view]);
+    assert.throws(function () {
+      linked.add(view);
+    });
+  });
+});
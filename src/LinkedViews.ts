@@ -0,0 +1,193 @@
+import clearOwnProperties from './util/clearOwnProperties';
+
+/**
+ * Offsets added to the linked parameters of a view, by parameter name.
+ */
+export type LinkedViewOffsets = { [parameter: string]: number };
+
+export interface LinkedViewsOptions {
+  /**
+   * Names of the view parameters to keep in sync, e.g. `['yaw']` or
+   * `['yaw', 'pitch']`. Defaults to all the parameters of rectilinear and flat
+   * views. Parameters a view does not have are ignored for that view.
+   */
+  parameters?: string[];
+}
+
+interface LinkedView {
+  view: any;
+  offsets: LinkedViewOffsets;
+  changeHandler: () => void;
+}
+
+const defaultParameters = ['yaw', 'pitch', 'roll', 'fov', 'x', 'y', 'zoom'];
+
+/**
+ * @class LinkedViews
+ * @classdesc
+ *
+ * Keeps the parameters of two or more {@link View views} in sync, e.g. to
+ * compare scenes side by side.
+ *
+ * Whenever a linked view changes, the linked parameters of the other views are
+ * updated immediately, so that all views are rendered consistently in the same
+ * frame. A view may have an offset for each parameter, so that it is kept at a
+ * constant distance from the others, e.g. to compensate for scenes captured
+ * with different headings.
+ *
+ * When the views are displayed on the same stage, bind the {@link Controls} to
+ * one of them with {@link Controls#bindView}, so that the changes made by the
+ * controls are not applied more than once.
+ *
+ * @param {View[]} [views] The initial views. The others are synced to the first.
+ * @param {LinkedViewsOptions} [opts]
+ */
+class LinkedViews {
+  #parameters: string[];
+  #views: LinkedView[];
+  #syncing: boolean;
+
+  constructor(views?: any[], opts?: LinkedViewsOptions) {
+    opts = opts || {};
+
+    this.#parameters = (opts.parameters || defaultParameters).slice();
+    this.#views = [];
+
+    // Whether views are being updated, to ignore the resulting change events.
+    this.#syncing = false;
+
+    if (views) {
+      for (let i = 0; i < views.length; i++) {
+        this.add(views[i]);
+      }
+    }
+  }
+  /**
+   * Destructor. Unlinks all views.
+   */
+  destroy() {
+    while (this.#views.length) {
+      this.remove(this.#views[0].view);
+    }
+    clearOwnProperties(this);
+  }
+  /**
+   * Returns the names of the linked parameters.
+   * @return {string[]}
+   */
+  parameters() {
+    return this.#parameters.slice();
+  }
+  /**
+   * Returns the linked views.
+   * @return {View[]}
+   */
+  views() {
+    return this.#views.map((linked) => linked.view);
+  }
+  /**
+   * Returns whether a view is linked.
+   * @param {View} view
+   * @return {boolean}
+   */
+  has(view) {
+    return this.#find(view) != null;
+  }
+  /**
+   * Links a view, and syncs it to the already linked ones.
+   * @param {View} view
+   * @param {LinkedViewOffsets} [offsets] Offsets for the view parameters.
+   * @throws An error if the view is already linked.
+   */
+  add(view, offsets?: LinkedViewOffsets) {
+    if (this.has(view)) {
+      throw new Error('View already linked');
+    }
+    const linked: LinkedView = {
+      view,
+      offsets: Object.assign({}, offsets),
+      changeHandler: () => {
+        this.#sync(linked);
+      },
+    };
+    view.addEventListener('change', linked.changeHandler);
+    this.#views.push(linked);
+    if (this.#views.length > 1) {
+      this.#sync(this.#views[0]);
+    }
+  }
+  /**
+   * Unlinks a view.
+   * @param {View} view
+   * @throws An error if the view is not linked.
+   */
+  remove(view) {
+    const linked = this.#find(view);
+    if (!linked) {
+      throw new Error('View not linked');
+    }
+    view.removeEventListener('change', linked.changeHandler);
+    this.#views.splice(this.#views.indexOf(linked), 1);
+  }
+  /**
+   * Returns the offsets of a view.
+   * @param {View} view
+   * @return {LinkedViewOffsets}
+   */
+  offsets(view): LinkedViewOffsets {
+    const linked = this.#find(view);
+    if (!linked) {
+      throw new Error('View not linked');
+    }
+    return Object.assign({}, linked.offsets);
+  }
+  /**
+   * Sets the offsets of a view, and moves it accordingly.
+   * @param {View} view
+   * @param {LinkedViewOffsets} offsets
+   */
+  setOffsets(view, offsets: LinkedViewOffsets) {
+    const linked = this.#find(view);
+    if (!linked) {
+      throw new Error('View not linked');
+    }
+    linked.offsets = Object.assign({}, offsets);
+    const other = this.#views.find((item) => item !== linked);
+    if (other) {
+      this.#sync(other);
+    }
+  }
+  #find(view) {
+    return this.#views.find((linked) => linked.view === view) || null;
+  }
+  // Updates all other views from the given one.
+  #sync(source: LinkedView) {
+    if (this.#syncing) {
+      return;
+    }
+    this.#syncing = true;
+    try {
+      const values = source.view.parameters({});
+      for (const target of this.#views) {
+        if (target === source) {
+          continue;
+        }
+        const params = {};
+        for (const name of this.#parameters) {
+          if (values[name] == null) {
+            continue;
+          }
+          params[name] =
+            values[name] -
+            (source.offsets[name] || 0) +
+            (target.offsets[name] || 0);
+        }
+        target.view.setParameters(params);
+      }
+    } finally {
+      this.#syncing = false;
+    }
+  }
+}
+
+export default LinkedViews;
@@ -0,0 +1,172 @@
+import { suite, test, assert, beforeEach, afterEach } from 'vitest';
+import sinon from 'sinon';
+
+import eventEmitter from 'minimal-event-emitter';
+
+import MeasurementTool from './MeasurementTool';
+import RectilinearView from './views/Rectilinear';
+
+class MockRenderLoop {}
+
+eventEmitter(MockRenderLoop);
+
+// A 200x100 stage with a single layer.
+function MockStage(view) {
+  var overlays = [];
+  var layer = {
+    view: sinon.stub().returns(view),
+    effects: sinon.stub().returns({}),
+  };
+  this.width = sinon.stub().returns(200);
+  this.height = sinon.stub().returns(100);
+  this.listLayers = function () {
+    return [layer];
+  };
+  this.layerAt = function () {
+    return layer;
+  };
+  this.listOverlays = function () {
+    return overlays.slice();
+  };
+}
+
+function click(element, x, y) {
+  ['pointerdown', 'pointerup'].forEach(function (type) {
+    var event = new Event(type, { bubbles: true });
+    event.clientX = x;
+    event.clientY = y;
+    event.pointerId = 1;
+    event.button = 0;
+    element.dispatchEvent(event);
+  });
+}
+
+suite('MeasurementTool', function () {
+  var element, view, tool;
+
+  beforeEach(function () {
+    element = document.createElement('div');
+    element.getBoundingClientRect = function () {
+      return { left: 0, top: 0, width: 200, height: 100 };
+    };
+    view = new RectilinearView({ yaw: 0, pitch: 0, fov: 1 });
+    view.setSize({ width: 200, height: 100 });
+    tool = new MeasurementTool(
+      element,
+      new MockStage(view),
+      view,
+      new MockRenderLoop()
+    );
+  });
+
+  afterEach(function () {
+    tool.destroy();
+  });
+
+  function lines() {
+    return element.querySelectorAll('path');
+  }
+
+  test('measures between clicked points', function () {
+    var spy = sinon.spy();
+    tool.addEventListener('measure', spy);
+
+    click(element, 50, 50);
+    assert.isFalse(tool.measuring());
+    assert.lengthOf(lines(), 0);
+
+    tool.enable();
+    click(element, 50, 50);
+    assert.isTrue(tool.measuring());
+    assert.lengthOf(lines(), 1);
+
+    click(element, 150, 50);
+    assert.isFalse(tool.measuring());
+    assert.isTrue(spy.calledOnce);
+
+    var measurement = spy.firstCall.args[0];
+    assert.sameOrderedMembers(tool.listMeasurements(), [measurement]);
+    var start = view.screenToCoordinates({ x: 50, y: 50 });
+    var end = view.screenToCoordinates({ x: 150, y: 50 });
+    assert.closeTo(measurement.start.yaw, start.yaw, 1e-9);
+    assert.closeTo(measurement.end.yaw, end.yaw, 1e-9);
+    assert.closeTo(measurement.angle, end.yaw - start.yaw, 1e-9);
+    assert.isNull(measurement.floorDistance);
+    assert.isNull(measurement.height);
+    assert.lengthOf(lines(), 1);
+  });
+
+  test('cancels the measurement in progress', function () {
+    tool.enable();
+    click(element, 50, 50);
+    tool.disable();
+    assert.isFalse(tool.measuring());
+    assert.lengthOf(lines(), 0);
+  });
+
+  test('estimates distances from the camera height', function () {
+    var down = Math.PI / 4;
+    var measurement = tool.addMeasurement(
+      { yaw: 0, pitch: down },
+      { yaw: Math.PI, pitch: down }
+    );
+    assert.isNull(measurement.floorDistance);
+
+    tool.setCameraHeight(1.5);
+    assert.closeTo(measurement.floorDistance, 3, 1e-9);
+
+    tool.calibrate(measurement, 4);
+    assert.closeTo(tool.cameraHeight(), 2, 1e-9);
+    assert.closeTo(measurement.floorDistance, 4, 1e-9);
+
+    var wall = tool.measure(
+      { yaw: 0, pitch: down },
+      { yaw: 0, pitch: -Math.atan(0.5) }
+    );
+    assert.closeTo(wall.height, 3, 1e-9);
+    assert.throws(function () {
+      tool.calibrate(wall, 1);
+    });
+  });
+
+  test('removes measurements', function () {
+    var spy = sinon.spy();
+    tool.addEventListener('measurementsChange', spy);
+    var a = tool.addMeasurement({ yaw: 0, pitch: 0 }, { yaw: 0.1, pitch: 0 });
+    var b = tool.addMeasurement({ yaw: 0, pitch: 0 }, { yaw: 0, pitch: 0.1 });
+    assert.lengthOf(lines(), 2);
+
+    tool.removeMeasurement(a);
+    assert.isFalse(tool.hasMeasurement(a));
+    assert.isTrue(tool.hasMeasurement(b));
+    assert.throws(function () {
+      tool.removeMeasurement(a);
+    });
+
+    tool.clear();
+    assert.lengthOf(tool.listMeasurements(), 0);
+    assert.lengthOf(lines(), 0);
+    assert.equal(spy.callCount, 4);
+  });
+
+  test('exports measurements', function () {
+    tool.setCameraHeight(1);
+    tool.addMeasurement({ yaw: 0, pitch: 0.5 }, { yaw: 0, pitch: -0.5 });
+    tool.addMeasurement({ yaw: 0, pitch: -0.5 }, { yaw: 1, pitch: -0.5 });
+
+    var json = JSON.parse(JSON.stringify(tool.toJSON()));
+    assert.lengthOf(json, 2);
+    assert.deepEqual(json[0].start, { yaw: 0, pitch: 0.5 });
+    assert.closeTo(json[0].angle, 1, 1e-9);
+    assert.closeTo(json[0].height, 2, 1e-9);
+    assert.isNull(json[1].floorDistance);
+
+    var rows = tool.toCSV().split('\n');
+    assert.lengthOf(rows, 3);
+    assert.equal(
+      rows[0],
+      'startYaw,startPitch,endYaw,endPitch,angle,floorDistance,height'
+    );
+    assert.match(rows[2], /^0,-0\.5,1,-0\.5,[0-9.]+,,$/);
+  });
+});
@@ -0,0 +1,420 @@
+import eventEmitter from 'minimal-event-emitter';
+import Annotation, { AnnotationStyle } from './Annotation';
+import AnnotationContainer, {
+  AnnotationRenderMode,
+} from './AnnotationContainer';
+import PointerPicker, { PointerPickEvent } from './PointerPicker';
+import Stage from './stages/Stage';
+import clearOwnProperties from './util/clearOwnProperties';
+import {
+  angularDistance,
+  floorPointDistance,
+  heightAboveFloor,
+} from './util/measure';
+import { SphericalPoint } from './util/sphericalPath';
+
+export interface MeasurementToolOptions {
+  /**
+   * Height of the camera above a flat floor, in the units in which distances
+   * are reported. Without it, only angular distances are measured.
+   */
+  cameraHeight?: number | null;
+  /**
+   * The style of the measurement lines.
+   */
+  style?: AnnotationStyle;
+  /**
+   * Whether to draw the lines as SVG over the stage or into the stage. See
+   * {@link AnnotationContainerOptions#renderMode}.
+   */
+  renderMode?: AnnotationRenderMode;
+}
+
+/**
+ * A measurement between two points of a panorama.
+ */
+export interface Measurement {
+  /**
+   * The first point, in radians.
+   */
+  start: SphericalPoint;
+  /**
+   * The second point, in radians.
+   */
+  end: SphericalPoint;
+  /**
+   * The angle between the points, in radians.
+   */
+  angle: number;
+  /**
+   * The distance between the points, assuming both lie on the floor, or null
+   * if the camera height is unknown or either point is above the horizon.
+   */
+  floorDistance: number | null;
+  /**
+   * The height of the second point, assuming the first lies on the floor and
+   * the second vertically above it, or null if the camera height is unknown
+   * or the first point is above the horizon.
+   */
+  height: number | null;
+}
+
+const defaultStyle: AnnotationStyle = {
+  stroke: '#fc0',
+  strokeWidth: 2,
+};
+
+/**
+ * Signals that a measurement has been completed.
+ * @event MeasurementTool#measure
+ * @param {Measurement} measurement
+ */
+
+/**
+ * Signals that a measurement has been added, removed or recomputed.
+ * @event MeasurementTool#measurementsChange
+ */
+
+/**
+ * @class MeasurementTool
+ * @classdesc
+ *
+ * Measures angles, and optionally distances and heights, between pairs of
+ * points clicked on a panorama displayed with a {@link RectilinearView}.
+ *
+ * While enabled, the first click starts a measurement, drawn as a line
+ * following the pointer, and the second click completes it. Completed
+ * measurements remain drawn until removed.
+ *
+ * Real-world distances are estimated by assuming a flat floor below a camera
+ * at a known height. The height may be given directly, or inferred from a
+ * measurement of known length with {@link MeasurementTool#calibrate}. Floor
+ * distances are only reliable for points on the floor, and heights for points
+ * vertically above the first point of the measurement.
+ *
+ * Clients should usually obtain the tool for a scene with
+ * {@link Scene#measurementTool} instead of invoking the constructor.
+ *
+ * @param {Element} parentDomElement The DOM element inside which the lines
+ *     are drawn, and which receives the pointer events. Must cover the stage.
+ * @param {Stage} stage The underlying stage.
+ * @param {RectilinearView} view The view on which points are measured.
+ * @param {RenderLoop} renderLoop The render loop indicating when the lines
+ *     must be rendered.
+ * @param {MeasurementToolOptions} [opts]
+ */
+class MeasurementTool {
+  #view: any;
+  #cameraHeight: number | null;
+  #style: AnnotationStyle;
+  #enabled: boolean;
+  #measurements: Measurement[];
+  #lines: Map<Measurement, Annotation>;
+  #pendingStart: SphericalPoint | null;
+  #pendingLine: Annotation | null;
+  #annotationContainer: AnnotationContainer;
+  #pointerPicker: PointerPicker;
+  #pointerMoveHandler: (event: PointerPickEvent) => void;
+  #clickHandler: (event: PointerPickEvent) => void;
+
+  constructor(
+    parentDomElement: HTMLElement,
+    stage: Stage,
+    view: any,
+    renderLoop: any,
+    opts?: MeasurementToolOptions
+  ) {
+    opts = opts || {};
+
+    this.#view = view;
+    this.#cameraHeight = opts.cameraHeight != null ? opts.cameraHeight : null;
+    this.#style = Object.assign({}, defaultStyle, opts.style);
+
+    // The tool only reacts to the pointer once enabled.
+    this.#enabled = false;
+
+    this.#measurements = [];
+    this.#lines = new Map();
+
+    // The start and line of the measurement in progress.
+    this.#pendingStart = null;
+    this.#pendingLine = null;
+
+    this.#annotationContainer = new AnnotationContainer(
+      parentDomElement,
+      stage,
+      view,
+      renderLoop,
+      { renderMode: opts.renderMode }
+    );
+
+    this.#pointerPicker = new PointerPicker(parentDomElement, stage);
+    this.#pointerMoveHandler = this.#handlePointerMove.bind(this);
+    this.#clickHandler = this.#handleClick.bind(this);
+    this.#pointerPicker.addEventListener(
+      'pointermove',
+      this.#pointerMoveHandler
+    );
+    this.#pointerPicker.addEventListener('click', this.#clickHandler);
+  }
+  /**
+   * Destructor.
+   */
+  destroy() {
+    this.#pointerPicker.removeEventListener(
+      'pointermove',
+      this.#pointerMoveHandler
+    );
+    this.#pointerPicker.removeEventListener('click', this.#clickHandler);
+    this.#pointerPicker.destroy();
+    this.#annotationContainer.destroy();
+    clearOwnProperties(this);
+  }
+  /**
+   * Returns whether the tool reacts to clicks.
+   * @return {boolean}
+   */
+  enabled() {
+    return this.#enabled;
+  }
+  /**
+   * Starts measuring on clicks.
+   */
+  enable() {
+    this.#enabled = true;
+  }
+  /**
+   * Stops measuring on clicks, canceling the measurement in progress.
+   */
+  disable() {
+    this.#enabled = false;
+    this.cancel();
+  }
+  /**
+   * Returns whether a measurement is in progress.
+   * @return {boolean}
+   */
+  measuring() {
+    return this.#pendingStart != null;
+  }
+  /**
+   * Cancels the measurement in progress, if any.
+   */
+  cancel() {
+    if (this.#pendingLine) {
+      this.#annotationContainer.destroyAnnotation(this.#pendingLine);
+    }
+    this.#pendingStart = null;
+    this.#pendingLine = null;
+  }
+  /**
+   * Returns the camera height, or null if unknown.
+   * @return {?number}
+   */
+  cameraHeight() {
+    return this.#cameraHeight;
+  }
+  /**
+   * Sets the camera height, recomputing the distances of all measurements.
+   * @param {?number} height
+   */
+  setCameraHeight(height: number | null) {
+    this.#cameraHeight = height;
+    for (const measurement of this.#measurements) {
+      this.#compute(measurement);
+    }
+    this.emit('measurementsChange');
+  }
+  /**
+   * Sets the camera height from a measurement of known floor distance, such
+   * as a floor tile or a door width.
+   * @param {Measurement} measurement A measurement with both points below the
+   *     horizon.
+   * @param {number} distance The real-world distance between the points.
+   * @throws An error if the measurement points are not both below the
+   *     horizon.
+   */
+  calibrate(measurement: Measurement, distance: number) {
+    // Floor distances are proportional to the camera height.
+    const unit = floorPointDistance(measurement.start, measurement.end, 1);
+    if (!unit) {
+      throw new Error('Measurement points must be on the floor');
+    }
+    this.setCameraHeight(distance / unit);
+  }
+  /**
+   * Measures between two points without adding a measurement to the tool.
+   * @param {SphericalPoint} start
+   * @param {SphericalPoint} end
+   * @return {Measurement}
+   */
+  measure(start: SphericalPoint, end: SphericalPoint): Measurement {
+    const measurement = {
+      start: { yaw: start.yaw, pitch: start.pitch },
+      end: { yaw: end.yaw, pitch: end.pitch },
+      angle: 0,
+      floorDistance: null,
+      height: null,
+    };
+    this.#compute(measurement);
+    return measurement;
+  }
+  /**
+   * Adds a measurement between two points, as if they had been clicked.
+   * @param {SphericalPoint} start
+   * @param {SphericalPoint} end
+   * @return {Measurement}
+   */
+  addMeasurement(start: SphericalPoint, end: SphericalPoint) {
+    const measurement = this.measure(start, end);
+    this.#measurements.push(measurement);
+    this.#lines.set(
+      measurement,
+      this.#annotationContainer.createAnnotation(
+        'polyline',
+        [measurement.start, measurement.end],
+        { style: this.#style }
+      )
+    );
+    this.emit('measurementsChange');
+    return measurement;
+  }
+  hasMeasurement(measurement: Measurement) {
+    return this.#measurements.indexOf(measurement) >= 0;
+  }
+  listMeasurements() {
+    return [...this.#measurements];
+  }
+  /**
+   * Removes a measurement and its line.
+   * @param {Measurement} measurement
+   * @throws An error if the measurement does not belong to the tool.
+   */
+  removeMeasurement(measurement: Measurement) {
+    const i = this.#measurements.indexOf(measurement);
+    if (i < 0) {
+      throw new Error('No such measurement');
+    }
+    this.#measurements.splice(i, 1);
+    const line = this.#lines.get(measurement);
+    if (line) {
+      this.#annotationContainer.destroyAnnotation(line);
+    }
+    this.#lines.delete(measurement);
+    this.emit('measurementsChange');
+  }
+  /**
+   * Removes all measurements.
+   */
+  clear() {
+    while (this.#measurements.length) {
+      this.removeMeasurement(this.#measurements[0]);
+    }
+  }
+  /**
+   * Returns copies of all measurements, for exporting.
+   * @return {Measurement[]}
+   */
+  toJSON(): Measurement[] {
+    return this.#measurements.map((measurement) => ({
+      start: Object.assign({}, measurement.start),
+      end: Object.assign({}, measurement.end),
+      angle: measurement.angle,
+      floorDistance: measurement.floorDistance,
+      height: measurement.height,
+    }));
+  }
+  /**
+   * Returns all measurements as comma-separated values, with a header row.
+   * Angles are in radians, and unknown distances are left empty.
+   * @return {string}
+   */
+  toCSV() {
+    const rows = [
+      'startYaw,startPitch,endYaw,endPitch,angle,floorDistance,height',
+    ];
+    for (const m of this.#measurements) {
+      rows.push(
+        [
+          m.start.yaw,
+          m.start.pitch,
+          m.end.yaw,
+          m.end.pitch,
+          m.angle,
+          m.floorDistance != null ? m.floorDistance : '',
+          m.height != null ? m.height : '',
+        ].join(',')
+      );
+    }
+    return rows.join('\n');
+  }
+  /**
+   * Hides the measurement lines.
+   */
+  hide() {
+    this.#annotationContainer.hide();
+  }
+  /**
+   * Shows the measurement lines.
+   */
+  show() {
+    this.#annotationContainer.show();
+  }
+  #compute(measurement: Measurement) {
+    const { start, end } = measurement;
+    const cameraHeight = this.#cameraHeight;
+    measurement.angle = angularDistance(start, end);
+    measurement.floorDistance =
+      cameraHeight != null
+        ? floorPointDistance(start, end, cameraHeight)
+        : null;
+    measurement.height =
+      cameraHeight != null ? heightAboveFloor(start, end, cameraHeight) : null;
+  }
+  #pointAt(event: PointerPickEvent): SphericalPoint | null {
+    const coordinates = event.coordinates;
+    if (event.view !== this.#view || !coordinates) {
+      return null;
+    }
+    return { yaw: coordinates.yaw, pitch: coordinates.pitch };
+  }
+  #handlePointerMove(event: PointerPickEvent) {
+    const start = this.#pendingStart;
+    const point = this.#pointAt(event);
+    if (!this.#pendingLine || !start || !point) {
+      return;
+    }
+    this.#pendingLine.setPoints([start, point]);
+  }
+  #handleClick(event: PointerPickEvent) {
+    const point = this.#pointAt(event);
+    if (!this.#enabled || !point) {
+      return;
+    }
+    const start = this.#pendingStart;
+    if (!start) {
+      this.#pendingStart = point;
+      this.#pendingLine = this.#annotationContainer.createAnnotation(
+        'polyline',
+        [point, point],
+        { style: this.#style }
+      );
+      return;
+    }
+    this.cancel();
+    this.emit('measure', this.addMeasurement(start, point));
+  }
+  emit(_arg0: string, ..._args: any[]) {
+    throw new Error('Method not implemented.');
+  }
+  addEventListener(_arg0: string, _arg1: Function) {
+    throw new Error('Method not implemented.');
+  }
+  removeEventListener(_arg0: string, _arg1: Function) {
+    throw new Error('Method not implemented.');
+  }
+}
+
+eventEmitter(MeasurementTool);
+
+export default MeasurementTool;
@@ -0,0 +1,178 @@
+import { suite, test, assert, beforeEach, afterEach } from 'vitest';
+import sinon from 'sinon';
+
+import PointerPicker from './PointerPicker';
+
+function MockView() {
+  this.screenToCoordinates = sinon.spy(function (coords) {
+    return { yaw: coords.x, pitch: coords.y };
+  });
+}
+
+// A 200x100 stage with a layer on the right half.
+function MockStage(layer) {
+  this.width = sinon.stub().returns(200);
+  this.height = sinon.stub().returns(100);
+  this.layerAt = function (x) {
+    return x >= 100 ? layer : null;
+  };
+}
+
+function pointerEvent(type, clientX, clientY, pointerId) {
+  var event = new Event(type, { bubbles: true });
+  event.clientX = clientX;
+  event.clientY = clientY;
+  event.pointerId = pointerId || 1;
+  event.button = 0;
+  return event;
+}
+
+suite('PointerPicker', function () {
+  var element, view, layer, picker, clock;
+
+  beforeEach(function () {
+    clock = sinon.useFakeTimers();
+    element = document.createElement('div');
+    element.getBoundingClientRect = function () {
+      return { left: 10, top: 20, width: 200, height: 100 };
+    };
+    view = new MockView();
+    layer = {
+      view: sinon.stub().returns(view),
+      effects: sinon.stub().returns({
+        rect: { relativeX: 0.5, relativeWidth: 0.5 },
+      }),
+    };
+    picker = new PointerPicker(element, new MockStage(layer));
+  });
+
+  afterEach(function () {
+    picker.destroy();
+    clock.restore();
+  });
+
+  function tap(x, y) {
+    element.dispatchEvent(pointerEvent('pointerdown', x, y));
+    element.dispatchEvent(pointerEvent('pointerup', x, y));
+  }
+
+  test('pick', function () {
+    var result = picker.pick(150, 30, null);
+    assert.strictEqual(result.layer, layer);
+    assert.strictEqual(result.view, view);
+    // Relative to the layer rect.
+    assert.deepEqual(result.coordinates, { yaw: 50, pitch: 30 });
+
+    result = picker.pick(50, 30, null);
+    assert.isNull(result.layer);
+    assert.isNull(result.coordinates);
+  });
+
+  test('click', function () {
+    var spy = sinon.spy();
+    picker.addEventListener('click', spy);
+    tap(160, 50);
+    assert.isTrue(spy.calledOnce);
+    var result = spy.firstCall.args[0];
+    assert.strictEqual(result.x, 150);
+    assert.strictEqual(result.y, 30);
+    assert.deepEqual(result.coordinates, { yaw: 50, pitch: 30 });
+    assert.isFalse(result.dragging);
+    assert.strictEqual(result.originalEvent.type, 'pointerup');
+  });
+
+  test('drag does not click', function () {
+    var clickSpy = sinon.spy();
+    var moveSpy = sinon.spy();
+    picker.addEventListener('click', clickSpy);
+    picker.addEventListener('pointermove', moveSpy);
+    element.dispatchEvent(pointerEvent('pointerdown', 160, 50));
+    element.dispatchEvent(pointerEvent('pointermove', 163, 50));
+    assert.isFalse(moveSpy.lastCall.args[0].dragging);
+    element.dispatchEvent(pointerEvent('pointermove', 180, 50));
+    assert.isTrue(moveSpy.lastCall.args[0].dragging);
+    element.dispatchEvent(pointerEvent('pointerup', 160, 50));
+    assert.isTrue(clickSpy.notCalled);
+  });
+
+  test('pinch does not click', function () {
+    var spy = sinon.spy();
+    picker.addEventListener('click', spy);
+    element.dispatchEvent(pointerEvent('pointerdown', 160, 50, 1));
+    element.dispatchEvent(pointerEvent('pointerdown', 170, 50, 2));
+    element.dispatchEvent(pointerEvent('pointerup', 170, 50, 2));
+    element.dispatchEvent(pointerEvent('pointerup', 160, 50, 1));
+    assert.isTrue(spy.notCalled);
+  });
+
+  test('dblclick', function () {
+    var spy = sinon.spy();
+    picker.addEventListener('dblclick', spy);
+    tap(160, 50);
+    clock.tick(100);
+    tap(161, 50);
+    assert.isTrue(spy.calledOnce);
+
+    // Too late for a double click.
+    clock.tick(1000);
+    tap(160, 50);
+    clock.tick(400);
+    tap(160, 50);
+    assert.isTrue(spy.calledOnce);
+  });
+
+  test('longpress', function () {
+    var longPressSpy = sinon.spy();
+    var clickSpy = sinon.spy();
+    picker.addEventListener('longpress', longPressSpy);
+    picker.addEventListener('click', clickSpy);
+    element.dispatchEvent(pointerEvent('pointerdown', 160, 50));
+    clock.tick(500);
+    assert.isTrue(longPressSpy.calledOnce);
+    assert.deepEqual(longPressSpy.firstCall.args[0].coordinates, {
+      yaw: 50,
+      pitch: 30,
+    });
+    element.dispatchEvent(pointerEvent('pointerup', 160, 50));
+    assert.isTrue(clickSpy.notCalled);
+  });
+
+  test('drag thresholds', function () {
+    picker.destroy();
+    picker = new PointerPicker(element, new MockStage(layer), {
+      dragThreshold: 50,
+    });
+    var spy = sinon.spy();
+    picker.addEventListener('click', spy);
+    element.dispatchEvent(pointerEvent('pointerdown', 160, 50));
+    element.dispatchEvent(pointerEvent('pointermove', 190, 50));
+    element.dispatchEvent(pointerEvent('pointerup', 190, 50));
+    assert.isTrue(spy.calledOnce);
+  });
+
+  test('press after release outside the element', function () {
+    var spy = sinon.spy();
+    picker.addEventListener('click', spy);
+    // The pointerup for this press is not received.
+    element.dispatchEvent(pointerEvent('pointerdown', 160, 50));
+    element.dispatchEvent(pointerEvent('pointermove', 200, 50));
+    tap(160, 50);
+    assert.isTrue(spy.calledOnce);
+    clock.tick(1000);
+    tap(160, 50);
+    assert.isTrue(spy.calledTwice);
+  });
+
+  test('pinch after release outside the element', function () {
+    var spy = sinon.spy();
+    picker.addEventListener('click', spy);
+    element.dispatchEvent(pointerEvent('pointerdown', 160, 50, 1));
+    element.dispatchEvent(pointerEvent('pointerdown', 160, 50, 1));
+    element.dispatchEvent(pointerEvent('pointerdown', 170, 50, 2));
+    element.dispatchEvent(pointerEvent('pointerup', 170, 50, 2));
+    element.dispatchEvent(pointerEvent('pointerup', 160, 50, 1));
+    assert.isTrue(spy.notCalled);
+    tap(160, 50);
+    assert.isTrue(spy.calledOnce);
+  });
+});
@@ -0,0 +1,321 @@
+import eventEmitter from 'minimal-event-emitter';
+import Layer from './Layer';
+import Stage from './stages/Stage';
+import calcRect from './util/calcRect';
+import clearOwnProperties from './util/clearOwnProperties';
+import defaults from './util/defaults';
+import { Rect } from './jsdoc-extras';
+
+export interface PointerPickerOptions {
+  /**
+   * Distance in pixels the pointer may move while pressed before the press is
+   * considered a drag, which fires neither `click` nor `longpress`. Defaults
+   * to 5.
+   */
+  dragThreshold?: number;
+  /**
+   * Time in milliseconds a press must be held to fire `longpress`. Defaults to
+   * 500.
+   */
+  longPressDuration?: number;
+  /**
+   * Maximum time in milliseconds between two clicks firing `dblclick`.
+   * Defaults to 300.
+   */
+  doubleClickInterval?: number;
+}
+
+/**
+ * The payload of the pointer events emitted by {@link PointerPicker} and
+ * {@link Viewer}.
+ */
+export interface PointerPickEvent {
+  /**
+   * Horizontal offset of the pointer from the stage left, in pixels.
+   */
+  x: number;
+  /**
+   * Vertical offset of the pointer from the stage top, in pixels.
+   */
+  y: number;
+  /**
+   * The topmost layer under the pointer, or null if none.
+   */
+  layer: Layer | null;
+  /**
+   * The view of the layer, or null if none.
+   */
+  view: any;
+  /**
+   * The view coordinates under the pointer, i.e., `yaw` and `pitch` for a
+   * {@link RectilinearView} or `x` and `y` for a {@link FlatView}, or null if
+   * there is no layer.
+   */
+  coordinates: { [name: string]: number } | null;
+  /**
+   * Whether the pointer is pressed and has moved beyond the drag threshold.
+   */
+  dragging: boolean;
+  /**
+   * The DOM event.
+   */
+  originalEvent: Event;
+}
+
+const defaultOptions = {
+  dragThreshold: 5,
+  longPressDuration: 500,
+  doubleClickInterval: 300,
+};
+
+interface Press {
+  pointerId: number;
+  startX: number;
+  startY: number;
+  dragging: boolean;
+  canceled: boolean;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Signals a press and release without dragging.
+ * @event PointerPicker#click
+ * @param {PointerPickEvent} event
+ */
+
+/**
+ * Signals a second click shortly after a first one at the same location. The
+ * second `click` event is emitted as well.
+ * @event PointerPicker#dblclick
+ * @param {PointerPickEvent} event
+ */
+
+/**
+ * Signals a press held for the long press duration without dragging. No
+ * `click` is emitted on release.
+ * @event PointerPicker#longpress
+ * @param {PointerPickEvent} event
+ */
+
+/**
+ * Signals a pointer movement, while pressed or hovering.
+ * @event PointerPicker#pointermove
+ * @param {PointerPickEvent} event
+ */
+
+/**
+ * @class PointerPicker
+ * @classdesc
+ *
+ * Translates pointer events on an element covering a {@link Stage} into events
+ * carrying the {@link Layer} and view coordinates under the pointer, telling
+ * clicks apart from drags. Used by {@link Viewer} to emit its pointer events;
+ * most clients will not need to use it directly.
+ *
+ * @param {Element} element The element receiving pointer events, which must
+ *     cover the stage.
+ * @param {Stage} stage The stage.
+ * @param {PointerPickerOptions} [opts]
+ */
+class PointerPicker {
+  #element: HTMLElement;
+  #stage: Stage;
+  #opts: Required<PointerPickerOptions>;
+  #press: Press | null;
+  #pointerIds: Set<number>;
+  #lastClick: { time: number; x: number; y: number } | null;
+  #tmpRect: Required<Rect>;
+  #pointerDownHandler: (event: PointerEvent) => void;
+  #pointerMoveHandler: (event: PointerEvent) => void;
+  #pointerUpHandler: (event: PointerEvent) => void;
+  #pointerCancelHandler: (event: PointerEvent) => void;
+
+  constructor(element: HTMLElement, stage: Stage, opts?: PointerPickerOptions) {
+    this.#element = element;
+    this.#stage = stage;
+    this.#opts = defaults(Object.assign({}, opts), defaultOptions);
+
+    // The current press, if any, and the ids of the pressed pointers.
+    this.#press = null;
+    this.#pointerIds = new Set();
+
+    // The last click, to detect double clicks.
+    this.#lastClick = null;
+
+    this.#tmpRect = { x: 0, y: 0, width: 0, height: 0 };
+
+    this.#pointerDownHandler = this.#handlePointerDown.bind(this);
+    this.#pointerMoveHandler = this.#handlePointerMove.bind(this);
+    this.#pointerUpHandler = this.#handlePointerUp.bind(this);
+    this.#pointerCancelHandler = this.#handlePointerCancel.bind(this);
+
+    element.addEventListener('pointerdown', this.#pointerDownHandler);
+    element.addEventListener('pointermove', this.#pointerMoveHandler);
+    element.addEventListener('pointerup', this.#pointerUpHandler);
+    element.addEventListener('pointercancel', this.#pointerCancelHandler);
+  }
+  /**
+   * Destructor.
+   */
+  destroy() {
+    this.#endPress();
+    const element = this.#element;
+    element.removeEventListener('pointerdown', this.#pointerDownHandler);
+    element.removeEventListener('pointermove', this.#pointerMoveHandler);
+    element.removeEventListener('pointerup', this.#pointerUpHandler);
+    element.removeEventListener('pointercancel', this.#pointerCancelHandler);
+    clearOwnProperties(this);
+  }
+  /**
+   * Computes the layer and view coordinates at a point.
+   * @param {number} x The horizontal offset from the stage left, in pixels.
+   * @param {number} y The vertical offset from the stage top, in pixels.
+   * @param {Event} originalEvent The DOM event to include in the result.
+   * @return {PointerPickEvent}
+   */
+  pick(x: number, y: number, originalEvent: Event): PointerPickEvent {
+    const stage = this.#stage;
+    const layer = stage.layerAt(x, y);
+    const view = layer ? layer.view() : null;
+
+    let coordinates: PointerPickEvent['coordinates'] = null;
+    if (layer && view) {
+      // The view is sized to the layer rect, so offset the point accordingly.
+      const rect = this.#tmpRect;
+      calcRect(stage.width(), stage.height(), layer.effects()?.rect, rect);
+      coordinates = view.screenToCoordinates({
+        x: x - rect.x * stage.width(),
+        y: y - rect.y * stage.height(),
+      });
+    }
+
+    return {
+      x,
+      y,
+      layer,
+      view,
+      coordinates,
+      dragging: !!(this.#press && this.#press.dragging),
+      originalEvent,
+    };
+  }
+  #position(event: PointerEvent) {
+    const bounds = this.#element.getBoundingClientRect();
+    return { x: event.clientX - bounds.left, y: event.clientY - bounds.top };
+  }
+  #handlePointerDown(event: PointerEvent) {
+    if (this.#pointerIds.has(event.pointerId)) {
+      // The pointer was released outside the element, so its previous press
+      // never ended. This is a new press of the same pointer.
+      this.#pointerIds.delete(event.pointerId);
+      if (this.#press && this.#press.pointerId === event.pointerId) {
+        this.#endPress();
+      }
+    }
+    this.#pointerIds.add(event.pointerId);
+
+    if (this.#press) {
+      // A second pointer is down, e.g. for a pinch gesture.
+      this.#press.canceled = true;
+      this.#clearTimer();
+      return;
+    }
+
+    // Ignore secondary mouse buttons.
+    if (event.button != null && event.button > 0) {
+      return;
+    }
+
+    const position = this.#position(event);
+    const press: Press = {
+      pointerId: event.pointerId,
+      startX: position.x,
+      startY: position.y,
+      dragging: false,
+      canceled: false,
+      timer: null,
+    };
+    press.timer = setTimeout(() => {
+      press.timer = null;
+      if (!press.dragging && !press.canceled) {
+        press.canceled = true;
+        this.emit('longpress', this.pick(position.x, position.y, event));
+      }
+    }, this.#opts.longPressDuration);
+    this.#press = press;
+  }
+  #handlePointerMove(event: PointerEvent) {
+    const position = this.#position(event);
+    const press = this.#press;
+    if (press && press.pointerId === event.pointerId && !press.dragging) {
+      const dx = position.x - press.startX;
+      const dy = position.y - press.startY;
+      if (Math.sqrt(dx * dx + dy * dy) > this.#opts.dragThreshold) {
+        press.dragging = true;
+        this.#clearTimer();
+      }
+    }
+    this.emit('pointermove', this.pick(position.x, position.y, event));
+  }
+  #handlePointerUp(event: PointerEvent) {
+    this.#pointerIds.delete(event.pointerId);
+
+    const press = this.#press;
+    if (!press || press.pointerId !== event.pointerId) {
+      if (this.#pointerIds.size === 0) {
+        this.#endPress();
+      }
+      return;
+    }
+    this.#endPress();
+
+    if (press.dragging || press.canceled) {
+      return;
+    }
+
+    const position = this.#position(event);
+    const result = this.pick(position.x, position.y, event);
+    this.emit('click', result);
+
+    const now = Date.now();
+    const last = this.#lastClick;
+    if (
+      last &&
+      now - last.time <= this.#opts.doubleClickInterval &&
+      Math.abs(position.x - last.x) <= this.#opts.dragThreshold &&
+      Math.abs(position.y - last.y) <= this.#opts.dragThreshold
+    ) {
+      this.#lastClick = null;
+      this.emit('dblclick', result);
+    } else {
+      this.#lastClick = { time: now, x: position.x, y: position.y };
+    }
+  }
+  #handlePointerCancel(event: PointerEvent) {
+    this.#pointerIds.delete(event.pointerId);
+    this.#endPress();
+  }
+  #endPress() {
+    this.#clearTimer();
+    this.#press = null;
+  }
+  #clearTimer() {
+    if (this.#press && this.#press.timer != null) {
+      clearTimeout(this.#press.timer);
+      this.#press.timer = null;
+    }
+  }
+  emit(_arg0: string, ..._args: any[]) {
+    throw new Error('Method not implemented.');
+  }
+  addEventListener(_arg0: string, _arg1: Function) {
+    throw new Error('Method not implemented.');
+  }
+  removeEventListener(_arg0: string, _arg1: Function) {
+    throw new Error('Method not implemented.');
+  }
+}
+
+eventEmitter(PointerPicker);
+
+export default PointerPicker;
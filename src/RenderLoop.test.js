@@ -108,4 +108,35 @@ suite('RenderLoop', function () {
     fakeTickFrame();
     assert.isTrue(stage.render.called);
   });
+
+  test('pause on context loss', function () {
+    var stage = new MockStage();
+    var loop = new RenderLoop(stage);
+    loop.start();
+    stage.emit('contextLost');
+    assert.isTrue(loop.isPaused());
+    stage.emit('renderInvalid');
+    fakeTickFrame();
+    assert.isTrue(stage.render.notCalled);
+  });
+
+  test('resume on context restoration', function () {
+    var stage = new MockStage();
+    var loop = new RenderLoop(stage);
+    loop.start();
+    stage.emit('contextLost');
+    stage.emit('contextRestored');
+    assert.isFalse(loop.isPaused());
+    fakeTickFrame();
+    assert.isTrue(stage.render.called);
+  });
+
+  test('context restoration does not start a stopped loop', function () {
+    var stage = new MockStage();
+    var loop = new RenderLoop(stage);
+    stage.emit('contextLost');
+    stage.emit('contextRestored');
+    fakeTickFrame();
+    assert.isTrue(stage.render.notCalled);
+  });
 });
@@ -36,17 +36,26 @@ import clearOwnProperties from './util/clearOwnProperties';
  * stopped, and is initially in the stopped state, in which no call to
  * {@link Stage#render} occurs.
  *
+ * While the stage has lost its rendering context, the loop is paused: it
+ * remains in the running state, but no call to {@link Stage#render} occurs
+ * until the context is restored.
+ *
  * @listens Stage#renderInvalid
+ * @listens WebGlStage#contextLost
+ * @listens WebGlStage#contextRestored
  *
  * @param {Stage} stage
  */
 class RenderLoop {
   #stage: any;
   #running: boolean;
+  #paused: boolean;
   #rendering: boolean;
   #requestHandle: null | number;
   #boundLoop: () => void;
   #renderInvalidHandler: () => void;
+  #contextLostHandler: () => void;
+  #contextRestoredHandler: () => void;
   constructor(stage) {
     const self = this;
 
@@ -56,6 +65,9 @@ class RenderLoop {
     // Whether the loop is running.
     this.#running = false;
 
+    // Whether the loop is paused due to the stage context being lost.
+    this.#paused = false;
+
     // Whether the loop is currently rendering.
     this.#rendering = false;
 
@@ -76,6 +88,19 @@ class RenderLoop {
 
     // Handle renderInvalid events emitted by the stage.
     this.#stage.addEventListener('renderInvalid', this.#renderInvalidHandler);
+
+    // Pause the loop while the stage context is lost.
+    this.#contextLostHandler = function () {
+      self.#pause();
+    };
+    this.#contextRestoredHandler = function () {
+      self.#resume();
+    };
+    this.#stage.addEventListener('contextLost', this.#contextLostHandler);
+    this.#stage.addEventListener(
+      'contextRestored',
+      this.#contextRestoredHandler
+    );
   }
   /**
    * Destructor.
@@ -86,6 +111,11 @@ class RenderLoop {
       'renderInvalid',
       this.#renderInvalidHandler
     );
+    this.#stage.removeEventListener('contextLost', this.#contextLostHandler);
+    this.#stage.removeEventListener(
+      'contextRestored',
+      this.#contextRestoredHandler
+    );
     clearOwnProperties(this);
   }
   /**
@@ -106,21 +136,39 @@ class RenderLoop {
    * Stops the render loop.
    */
   stop() {
-    if (this.#requestHandle) {
-      window.cancelAnimationFrame(this.#requestHandle);
-      this.#requestHandle = null;
-    }
+    this.#cancelFrame();
     this.#running = false;
   }
+  /**
+   * Returns whether the loop is paused because the stage context was lost.
+   * @return {boolean}
+   */
+  isPaused() {
+    return this.#paused;
+  }
   /**
    * Forces the stage to render on the next frame, even if its contents remain
    * valid. Does nothing if the loop is stopped.
    */
   renderOnNextFrame() {
-    if (this.#running && !this.#requestHandle) {
+    if (this.#running && !this.#paused && !this.#requestHandle) {
       this.#requestHandle = window.requestAnimationFrame(this.#boundLoop);
     }
   }
+  #cancelFrame() {
+    if (this.#requestHandle) {
+      window.cancelAnimationFrame(this.#requestHandle);
+      this.#requestHandle = null;
+    }
+  }
+  #pause() {
+    this.#cancelFrame();
+    this.#paused = true;
+  }
+  #resume() {
+    this.#paused = false;
+    this.renderOnNextFrame();
+  }
   #loop() {
     if (!this.#running) {
       throw new Error('Render loop running while in stopped state');
@@ -0,0 +1,119 @@
+import { suite, test, assert, beforeEach, afterEach } from 'vitest';
+import sinon from 'sinon';
+
+import Viewer from './Viewer';
+import WebGlStage from './stages/WebGl';
+import ImageUrlSource from './sources/ImageUrl';
+import CubeGeometry from './geometries/Cube';
+import EquirectGeometry from './geometries/Equirect';
+import TiledEquirectGeometry from './geometries/TiledEquirect';
+import RectilinearView from './views/Rectilinear';
+
+// WebGL is not available in the test environment, so the viewer stage is
+// given a context whose methods do nothing but return a truthy value.
+function fakeWebGlContext() {
+  return new Proxy(
+    {},
+    {
+      get: function (target, property) {
+        if (!(property in target)) {
+          target[property] = function () {
+            return {};
+          };
+        }
+        return target[property];
+      },
+    }
+  );
+}
+
+function cubeGeometry() {
+  return new CubeGeometry([{ tileSize: 256, size: 256 }]);
+}
+
+function equirectGeometry() {
+  return new EquirectGeometry([{ width: 1024 }]);
+}
+
+function tiledEquirectGeometry() {
+  return new TiledEquirectGeometry([{ tileWidth: 512, width: 1024 }]);
+}
+
+suite('Scene', function () {
+  var domElement, viewer;
+
+  beforeEach(function () {
+    sinon
+      .stub(WebGlStage.prototype, '_createContext')
+      .callsFake(fakeWebGlContext);
+    domElement = document.createElement('div');
+    document.body.appendChild(domElement);
+    viewer = new Viewer(domElement);
+  });
+
+  afterEach(function () {
+    viewer.destroy();
+    document.body.removeChild(domElement);
+    WebGlStage.prototype._createContext.restore();
+  });
+
+  function createScene(geometry, view) {
+    return viewer.createScene({
+      source: ImageUrlSource.fromString('//localhost/{z}/{f}/{y}/{x}.jpg'),
+      geometry: geometry,
+      view: view || new RectilinearView(),
+    });
+  }
+
+  suite('projection modes', function () {
+    test('drawn by the layer renderers', function () {
+      [equirectGeometry(), cubeGeometry()].forEach(function (geometry) {
+        var scene = createScene(geometry);
+        scene.view().setProjectionMode('stereographic');
+        assert.strictEqual(scene.view().projectionMode(), 'stereographic');
+        scene.enterLittlePlanet({ transitionDuration: 0 });
+        viewer.destroyScene(scene);
+      });
+    });
+
+    test('not drawn by the layer renderers', function () {
+      var scene = createScene(tiledEquirectGeometry());
+      var view = scene.view();
+      assert.throws(function () {
+        view.setProjectionMode('stereographic');
+      }, /not supported for tiledEquirect geometry/);
+      assert.strictEqual(view.projectionMode(), 'rectilinear');
+
+      assert.throws(function () {
+        scene.enterLittlePlanet({ transitionDuration: 0 });
+      }, /not supported/);
+      assert.strictEqual(view.projectionMode(), 'rectilinear');
+    });
+
+    test('rejects layers not drawing the projection', function () {
+      var scene = createScene(
+        equirectGeometry(),
+        new RectilinearView({ projectionMode: 'pannini' })
+      );
+      scene.createLayer({
+        source: ImageUrlSource.fromString('//localhost/{f}.jpg'),
+        geometry: cubeGeometry(),
+      });
+      assert.throws(function () {
+        scene.createLayer({
+          source: ImageUrlSource.fromString('//localhost/{x}.jpg'),
+          geometry: tiledEquirectGeometry(),
+        });
+      }, /not supported for tiledEquirect geometry/);
+      assert.lengthOf(scene.listLayers(), 2);
+    });
+
+    test('are no longer checked once the scene is destroyed', function () {
+      var scene = createScene(tiledEquirectGeometry());
+      var view = scene.view();
+      viewer.destroyScene(scene);
+      view.setProjectionMode('equisolid');
+      assert.strictEqual(view.projectionMode(), 'equisolid');
+    });
+  });
+});
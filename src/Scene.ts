@@ -18,18 +18,55 @@
 import Layer from './Layer';
 import TextureStore from './TextureStore';
 import HotspotContainer from './HotspotContainer';
+import AnnotationContainer from './AnnotationContainer';
+import MeasurementTool from './MeasurementTool';
 import eventEmitter from 'minimal-event-emitter';
 import now from './util/now';
+import {
+  GeoLocation,
+  geoBearing,
+  geoDistance,
+  normalizeBearing,
+} from './util/geo';
 import noop from './util/noop';
 import type from './util/type';
 import defaults from './util/defaults';
 import clearOwnProperties from './util/clearOwnProperties';
 import Viewer from './Viewer';
 import RectilinearView, { RectilinearViewCoords } from './views/Rectilinear';
+import { ProjectionMode } from './views/projections';
 import FlatView from './views/Flat';
+import renderToImage, { RenderToImageOptions } from './renderToImage';
+import { Geometry } from './jsdoc-extras';
 
 type View = RectilinearView | FlatView;
 
+/**
+ * Orientation and geographic metadata of a {@link Scene}.
+ */
+export interface SceneGeoreference {
+  /**
+   * The view yaw, in radians, facing north. Defaults to 0.
+   */
+  northOffset?: number;
+  /**
+   * Latitude of the camera in degrees.
+   */
+  latitude?: number;
+  /**
+   * Longitude of the camera in degrees.
+   */
+  longitude?: number;
+  /**
+   * Altitude of the camera in meters.
+   */
+  altitude?: number;
+  /**
+   * The building level or floor of the camera.
+   */
+  level?: number | string;
+}
+
 /**
  * Signals that the scene's view has changed. See {@link View#event:change}.
  * @event Scene#viewChange
@@ -40,6 +77,11 @@ type View = RectilinearView | FlatView;
  * @event Scene#layerChange
  */
 
+/**
+ * Signals that the scene's georeference has changed.
+ * @event Scene#georeferenceChange
+ */
+
 /**
  * @class Scene
  * @classdesc
@@ -59,6 +101,15 @@ class Scene {
   #view: View;
   #layers: Layer[];
   #hotspotContainer: HotspotContainer;
+  #annotationContainer: AnnotationContainer | null;
+  #measurementTool: MeasurementTool | null;
+  #georeference: SceneGeoreference;
+  #littlePlanetFrom: {
+    pitch: number;
+    fov: number;
+    projectionMode: ProjectionMode;
+    projectionMix: number;
+  } | null;
   #movement: null;
   #movementStartTime: null | number;
   #movementStep: any;
@@ -82,6 +133,16 @@ class Scene {
       viewer.renderLoop()
     );
 
+    // Annotation container, created on demand.
+    this.#annotationContainer = null;
+
+    // Measurement tool, created on demand.
+    this.#measurementTool = null;
+
+    // Orientation and geographic metadata.
+    this.#georeference = {};
+    this.#littlePlanetFrom = null;
+
     // The current movement.
     this.#movement = null;
     this.#movementStartTime = null;
@@ -107,6 +168,16 @@ class Scene {
     // @ts-ignore
     this.#view.addEventListener('change', this.#viewChangeHandler);
 
+    // Reject the projections that the scene layers cannot draw.
+    if (view instanceof RectilinearView) {
+      view.setProjectionModeValidator((mode) => {
+        this.#checkProjectionMode(
+          mode,
+          this.#layers.map((layer) => layer.geometry())
+        );
+      });
+    }
+
     // Update the hotspot container.
     this.#updateHotspotContainer();
   }
@@ -118,6 +189,9 @@ class Scene {
     // @ts-ignore
 
     this.#view.removeEventListener('change', this.#viewChangeHandler);
+    if (this.#view instanceof RectilinearView) {
+      this.#view.setProjectionModeValidator(null);
+    }
     // TODO: fix this event emitter issue
     // @ts-ignore
     this.#viewer.removeEventListener(
@@ -130,6 +204,12 @@ class Scene {
     }
 
     this.#hotspotContainer.destroy();
+    if (this.#annotationContainer) {
+      this.#annotationContainer.destroy();
+    }
+    if (this.#measurementTool) {
+      this.#measurementTool.destroy();
+    }
 
     this.destroyAllLayers();
 
@@ -141,6 +221,40 @@ class Scene {
   hotspotContainer() {
     return this.#hotspotContainer;
   }
+  /**
+   * Returns the {@link AnnotationContainer annotation container} for the
+   * scene, creating it on the first call. The scene view must be a
+   * {@link RectilinearView}.
+   */
+  annotationContainer() {
+    if (!this.#annotationContainer) {
+      this.#annotationContainer = new AnnotationContainer(
+        this.#viewer._controlContainer,
+        this.#viewer.stage(),
+        this.#view,
+        this.#viewer.renderLoop()
+      );
+      this.#updateHotspotContainer();
+    }
+    return this.#annotationContainer;
+  }
+  /**
+   * Returns the {@link MeasurementTool measurement tool} for the scene,
+   * creating it on the first call. The tool is initially disabled. The scene
+   * view must be a {@link RectilinearView}.
+   */
+  measurementTool() {
+    if (!this.#measurementTool) {
+      this.#measurementTool = new MeasurementTool(
+        this.#viewer._controlContainer,
+        this.#viewer.stage(),
+        this.#view,
+        this.#viewer.renderLoop()
+      );
+      this.#updateHotspotContainer();
+    }
+    return this.#measurementTool;
+  }
   /**
    * Returns the first of the {@link Layer layers} belonging to the scene, or
    * null if the scene has no layers.
@@ -180,6 +294,68 @@ class Scene {
   visible() {
     return this.#viewer.scene() === this;
   }
+  /**
+   * Returns the orientation and geographic metadata of the scene.
+   * @return {SceneGeoreference}
+   */
+  georeference(): SceneGeoreference {
+    return Object.assign({}, this.#georeference);
+  }
+  /**
+   * Sets the orientation and geographic metadata of the scene.
+   * @param {SceneGeoreference} georeference
+   */
+  setGeoreference(georeference: SceneGeoreference) {
+    this.#georeference = Object.assign({}, georeference);
+    this.emit('georeferenceChange');
+  }
+  /**
+   * Returns the view yaw facing north, in radians.
+   * @return {number}
+   */
+  northOffset() {
+    return this.#georeference.northOffset || 0;
+  }
+  /**
+   * Returns the geographic position of the camera, or null if unknown.
+   * @return {?GeoLocation}
+   */
+  location(): GeoLocation | null {
+    const { latitude, longitude, altitude } = this.#georeference;
+    if (latitude == null || longitude == null) {
+      return null;
+    }
+    return altitude != null
+      ? { latitude, longitude, altitude }
+      : { latitude, longitude };
+  }
+  /**
+   * Converts a compass bearing into a view yaw.
+   * @param {number} bearing The bearing in radians clockwise from north.
+   * @return {number} The yaw in radians.
+   */
+  bearingToYaw(bearing: number) {
+    return bearing + this.northOffset();
+  }
+  /**
+   * Converts a view yaw into a compass bearing.
+   * @param {number} yaw The yaw in radians.
+   * @return {number} The bearing in radians clockwise from north, in the
+   *     [0, 2π) range.
+   */
+  yawToBearing(yaw: number) {
+    return normalizeBearing(yaw - this.northOffset());
+  }
+  /**
+   * Returns the compass bearing of the view, or null if the view has no yaw.
+   * @return {?number}
+   */
+  bearing() {
+    const view = this.#view;
+    return view instanceof RectilinearView
+      ? this.yawToBearing(view.yaw())
+      : null;
+  }
   /**
    * Creates a new {@link Layer layer} and adds it into the scene in the
    * foreground position.
@@ -193,18 +369,28 @@ class Scene {
    *     {@link TextureStore} constructor.
    * @param {Object} [opts.layerOpts={}] Options to pass to the {@link Layer}
    *     constructor.
+   * @param {StereoOptions} [opts.stereo] How to display media packing the
+   *     images for both eyes. Takes precedence over `opts.layerOpts.stereo`.
    * @return {Layer}
+   * @throws An error if the layer renderer cannot draw the projection mode of
+   *     the view.
    */
   createLayer(opts) {
     opts = opts || {};
 
     const textureStoreOpts = opts.textureStoreOpts || {};
-    const layerOpts = opts.layerOpts || {};
+    let layerOpts = opts.layerOpts || {};
+    if (opts.stereo) {
+      layerOpts = { ...layerOpts, stereo: opts.stereo };
+    }
 
     const source = opts.source;
     const geometry = opts.geometry;
     const view = this.#view;
     const stage = this.#viewer.stage();
+    if (view instanceof RectilinearView) {
+      this.#checkProjectionMode(view.projectionMode(), [geometry]);
+    }
     // TODO: fix this when webgl is migrated to typescript
     // @ts-ignore
     const textureStore = new TextureStore(source, stage, textureStoreOpts);
@@ -350,6 +536,142 @@ class Scene {
       done();
     });
   }
+  /**
+   * Tweens the view to face a compass bearing. See {@link Scene#lookTo}.
+   *
+   * @param {number} bearing The bearing in radians clockwise from north.
+   * @param {Object} opts Transition options, as for {@link Scene#lookTo}.
+   * @param {function} done Function to call when the tween finishes or is
+   *    interrupted.
+   */
+  lookToBearing(bearing: number, opts?, done?) {
+    this.lookTo({ yaw: this.bearingToYaw(bearing) }, opts, done);
+  }
+  /**
+   * Tweens the view to face a geographic position. The pitch is only changed
+   * if the altitudes of both the camera and the target are known.
+   *
+   * @param {GeoLocation} target The position to face.
+   * @param {Object} opts Transition options, as for {@link Scene#lookTo}.
+   * @param {function} done Function to call when the tween finishes or is
+   *    interrupted.
+   * @throws An error if the scene has no geographic position.
+   */
+  lookToLocation(target: GeoLocation, opts?, done?) {
+    const location = this.location();
+    if (!location) {
+      throw new Error('Scene has no geographic position');
+    }
+    const params: { yaw: number; pitch?: number } = {
+      yaw: this.bearingToYaw(geoBearing(location, target)),
+    };
+    if (location.altitude != null && target.altitude != null) {
+      // Positive pitches point downwards.
+      params.pitch = -Math.atan2(
+        target.altitude - location.altitude,
+        geoDistance(location, target)
+      );
+    }
+    this.lookTo(params, opts, done);
+  }
+  /**
+   * Tweens the view into the "little planet" mode: the stereographic
+   * projection, looking straight down with a field of view wide enough to
+   * show the whole panorama around the nadir. The view is restored by
+   * {@link Scene#exitLittlePlanet}.
+   *
+   * The view must be a {@link RectilinearView}, and its limiter must allow the
+   * final pitch and field of view.
+   *
+   * @param {Object} opts Transition options, as for {@link Scene#lookTo}.
+   * @param {number} [opts.fov=4π/3] The final field of view.
+   * @param {function} done Function to call when the tween finishes or is
+   *    interrupted.
+   * @throws An error if the view does not support projections, or if the
+   *     renderer of a layer cannot draw the stereographic projection.
+   */
+  enterLittlePlanet(opts?, done?) {
+    const view = this.#projectableView();
+    if (view.projectionMode() !== 'stereographic') {
+      const from = {
+        pitch: view.pitch(),
+        fov: view.fov(),
+        projectionMode: view.projectionMode(),
+        projectionMix: view.projectionMix(),
+      };
+      // Without mix, the stereographic projection is identical to the
+      // rectilinear one, so that the switch is not visible.
+      view.setProjectionMode('stereographic');
+      view.setProjectionMix(0);
+      this.#littlePlanetFrom = from;
+    }
+    const fov = opts && opts.fov != null ? opts.fov : (4 * Math.PI) / 3;
+    this.lookTo({ pitch: Math.PI / 2, fov, projectionMix: 1 }, opts, done);
+  }
+  /**
+   * Tweens the view out of the "little planet" mode, back to the pitch, field
+   * of view and projection it had before {@link Scene#enterLittlePlanet}, or
+   * to a level rectilinear view.
+   *
+   * @param {Object} opts Transition options, as for {@link Scene#lookTo}.
+   * @param {function} done Function to call when the tween finishes or is
+   *    interrupted.
+   * @throws An error if the view does not support projections.
+   */
+  exitLittlePlanet(opts?, done?) {
+    const view = this.#projectableView();
+    const from = this.#littlePlanetFrom || {
+      pitch: 0,
+      fov: Math.PI / 2,
+      projectionMode: 'rectilinear',
+      projectionMix: 1,
+    };
+    this.#littlePlanetFrom = null;
+    done = done || noop;
+    this.lookTo(
+      { pitch: from.pitch, fov: from.fov, projectionMix: 0 },
+      opts,
+      function () {
+        view.setProjectionMode(from.projectionMode);
+        view.setProjectionMix(from.projectionMix);
+        done();
+      }
+    );
+  }
+  // Throws if the renderer for any of the geometries cannot draw a projection
+  // of the rectilinear view.
+  #checkProjectionMode(mode: ProjectionMode, geometries: Geometry[]) {
+    const stage = this.#viewer.stage();
+    for (const geometry of geometries) {
+      if (!stage.supportsProjectionMode(geometry.type, 'rectilinear', mode)) {
+        throw new Error(
+          'Projection mode ' +
+            mode +
+            ' not supported for ' +
+            geometry.type +
+            ' geometry'
+        );
+      }
+    }
+  }
+  #projectableView() {
+    const view = this.#view;
+    if (!(view instanceof RectilinearView)) {
+      throw new Error('View does not support projections');
+    }
+    return view;
+  }
+  /**
+   * Renders the scene layers into an image, whether or not the scene is
+   * visible. The view of the scene is left unchanged.
+   *
+   * @param {RenderToImageOptions} opts Options to pass into
+   *     {@link renderToImage}.
+   * @return {Promise<Blob|ImageBitmap>}
+   */
+  renderToImage(opts: RenderToImageOptions) {
+    return renderToImage(this.#viewer.stage(), this.#layers, opts);
+  }
   /**
    * Starts a movement, possibly replacing the current movement.
    *
@@ -438,8 +760,12 @@ class Scene {
   #updateHotspotContainer() {
     if (this.visible()) {
       this.#hotspotContainer.show();
+      this.#annotationContainer?.show();
+      this.#measurementTool?.show();
     } else {
       this.#hotspotContainer.hide();
+      this.#annotationContainer?.hide();
+      this.#measurementTool?.hide();
     }
   }
   emit(_arg0: string) {
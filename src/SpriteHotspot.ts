@@ -0,0 +1,249 @@
+import eventEmitter from 'minimal-event-emitter';
+import clearOwnProperties from './util/clearOwnProperties';
+
+/**
+ * An image drawable by a {@link SpriteHotspotLayer}.
+ */
+export type SpriteImage = HTMLImageElement | HTMLCanvasElement | ImageBitmap;
+
+/**
+ * The position of a sprite hotspot, i.e., `yaw` and `pitch` for a
+ * {@link RectilinearView} or `x` and `y` for a {@link FlatView}.
+ */
+export type SpriteHotspotCoords = { [name: string]: number };
+
+export interface SpriteHotspotOptions {
+  /**
+   * The icon. Images still loading are drawn once loaded. When absent, only the
+   * label is drawn.
+   */
+  image?: SpriteImage | null;
+  /**
+   * Text drawn below the icon.
+   */
+  label?: string | null;
+  /**
+   * Size of the icon in pixels. Defaults to 32x32.
+   */
+  width?: number;
+  height?: number;
+  /**
+   * Point of the icon placed at the hotspot position, as a fraction of its
+   * size from the top left. Defaults to the center.
+   */
+  anchorX?: number;
+  anchorY?: number;
+  /**
+   * Arbitrary data associated with the hotspot, e.g. for picking.
+   */
+  data?: any;
+}
+
+const defaultSize = 32;
+
+/**
+ * Signals that the hotspot must be redrawn.
+ * @event SpriteHotspot#change
+ */
+
+/**
+ * @class SpriteHotspot
+ * @classdesc
+ *
+ * A hotspot drawn by a {@link SpriteHotspotLayer} as an icon and an optional
+ * label. Unlike a {@link Hotspot}, it is not a DOM element; use
+ * {@link SpriteHotspotLayer#pick} to handle interaction.
+ *
+ * Clients should create sprite hotspots by calling
+ * {@link SpriteHotspotLayer#createHotspot}.
+ *
+ * @param {SpriteHotspotCoords} coords
+ * @param {SpriteHotspotOptions} [opts]
+ */
+class SpriteHotspot {
+  #coords: SpriteHotspotCoords;
+  #image: SpriteImage | null;
+  #label: string | null;
+  #width: number;
+  #height: number;
+  #anchorX: number;
+  #anchorY: number;
+  #data: any;
+  #visible: boolean;
+  #emitChange: () => void;
+
+  constructor(coords: SpriteHotspotCoords, opts?: SpriteHotspotOptions) {
+    opts = opts || {};
+
+    this.#coords = Object.assign({}, coords);
+    this.#label = opts.label != null ? opts.label : null;
+    this.#width = opts.width != null ? opts.width : defaultSize;
+    this.#height = opts.height != null ? opts.height : defaultSize;
+    this.#anchorX = opts.anchorX != null ? opts.anchorX : 0.5;
+    this.#anchorY = opts.anchorY != null ? opts.anchorY : 0.5;
+    this.#data = opts.data;
+    this.#visible = true;
+
+    this.#emitChange = this.emit.bind(this, 'change');
+
+    this.#image = null;
+    this.setImage(opts.image || null);
+  }
+  /**
+   * Destructor. Clients should call {@link SpriteHotspotLayer#destroyHotspot}
+   * instead.
+   */
+  destroy() {
+    this.#unlistenImage();
+    clearOwnProperties(this);
+  }
+  /**
+   * Returns the hotspot position.
+   * @return {SpriteHotspotCoords}
+   */
+  position() {
+    return this.#coords;
+  }
+  /**
+   * Sets the hotspot position.
+   * @param {SpriteHotspotCoords} coords
+   */
+  setPosition(coords: SpriteHotspotCoords) {
+    this.#coords = Object.assign({}, coords);
+    this.emit('change');
+  }
+  /**
+   * Returns the icon, or null if none.
+   * @return {?SpriteImage}
+   */
+  image() {
+    return this.#image;
+  }
+  /**
+   * Sets the icon.
+   * @param {?SpriteImage} image
+   */
+  setImage(image: SpriteImage | null) {
+    this.#unlistenImage();
+    this.#image = image;
+    if (isLoading(image)) {
+      (image as HTMLImageElement).addEventListener('load', this.#emitChange);
+    }
+    this.emit('change');
+  }
+  /**
+   * Returns the label, or null if none.
+   * @return {?string}
+   */
+  label() {
+    return this.#label;
+  }
+  /**
+   * Sets the label.
+   * @param {?string} label
+   */
+  setLabel(label: string | null) {
+    this.#label = label;
+    this.emit('change');
+  }
+  /**
+   * Returns the icon width in pixels.
+   * @return {number}
+   */
+  width() {
+    return this.#width;
+  }
+  /**
+   * Returns the icon height in pixels.
+   * @return {number}
+   */
+  height() {
+    return this.#height;
+  }
+  /**
+   * Sets the icon size in pixels.
+   * @param {number} width
+   * @param {number} height
+   */
+  setSize(width: number, height: number) {
+    this.#width = width;
+    this.#height = height;
+    this.emit('change');
+  }
+  /**
+   * Returns the horizontal anchor, as a fraction of the width.
+   * @return {number}
+   */
+  anchorX() {
+    return this.#anchorX;
+  }
+  /**
+   * Returns the vertical anchor, as a fraction of the height.
+   * @return {number}
+   */
+  anchorY() {
+    return this.#anchorY;
+  }
+  /**
+   * Returns the data associated with the hotspot.
+   * @return {*}
+   */
+  data() {
+    return this.#data;
+  }
+  /**
+   * Returns whether the hotspot is visible.
+   * @return {boolean}
+   */
+  visible() {
+    return this.#visible;
+  }
+  /**
+   * Shows the hotspot.
+   */
+  show() {
+    if (!this.#visible) {
+      this.#visible = true;
+      this.emit('change');
+    }
+  }
+  /**
+   * Hides the hotspot.
+   */
+  hide() {
+    if (this.#visible) {
+      this.#visible = false;
+      this.emit('change');
+    }
+  }
+  #unlistenImage() {
+    if (isLoading(this.#image)) {
+      (this.#image as HTMLImageElement).removeEventListener(
+        'load',
+        this.#emitChange
+      );
+    }
+  }
+  emit(_arg0: string, ..._args: any[]) {
+    throw new Error('Method not implemented.');
+  }
+  addEventListener(_arg0: string, _arg1: Function) {
+    throw new Error('Method not implemented.');
+  }
+  removeEventListener(_arg0: string, _arg1: Function) {
+    throw new Error('Method not implemented.');
+  }
+}
+
+eventEmitter(SpriteHotspot);
+
+// Returns whether an image is an HTML image still loading.
+function isLoading(image: SpriteImage | null) {
+  return (
+    typeof HTMLImageElement !== 'undefined' &&
+    image instanceof HTMLImageElement &&
+    !image.complete
+  );
+}
+
+export default SpriteHotspot;
@@ -0,0 +1,176 @@
+import { suite, test, assert, beforeEach } from 'vitest';
+import sinon from 'sinon';
+
+import SpriteHotspotLayer from './SpriteHotspotLayer';
+import RectilinearView from './views/Rectilinear';
+
+// A 200x100 stage.
+function MockStage(layer) {
+  this.width = sinon.stub().returns(200);
+  this.height = sinon.stub().returns(100);
+  this.hasLayer = function (other) {
+    return other === layer;
+  };
+}
+
+suite('SpriteHotspotLayer', function () {
+  var view, layer, stage, spriteLayer;
+
+  beforeEach(function () {
+    view = new RectilinearView({ yaw: 0, pitch: 0, fov: 1 });
+    view.setSize({ width: 200, height: 100 });
+    layer = {
+      view: sinon.stub().returns(view),
+      effects: sinon.stub().returns({}),
+    };
+    stage = new MockStage(layer);
+    spriteLayer = new SpriteHotspotLayer(layer);
+  });
+
+  function hotspotsAt(placements) {
+    return placements.map(function (placement) {
+      return placement.hotspots;
+    });
+  }
+
+  test('manages hotspots', function () {
+    var spy = sinon.spy();
+    spriteLayer.addEventListener('change', spy);
+
+    var hotspot1 = spriteLayer.createHotspot({ yaw: 0, pitch: 0 });
+    var hotspot2 = spriteLayer.createHotspot(
+      { yaw: 0.1, pitch: 0 },
+      { label: 'Door', data: 42 }
+    );
+    assert.sameOrderedMembers(spriteLayer.listHotspots(), [hotspot1, hotspot2]);
+    assert.isTrue(spriteLayer.hasHotspot(hotspot1));
+    assert.equal(hotspot2.label(), 'Door');
+    assert.equal(hotspot2.data(), 42);
+    assert.equal(spy.callCount, 2);
+
+    hotspot1.setPosition({ yaw: 0.2, pitch: 0 });
+    assert.equal(spy.callCount, 3);
+
+    spriteLayer.destroyHotspot(hotspot1);
+    assert.isFalse(spriteLayer.hasHotspot(hotspot1));
+    assert.sameOrderedMembers(spriteLayer.listHotspots(), [hotspot2]);
+    assert.equal(spy.callCount, 4);
+    assert.throws(function () {
+      spriteLayer.destroyHotspot(hotspot1);
+    });
+  });
+
+  test('places hotspots by their anchor', function () {
+    var hotspot = spriteLayer.createHotspot(
+      { yaw: 0, pitch: 0 },
+      { width: 20, height: 10, anchorX: 0.5, anchorY: 1 }
+    );
+
+    spriteLayer.render(stage);
+
+    var placements = spriteLayer.placements();
+    assert.lengthOf(placements, 1);
+    assert.sameMembers(placements[0].hotspots, [hotspot]);
+    assert.closeTo(placements[0].x, 100, 1e-6);
+    assert.closeTo(placements[0].y, 50, 1e-6);
+    assert.closeTo(placements[0].left, 90, 1e-6);
+    assert.closeTo(placements[0].top, 40, 1e-6);
+    assert.equal(placements[0].width, 20);
+    assert.equal(placements[0].height, 10);
+  });
+
+  test('offsets hotspots by the layer rect', function () {
+    layer.effects.returns({ rect: { relativeX: 0.5, relativeWidth: 0.5 } });
+    view.setSize({ width: 100, height: 100 });
+    spriteLayer.createHotspot({ yaw: 0, pitch: 0 });
+
+    spriteLayer.render(stage);
+
+    var placements = spriteLayer.placements();
+    assert.lengthOf(placements, 1);
+    assert.closeTo(placements[0].x, 150, 1e-6);
+    assert.closeTo(placements[0].y, 50, 1e-6);
+  });
+
+  test('skips hidden and offscreen hotspots', function () {
+    var visible = spriteLayer.createHotspot({ yaw: 0, pitch: 0 });
+    var hidden = spriteLayer.createHotspot({ yaw: 0.1, pitch: 0 });
+    spriteLayer.createHotspot({ yaw: Math.PI, pitch: 0 });
+    spriteLayer.createHotspot({ yaw: 1.5, pitch: 0 });
+    hidden.hide();
+
+    spriteLayer.render(stage);
+    assert.deepEqual(hotspotsAt(spriteLayer.placements()), [[visible]]);
+
+    hidden.show();
+    spriteLayer.render(stage);
+    assert.lengthOf(spriteLayer.placements(), 2);
+  });
+
+  test('skips hotspots when the layer is not on the stage', function () {
+    spriteLayer.createHotspot({ yaw: 0, pitch: 0 });
+    spriteLayer.render(stage);
+    assert.lengthOf(spriteLayer.placements(), 1);
+
+    stage.hasLayer = sinon.stub().returns(false);
+    spriteLayer.render(stage);
+    assert.lengthOf(spriteLayer.placements(), 0);
+  });
+
+  test('draws hotspots nearer the view center on top', function () {
+    var far = spriteLayer.createHotspot({ yaw: 0.3, pitch: 0 });
+    var center = spriteLayer.createHotspot({ yaw: 0, pitch: 0 });
+    var near = spriteLayer.createHotspot({ yaw: -0.05, pitch: 0 });
+
+    spriteLayer.render(stage);
+
+    assert.deepEqual(hotspotsAt(spriteLayer.placements()), [
+      [far],
+      [near],
+      [center],
+    ]);
+  });
+
+  test('picks the topmost hotspot', function () {
+    var center = spriteLayer.createHotspot({ yaw: 0, pitch: 0 });
+    var near = spriteLayer.createHotspot({ yaw: -0.05, pitch: 0 });
+
+    spriteLayer.render(stage);
+
+    // Both hotspots overlap at the center.
+    assert.deepEqual(spriteLayer.pick(100, 50).hotspots, [center]);
+    assert.deepEqual(spriteLayer.pick(80, 50).hotspots, [near]);
+    assert.isNull(spriteLayer.pick(10, 10));
+  });
+
+  test('clusters nearby hotspots at wide fields of view', function () {
+    view.setFov(2);
+    var center = spriteLayer.createHotspot({ yaw: 0, pitch: 0 });
+    var near = spriteLayer.createHotspot({ yaw: 0.02, pitch: 0 });
+    var far = spriteLayer.createHotspot({ yaw: 1, pitch: 0 });
+
+    spriteLayer.render(stage);
+
+    var placements = spriteLayer.placements();
+    assert.deepEqual(hotspotsAt(placements), [[far], [center, near]]);
+    assert.closeTo(placements[1].x, 100, 1e-6);
+    assert.closeTo(placements[1].left, 84, 1e-6);
+    assert.equal(placements[1].width, 32);
+    assert.deepEqual(spriteLayer.pick(100, 50).hotspots, [center, near]);
+
+    view.setFov(1);
+    spriteLayer.render(stage);
+    assert.deepEqual(hotspotsAt(spriteLayer.placements()), [[near], [center]]);
+  });
+
+  test('does not cluster with a zero radius', function () {
+    spriteLayer = new SpriteHotspotLayer(layer, { clusterRadius: 0 });
+    view.setFov(2);
+    spriteLayer.createHotspot({ yaw: 0, pitch: 0 });
+    spriteLayer.createHotspot({ yaw: 0.02, pitch: 0 });
+
+    spriteLayer.render(stage);
+
+    assert.lengthOf(spriteLayer.placements(), 2);
+  });
+});
@@ -0,0 +1,579 @@
+import eventEmitter from 'minimal-event-emitter';
+import Layer from './Layer';
+import SpriteHotspot, {
+  SpriteHotspotCoords,
+  SpriteHotspotOptions,
+  SpriteImage,
+} from './SpriteHotspot';
+import WebGlSpriteRenderer from './renderers/WebGlSprite';
+import Stage from './stages/Stage';
+import WebGlStage from './stages/WebGl';
+import calcRect from './util/calcRect';
+import clearOwnProperties from './util/clearOwnProperties';
+import defaults from './util/defaults';
+import pixelRatio from './util/pixelRatio';
+import { Rect } from './jsdoc-extras';
+
+export interface SpriteHotspotLayerOptions {
+  /**
+   * Field of view in radians from which nearby hotspots are grouped into
+   * clusters. Views without a field of view, such as {@link FlatView}, are
+   * clustered at any zoom level. Defaults to π/2.
+   */
+  clusterFov?: number;
+  /**
+   * Distance in pixels within which hotspots are grouped into the same
+   * cluster. Set to 0 to disable clustering. Defaults to 40.
+   */
+  clusterRadius?: number;
+  /**
+   * Diameter in pixels of the badge drawn for a cluster. Defaults to 32.
+   */
+  clusterSize?: number;
+  /**
+   * Fill color of the cluster badges. Defaults to `rgba(0, 0, 0, 0.7)`.
+   */
+  clusterColor?: string;
+  /**
+   * Color of the hotspot count in cluster badges. Defaults to `#fff`.
+   */
+  clusterTextColor?: string;
+  /**
+   * Font size of the labels in pixels. Defaults to 12.
+   */
+  labelFontSize?: number;
+  /**
+   * Font family of the labels and cluster badges. Defaults to `sans-serif`.
+   */
+  labelFontFamily?: string;
+  /**
+   * Color of the label text. Defaults to `#fff`.
+   */
+  labelColor?: string;
+  /**
+   * Background color of the labels. Defaults to `rgba(0, 0, 0, 0.6)`.
+   */
+  labelBackground?: string;
+}
+
+/**
+ * A hotspot, or cluster of hotspots, as drawn on the stage in the last frame.
+ * All positions and sizes are in stage pixels.
+ */
+export interface SpriteHotspotPlacement {
+  /**
+   * The hotspots drawn at this position. More than one for a cluster.
+   */
+  hotspots: SpriteHotspot[];
+  /**
+   * Offset of the hotspot position from the stage left. For a cluster, the
+   * position of the hotspot nearest the view center.
+   */
+  x: number;
+  /**
+   * Offset of the hotspot position from the stage top.
+   */
+  y: number;
+  /**
+   * Bounds of the icon or cluster badge.
+   */
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+interface Sprite {
+  image: SpriteImage;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+interface CanvasImage {
+  image: HTMLCanvasElement;
+  width: number;
+  height: number;
+}
+
+const defaultOptions = {
+  clusterFov: Math.PI / 2,
+  clusterRadius: 40,
+  clusterSize: 32,
+  clusterColor: 'rgba(0, 0, 0, 0.7)',
+  clusterTextColor: '#fff',
+  labelFontSize: 12,
+  labelFontFamily: 'sans-serif',
+  labelColor: '#fff',
+  labelBackground: 'rgba(0, 0, 0, 0.6)',
+};
+
+// Space in pixels around the label text, and between the icon and the label.
+const labelPadding = 4;
+const labelMargin = 2;
+
+/**
+ * Signals that the hotspots must be redrawn.
+ * @event SpriteHotspotLayer#change
+ */
+
+/**
+ * @class SpriteHotspotLayer
+ * @classdesc
+ *
+ * Draws {@link SpriteHotspot sprite hotspots} over a {@link Layer}, as icons
+ * and labels rendered by the {@link WebGlStage} itself rather than as DOM
+ * elements. This scales to many more hotspots than a {@link HotspotContainer},
+ * and the hotspots are included in {@link WebGlStage#takeSnapshot snapshots}.
+ *
+ * Hotspots nearer the view center are drawn over the others. When the view
+ * field of view is wide, hotspots close to each other on screen are grouped
+ * into a cluster, drawn as a badge with the number of hotspots. Labels are
+ * drawn over all icons to keep them legible.
+ *
+ * The hotspots are only drawn while the layer is on the stage. To draw them,
+ * add the sprite hotspot layer to the stage with {@link Stage#addOverlay}:
+ *
+ * ```
+ * var spriteHotspots = new SpriteHotspotLayer(scene.layer());
+ * viewer.stage().addOverlay(spriteHotspots);
+ * ```
+ *
+ * Use {@link SpriteHotspotLayer#pick}, for instance from the {@link Viewer}
+ * `click` event, to find the hotspots under the pointer.
+ *
+ * @param {Layer} layer The layer whose view positions the hotspots.
+ * @param {SpriteHotspotLayerOptions} [opts]
+ */
+class SpriteHotspotLayer {
+  #layer: Layer;
+  #opts: Required<SpriteHotspotLayerOptions>;
+  #hotspots: SpriteHotspot[];
+  #placements: SpriteHotspotPlacement[];
+  #renderer: WebGlSpriteRenderer | null;
+  #rendererContext: any;
+  #labelImages: Map<string, CanvasImage | null>;
+  #clusterImages: Map<number, CanvasImage | null>;
+  #emitChange: () => void;
+  #tmpRect: Required<Rect>;
+  #tmpScreen: { x: number; y: number };
+
+  constructor(layer: Layer, opts?: SpriteHotspotLayerOptions) {
+    this.#layer = layer;
+    this.#opts = defaults(Object.assign({}, opts), defaultOptions);
+
+    this.#hotspots = [];
+
+    // The hotspots drawn in the last frame, from bottom to top.
+    this.#placements = [];
+
+    // The renderer, created on first render for the stage WebGL context.
+    this.#renderer = null;
+    this.#rendererContext = null;
+
+    // Canvases drawn for labels and cluster badges, by label and hotspot count.
+    // Null when the canvas could not be drawn.
+    this.#labelImages = new Map();
+    this.#clusterImages = new Map();
+
+    this.#emitChange = this.emit.bind(this, 'change');
+
+    this.#tmpRect = { x: 0, y: 0, width: 0, height: 0 };
+    this.#tmpScreen = { x: 0, y: 0 };
+  }
+  /**
+   * Destructor. The sprite hotspot layer should be removed from the stage
+   * first.
+   */
+  destroy() {
+    while (this.#hotspots.length) {
+      this.destroyHotspot(this.#hotspots[0]);
+    }
+    this.#destroyRenderer();
+    clearOwnProperties(this);
+  }
+  /**
+   * Returns the layer whose view positions the hotspots.
+   * @return {Layer}
+   */
+  layer() {
+    return this.#layer;
+  }
+  /**
+   * Creates a new sprite hotspot.
+   * @param {SpriteHotspotCoords} coords The hotspot position.
+   * @param {SpriteHotspotOptions} [opts]
+   * @return {SpriteHotspot}
+   */
+  createHotspot(coords: SpriteHotspotCoords, opts?: SpriteHotspotOptions) {
+    const hotspot = new SpriteHotspot(coords, opts);
+    this.#hotspots.push(hotspot);
+    hotspot.addEventListener('change', this.#emitChange);
+    this.emit('change');
+    return hotspot;
+  }
+  /**
+   * Returns whether a sprite hotspot belongs to this layer.
+   * @param {SpriteHotspot} hotspot
+   * @return {boolean}
+   */
+  hasHotspot(hotspot: SpriteHotspot) {
+    return this.#hotspots.indexOf(hotspot) >= 0;
+  }
+  /**
+   * Returns a list of all sprite hotspots in this layer.
+   * @return {SpriteHotspot[]}
+   */
+  listHotspots() {
+    return [...this.#hotspots];
+  }
+  /**
+   * Removes a sprite hotspot from this layer and destroys it.
+   * @param {SpriteHotspot} hotspot
+   * @throws An error if the hotspot does not belong to this layer.
+   */
+  destroyHotspot(hotspot: SpriteHotspot) {
+    const i = this.#hotspots.indexOf(hotspot);
+    if (i < 0) {
+      throw new Error('No such hotspot');
+    }
+    this.#hotspots.splice(i, 1);
+    hotspot.removeEventListener('change', this.#emitChange);
+    hotspot.destroy();
+    this.emit('change');
+  }
+  /**
+   * Returns the hotspots and clusters drawn in the last frame, from bottom to
+   * top.
+   * @return {SpriteHotspotPlacement[]}
+   */
+  placements() {
+    return [...this.#placements];
+  }
+  /**
+   * Finds the topmost hotspot or cluster drawn at a point in the last frame.
+   * Only the icon or cluster badge is considered, not the label.
+   * @param {number} x The horizontal offset from the stage left, in pixels.
+   * @param {number} y The vertical offset from the stage top, in pixels.
+   * @return {?SpriteHotspotPlacement}
+   */
+  pick(x: number, y: number) {
+    for (let i = this.#placements.length - 1; i >= 0; i--) {
+      const placement = this.#placements[i];
+      if (
+        x >= placement.left &&
+        x <= placement.left + placement.width &&
+        y >= placement.top &&
+        y <= placement.top + placement.height
+      ) {
+        return placement;
+      }
+    }
+    return null;
+  }
+  /**
+   * Draws the hotspots. Called by the stage on every frame.
+   * @param {Stage} stage
+   */
+  render(stage: Stage) {
+    if (!stage.hasLayer(this.#layer)) {
+      this.#placements = [];
+      return;
+    }
+
+    const rect = this.#tmpRect;
+    calcRect(stage.width(), stage.height(), this.#layer.effects()?.rect, rect);
+    this.#placements = this.#layout(stage.width(), stage.height(), rect);
+
+    if (!(stage instanceof WebGlStage)) {
+      return;
+    }
+    const gl = stage.webGlContext();
+    if (!gl) {
+      return;
+    }
+    let renderer = this.#renderer;
+    if (!renderer || this.#rendererContext !== gl) {
+      this.#destroyRenderer();
+      renderer = this.#renderer = new WebGlSpriteRenderer(gl);
+      this.#rendererContext = gl;
+    }
+
+    const effects = this.#layer.effects();
+    const opacity = effects && effects.opacity != null ? effects.opacity : 1;
+    renderer.render(
+      this.#sprites(),
+      stage.width(),
+      stage.height(),
+      rect,
+      opacity
+    );
+  }
+  // Computes the placements of the visible hotspots, from bottom to top.
+  #layout(
+    stageWidth: number,
+    stageHeight: number,
+    rect: Required<Rect>
+  ): SpriteHotspotPlacement[] {
+    const view = this.#layer.view();
+    const offsetX = rect.x * stageWidth;
+    const offsetY = rect.y * stageHeight;
+    const width = rect.width * stageWidth;
+    const height = rect.height * stageHeight;
+    const screen = this.#tmpScreen;
+
+    // The visible hotspots, with their squared distance to the view center.
+    const items: { placement: SpriteHotspotPlacement; distance: number }[] = [];
+    for (const hotspot of this.#hotspots) {
+      if (!hotspot.visible()) {
+        continue;
+      }
+      if (!view.coordinatesToScreen(hotspot.position(), screen)) {
+        continue;
+      }
+      const left = screen.x - hotspot.anchorX() * hotspot.width();
+      const top = screen.y - hotspot.anchorY() * hotspot.height();
+      if (
+        left > width ||
+        top > height ||
+        left + hotspot.width() < 0 ||
+        top + hotspot.height() < 0
+      ) {
+        continue;
+      }
+      const dx = screen.x - width / 2;
+      const dy = screen.y - height / 2;
+      items.push({
+        placement: {
+          hotspots: [hotspot],
+          x: offsetX + screen.x,
+          y: offsetY + screen.y,
+          left: offsetX + left,
+          top: offsetY + top,
+          width: hotspot.width(),
+          height: hotspot.height(),
+        },
+        distance: dx * dx + dy * dy,
+      });
+    }
+
+    // Sort from the center outwards.
+    items.sort((a, b) => a.distance - b.distance);
+
+    if (this.#shouldCluster(view)) {
+      this.#cluster(items);
+    }
+
+    // Draw hotspots nearer the center last.
+    const placements: SpriteHotspotPlacement[] = [];
+    for (let i = items.length - 1; i >= 0; i--) {
+      placements.push(items[i].placement);
+    }
+    return placements;
+  }
+  #shouldCluster(view: any) {
+    if (this.#opts.clusterRadius <= 0) {
+      return false;
+    }
+    return (
+      typeof view.fov !== 'function' || view.fov() >= this.#opts.clusterFov
+    );
+  }
+  // Groups items, sorted from the center outwards, into clusters around the
+  // items nearest the center.
+  #cluster(items: { placement: SpriteHotspotPlacement; distance: number }[]) {
+    const radius = this.#opts.clusterRadius;
+    const size = this.#opts.clusterSize;
+    let count = 0;
+    for (const item of items) {
+      const placement = item.placement;
+      let cluster: SpriteHotspotPlacement | null = null;
+      for (let j = 0; j < count; j++) {
+        const seed = items[j].placement;
+        const dx = placement.x - seed.x;
+        const dy = placement.y - seed.y;
+        if (dx * dx + dy * dy <= radius * radius) {
+          cluster = seed;
+          break;
+        }
+      }
+      if (cluster) {
+        cluster.hotspots.push(placement.hotspots[0]);
+      } else {
+        items[count++] = item;
+      }
+    }
+    items.length = count;
+
+    for (const item of items) {
+      const placement = item.placement;
+      if (placement.hotspots.length > 1) {
+        placement.left = placement.x - size / 2;
+        placement.top = placement.y - size / 2;
+        placement.width = size;
+        placement.height = size;
+      }
+    }
+  }
+  // Returns the sprites to draw for the current placements, and discards the
+  // canvases no longer needed.
+  #sprites() {
+    const icons: Sprite[] = [];
+    const labels: Sprite[] = [];
+    const usedLabels = new Set<string>();
+    const usedClusters = new Set<number>();
+
+    for (const placement of this.#placements) {
+      const hotspots = placement.hotspots;
+      let image: SpriteImage | null = null;
+      if (hotspots.length > 1) {
+        const cluster = this.#clusterImage(hotspots.length);
+        usedClusters.add(hotspots.length);
+        image = cluster && cluster.image;
+      } else if (isDrawable(hotspots[0].image())) {
+        image = hotspots[0].image();
+      }
+      if (image) {
+        icons.push({
+          image,
+          left: placement.left,
+          top: placement.top,
+          width: placement.width,
+          height: placement.height,
+        });
+      }
+
+      const text = hotspots.length === 1 ? hotspots[0].label() : null;
+      const label = text ? this.#labelImage(text) : null;
+      if (text) {
+        usedLabels.add(text);
+      }
+      if (label) {
+        labels.push({
+          image: label.image,
+          left: placement.x - label.width / 2,
+          top: placement.top + placement.height + labelMargin,
+          width: label.width,
+          height: label.height,
+        });
+      }
+    }
+
+    pruneImages(this.#labelImages, usedLabels);
+    pruneImages(this.#clusterImages, usedClusters);
+
+    return icons.concat(labels);
+  }
+  #labelImage(text: string) {
+    let label = this.#labelImages.get(text);
+    if (label === undefined) {
+      const opts = this.#opts;
+      const font = opts.labelFontSize + 'px ' + opts.labelFontFamily;
+      const height = opts.labelFontSize + 2 * labelPadding;
+      const width = Math.ceil(measureText(text, font)) + 2 * labelPadding;
+      label = drawCanvas(width, height, (context) => {
+        context.fillStyle = opts.labelBackground;
+        context.fillRect(0, 0, width, height);
+        context.font = font;
+        context.fillStyle = opts.labelColor;
+        context.textAlign = 'center';
+        context.textBaseline = 'middle';
+        context.fillText(text, width / 2, height / 2);
+      });
+      this.#labelImages.set(text, label);
+    }
+    return label;
+  }
+  #clusterImage(count: number) {
+    let cluster = this.#clusterImages.get(count);
+    if (cluster === undefined) {
+      const opts = this.#opts;
+      const size = opts.clusterSize;
+      cluster = drawCanvas(size, size, (context) => {
+        context.fillStyle = opts.clusterColor;
+        context.beginPath();
+        context.arc(size / 2, size / 2, size / 2, 0, 2 * Math.PI);
+        context.fill();
+        context.font =
+          'bold ' + Math.round(size * 0.4) + 'px ' + opts.labelFontFamily;
+        context.fillStyle = opts.clusterTextColor;
+        context.textAlign = 'center';
+        context.textBaseline = 'middle';
+        context.fillText(String(count), size / 2, size / 2);
+      });
+      this.#clusterImages.set(count, cluster);
+    }
+    return cluster;
+  }
+  #destroyRenderer() {
+    if (this.#renderer) {
+      this.#renderer.destroy();
+      this.#renderer = null;
+      this.#rendererContext = null;
+    }
+  }
+  emit(_arg0: string, ..._args: any[]) {
+    throw new Error('Method not implemented.');
+  }
+  addEventListener(_arg0: string, _arg1: Function) {
+    throw new Error('Method not implemented.');
+  }
+  removeEventListener(_arg0: string, _arg1: Function) {
+    throw new Error('Method not implemented.');
+  }
+}
+
+eventEmitter(SpriteHotspotLayer);
+
+function isDrawable(image: SpriteImage | null) {
+  if (!image) {
+    return false;
+  }
+  if (
+    typeof HTMLImageElement !== 'undefined' &&
+    image instanceof HTMLImageElement
+  ) {
+    return image.complete && image.naturalWidth > 0;
+  }
+  return image.width > 0 && image.height > 0;
+}
+
+function pruneImages<K>(images: Map<K, CanvasImage | null>, used: Set<K>) {
+  images.forEach((_image, key) => {
+    if (!used.has(key)) {
+      images.delete(key);
+    }
+  });
+}
+
+function measureText(text: string, font: string) {
+  const context = document.createElement('canvas').getContext('2d');
+  if (!context) {
+    return 0;
+  }
+  context.font = font;
+  return context.measureText(text).width;
+}
+
+// Draws a canvas of the given size in pixels, at the device pixel ratio.
+// Returns null if the canvas cannot be drawn into.
+function drawCanvas(
+  width: number,
+  height: number,
+  draw: (context: CanvasRenderingContext2D) => void
+): CanvasImage | null {
+  const ratio = pixelRatio();
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(width * ratio);
+  canvas.height = Math.ceil(height * ratio);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return null;
+  }
+  context.scale(ratio, ratio);
+  draw(context);
+  return { image: canvas, width, height };
+}
+
+export default SpriteHotspotLayer;
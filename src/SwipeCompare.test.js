@@ -0,0 +1,180 @@
+import { suite, test, assert, beforeEach, afterEach } from 'vitest';
+import sinon from 'sinon';
+
+import SwipeCompare from './SwipeCompare';
+import RectilinearView from './views/Rectilinear';
+import FlatView from './views/Flat';
+
+function MockLayer(view, effects) {
+  var current = effects || {};
+  this.view = sinon.stub().returns(view);
+  this.effects = function () {
+    return current;
+  };
+  this.setEffects = sinon.spy(function (effects) {
+    current = effects;
+  });
+}
+
+function pointerEvent(type, clientX) {
+  var event = new Event(type, { bubbles: true, cancelable: true });
+  event.clientX = clientX;
+  return event;
+}
+
+function rect(layer) {
+  return layer.setEffects.lastCall.args[0].rect;
+}
+
+suite('SwipeCompare', function () {
+  var element;
+
+  beforeEach(function () {
+    element = document.createElement('div');
+    element.getBoundingClientRect = function () {
+      return { left: 100, top: 0, width: 400, height: 300 };
+    };
+    document.body.appendChild(element);
+  });
+
+  afterEach(function () {
+    document.body.removeChild(element);
+  });
+
+  test('splits the layers', function () {
+    var left = new MockLayer(new RectilinearView(), { opacity: 0.5 });
+    var right = new MockLayer(new RectilinearView());
+    var compare = new SwipeCompare(left, right, { element, position: 0.25 });
+
+    assert.strictEqual(compare.position(), 0.25);
+    assert.deepEqual(left.setEffects.lastCall.args[0], {
+      opacity: 0.5,
+      rect: { relativeX: 0, relativeWidth: 0.25 },
+    });
+    assert.deepEqual(rect(right), { relativeX: 0.25, relativeWidth: 0.75 });
+    assert.strictEqual(compare.divider().parentNode, element);
+    assert.strictEqual(compare.divider().style.left, '25%');
+  });
+
+  test('links distinct views', function () {
+    var leftView = new RectilinearView();
+    var rightView = new RectilinearView();
+    var compare = new SwipeCompare(
+      new MockLayer(leftView),
+      new MockLayer(rightView),
+      { element, link: { parameters: ['yaw'] } }
+    );
+    leftView.setYaw(0.5);
+    assert.closeTo(rightView.yaw(), 0.5, 1e-9);
+    assert.deepEqual(compare.linkedViews().parameters(), ['yaw']);
+  });
+
+  test('does not link views when told not to', function () {
+    var compare = new SwipeCompare(
+      new MockLayer(new RectilinearView()),
+      new MockLayer(new RectilinearView()),
+      { element, link: false }
+    );
+    assert.isNull(compare.linkedViews());
+  });
+
+  test('requires distinct rectilinear views', function () {
+    var view = new RectilinearView();
+    assert.throws(function () {
+      new SwipeCompare(new MockLayer(view), new MockLayer(view), { element });
+    }, /distinct rectilinear views/);
+    assert.throws(function () {
+      new SwipeCompare(
+        new MockLayer(new FlatView({ mediaAspectRatio: 1 })),
+        new MockLayer(new FlatView({ mediaAspectRatio: 1 })),
+        { element }
+      );
+    }, /distinct rectilinear views/);
+  });
+
+  test('lines up both sides with a view covering the stage', function () {
+    var params = { yaw: 0.2, pitch: 0.1, fov: 1.2 };
+    var leftView = new RectilinearView(params);
+    var rightView = new RectilinearView(params);
+    var stageView = new RectilinearView(params);
+    stageView.setSize({ width: 400, height: 300 });
+    var compare = new SwipeCompare(
+      new MockLayer(leftView),
+      new MockLayer(rightView),
+      { element, position: 0.3 }
+    );
+
+    [0.3, 0.6].forEach(function (position) {
+      compare.setPosition(position);
+      // The stage sizes each view to its side of the split.
+      leftView.setSize({ width: 400 * position, height: 300 });
+      rightView.setSize({ width: 400 * (1 - position), height: 300 });
+
+      [-0.3, 0, 0.2, 0.5].forEach(function (yaw) {
+        var coords = { yaw: yaw, pitch: 0.2 };
+        var expected = stageView.coordinatesToScreen(coords);
+        var left = leftView.coordinatesToScreen(coords);
+        var right = rightView.coordinatesToScreen(coords);
+        assert.closeTo(left.x, expected.x, 1e-3);
+        assert.closeTo(right.x + 400 * position, expected.x, 1e-3);
+        assert.closeTo(left.y, expected.y, 1e-3);
+        assert.closeTo(right.y, expected.y, 1e-3);
+      });
+    });
+  });
+
+  test('keeps effects set after construction', function () {
+    var left = new MockLayer(new RectilinearView(), { opacity: 0.5 });
+    var right = new MockLayer(new RectilinearView());
+    var compare = new SwipeCompare(left, right, { element });
+
+    left.setEffects(Object.assign({}, left.effects(), { opacity: 0.2 }));
+    compare.setPosition(0.4);
+    assert.deepEqual(left.effects(), {
+      opacity: 0.2,
+      rect: { relativeX: 0, relativeWidth: 0.4 },
+    });
+
+    compare.destroy();
+    assert.deepEqual(left.effects(), { opacity: 0.2 });
+  });
+
+  test('drags the divider', function () {
+    var left = new MockLayer(new RectilinearView());
+    var right = new MockLayer(new RectilinearView());
+    var compare = new SwipeCompare(left, right, { element });
+    var changeSpy = sinon.spy();
+    var parentSpy = sinon.spy();
+    compare.addEventListener('change', changeSpy);
+    element.addEventListener('pointerdown', parentSpy);
+
+    compare.divider().dispatchEvent(pointerEvent('pointerdown', 300));
+    assert.isTrue(parentSpy.notCalled);
+
+    window.dispatchEvent(pointerEvent('pointermove', 200));
+    assert.strictEqual(compare.position(), 0.25);
+    assert.deepEqual(rect(left), { relativeX: 0, relativeWidth: 0.25 });
+    assert.isTrue(changeSpy.calledOnce);
+
+    window.dispatchEvent(pointerEvent('pointermove', 0));
+    assert.strictEqual(compare.position(), 0);
+
+    window.dispatchEvent(pointerEvent('pointerup', 0));
+    window.dispatchEvent(pointerEvent('pointermove', 300));
+    assert.strictEqual(compare.position(), 0);
+  });
+
+  test('destroy', function () {
+    var leftRect = { relativeWidth: 0.5 };
+    var leftView = new RectilinearView({ projectionCenterX: 0.1 });
+    var left = new MockLayer(leftView, { opacity: 0.5, rect: leftRect });
+    var right = new MockLayer(new RectilinearView());
+    var compare = new SwipeCompare(left, right, { element });
+    var divider = compare.divider();
+    compare.destroy();
+    assert.isNull(divider.parentNode);
+    assert.deepEqual(left.effects(), { opacity: 0.5, rect: leftRect });
+    assert.strictEqual(leftView.projectionCenterX(), 0.1);
+    assert.notProperty(right.effects(), 'rect');
+  });
+});
@@ -0,0 +1,234 @@
+import eventEmitter from 'minimal-event-emitter';
+import Layer from './Layer';
+import LinkedViews, { LinkedViewsOptions } from './LinkedViews';
+import clamp from './util/clamp';
+import clearOwnProperties from './util/clearOwnProperties';
+import { setAbsolute } from './util/dom';
+import RectilinearView from './views/Rectilinear';
+import { RectSpec } from './jsdoc-extras';
+
+export interface SwipeCompareOptions {
+  /**
+   * Element covering the stage, into which the divider is placed, e.g. the
+   * viewer element.
+   */
+  element: HTMLElement;
+  /**
+   * Initial position of the split, as a fraction of the width from the left.
+   * Defaults to 0.5.
+   */
+  position?: number;
+  /**
+   * Options for linking the views of the two layers, or false not to link
+   * them.
+   */
+  link?: LinkedViewsOptions | false;
+}
+
+/**
+ * Signals that the split position has changed.
+ * @event SwipeCompare#change
+ */
+
+/**
+ * @class SwipeCompare
+ * @classdesc
+ *
+ * Compares two layers, typically from before and after scenes, by showing them
+ * on either side of a vertical split that may be dragged horizontally.
+ *
+ * Each layer is restricted to its side of the split with the `rect`
+ * {@link Effects effect}, and both layers must be on the same stage. The
+ * projection center of each view is offset so that both sides show the same
+ * projection as a view covering the whole stage, and line up at the split.
+ * The layers must thus have distinct {@link RectilinearView rectilinear views}
+ * in the rectilinear projection, which are kept in sync with a
+ * {@link LinkedViews} instance.
+ *
+ * The divider is a `div` element placed into the element given in the
+ * options, which may be styled through {@link SwipeCompare#divider}.
+ *
+ * @param {Layer} left The layer displayed on the left of the split.
+ * @param {Layer} right The layer displayed on the right of the split.
+ * @param {SwipeCompareOptions} opts
+ * @throws An error if the layers do not have distinct rectilinear views.
+ */
+class SwipeCompare {
+  #left: Layer;
+  #right: Layer;
+  #leftView: RectilinearView;
+  #rightView: RectilinearView;
+  #leftRect: RectSpec | undefined;
+  #rightRect: RectSpec | undefined;
+  #leftProjectionCenterX: number;
+  #rightProjectionCenterX: number;
+  #element: HTMLElement;
+  #divider: HTMLElement;
+  #position: number;
+  #linkedViews: LinkedViews | null;
+  #pointerDownHandler: (event: PointerEvent) => void;
+  #pointerMoveHandler: (event: PointerEvent) => void;
+  #pointerUpHandler: () => void;
+
+  constructor(left: Layer, right: Layer, opts: SwipeCompareOptions) {
+    if (!opts || !opts.element) {
+      throw new Error('SwipeCompare requires an element');
+    }
+
+    const leftView = left.view();
+    const rightView = right.view();
+    if (
+      !(leftView instanceof RectilinearView) ||
+      !(rightView instanceof RectilinearView) ||
+      leftView === rightView
+    ) {
+      throw new Error('SwipeCompare requires distinct rectilinear views');
+    }
+
+    this.#left = left;
+    this.#right = right;
+    this.#leftView = leftView;
+    this.#rightView = rightView;
+    this.#element = opts.element;
+
+    // The original rects and projection centers, restored on destruction.
+    this.#leftRect = (left.effects() || {}).rect;
+    this.#rightRect = (right.effects() || {}).rect;
+    this.#leftProjectionCenterX = leftView.projectionCenterX();
+    this.#rightProjectionCenterX = rightView.projectionCenterX();
+
+    this.#linkedViews = null;
+    if (opts.link !== false) {
+      this.#linkedViews = new LinkedViews([leftView, rightView], opts.link);
+    }
+
+    this.#divider = document.createElement('div');
+    setAbsolute(this.#divider);
+    this.#divider.style.top = '0';
+    this.#divider.style.height = '100%';
+    this.#divider.style.width = '4px';
+    this.#divider.style.marginLeft = '-2px';
+    this.#divider.style.background = '#fff';
+    this.#divider.style.cursor = 'ew-resize';
+    this.#divider.style.touchAction = 'none';
+    this.#element.appendChild(this.#divider);
+
+    this.#pointerDownHandler = this.#handlePointerDown.bind(this);
+    this.#pointerMoveHandler = this.#handlePointerMove.bind(this);
+    this.#pointerUpHandler = this.#handlePointerUp.bind(this);
+    this.#divider.addEventListener('pointerdown', this.#pointerDownHandler);
+
+    this.#position = -1;
+    this.setPosition(opts.position != null ? opts.position : 0.5);
+  }
+  /**
+   * Destructor. Removes the divider, unlinks the views and restores the
+   * original layer rects and view projection centers.
+   */
+  destroy() {
+    this.#handlePointerUp();
+    this.#divider.removeEventListener('pointerdown', this.#pointerDownHandler);
+    this.#element.removeChild(this.#divider);
+    if (this.#linkedViews) {
+      this.#linkedViews.destroy();
+    }
+    setRect(this.#left, this.#leftRect);
+    setRect(this.#right, this.#rightRect);
+    this.#leftView.setProjectionCenterX(this.#leftProjectionCenterX);
+    this.#rightView.setProjectionCenterX(this.#rightProjectionCenterX);
+    clearOwnProperties(this);
+  }
+  /**
+   * Returns the divider element.
+   * @return {HTMLElement}
+   */
+  divider() {
+    return this.#divider;
+  }
+  /**
+   * Returns the {@link LinkedViews} keeping the layer views in sync, or null if
+   * the views are not linked.
+   * @return {?LinkedViews}
+   */
+  linkedViews() {
+    return this.#linkedViews;
+  }
+  /**
+   * Returns the position of the split, as a fraction of the width from the
+   * left.
+   * @return {number}
+   */
+  position() {
+    return this.#position;
+  }
+  /**
+   * Sets the position of the split.
+   * @param {number} position The fraction of the width from the left, clamped
+   *     to the [0, 1] range.
+   */
+  setPosition(position: number) {
+    position = clamp(position, 0, 1);
+    if (position === this.#position) {
+      return;
+    }
+    this.#position = position;
+
+    setRect(this.#left, { relativeX: 0, relativeWidth: position });
+    setRect(this.#right, { relativeX: position, relativeWidth: 1 - position });
+
+    // Move the view centers to the center of the stage, as a fraction of the
+    // width of each side.
+    this.#leftView.setProjectionCenterX(
+      position > 0 ? (1 - position) / (2 * position) : 0
+    );
+    this.#rightView.setProjectionCenterX(
+      position < 1 ? -position / (2 * (1 - position)) : 0
+    );
+    this.#divider.style.left = position * 100 + '%';
+
+    this.emit('change');
+  }
+  #handlePointerDown(event: PointerEvent) {
+    // Prevent the controls from handling the drag.
+    event.stopPropagation();
+    event.preventDefault();
+    window.addEventListener('pointermove', this.#pointerMoveHandler);
+    window.addEventListener('pointerup', this.#pointerUpHandler);
+    window.addEventListener('pointercancel', this.#pointerUpHandler);
+  }
+  #handlePointerMove(event: PointerEvent) {
+    const bounds = this.#element.getBoundingClientRect();
+    if (bounds.width > 0) {
+      this.setPosition((event.clientX - bounds.left) / bounds.width);
+    }
+  }
+  #handlePointerUp() {
+    window.removeEventListener('pointermove', this.#pointerMoveHandler);
+    window.removeEventListener('pointerup', this.#pointerUpHandler);
+    window.removeEventListener('pointercancel', this.#pointerUpHandler);
+  }
+  emit(_arg0: string, ..._args: any[]) {
+    throw new Error('Method not implemented.');
+  }
+  addEventListener(_arg0: string, _arg1: Function) {
+    throw new Error('Method not implemented.');
+  }
+  removeEventListener(_arg0: string, _arg1: Function) {
+    throw new Error('Method not implemented.');
+  }
+}
+
+eventEmitter(SwipeCompare);
+
+// Sets the rect of a layer, keeping its other current effects.
+function setRect(layer: Layer, rect: RectSpec | undefined) {
+  const effects = Object.assign({}, layer.effects());
+  if (rect) {
+    effects.rect = rect;
+  } else {
+    delete effects.rect;
+  }
+  layer.setEffects(effects);
+}
+
+export default SwipeCompare;
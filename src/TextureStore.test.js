@@ -88,27 +88,30 @@ var mockSource = {
   }),
 };
 
-// Mock a Stage. For these tests we only need the createTexture() method.
-var mockStage = {
-  createTexture: cancelize(function (tile, asset, done) {
-    if (tile.textureFailures) {
-      // Fail
-      tile.textureFailures--;
-      defer(function () {
-        done(createTextureError, tile, asset);
-      });
-    } else {
-      // Succeed
-      var texture = new MockTexture(asset);
-      defer(function () {
-        done(null, tile, asset, texture);
-      });
-    }
-  }),
-};
+// Mock a Stage. For these tests we only need the createTexture() method and
+// the ability to emit events.
+class MockStage {}
+
+eventEmitter(MockStage);
+
+MockStage.prototype.createTexture = cancelize(function (tile, asset, done) {
+  if (tile.textureFailures) {
+    // Fail
+    tile.textureFailures--;
+    defer(function () {
+      done(createTextureError, tile, asset);
+    });
+  } else {
+    // Succeed
+    var texture = new MockTexture(asset);
+    defer(function () {
+      done(null, tile, asset, texture);
+    });
+  }
+});
 
-function makeTextureStore(opts) {
-  return new TextureStore(mockSource, mockStage, opts);
+function makeTextureStore(opts, stage) {
+  return new TextureStore(mockSource, stage || new MockStage(), opts);
 }
 
 suite('TextureStore', function () {
@@ -262,6 +265,27 @@ suite('TextureStore', function () {
       store.endFrame();
     });
 
+    test('error on loadAsset failure not to be retried', function (done) {
+      var source = {
+        loadAsset: mockSource.loadAsset,
+        shouldRetry: sinon.stub().returns(false),
+      };
+      var store = new TextureStore(source, new MockStage());
+      var tile = new MockTile({ assetFailures: 1 });
+      store.addEventListener('textureError', function (eventTile, err) {
+        assert.strictEqual(eventTile, tile);
+        assert.strictEqual(err, loadAssetError);
+        assert.isTrue(source.shouldRetry.calledOnceWithExactly(loadAssetError));
+        assert.isFalse(store.query(tile).hasAsset);
+        assert.isFalse(store.query(tile).hasTexture);
+        assert.isTrue(store.query(tile).hasError);
+        done();
+      });
+      store.startFrame();
+      store.markTile(tile);
+      store.endFrame();
+    });
+
     test('error on createTexture failure', function (done) {
       var store = makeTextureStore();
       var tile = new MockTile({ textureFailures: 1 });
@@ -269,6 +293,7 @@ suite('TextureStore', function () {
         assert.strictEqual(eventTile, tile);
         assert.isFalse(store.query(tile).hasAsset);
         assert.isFalse(store.query(tile).hasTexture);
+        assert.isTrue(store.query(tile).hasError);
         done();
       });
       store.startFrame();
@@ -508,6 +533,24 @@ suite('TextureStore', function () {
       });
     });
 
+    test('pinned tile keeps loading when it becomes invisible', function (done) {
+      var store = makeTextureStore();
+      var tile = new MockTile();
+      var cancelSpy = sinon.spy();
+      store.addEventListener('textureCancel', cancelSpy);
+      store.pin(tile);
+      store.startFrame();
+      store.markTile(tile);
+      store.endFrame();
+      store.startFrame();
+      store.endFrame();
+      store.addEventListener('textureLoad', function () {
+        assert.isTrue(cancelSpy.notCalled);
+        assert.isTrue(store.query(tile).hasTexture);
+        done();
+      });
+    });
+
     test('unpinned tile is evicted when it becomes invisible', function (done) {
       var store = makeTextureStore({
         previouslyVisibleCacheSize: 0,
@@ -525,4 +568,50 @@ suite('TextureStore', function () {
       });
     });
   });
+
+  suite('invalidation', function () {
+    test('invalidating reloads loaded textures', function (done) {
+      var store = makeTextureStore();
+      var tile = new MockTile();
+      var unloadSpy = sinon.spy();
+      var texture = null;
+      store.pin(tile);
+      store.addEventListener('textureUnload', unloadSpy);
+      store.addEventListener('textureLoad', function () {
+        if (!texture) {
+          texture = store.texture(tile);
+          store.invalidate();
+          return;
+        }
+        assert.isTrue(unloadSpy.calledOnce);
+        assert.isTrue(texture.destroy.calledOnce);
+        assert.notStrictEqual(store.texture(tile), texture);
+        assert.isTrue(store.query(tile).pinned);
+        done();
+      });
+    });
+
+    test('stage context restoration invalidates textures', function (done) {
+      var stage = new MockStage();
+      var store = makeTextureStore(null, stage);
+      var tile = new MockTile();
+      var restored = false;
+      store.pin(tile);
+      store.addEventListener('textureLoad', function () {
+        if (restored) {
+          done();
+          return;
+        }
+        restored = true;
+        stage.emit('contextRestored');
+      });
+    });
+
+    test('destroyed store ignores context restoration', function () {
+      var stage = new MockStage();
+      var store = makeTextureStore(null, stage);
+      store.destroy();
+      stage.emit('contextRestored');
+    });
+  });
 });
@@ -85,6 +85,7 @@ class TextureStoreItem {
   #tile: any;
   #asset: any;
   #texture: any;
+  #failed: boolean;
   #changeHandler: () => void;
   #cancel: null | ((...args: any[]) => void);
 
@@ -97,6 +98,7 @@ class TextureStoreItem {
 
     this.#asset = null;
     this.#texture = null;
+    this.#failed = false;
 
     this.#changeHandler = () => {
       store.emit('textureInvalid', tile);
@@ -106,11 +108,15 @@ class TextureStoreItem {
     const stage = store.stage();
 
     const loadAsset = source.loadAsset.bind(source);
+    const shouldRetry = source.shouldRetry
+      ? source.shouldRetry.bind(source)
+      : undefined;
     const createTexture = stage.createTexture.bind(stage);
 
-    // Retry loading the asset until it succeeds, then create the texture from it.
+    // Retry loading the asset until it succeeds or the source gives up, then
+    // create the texture from it.
     // This process may be canceled at any point by calling the destroy() method.
-    const fn = chain(retry(loadAsset), createTexture);
+    const fn = chain(retry(loadAsset, shouldRetry), createTexture);
 
     store.emit('textureStartLoad', tile);
     if (debug) {
@@ -140,6 +146,7 @@ class TextureStoreItem {
             console.log('cancel', id, tile);
           }
         } else {
+          this.#failed = true;
           store.emit('textureError', tile, err);
           if (debug) {
             console.log('error', id, tile);
@@ -175,6 +182,9 @@ class TextureStoreItem {
   texture() {
     return this.#texture;
   }
+  failed() {
+    return this.#failed;
+  }
   destroy() {
     const id = this.#id;
     const store = this.#store;
@@ -305,6 +315,7 @@ class TextureStore {
   #noLongerVisible: any[];
   #visibleAgain: any[];
   #evicted: any[];
+  #contextRestoredHandler: () => void;
   constructor(
     source: Source,
     stage: Stage,
@@ -341,11 +352,23 @@ class TextureStore {
     this.#noLongerVisible = [];
     this.#visibleAgain = [];
     this.#evicted = [];
+
+    // Textures belong to the rendering context they were created in, so they
+    // must be reloaded when the stage recovers from a context loss.
+    this.#contextRestoredHandler = this.invalidate.bind(this);
+    this.#stage.addEventListener(
+      'contextRestored',
+      this.#contextRestoredHandler
+    );
   }
   /**
    * Destructor.
    */
   destroy() {
+    this.#stage.removeEventListener(
+      'contextRestored',
+      this.#contextRestoredHandler
+    );
     this.clear();
     clearOwnProperties(this);
   }
@@ -414,6 +437,29 @@ class TextureStore {
     // Clear temporary variables.
     this.#evicted.length = 0;
   }
+  /**
+   * Reload all textures in the TextureStore from the underlying source. The
+   * visible, previously visible and pinned sets are preserved.
+   *
+   * This is called automatically when the underlying {@link Stage} emits
+   * {@link WebGlStage#contextRestored}.
+   */
+  invalidate() {
+    // Collect list of tiles to be reloaded.
+    this.#evicted.length = 0;
+    this.#itemMap.forEach((tile) => {
+      this.#evicted.push(tile);
+    });
+
+    // Reload tiles.
+    this.#evicted.forEach((tile) => {
+      this.#unloadTile(tile);
+      this.#loadTile(tile);
+    });
+
+    // Clear temporary variables.
+    this.#evicted.length = 0;
+  }
   /**
    * Signal the beginning of a frame. Called from {@link Stage}.
    */
@@ -504,7 +550,8 @@ class TextureStore {
       self.#previouslyVisible.remove(tile);
     });
 
-    // Cancel loading of tiles that are no longer visible.
+    // Cancel loading of tiles that are no longer visible, unless they are
+    // pinned.
     // Move no longer visible tiles with a loaded texture into the previously
     // visible set, and collect the tiles evicted from the latter.
     self.#evicted.length = 0;
@@ -516,7 +563,7 @@ class TextureStore {
         if (otherTile != null) {
           self.#evicted.push(otherTile);
         }
-      } else if (item) {
+      } else if (item && !self.#pinMap.has(tile)) {
         self.#unloadTile(tile);
       }
     });
@@ -633,6 +680,8 @@ class TextureStore {
    *     visible set.
    * @property {boolean} hasAsset Whether the asset for the tile is present.
    * @property {boolean} hasTexture Whether the texture for the tile is present.
+   * @property {boolean} hasError Whether loading the texture for the tile has
+   *     failed.
    * @property {boolean} pinned Whether the tile is in the pinned set.
    * @property {number} pinCount The pin reference count for the tile.
    */
@@ -649,10 +698,20 @@ class TextureStore {
       previouslyVisible: this.#previouslyVisible.has(tile),
       hasAsset: item != null && item.asset() != null,
       hasTexture: item != null && item.texture() != null,
+      hasError: item != null && item.failed(),
       pinned: pinCount !== 0,
       pinCount: pinCount,
     };
   }
+  emit(_arg0: string, ..._args: any[]) {
+    throw new Error('Method not implemented.');
+  }
+  addEventListener(_arg0: string, _arg1: Function) {
+    throw new Error('Method not implemented.');
+  }
+  removeEventListener(_arg0: string, _arg1: Function) {
+    throw new Error('Method not implemented.');
+  }
 }
 
 eventEmitter(TextureStore);
@@ -0,0 +1,283 @@
+import { suite, test, assert, beforeEach, afterEach } from 'vitest';
+import sinon from 'sinon';
+
+import Tour from './Tour';
+import WebGlStage from './stages/WebGl';
+import RectilinearView from './views/Rectilinear';
+
+function makeScene(id, extra) {
+  return Object.assign(
+    {
+      id: id,
+      tileUrl: '//localhost/' + id + '/{z}/{f}/{y}/{x}.jpg',
+      levels: [
+        { tileSize: 256, size: 256, fallbackOnly: true },
+        { tileSize: 512, size: 512 },
+      ],
+      faceSize: 512,
+    },
+    extra
+  );
+}
+
+function makeTour(scenes, extra) {
+  return Object.assign({ version: 1, scenes: scenes }, extra);
+}
+
+// WebGL is not available in the test environment, so the viewer stage is
+// given a context whose methods do nothing but return a truthy value, such
+// that shaders compile and programs link.
+function fakeWebGlContext() {
+  return new Proxy(
+    {},
+    {
+      get: function (target, property) {
+        if (!(property in target)) {
+          target[property] = function () {
+            return {};
+          };
+        }
+        return target[property];
+      },
+    }
+  );
+}
+
+suite('Tour', function () {
+  suite('validate', function () {
+    test('accepts a well formed document', function () {
+      var data = makeTour([
+        makeScene('a', {
+          linkHotspots: [{ yaw: 0, pitch: 0, target: 'b' }],
+          infoHotspots: [{ yaw: 1, pitch: 0, title: 't', text: 'x' }],
+        }),
+        makeScene('b'),
+      ]);
+      assert.strictEqual(Tour.validate(data), data);
+    });
+
+    test('rejects non-objects', function () {
+      assert.throws(function () {
+        Tour.validate(null);
+      }, /document must be an object/);
+    });
+
+    test('rejects unsupported versions', function () {
+      assert.throws(function () {
+        Tour.validate(makeTour([makeScene('a')], { version: 2 }));
+      }, /version is not supported/);
+      assert.throws(function () {
+        Tour.validate({ scenes: [makeScene('a')] });
+      }, /version is not supported/);
+    });
+
+    test('rejects missing or empty scenes', function () {
+      assert.throws(function () {
+        Tour.validate(makeTour([]));
+      }, /scenes must be a non-empty array/);
+    });
+
+    test('rejects duplicated scene ids', function () {
+      assert.throws(function () {
+        Tour.validate(makeTour([makeScene('a'), makeScene('a')]));
+      }, /scenes\[1\]\.id is duplicated/);
+    });
+
+    test('rejects scenes without a tile url', function () {
+      assert.throws(function () {
+        Tour.validate(makeTour([makeScene('a', { tileUrl: 3 })]));
+      }, /scenes\[0\]\.tileUrl/);
+    });
+
+    test('rejects malformed levels', function () {
+      assert.throws(function () {
+        Tour.validate(makeTour([makeScene('a', { levels: [] })]));
+      }, /scenes\[0\]\.levels/);
+      assert.throws(function () {
+        Tour.validate(
+          makeTour([makeScene('a', { levels: [{ size: 512, tileSize: 0 }] })])
+        );
+      }, /scenes\[0\]\.levels\[0\]\.tileSize/);
+    });
+
+    test('rejects a bad face size', function () {
+      assert.throws(function () {
+        Tour.validate(makeTour([makeScene('a', { faceSize: -1 })]));
+      }, /scenes\[0\]\.faceSize/);
+    });
+
+    test('rejects hotspots without coordinates', function () {
+      assert.throws(function () {
+        Tour.validate(
+          makeTour([makeScene('a', { infoHotspots: [{ yaw: 0 }] })])
+        );
+      }, /scenes\[0\]\.infoHotspots\[0\] must have numeric yaw and pitch/);
+    });
+
+    test('rejects link hotspots to unknown scenes', function () {
+      assert.throws(function () {
+        Tour.validate(
+          makeTour([
+            makeScene('a', {
+              linkHotspots: [{ yaw: 0, pitch: 0, target: 'nowhere' }],
+            }),
+          ])
+        );
+      }, /linkHotspots\[0\]\.target refers to unknown scene: nowhere/);
+    });
+
+    test('rejects an unknown initial scene', function () {
+      assert.throws(function () {
+        Tour.validate(makeTour([makeScene('a')], { initialScene: 'b' }));
+      }, /initialScene refers to unknown scene/);
+    });
+  });
+
+  suite('behavior', function () {
+    var domElement;
+    var tour;
+
+    beforeEach(function () {
+      sinon
+        .stub(WebGlStage.prototype, '_createContext')
+        .callsFake(fakeWebGlContext);
+      domElement = document.createElement('div');
+      document.body.appendChild(domElement);
+    });
+
+    afterEach(function () {
+      if (tour) {
+        tour.destroy();
+        tour = null;
+      }
+      document.body.removeChild(domElement);
+      WebGlStage.prototype._createContext.restore();
+    });
+
+    function makeLinkedTour(extra) {
+      return makeTour(
+        [
+          makeScene('a', {
+            name: 'Scene A',
+            initialViewParameters: { yaw: 0.5, pitch: 0.1, fov: 1 },
+            linkHotspots: [{ yaw: 0, pitch: 0, rotation: 1, target: 'b' }],
+            infoHotspots: [{ yaw: 1, pitch: 0, title: 'Title', text: 'Text' }],
+          }),
+          makeScene('b', { name: 'Scene B' }),
+        ],
+        extra
+      );
+    }
+
+    test('creates a scene per document entry', function () {
+      var data = makeLinkedTour();
+      tour = new Tour(domElement, data);
+      assert.strictEqual(tour.data(), data);
+      assert.deepEqual(tour.listSceneIds(), ['a', 'b']);
+      assert.strictEqual(tour.viewer().listScenes().length, 2);
+      assert.strictEqual(tour.sceneData('a'), data.scenes[0]);
+      assert.instanceOf(tour.scene('a').view(), RectilinearView);
+      assert.isNull(tour.scene('c'));
+      assert.isNull(tour.currentSceneId());
+    });
+
+    test('rejects a malformed document', function () {
+      assert.throws(function () {
+        new Tour(domElement, makeTour([]));
+      }, /Invalid tour/);
+    });
+
+    test('start displays the initial scene', function () {
+      tour = new Tour(domElement, makeLinkedTour({ initialScene: 'b' }));
+      tour.start();
+      assert.strictEqual(tour.currentSceneId(), 'b');
+      assert.strictEqual(tour.viewer().scene(), tour.scene('b'));
+    });
+
+    test('goTo switches scenes and resets the view', function () {
+      tour = new Tour(domElement, makeLinkedTour());
+      var view = tour.scene('a').view();
+      view.setYaw(2);
+      tour.goTo('a');
+      assert.strictEqual(tour.viewer().scene(), tour.scene('a'));
+      assert.closeTo(view.yaw(), 0.5, 1e-6);
+      assert.throws(function () {
+        tour.goTo('c');
+      }, /No such scene in tour: c/);
+    });
+
+    test('emits sceneChange when the scene changes', function () {
+      tour = new Tour(domElement, makeLinkedTour());
+      var spy = sinon.spy();
+      tour.addEventListener('sceneChange', spy);
+      tour.goTo('a');
+      tour.goTo('a');
+      tour.goTo('b');
+      assert.strictEqual(spy.callCount, 2);
+      assert.isTrue(spy.firstCall.calledWithExactly('a'));
+      assert.isTrue(spy.secondCall.calledWithExactly('b'));
+    });
+
+    test('link hotspots switch to their target', function () {
+      tour = new Tour(domElement, makeLinkedTour());
+      tour.goTo('a');
+      var hotspots = tour.scene('a').hotspotContainer().listHotspots();
+      assert.lengthOf(hotspots, 2);
+      var element = hotspots[0].domElement();
+      assert.isTrue(element.classList.contains('link-hotspot'));
+      assert.strictEqual(element.title, 'Scene B');
+      element.dispatchEvent(new Event('click'));
+      assert.strictEqual(tour.currentSceneId(), 'b');
+    });
+
+    test('link hotspot rotation survives positioning', function () {
+      tour = new Tour(domElement, makeLinkedTour());
+      tour.goTo('a');
+      var hotspot = tour.scene('a').hotspotContainer().listHotspots()[0];
+      hotspot.setPosition({ yaw: 0.1, pitch: 0 });
+      var icon = hotspot.domElement().querySelector('.link-hotspot-icon');
+      assert.strictEqual(icon.style.transform, 'rotate(1rad)');
+    });
+
+    test('info hotspots toggle their visibility', function () {
+      tour = new Tour(domElement, makeLinkedTour());
+      var hotspot = tour.scene('a').hotspotContainer().listHotspots()[1];
+      var element = hotspot.domElement();
+      assert.isTrue(element.classList.contains('info-hotspot'));
+      assert.strictEqual(
+        element.querySelector('.info-hotspot-title').textContent,
+        'Title'
+      );
+      element.dispatchEvent(new Event('click'));
+      assert.isTrue(element.classList.contains('visible'));
+      element.dispatchEvent(new Event('click'));
+      assert.isFalse(element.classList.contains('visible'));
+    });
+
+    test('custom hotspot elements', function () {
+      var createLinkHotspotElement = sinon.spy(function () {
+        return document.createElement('div');
+      });
+      var createInfoHotspotElement = sinon.spy(function () {
+        return document.createElement('div');
+      });
+      var data = makeLinkedTour();
+      tour = new Tour(domElement, data, {
+        createLinkHotspotElement: createLinkHotspotElement,
+        createInfoHotspotElement: createInfoHotspotElement,
+      });
+      assert.isTrue(
+        createLinkHotspotElement.calledOnceWithExactly(
+          data.scenes[0].linkHotspots[0],
+          tour
+        )
+      );
+      assert.isTrue(
+        createInfoHotspotElement.calledOnceWithExactly(
+          data.scenes[0].infoHotspots[0],
+          tour
+        )
+      );
+    });
+  });
+});
@@ -0,0 +1,503 @@
+import eventEmitter from 'minimal-event-emitter';
+import Viewer, { SwitchSceneOptions, ViewerOptions } from './Viewer';
+import Scene, { SceneGeoreference } from './Scene';
+import ImageUrlSource from './sources/ImageUrl';
+import CubeGeometry from './geometries/Cube';
+import RectilinearView, { RectilinearViewParams } from './views/Rectilinear';
+import degToRad from './util/degToRad';
+import type from './util/type';
+import clearOwnProperties from './util/clearOwnProperties';
+import { setTransform } from './util/dom';
+
+// Tour document versions understood by this module.
+const supportedVersions = [1];
+
+// Default field of view limits, matching the ones used by the sample tour.
+const defaultMaxVFov = degToRad(100);
+const defaultMaxHFov = degToRad(120);
+
+export interface TourLevelData {
+  tileSize: number;
+  size: number;
+  fallbackOnly?: boolean;
+}
+
+export interface TourLinkHotspotData {
+  yaw: number;
+  pitch: number;
+  rotation?: number;
+  target: string;
+}
+
+export interface TourInfoHotspotData {
+  yaw: number;
+  pitch: number;
+  title?: string;
+  text?: string;
+}
+
+export interface TourSceneData {
+  id: string;
+  name?: string;
+  /**
+   * Tile URL template, as accepted by {@link ImageUrlSource.fromString}.
+   */
+  tileUrl: string;
+  /**
+   * Cube map preview URL, see the `cubeMapPreviewUrl` option of
+   * {@link ImageUrlSource.fromString}.
+   */
+  previewUrl?: string;
+  levels: TourLevelData[];
+  faceSize: number;
+  initialViewParameters?: RectilinearViewParams;
+  linkHotspots?: TourLinkHotspotData[];
+  infoHotspots?: TourInfoHotspotData[];
+  /**
+   * Orientation and geographic metadata, see {@link Scene#georeference}.
+   */
+  georeference?: SceneGeoreference;
+}
+
+export interface TourSettings {
+  mouseViewMode?: 'drag' | 'qtvr';
+  /**
+   * Maximum vertical field of view, in radians.
+   */
+  maxVFov?: number;
+  /**
+   * Maximum horizontal field of view, in radians.
+   */
+  maxHFov?: number;
+}
+
+export interface TourData {
+  version: number;
+  name?: string;
+  /**
+   * Id of the scene to display first. Defaults to the first scene.
+   */
+  initialScene?: string;
+  settings?: TourSettings;
+  scenes: TourSceneData[];
+}
+
+export interface TourOptions {
+  /**
+   * Options to be passed to the {@link Viewer} constructor. The tour
+   * `mouseViewMode` setting takes precedence over `viewerOpts.controls`.
+   */
+  viewerOpts?: ViewerOptions;
+  /**
+   * Creates the DOM element for a link hotspot. Clicking the default element
+   * switches to the target scene.
+   */
+  createLinkHotspotElement?: (
+    hotspot: TourLinkHotspotData,
+    tour: Tour
+  ) => HTMLElement;
+  /**
+   * Creates the DOM element for an info hotspot. Clicking the default element
+   * toggles the `visible` class on it.
+   */
+  createInfoHotspotElement?: (
+    hotspot: TourInfoHotspotData,
+    tour: Tour
+  ) => HTMLElement;
+}
+
+/**
+ * Signals that the current tour scene has changed.
+ * @param {string} sceneId The id of the new scene.
+ * @event Tour#sceneChange
+ */
+
+/**
+ * @class Tour
+ * @classdesc
+ *
+ * A Tour builds a {@link Viewer} and its {@link Scene scenes} from a JSON tour
+ * document, so that a tour can be described as data rather than code.
+ *
+ * Every scene is created with an {@link ImageUrlSource}, a {@link CubeGeometry}
+ * and a {@link RectilinearView} limited by
+ * {@link RectilinearView.limit.traditional}. Link hotspots switch to their
+ * target scene when clicked.
+ *
+ * The document is validated with {@link Tour.validate} before anything is
+ * created.
+ *
+ * @param {Element} domElement The DOM element to contain the viewer.
+ * @param {TourData} data The tour document.
+ * @param {TourOptions} opts Tour options.
+ */
+class Tour {
+  #viewer: Viewer;
+  #data: TourData;
+  #scenes: Record<string, { data: TourSceneData; scene: Scene }>;
+  #currentSceneId: string | null;
+
+  constructor(domElement: HTMLElement, data: TourData, opts?: TourOptions) {
+    opts = opts || {};
+
+    Tour.validate(data);
+
+    const settings = data.settings || {};
+    const viewerOpts = opts.viewerOpts || {};
+
+    this.#data = data;
+    this.#viewer = new Viewer(domElement, {
+      ...viewerOpts,
+      controls: {
+        ...viewerOpts.controls,
+        ...(settings.mouseViewMode
+          ? { mouseViewMode: settings.mouseViewMode }
+          : {}),
+      },
+    });
+
+    const createLinkHotspotElement =
+      opts.createLinkHotspotElement || defaultLinkHotspotElement;
+    const createInfoHotspotElement =
+      opts.createInfoHotspotElement || defaultInfoHotspotElement;
+
+    const maxVFov =
+      settings.maxVFov != null ? settings.maxVFov : defaultMaxVFov;
+    const maxHFov =
+      settings.maxHFov != null ? settings.maxHFov : defaultMaxHFov;
+
+    this.#scenes = {};
+    this.#currentSceneId = null;
+
+    for (const sceneData of data.scenes) {
+      const source = ImageUrlSource.fromString(
+        sceneData.tileUrl,
+        sceneData.previewUrl
+          ? { cubeMapPreviewUrl: sceneData.previewUrl }
+          : undefined
+      );
+      const geometry = new CubeGeometry(sceneData.levels);
+      const limiter = RectilinearView.limit.traditional(
+        sceneData.faceSize,
+        maxVFov,
+        maxHFov
+      );
+      const view = new RectilinearView(
+        sceneData.initialViewParameters,
+        limiter
+      );
+
+      const scene = this.#viewer.createScene({
+        source: source,
+        geometry: geometry,
+        view: view,
+        pinFirstLevel: true,
+        georeference: sceneData.georeference,
+      });
+
+      const hotspotContainer = scene.hotspotContainer();
+
+      for (const hotspot of sceneData.linkHotspots || []) {
+        hotspotContainer.createHotspot(
+          createLinkHotspotElement(hotspot, this),
+          { yaw: hotspot.yaw, pitch: hotspot.pitch }
+        );
+      }
+
+      for (const hotspot of sceneData.infoHotspots || []) {
+        hotspotContainer.createHotspot(
+          createInfoHotspotElement(hotspot, this),
+          { yaw: hotspot.yaw, pitch: hotspot.pitch }
+        );
+      }
+
+      this.#scenes[sceneData.id] = { data: sceneData, scene: scene };
+    }
+  }
+  /**
+   * Destructor. Also destroys the underlying {@link Viewer}.
+   */
+  destroy() {
+    this.#viewer.destroy();
+    clearOwnProperties(this);
+  }
+  /**
+   * Returns the underlying {@link Viewer viewer}.
+   * @return {Viewer}
+   */
+  viewer() {
+    return this.#viewer;
+  }
+  /**
+   * Returns the tour document.
+   * @return {TourData}
+   */
+  data() {
+    return this.#data;
+  }
+  /**
+   * Returns the ids of all scenes, in document order.
+   * @return {string[]}
+   */
+  listSceneIds() {
+    return this.#data.scenes.map((sceneData) => sceneData.id);
+  }
+  /**
+   * Returns the {@link Scene scene} with the given id, or null if there isn't
+   * one.
+   * @param {string} sceneId
+   * @return {Scene}
+   */
+  scene(sceneId: string) {
+    const entry = this.#scenes[sceneId];
+    return entry ? entry.scene : null;
+  }
+  /**
+   * Returns the document entry for the scene with the given id, or null if
+   * there isn't one.
+   * @param {string} sceneId
+   * @return {TourSceneData}
+   */
+  sceneData(sceneId: string) {
+    const entry = this.#scenes[sceneId];
+    return entry ? entry.data : null;
+  }
+  /**
+   * Returns the id of the current scene, or null if no scene has been
+   * displayed yet.
+   * @return {string}
+   */
+  currentSceneId() {
+    return this.#currentSceneId;
+  }
+  /**
+   * Displays the initial scene, as given by the `initialScene` property of the
+   * tour document, or the first scene if unset.
+   *
+   * @param {Object} [opts] Options to pass into {@link Viewer#switchScene}.
+   * @param {function} [done] Function to call when the switch is complete.
+   */
+  start(opts?: SwitchSceneOptions, done?: () => void) {
+    this.goTo(this.#data.initialScene || this.#data.scenes[0].id, opts, done);
+  }
+  /**
+   * Switches to the scene with the given id, resetting its view to the initial
+   * view parameters.
+   *
+   * @param {string} sceneId
+   * @param {Object} [opts] Options to pass into {@link Viewer#switchScene}.
+   * @param {function} [done] Function to call when the switch is complete.
+   * @throws An error if there is no scene with the given id.
+   */
+  goTo(sceneId: string, opts?: SwitchSceneOptions, done?: () => void) {
+    const entry = this.#scenes[sceneId];
+    if (!entry) {
+      throw new Error('No such scene in tour: ' + sceneId);
+    }
+
+    const initialViewParameters = entry.data.initialViewParameters;
+    if (initialViewParameters) {
+      (entry.scene.view() as RectilinearView).setParameters(
+        initialViewParameters
+      );
+    }
+
+    this.#viewer.switchScene(entry.scene, opts, done);
+
+    if (this.#currentSceneId !== sceneId) {
+      this.#currentSceneId = sceneId;
+      this.emit('sceneChange', sceneId);
+    }
+  }
+  emit(_arg0: string, _arg1: string) {
+    throw new Error('Method not implemented.');
+  }
+  /**
+   * Checks that a tour document is well formed, throwing an error describing
+   * the first problem found otherwise.
+   *
+   * @param {*} data The tour document.
+   * @return {TourData} The same document.
+   * @throws An error if the document is malformed.
+   */
+  static validate(data: any): TourData {
+    if (type(data) !== 'object') {
+      throw invalid('document', 'must be an object');
+    }
+    if (supportedVersions.indexOf(data.version) < 0) {
+      throw invalid('version', 'is not supported: ' + data.version);
+    }
+    if (type(data.scenes) !== 'array' || !data.scenes.length) {
+      throw invalid('scenes', 'must be a non-empty array');
+    }
+
+    const ids = {};
+
+    data.scenes.forEach(function (sceneData, i) {
+      const path = 'scenes[' + i + ']';
+      if (type(sceneData) !== 'object') {
+        throw invalid(path, 'must be an object');
+      }
+      if (typeof sceneData.id !== 'string' || !sceneData.id) {
+        throw invalid(path + '.id', 'must be a non-empty string');
+      }
+      if (ids[sceneData.id]) {
+        throw invalid(path + '.id', 'is duplicated: ' + sceneData.id);
+      }
+      ids[sceneData.id] = true;
+      if (typeof sceneData.tileUrl !== 'string') {
+        throw invalid(path + '.tileUrl', 'must be a string');
+      }
+      if (
+        sceneData.previewUrl != null &&
+        typeof sceneData.previewUrl !== 'string'
+      ) {
+        throw invalid(path + '.previewUrl', 'must be a string');
+      }
+      if (type(sceneData.levels) !== 'array' || !sceneData.levels.length) {
+        throw invalid(path + '.levels', 'must be a non-empty array');
+      }
+      sceneData.levels.forEach(function (level, j) {
+        const levelPath = path + '.levels[' + j + ']';
+        if (!isPositiveNumber(level && level.size)) {
+          throw invalid(levelPath + '.size', 'must be a positive number');
+        }
+        if (!isPositiveNumber(level.tileSize)) {
+          throw invalid(levelPath + '.tileSize', 'must be a positive number');
+        }
+      });
+      if (!isPositiveNumber(sceneData.faceSize)) {
+        throw invalid(path + '.faceSize', 'must be a positive number');
+      }
+      if (
+        sceneData.initialViewParameters != null &&
+        type(sceneData.initialViewParameters) !== 'object'
+      ) {
+        throw invalid(path + '.initialViewParameters', 'must be an object');
+      }
+      validateHotspots(sceneData.linkHotspots, path + '.linkHotspots');
+      validateHotspots(sceneData.infoHotspots, path + '.infoHotspots');
+    });
+
+    // Link targets can only be checked once all scene ids are known.
+    data.scenes.forEach(function (sceneData, i) {
+      (sceneData.linkHotspots || []).forEach(function (hotspot, j) {
+        if (!ids[hotspot.target]) {
+          throw invalid(
+            'scenes[' + i + '].linkHotspots[' + j + '].target',
+            'refers to unknown scene: ' + hotspot.target
+          );
+        }
+      });
+    });
+
+    if (data.initialScene != null && !ids[data.initialScene]) {
+      throw invalid(
+        'initialScene',
+        'refers to unknown scene: ' + data.initialScene
+      );
+    }
+
+    return data;
+  }
+}
+
+eventEmitter(Tour);
+
+function invalid(path: string, problem: string) {
+  return new Error('Invalid tour: ' + path + ' ' + problem);
+}
+
+function isPositiveNumber(x) {
+  return typeof x === 'number' && isFinite(x) && x > 0;
+}
+
+function validateHotspots(hotspots, path: string) {
+  if (hotspots == null) {
+    return;
+  }
+  if (type(hotspots) !== 'array') {
+    throw invalid(path, 'must be an array');
+  }
+  hotspots.forEach(function (hotspot, i) {
+    if (type(hotspot) !== 'object') {
+      throw invalid(path + '[' + i + ']', 'must be an object');
+    }
+    if (typeof hotspot.yaw !== 'number' || typeof hotspot.pitch !== 'number') {
+      throw invalid(path + '[' + i + ']', 'must have numeric yaw and pitch');
+    }
+  });
+}
+
+// Prevent touch and scroll events from reaching the parent element.
+// This prevents the view control logic from interfering with the hotspot.
+function stopTouchAndScrollEventPropagation(element: HTMLElement) {
+  const eventList = [
+    'touchstart',
+    'touchmove',
+    'touchend',
+    'touchcancel',
+    'pointerdown',
+    'pointermove',
+    'pointerup',
+    'pointercancel',
+    'wheel',
+  ];
+  for (let i = 0; i < eventList.length; i++) {
+    element.addEventListener(eventList[i], function (event) {
+      event.stopPropagation();
+    });
+  }
+}
+
+function defaultLinkHotspotElement(hotspot: TourLinkHotspotData, tour: Tour) {
+  const element = document.createElement('div');
+  element.classList.add('hotspot');
+  element.classList.add('link-hotspot');
+  // Scenes may not have been created yet, so look the target up in the data.
+  const target = tour
+    .data()
+    .scenes.filter((sceneData) => sceneData.id === hotspot.target)[0];
+  element.title = target.name || target.id;
+
+  // The hotspot element itself is positioned with a transform, so the rotation
+  // is applied to the icon inside it.
+  const icon = document.createElement('div');
+  icon.classList.add('link-hotspot-icon');
+  if (hotspot.rotation) {
+    setTransform(icon, 'rotate(' + hotspot.rotation + 'rad)');
+  }
+  element.appendChild(icon);
+
+  element.addEventListener('click', function () {
+    tour.goTo(hotspot.target);
+  });
+  stopTouchAndScrollEventPropagation(element);
+
+  return element;
+}
+
+function defaultInfoHotspotElement(hotspot: TourInfoHotspotData) {
+  const element = document.createElement('div');
+  element.classList.add('hotspot');
+  element.classList.add('info-hotspot');
+
+  const title = document.createElement('div');
+  title.classList.add('info-hotspot-title');
+  title.textContent = hotspot.title || '';
+  element.appendChild(title);
+
+  const text = document.createElement('div');
+  text.classList.add('info-hotspot-text');
+  text.textContent = hotspot.text || '';
+  element.appendChild(text);
+
+  element.addEventListener('click', function () {
+    element.classList.toggle('visible');
+  });
+  stopTouchAndScrollEventPropagation(element);
+
+  return element;
+}
+
+export default Tour;
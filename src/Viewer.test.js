@@ -0,0 +1,78 @@
+import { suite, test, assert, beforeEach, afterEach } from 'vitest';
+import sinon from 'sinon';
+
+import Viewer from './Viewer';
+import WebGlStage from './stages/WebGl';
+import WebGl2Stage, { WebGl2Texture } from './stages/WebGl2';
+
+// WebGL is not available in the test environment, so the viewer stage is
+// given a context whose methods do nothing but return a truthy value.
+function fakeWebGlContext() {
+  return new Proxy(
+    {},
+    {
+      get: function (target, property) {
+        if (!(property in target)) {
+          target[property] = function () {
+            return {};
+          };
+        }
+        return target[property];
+      },
+    }
+  );
+}
+
+suite('Viewer', function () {
+  suite('stage', function () {
+    var domElement, viewer;
+
+    beforeEach(function () {
+      sinon
+        .stub(WebGlStage.prototype, '_createContext')
+        .callsFake(fakeWebGlContext);
+      sinon
+        .stub(WebGl2Stage.prototype, '_createContext')
+        .callsFake(fakeWebGlContext);
+      domElement = document.createElement('div');
+      document.body.appendChild(domElement);
+    });
+
+    afterEach(function () {
+      viewer.destroy();
+      document.body.removeChild(domElement);
+      WebGlStage.prototype._createContext.restore();
+      WebGl2Stage.prototype._createContext.restore();
+      if (WebGl2Stage.supported.restore) {
+        WebGl2Stage.supported.restore();
+      }
+    });
+
+    test('is a WebGL stage by default', function () {
+      viewer = new Viewer(domElement);
+      assert.strictEqual(viewer.stage().type, 'webgl');
+      assert.notInstanceOf(viewer.stage(), WebGl2Stage);
+    });
+
+    test('is a WebGL 2 stage when requested and supported', function () {
+      sinon.stub(WebGl2Stage, 'supported').returns(true);
+      viewer = new Viewer(domElement, { stage: { type: 'webgl2' } });
+      assert.instanceOf(viewer.stage(), WebGl2Stage);
+      assert.strictEqual(viewer.stage().type, 'webgl2');
+      // The instanced renderers are registered for the WebGL 2 stage.
+      assert.strictEqual(
+        viewer.stage().textureClassForTile({ type: 'cube' }),
+        WebGl2Texture
+      );
+    });
+
+    test('falls back to a WebGL stage without WebGL 2', function () {
+      sinon.stub(WebGl2Stage, 'supported').returns(false);
+      viewer = new Viewer(domElement, { stage: { type: 'webgl2' } });
+      assert.instanceOf(viewer.stage(), WebGlStage);
+      assert.notInstanceOf(viewer.stage(), WebGl2Stage);
+      assert.strictEqual(viewer.stage().type, 'webgl');
+      assert.isTrue(WebGl2Stage.prototype._createContext.notCalled);
+    });
+  });
+});
@@ -17,11 +17,13 @@
 import eventEmitter from 'minimal-event-emitter';
 
 import RenderLoop from './RenderLoop';
+import XrRenderLoop from './XrRenderLoop';
 import Controls from './controls/Controls';
 import Scene from './Scene';
 import Timer from './Timer';
 
 import WebGlStage from './stages/WebGl';
+import WebGl2Stage, { WebGl2StageOptions } from './stages/WebGl2';
 
 import ControlCursor from './controls/ControlCursor';
 import HammerGestures, {
@@ -38,14 +40,20 @@ import { setAbsolute as setAbsolute } from './util/dom';
 import { setFullSize as setFullSize } from './util/dom';
 
 import tween from './util/tween';
+import { GeoLocation } from './util/geo';
 import noop from './util/noop';
 import clearOwnProperties from './util/clearOwnProperties';
 import Layer from './Layer';
+import PointerPicker, {
+  PointerPickerOptions,
+  PointerPickEvent,
+} from './PointerPicker';
+import Hotspot from './Hotspot';
 
 /**
  * Transition options.
  */
-interface SwitchSceneOptions {
+export interface SwitchSceneOptions {
   /**
    * Transition duration, in milliseconds.
    */
@@ -62,15 +70,18 @@ interface SwitchSceneOptions {
 /**
  * Viewer creation options.
  */
-interface ViewerOptions {
+export interface ViewerOptions {
   /**
    * Options to be passed to {@link registerDefaultControls}.
    */
   controls?: RegisterDefaultControlsOptions;
   /**
-   * Options to be passed to the {@link Stage} constructor.
+   * Options to be passed to the {@link Stage} constructor. The `type` option
+   * selects the stage implementation: `"webgl2"` creates a {@link WebGl2Stage}
+   * if WebGL 2 is available, falling back to a {@link WebGlStage} otherwise.
+   * The default is `"webgl"`.
    */
-  stage?: any;
+  stage?: WebGl2StageOptions & { type?: 'webgl' | 'webgl2' };
   /**
    * Cursor options.
    */
@@ -80,6 +91,25 @@ interface ViewerOptions {
      */
     drag?: any;
   };
+  /**
+   * Options for the pointer events, such as the drag threshold. See
+   * {@link PointerPickerOptions}.
+   */
+  pointer?: PointerPickerOptions;
+}
+
+/**
+ * The payload of the {@link Viewer} pointer events.
+ */
+export interface ViewerPointerEvent extends PointerPickEvent {
+  /**
+   * The scene owning the layer under the pointer, or null if none.
+   */
+  scene: Scene | null;
+  /**
+   * The hotspot containing the event target, or null if none.
+   */
+  hotspot: Hotspot | null;
 }
 
 /**
@@ -93,6 +123,56 @@ interface ViewerOptions {
  * @event Viewer#viewChange
  */
 
+/**
+ * Signals that the rendering context has been lost. Rendering is paused until
+ * {@link Viewer#contextRestored} is emitted. See
+ * {@link WebGlStage#event:contextLost}.
+ * @event Viewer#contextLost
+ */
+
+/**
+ * Signals that the rendering context has been restored after a loss, and that
+ * rendering has resumed. Textures are reloaded from their sources. See
+ * {@link WebGlStage#event:contextRestored}.
+ * @event Viewer#contextRestored
+ */
+
+/**
+ * Signals that rendering into an immersive session has started. See
+ * {@link Viewer#startXr}.
+ * @event Viewer#xrStart
+ */
+
+/**
+ * Signals that the immersive session has ended and that rendering into the
+ * page has resumed. See {@link Viewer#stopXr}.
+ * @event Viewer#xrEnd
+ */
+
+/**
+ * Signals a click on the viewer, i.e., a press and release without dragging.
+ * @event Viewer#click
+ * @param {ViewerPointerEvent} event
+ */
+
+/**
+ * Signals a double click on the viewer.
+ * @event Viewer#dblclick
+ * @param {ViewerPointerEvent} event
+ */
+
+/**
+ * Signals a press held without dragging for the long press duration.
+ * @event Viewer#longpress
+ * @param {ViewerPointerEvent} event
+ */
+
+/**
+ * Signals a pointer movement over the viewer.
+ * @event Viewer#pointermove
+ * @param {ViewerPointerEvent} event
+ */
+
 /**
  * @class Viewer
  * @classdesc
@@ -104,6 +184,11 @@ interface ViewerOptions {
  * scene switch, a single one of them, called the current scene, is visible.
  * Calling {@link Viewer#switchScene} sets the current scene and switches to it.
  *
+ * The viewer emits `click`, `dblclick`, `longpress` and `pointermove` events
+ * carrying the view coordinates, layer, scene and hotspot under the pointer.
+ * Presses that move beyond a drag threshold, e.g. to pan the view, do not emit
+ * `click` or `longpress`.
+ *
  * @param {Element} domElement The DOM element to contain the stage.
  */
 class Viewer {
@@ -130,7 +215,13 @@ class Viewer {
   #resetIdleTimerHandler: () => void;
   #triggerIdleTimerHandler: () => void;
   #stopMovementHandler: () => void;
+  #contextLostHandler: () => void;
+  #contextRestoredHandler: () => void;
+  #xrRenderLoop: XrRenderLoop | null;
+  #xrEndHandler: () => void;
   #idleMovement?: () => void;
+  #pointerPicker: PointerPicker;
+  #pointerHandlers: Record<string, (event: PointerPickEvent) => void>;
 
   constructor(domElement: HTMLElement, opts?: ViewerOptions) {
     opts = opts || {};
@@ -141,7 +232,7 @@ class Viewer {
     setOverflowHidden(domElement);
 
     // Create stage.
-    this.#stage = new WebGlStage(opts.stage);
+    this.#stage = createStage(opts.stage);
 
     // Register the default renderers for the selected stage.
     registerDefaultRenderers(this.#stage);
@@ -167,6 +258,19 @@ class Viewer {
     // Create render loop.
     this.#renderLoop = new RenderLoop(this.#stage);
 
+    // Forward context loss and restoration events from the stage.
+    this.#contextLostHandler = this.emit.bind(this, 'contextLost');
+    this.#contextRestoredHandler = this.emit.bind(this, 'contextRestored');
+    this.#stage.addEventListener('contextLost', this.#contextLostHandler);
+    this.#stage.addEventListener(
+      'contextRestored',
+      this.#contextRestoredHandler
+    );
+
+    // The render loop for the immersive session, if any.
+    this.#xrRenderLoop = null;
+    this.#xrEndHandler = this.stopXr.bind(this);
+
     // Create the controls and register them with the render loop.
     this.#controls = new Controls();
     this.#controlMethods = registerDefaultControls(
@@ -242,14 +346,32 @@ class Viewer {
     // @ts-ignore
     this.#controls.addEventListener('active', this.#stopMovementHandler);
     this.addEventListener('sceneChange', this.#stopMovementHandler);
+
+    // Emit pointer events with the scene and hotspot under the pointer.
+    this.#pointerPicker = new PointerPicker(
+      this._controlContainer,
+      this.#stage,
+      opts.pointer
+    );
+    this.#pointerHandlers = {};
+    for (const type of pointerEventTypes) {
+      const handler = this.#emitPointerEvent.bind(this, type);
+      this.#pointerHandlers[type] = handler;
+      this.#pointerPicker.addEventListener(type, handler);
+    }
   }
   addEventListener(_arg0: string, _resetIdleTimerHandler: any) {
     throw new Error('Method not implemented.');
   }
+  removeEventListener(_arg0: string, _arg1: any) {
+    throw new Error('Method not implemented.');
+  }
   /**
    * Destructor.
    */
   destroy() {
+    this.stopXr();
+
     window.removeEventListener('resize', this.#updateSizeListener);
 
     if (this.#currentScene) {
@@ -262,6 +384,14 @@ class Viewer {
 
     this.#dragCursor.destroy();
 
+    for (const type in this.#pointerHandlers) {
+      this.#pointerPicker.removeEventListener(
+        type,
+        this.#pointerHandlers[type]
+      );
+    }
+    this.#pointerPicker.destroy();
+
     for (const methodName in this.#controlMethods) {
       this.#controlMethods[methodName].destroy();
     }
@@ -272,6 +402,12 @@ class Viewer {
 
     this.#domElement.removeChild(this.#stage.domElement());
 
+    this.#stage.removeEventListener('contextLost', this.#contextLostHandler);
+    this.#stage.removeEventListener(
+      'contextRestored',
+      this.#contextRestoredHandler
+    );
+
     this.#stage.destroy();
     this.#renderLoop.destroy();
     this.#controls?.destroy();
@@ -316,6 +452,72 @@ class Viewer {
   controls() {
     return this.#controls;
   }
+  /**
+   * Returns the {@link XrRenderLoop render loop} for the immersive session, or
+   * null if there is none.
+   * @return {XrRenderLoop|null}
+   */
+  xrRenderLoop() {
+    return this.#xrRenderLoop;
+  }
+  /**
+   * Starts displaying the current scene in an immersive WebXR session. While
+   * the session is running, the stage is rendered into the headset by an
+   * {@link XrRenderLoop}, to which the controls are attached, and the
+   * {@link RenderLoop} is stopped.
+   *
+   * Use {@link XrRenderLoop.isSupported} to check for support beforehand. The
+   * session must be requested by the caller, since browsers only allow it in
+   * response to a user gesture.
+   *
+   * @param {XRSession} session The session obtained from
+   *     `navigator.xr.requestSession('immersive-vr')`.
+   * @return {Promise} A promise resolved once rendering into the session has
+   *     started, or rejected if the session could not be set up.
+   * @throws An error if an immersive session is already in progress.
+   */
+  startXr(session): Promise<void> {
+    if (this.#xrRenderLoop) {
+      throw new Error('Immersive session already in progress');
+    }
+
+    const self = this;
+    const xrRenderLoop = new XrRenderLoop(this.#stage, session);
+    this.#xrRenderLoop = xrRenderLoop;
+    xrRenderLoop.addEventListener('end', this.#xrEndHandler);
+
+    this.#renderLoop.stop();
+    this.#controls?.attach(xrRenderLoop);
+
+    return xrRenderLoop.start().then(
+      function () {
+        self.emit('xrStart');
+      },
+      function (err) {
+        self.stopXr();
+        throw err;
+      }
+    );
+  }
+  /**
+   * Ends the immersive session, if any, and resumes rendering into the page.
+   * Called automatically when the session is ended by the user or the browser.
+   */
+  stopXr() {
+    const xrRenderLoop = this.#xrRenderLoop;
+    if (!xrRenderLoop) {
+      return;
+    }
+
+    this.#xrRenderLoop = null;
+    xrRenderLoop.removeEventListener('end', this.#xrEndHandler);
+    xrRenderLoop.destroy();
+
+    this.#controls?.attach(this.#renderLoop);
+    this.#renderLoop.start();
+
+    this.emit('xrEnd');
+  }
   /**
    * Returns the underlying DOM element.
    * @return {Element}
@@ -340,12 +542,19 @@ class Viewer {
    *     {@link TextureStore} constructor.
    * @param {Object} [opts.layerOpts={}] Options to pass to the {@link Layer}
    *     constructor.
+   * @param {StereoOptions} [opts.stereo] How to display media packing the
+   *     images for both eyes.
+   * @param {SceneGeoreference} [opts.georeference] Orientation and geographic
+   *     metadata of the scene.
    * @return {Scene}
    */
   createScene(opts) {
     opts = opts || {};
 
-    const scene = this.createEmptyScene({ view: opts.view });
+    const scene = this.createEmptyScene({
+      view: opts.view,
+      georeference: opts.georeference,
+    });
 
     scene.createLayer({
       source: opts.source,
@@ -353,6 +562,7 @@ class Viewer {
       pinFirstLevel: opts.pinFirstLevel,
       textureStoreOpts: opts.textureStoreOpts,
       layerOpts: opts.layerOpts,
+      stereo: opts.stereo,
     });
 
     return scene;
@@ -369,12 +579,17 @@ class Viewer {
    *
    * @param {Object} opts Scene creation options.
    * @param {View} opts.view The scene's underlying {@link View}.
+   * @param {SceneGeoreference} [opts.georeference] Orientation and geographic
+   *     metadata of the scene.
    * @return {Scene}
    */
   createEmptyScene(opts) {
     opts = opts || {};
 
     const scene = new Scene(this, opts.view);
+    if (opts.georeference) {
+      scene.setGeoreference(opts.georeference);
+    }
     this.#scenes.push(scene);
 
     return scene;
@@ -440,6 +655,36 @@ class Viewer {
     layer.unpinFirstLevel();
     layer.textureStore().clearNotPinned();
   }
+  #emitPointerEvent(type: string, event: PointerPickEvent) {
+    const result = event as ViewerPointerEvent;
+    result.scene = this.#sceneForLayer(event.layer);
+    result.hotspot = this.#hotspotForTarget(event.originalEvent.target);
+    this.emit(type, result);
+  }
+  #sceneForLayer(layer: Layer | null) {
+    if (!layer) {
+      return null;
+    }
+    for (const scene of [this.#currentScene, this.#replacedScene]) {
+      if (scene && scene.listLayers().indexOf(layer) >= 0) {
+        return scene;
+      }
+    }
+    return null;
+  }
+  #hotspotForTarget(target: EventTarget | null) {
+    const scene = this.#currentScene;
+    if (!scene || !(target instanceof Node)) {
+      return null;
+    }
+    const hotspots = scene.hotspotContainer().listHotspots();
+    for (let i = 0; i < hotspots.length; i++) {
+      if (hotspots[i].domElement().contains(target)) {
+        return hotspots[i];
+      }
+    }
+    return null;
+  }
   #addSceneEventListeners(scene) {
     scene.addEventListener('layerChange', this.#layerChangeHandler);
     scene.addEventListener('viewChange', this.#viewChangeHandler);
@@ -553,6 +798,72 @@ class Viewer {
       scene.lookTo(params, opts, done);
     }
   }
+  /**
+   * Tweens the {@link View view} for the current {@link Scene scene} to face a
+   * compass bearing.
+   *
+   * This method is equivalent to calling {@link Scene#lookToBearing} on the
+   * current scene. If there is no current scene, this is a no-op.
+   *
+   * @param {number} bearing The bearing in radians clockwise from north.
+   * @param {Object} opts Options to pass into {@link Scene#lookTo}.
+   * @param {function} done Function to call when the tween is complete.
+   */
+  lookToBearing(bearing: number, opts?, done?) {
+    const scene = this.#currentScene;
+    if (scene) {
+      scene.lookToBearing(bearing, opts, done);
+    }
+  }
+  /**
+   * Tweens the {@link View view} for the current {@link Scene scene} to face a
+   * geographic position.
+   *
+   * This method is equivalent to calling {@link Scene#lookToLocation} on the
+   * current scene. If there is no current scene, this is a no-op.
+   *
+   * @param {GeoLocation} target The position to face.
+   * @param {Object} opts Options to pass into {@link Scene#lookTo}.
+   * @param {function} done Function to call when the tween is complete.
+   */
+  lookToLocation(target: GeoLocation, opts?, done?) {
+    const scene = this.#currentScene;
+    if (scene) {
+      scene.lookToLocation(target, opts, done);
+    }
+  }
+  /**
+   * Tweens the {@link View view} for the current {@link Scene scene} into the
+   * "little planet" mode.
+   *
+   * This method is equivalent to calling {@link Scene#enterLittlePlanet} on the
+   * current scene. If there is no current scene, this is a no-op.
+   *
+   * @param {Object} opts Options to pass into {@link Scene#enterLittlePlanet}.
+   * @param {function} done Function to call when the tween is complete.
+   */
+  enterLittlePlanet(opts?, done?) {
+    const scene = this.#currentScene;
+    if (scene) {
+      scene.enterLittlePlanet(opts, done);
+    }
+  }
+  /**
+   * Tweens the {@link View view} for the current {@link Scene scene} out of the
+   * "little planet" mode.
+   *
+   * This method is equivalent to calling {@link Scene#exitLittlePlanet} on the
+   * current scene. If there is no current scene, this is a no-op.
+   *
+   * @param {Object} opts Options to pass into {@link Scene#lookTo}.
+   * @param {function} done Function to call when the tween is complete.
+   */
+  exitLittlePlanet(opts?, done?) {
+    const scene = this.#currentScene;
+    if (scene) {
+      scene.exitLittlePlanet(opts, done);
+    }
+  }
   /**
    * Starts a movement, possibly replacing the current movement.
    *
@@ -743,7 +1054,7 @@ class Viewer {
     this.#addSceneEventListeners(newScene);
   }
 
-  emit(_arg0: string) {
+  emit(_arg0: string, ..._args: any[]) {
     throw new Error('Method not implemented.');
   }
 }
@@ -752,6 +1063,16 @@ eventEmitter(Viewer);
 
 var defaultSwitchDuration = 1000;
 
+// Events forwarded from the pointer picker.
+const pointerEventTypes = ['click', 'dblclick', 'longpress', 'pointermove'];
+
+function createStage(opts: ViewerOptions['stage']) {
+  if (opts && opts.type === 'webgl2' && WebGl2Stage.supported()) {
+    return new WebGl2Stage(opts);
+  }
+  return new WebGlStage(opts);
+}
+
 function defaultTransitionUpdate(val, newScene: Scene, _oldScene) {
   const layers = newScene.listLayers();
   layers.forEach(function (layer) {
@@ -0,0 +1,286 @@
+import { suite, test, beforeEach, afterEach, assert } from 'vitest';
+import sinon from 'sinon';
+
+import eventEmitter from 'minimal-event-emitter';
+import { mat4 } from 'gl-matrix';
+
+import XrRenderLoop from './XrRenderLoop';
+import Layer from './Layer';
+import RectilinearView from './views/Rectilinear';
+import FlatView from './views/Flat';
+
+class MockStage {
+  constructor(layers) {
+    this.gl = { makeXRCompatible: sinon.stub().resolves() };
+    this.layers = layers || [];
+    this.renderLayers = sinon.spy();
+    this.setRenderTarget = sinon.spy();
+    this.destroyRenderer = sinon.spy();
+    this.createRendererForLayer = sinon.spy(function () {
+      return {};
+    });
+  }
+  webGlContext() {
+    return this.gl;
+  }
+  isContextLost() {
+    return false;
+  }
+  listLayers() {
+    return this.layers;
+  }
+}
+
+class MockSession {
+  constructor() {
+    this.callbacks = {};
+    this.nextHandle = 1;
+    this.renderState = {};
+    this.referenceSpace = {};
+    this.end = sinon.spy(() => {
+      this.emit('end');
+    });
+  }
+  updateRenderState(state) {
+    this.renderState = state;
+  }
+  requestReferenceSpace() {
+    return Promise.resolve(this.referenceSpace);
+  }
+  requestAnimationFrame(fn) {
+    var handle = this.nextHandle++;
+    this.callbacks[handle] = fn;
+    return handle;
+  }
+  cancelAnimationFrame(handle) {
+    delete this.callbacks[handle];
+  }
+  tick(frame) {
+    var callbacks = this.callbacks;
+    this.callbacks = {};
+    for (var handle in callbacks) {
+      callbacks[handle](0, frame);
+    }
+  }
+}
+
+eventEmitter(MockSession);
+
+class MockXRWebGLLayer {
+  constructor(session, gl) {
+    this.session = session;
+    this.gl = gl;
+    this.framebuffer = {};
+    this.framebufferWidth = 200;
+    this.framebufferHeight = 100;
+  }
+  getViewport(view) {
+    return view.viewport;
+  }
+}
+
+function makeFrame(session) {
+  var projectionMatrix = mat4.create();
+  mat4.perspective(projectionMatrix, Math.PI / 2, 1, -1, 1);
+  var orientation = { x: 0, y: 0, z: 0, w: 1 };
+  var views = [
+    {
+      projectionMatrix: projectionMatrix,
+      transform: { orientation: orientation },
+      viewport: { x: 0, y: 0, width: 100, height: 100 },
+    },
+    {
+      projectionMatrix: projectionMatrix,
+      transform: { orientation: orientation },
+      viewport: { x: 100, y: 0, width: 100, height: 100 },
+    },
+  ];
+  return {
+    getViewerPose: sinon.spy(function (referenceSpace) {
+      return referenceSpace === session.referenceSpace ? { views } : null;
+    }),
+  };
+}
+
+function makeLayer(view, stereo) {
+  var textureStore = {};
+  textureStore.addEventListener = sinon.spy();
+  textureStore.removeEventListener = sinon.spy();
+  var geometry = { type: 'cube', levelList: [] };
+  return new Layer({}, geometry, view, textureStore, {
+    effects: { opacity: 0.5 },
+    stereo: stereo,
+  });
+}
+
+suite('XrRenderLoop', function () {
+  var realXRWebGLLayer;
+
+  beforeEach(function () {
+    realXRWebGLLayer = window.XRWebGLLayer;
+    window.XRWebGLLayer = MockXRWebGLLayer;
+  });
+
+  afterEach(function () {
+    window.XRWebGLLayer = realXRWebGLLayer;
+  });
+
+  suite('isSupported', function () {
+    var realXr;
+
+    beforeEach(function () {
+      realXr = navigator.xr;
+    });
+
+    afterEach(function () {
+      navigator.xr = realXr;
+    });
+
+    test('without WebXR', async function () {
+      navigator.xr = undefined;
+      assert.isFalse(await XrRenderLoop.isSupported());
+    });
+
+    test('with WebXR', async function () {
+      navigator.xr = {
+        isSessionSupported: sinon
+          .stub()
+          .withArgs('immersive-vr')
+          .resolves(true),
+      };
+      assert.isTrue(await XrRenderLoop.isSupported());
+    });
+  });
+
+  test('sets up the session on start', async function () {
+    var stage = new MockStage();
+    var session = new MockSession();
+    var loop = new XrRenderLoop(stage, session);
+    await loop.start();
+    assert.isTrue(stage.gl.makeXRCompatible.calledOnce);
+    assert.instanceOf(session.renderState.baseLayer, MockXRWebGLLayer);
+    assert.strictEqual(session.renderState.baseLayer.gl, stage.gl);
+    assert.isTrue(loop.isRunning());
+    assert.lengthOf(Object.keys(session.callbacks), 1);
+  });
+
+  test('renders each layer once per eye', async function () {
+    var view = new RectilinearView({ yaw: 0.5 });
+    var layer = makeLayer(view);
+    var stage = new MockStage([layer]);
+    var session = new MockSession();
+    var loop = new XrRenderLoop(stage, session);
+    await loop.start();
+
+    var beforeRenderSpy = sinon.spy();
+    var afterRenderSpy = sinon.spy();
+    loop.addEventListener('beforeRender', beforeRenderSpy);
+    loop.addEventListener('afterRender', afterRenderSpy);
+
+    session.tick(makeFrame(session));
+
+    assert.isTrue(beforeRenderSpy.calledOnce);
+    assert.isTrue(afterRenderSpy.calledOnce);
+
+    assert.isTrue(stage.renderLayers.calledOnce);
+    var args = stage.renderLayers.firstCall.args;
+    var eyeLayers = args[0];
+    assert.lengthOf(eyeLayers, 2);
+    assert.lengthOf(args[1], 2);
+    assert.strictEqual(args[2], 200);
+    assert.strictEqual(args[3], 100);
+
+    for (var i = 0; i < eyeLayers.length; i++) {
+      assert.strictEqual(eyeLayers[i].source(), layer.source());
+      assert.strictEqual(eyeLayers[i].geometry(), layer.geometry());
+      assert.strictEqual(eyeLayers[i].textureStore(), layer.textureStore());
+      assert.strictEqual(eyeLayers[i].effects().opacity, 0.5);
+      assert.strictEqual(eyeLayers[i].view().yaw(), 0.5);
+    }
+    assert.strictEqual(eyeLayers[0].effects().rect.absoluteX, 0);
+    assert.strictEqual(eyeLayers[1].effects().rect.absoluteX, 100);
+
+    assert.isTrue(
+      stage.setRenderTarget.firstCall.calledWith(
+        session.renderState.baseLayer.framebuffer,
+        { width: 200, height: 100 }
+      )
+    );
+    assert.isTrue(stage.setRenderTarget.secondCall.calledWith(null));
+
+    // The eye layers are reused on subsequent frames.
+    session.tick(makeFrame(session));
+    assert.strictEqual(stage.renderLayers.secondCall.args[0][0], eyeLayers[0]);
+  });
+
+  test('renders the matching eye of stereoscopic layers', async function () {
+    var layer = makeLayer(new RectilinearView(), {
+      layout: 'side-by-side',
+      output: 'anaglyph',
+    });
+    var stage = new MockStage([layer]);
+    var session = new MockSession();
+    var loop = new XrRenderLoop(stage, session);
+    await loop.start();
+
+    var frame = makeFrame(session);
+    var views = frame.getViewerPose(session.referenceSpace).views;
+    views[0].eye = 'left';
+    views[1].eye = 'right';
+    session.tick(frame);
+
+    var eyeLayers = stage.renderLayers.firstCall.args[0];
+    assert.deepEqual(eyeLayers[0].effects().textureCrop, {
+      x: 0,
+      y: 0,
+      width: 0.5,
+      height: 1,
+    });
+    assert.deepEqual(eyeLayers[1].effects().textureCrop, {
+      x: 0.5,
+      y: 0,
+      width: 0.5,
+      height: 1,
+    });
+    // The anaglyph output is not used while immersed.
+    assert.isUndefined(eyeLayers[0].effects().colorMatrix);
+    assert.isUndefined(eyeLayers[1].effects().colorMatrix);
+  });
+
+  test('skips layers without a rectilinear view', async function () {
+    var stage = new MockStage([
+      makeLayer(new FlatView({ mediaAspectRatio: 1 })),
+    ]);
+    var session = new MockSession();
+    var loop = new XrRenderLoop(stage, session);
+    await loop.start();
+    session.tick(makeFrame(session));
+    assert.lengthOf(stage.renderLayers.firstCall.args[0], 0);
+  });
+
+  test('stop ends the session', async function () {
+    var stage = new MockStage();
+    var session = new MockSession();
+    var loop = new XrRenderLoop(stage, session);
+    var endSpy = sinon.spy();
+    loop.addEventListener('end', endSpy);
+    await loop.start();
+    loop.stop();
+    assert.isTrue(session.end.calledOnce);
+    assert.isTrue(endSpy.calledOnce);
+    assert.isFalse(loop.isRunning());
+    assert.lengthOf(Object.keys(session.callbacks), 0);
+  });
+
+  test('emits end when the session is ended externally', async function () {
+    var stage = new MockStage();
+    var session = new MockSession();
+    var loop = new XrRenderLoop(stage, session);
+    var endSpy = sinon.spy();
+    loop.addEventListener('end', endSpy);
+    await loop.start();
+    session.emit('end');
+    assert.isTrue(endSpy.calledOnce);
+    assert.isFalse(loop.isRunning());
+  });
+});
@@ -0,0 +1,335 @@
+import eventEmitter from 'minimal-event-emitter';
+import Layer from './Layer';
+import XrView from './views/Xr';
+import WebGlStage from './stages/WebGl';
+import clearOwnProperties from './util/clearOwnProperties';
+import stereo from './stereo';
+import { Renderer } from './jsdoc-extras';
+
+function destroyEyeLayers(layers: Layer[]) {
+  for (let i = 0; i < layers.length; i++) {
+    const view = layers[i].view();
+    layers[i].destroy();
+    view.destroy();
+  }
+}
+
+/**
+ * Signals that the stage is about to be rendered for an immersive frame.
+ * @event XrRenderLoop#beforeRender
+ */
+
+/**
+ * Signals that the stage has just been rendered for an immersive frame.
+ * @event XrRenderLoop#afterRender
+ */
+
+/**
+ * Signals that the immersive session has ended, either because
+ * {@link XrRenderLoop#stop} was called or because the user or the browser
+ * ended it.
+ * @event XrRenderLoop#end
+ */
+
+/**
+ * @class XrRenderLoop
+ * @classdesc
+ *
+ * An XrRenderLoop renders the layers of a {@link WebGlStage} into an immersive
+ * WebXR session, taking the place of a {@link RenderLoop} while the session is
+ * running. On every frame, each layer with a rectilinear view is rendered once
+ * per eye, using an {@link XrView} updated from the viewer pose reported by the
+ * session. The eye layers share the source, geometry and texture store of the
+ * stage layers, so that textures are loaded only once.
+ *
+ * Stereoscopic layers display the eye matching each view, as specified by
+ * their {@link StereoOptions layout}, instead of their regular output.
+ *
+ * The yaw of the stage layer views is applied on top of the headset
+ * orientation. Since {@link Controls} update the stage layer views, they keep
+ * working while immersed, as long as they are attached to this loop instead of
+ * the {@link RenderLoop}. Hotspots remain positioned according to the stage
+ * layer views, and are displayed again once the session ends.
+ *
+ * Most users do not need to instantiate this class; see
+ * {@link Viewer#startXr}.
+ *
+ * @param {WebGlStage} stage
+ * @param {XRSession} session An immersive session, as obtained from
+ *     `navigator.xr.requestSession('immersive-vr')`.
+ */
+class XrRenderLoop {
+  #stage: WebGlStage;
+  #session: any;
+  #running: boolean;
+  #referenceSpace: any;
+  #requestHandle: null | number;
+  #boundLoop: (time: number, frame: any) => void;
+  #endHandler: () => void;
+  #eyeLayers: Map<Layer, Layer[]>;
+  #layers: Layer[];
+  #renderers: Renderer[];
+  constructor(stage: WebGlStage, session) {
+    const self = this;
+
+    // The stage and session wrapped by the loop.
+    this.#stage = stage;
+    this.#session = session;
+
+    // Whether the loop is running.
+    this.#running = false;
+
+    // The reference space the viewer pose is obtained in.
+    this.#referenceSpace = null;
+
+    // The current XRSession#requestAnimationFrame handle.
+    this.#requestHandle = null;
+
+    // The callback passed into XRSession#requestAnimationFrame.
+    this.#boundLoop = this.#loop.bind(this);
+
+    // Handle the session being ended, possibly by the user or the browser.
+    this.#endHandler = function () {
+      self.#session.removeEventListener('end', self.#endHandler);
+      self.#running = false;
+      self.#requestHandle = null;
+      self.emit('end');
+    };
+    this.#session.addEventListener('end', this.#endHandler);
+
+    // The eye layers for each stage layer, one per view in the viewer pose.
+    this.#eyeLayers = new Map();
+
+    // The lists of layers and renderers for the current frame.
+    this.#layers = [];
+    this.#renderers = [];
+  }
+  /**
+   * Destructor. Ends the session if it is still running.
+   */
+  destroy() {
+    const stage = this.#stage;
+    this.stop();
+    this.#session.removeEventListener('end', this.#endHandler);
+    this.#eyeLayers.forEach(function (layers) {
+      destroyEyeLayers(layers);
+    });
+    // Release renderers not otherwise used by the stage.
+    this.#renderers.forEach(function (renderer) {
+      stage.destroyRenderer(renderer);
+    });
+    clearOwnProperties(this);
+  }
+  emit(_arg0: string) {
+    throw new Error('Method not implemented.');
+  }
+  addEventListener(_arg0: string, _arg1: any) {
+    throw new Error('Method not implemented.');
+  }
+  removeEventListener(_arg0: string, _arg1: any) {
+    throw new Error('Method not implemented.');
+  }
+  /**
+   * Returns whether immersive sessions are supported in the current
+   * environment.
+   *
+   * @return {Promise<boolean>}
+   */
+  static isSupported(): Promise<boolean> {
+    const xr = typeof navigator !== 'undefined' && (navigator as any).xr;
+    if (!xr) {
+      return Promise.resolve(false);
+    }
+    return xr.isSessionSupported('immersive-vr');
+  }
+  /**
+   * Returns the underlying stage.
+   * @return {WebGlStage}
+   */
+  stage() {
+    return this.#stage;
+  }
+  /**
+   * Returns the underlying session.
+   * @return {XRSession}
+   */
+  session() {
+    return this.#session;
+  }
+  /**
+   * Returns whether the loop is running.
+   * @return {boolean}
+   */
+  isRunning() {
+    return this.#running;
+  }
+  /**
+   * Starts rendering into the session. The stage context is made compatible
+   * with the session, which is set up to render into it.
+   *
+   * @return {Promise} A promise resolved once the first frame has been
+   *     requested, or rejected if the session could not be set up.
+   */
+  start(): Promise<void> {
+    const self = this;
+    const session = this.#session;
+    const gl = this.#stage.webGlContext();
+
+    if (!gl) {
+      return Promise.reject(new Error('WebGL context is lost'));
+    }
+
+    return Promise.resolve(gl.makeXRCompatible && gl.makeXRCompatible())
+      .then(function () {
+        const XRWebGLLayer = (window as any).XRWebGLLayer;
+        session.updateRenderState({
+          baseLayer: new XRWebGLLayer(session, gl),
+        });
+        return session.requestReferenceSpace('local');
+      })
+      .then(function (referenceSpace) {
+        self.#referenceSpace = referenceSpace;
+        self.#running = true;
+        self.#requestHandle = session.requestAnimationFrame(self.#boundLoop);
+      });
+  }
+  /**
+   * Stops rendering and ends the session.
+   */
+  stop() {
+    if (!this.#running) {
+      return;
+    }
+    this.#running = false;
+    if (this.#requestHandle != null) {
+      this.#session.cancelAnimationFrame(this.#requestHandle);
+      this.#requestHandle = null;
+    }
+    this.#session.end();
+  }
+  /**
+   * Does nothing, as the session renders on every frame. Present for
+   * compatibility with {@link RenderLoop}, so that {@link Controls} may be
+   * attached to either.
+   */
+  renderOnNextFrame() {
+    // Nothing to do.
+  }
+  #loop(_time: number, frame) {
+    if (!this.#running) {
+      return;
+    }
+
+    const session = this.#session;
+    const stage = this.#stage;
+
+    // Request the next frame first, as recommended by the WebXR specification.
+    this.#requestHandle = session.requestAnimationFrame(this.#boundLoop);
+
+    const pose = frame.getViewerPose(this.#referenceSpace);
+    if (!pose || stage.isContextLost()) {
+      return;
+    }
+
+    this.emit('beforeRender');
+
+    const baseLayer = session.renderState.baseLayer;
+    const width = baseLayer.framebufferWidth;
+    const height = baseLayer.framebufferHeight;
+
+    this.#collectLayers(pose.views, baseLayer);
+
+    stage.setRenderTarget(baseLayer.framebuffer, { width, height });
+    stage.renderLayers(this.#layers, this.#renderers, width, height);
+    stage.setRenderTarget(null);
+
+    this.emit('afterRender');
+  }
+  #collectLayers(poseViews, baseLayer) {
+    const stage = this.#stage;
+    const eyeLayers = this.#eyeLayers;
+    const layers = this.#layers;
+    const renderers = this.#renderers;
+    const stageLayers = stage.listLayers();
+
+    layers.length = 0;
+    renderers.length = 0;
+
+    // Discard eye layers for stage layers that have been removed.
+    eyeLayers.forEach(function (eyes, stageLayer) {
+      if (stageLayers.indexOf(stageLayer) < 0) {
+        destroyEyeLayers(eyes);
+        eyeLayers.delete(stageLayer);
+      }
+    });
+
+    for (let i = 0; i < poseViews.length; i++) {
+      const poseView = poseViews[i];
+      const viewport = baseLayer.getViewport(poseView);
+
+      // Stereoscopic layers display the eye matching the pose view, or the
+      // left eye on monoscopic displays.
+      const eye = poseView.eye === 'right' ? 'right' : 'left';
+
+      // The viewport origin is at the bottom left corner of the framebuffer,
+      // while the rect origin is at the top left corner.
+      const rect = {
+        absoluteX: viewport.x,
+        absoluteY: baseLayer.framebufferHeight - viewport.y - viewport.height,
+        absoluteWidth: viewport.width,
+        absoluteHeight: viewport.height,
+      };
+
+      for (let j = 0; j < stageLayers.length; j++) {
+        const stageLayer = stageLayers[j];
+        const stageView = stageLayer.view();
+
+        // Only layers meant to be seen from the inside may be rendered.
+        if (stageView.type !== 'rectilinear') {
+          continue;
+        }
+
+        let eyes = eyeLayers.get(stageLayer);
+        if (!eyes) {
+          eyes = [];
+          eyeLayers.set(stageLayer, eyes);
+        }
+        let eyeLayer = eyes[i];
+        if (!eyeLayer) {
+          eyeLayer = new Layer(
+            stageLayer.source(),
+            stageLayer.geometry(),
+            new XrView(),
+            stageLayer.textureStore()
+          );
+          eyes[i] = eyeLayer;
+        }
+
+        const eyeView = eyeLayer.view();
+        eyeView.setPose(poseView);
+        eyeView.setYaw(stageView.yaw());
+
+        // Keep the stage layer effects, such as the opacity during a scene
+        // transition, but render into the eye viewport. Stereoscopic layers
+        // are cropped to the eye, regardless of their output.
+        const effects = stereo.eyeEffects(
+          stageLayer.effects(),
+          { layout: stageLayer.stereo().layout },
+          eye
+        );
+        eyeLayer.setEffects({ ...effects, rect });
+        eyeLayer.setFixedLevel(stageLayer.fixedLevel());
+
+        layers.push(eyeLayer);
+
+        // Renderers are shared with the stage and may be destroyed or
+        // recreated by it, so they are looked up on every frame.
+        renderers.push(stage.createRendererForLayer(eyeLayer));
+      }
+    }
+  }
+}
+
+eventEmitter(XrRenderLoop);
+
+export default XrRenderLoop;
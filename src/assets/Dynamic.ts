@@ -25,8 +25,8 @@ import clearOwnProperties from '../util/clearOwnProperties';
  *
  * An {@link Asset} whose pixel contents may change.
  *
- * @param {HTMLImageElement|HTMLCanvasElement|ImageBitmap} element The
- *     underlying pixel source.
+ * @param {HTMLImageElement|HTMLCanvasElement|ImageBitmap|HTMLVideoElement}
+ *     element The underlying pixel source.
  * @throws If the pixel source is unsupported.
  */
 class DynamicAsset extends StaticAsset {
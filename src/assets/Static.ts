@@ -21,6 +21,7 @@ const propertyMap = {
   HTMLImageElement: ['naturalWidth', 'naturalHeight'],
   HTMLCanvasElement: ['width', 'height'],
   ImageBitmap: ['width', 'height'],
+  HTMLVideoElement: ['videoWidth', 'videoHeight'],
 };
 
 /**
@@ -30,8 +31,8 @@ const propertyMap = {
  *
  * An {@link Asset} whose pixel contents never change.
  *
- * @param {HTMLImageElement|HTMLCanvasElement|ImageBitmap} element The
- *     underlying pixel source.
+ * @param {HTMLImageElement|HTMLCanvasElement|ImageBitmap|HTMLVideoElement}
+ *     element The underlying pixel source.
  * @throws If the pixel source is unsupported.
  */
 class StaticAsset {
@@ -0,0 +1,138 @@
+import { suite, test, beforeEach, afterEach, assert } from 'vitest';
+import sinon from 'sinon';
+
+import VideoAsset from './Video';
+
+function createVideo(opts) {
+  var video = document.createElement('video');
+  video.paused = true;
+  video.ended = false;
+  if (opts && opts.videoFrameCallback) {
+    var callbacks = {};
+    var nextHandle = 1;
+    video.requestVideoFrameCallback = sinon.spy(function (fn) {
+      var handle = nextHandle++;
+      callbacks[handle] = fn;
+      return handle;
+    });
+    video.cancelVideoFrameCallback = sinon.spy(function (handle) {
+      delete callbacks[handle];
+    });
+    video.presentFrame = function () {
+      var pending = callbacks;
+      callbacks = {};
+      for (var handle in pending) {
+        pending[handle]();
+      }
+    };
+  }
+  return video;
+}
+
+suite('VideoAsset', function () {
+  test('element', function () {
+    var video = createVideo();
+    var asset = new VideoAsset(video);
+    assert.strictEqual(asset.element(), video);
+    assert.strictEqual(asset.video(), video);
+    assert.isTrue(asset.isDynamic());
+    asset.destroy();
+  });
+
+  test('marks dirty on seek', function () {
+    var video = createVideo();
+    var asset = new VideoAsset(video);
+    var spy = sinon.spy();
+    asset.addEventListener('change', spy);
+    video.dispatchEvent(new Event('seeked'));
+    assert.isTrue(spy.calledOnce);
+    assert.strictEqual(asset.timestamp(), 1);
+    asset.destroy();
+  });
+
+  suite('with video frame callbacks', function () {
+    test('marks dirty on every presented frame', function () {
+      var video = createVideo({ videoFrameCallback: true });
+      var asset = new VideoAsset(video);
+      var spy = sinon.spy();
+      asset.addEventListener('change', spy);
+      video.presentFrame();
+      video.presentFrame();
+      assert.strictEqual(spy.callCount, 2);
+      asset.destroy();
+    });
+
+    test('cancels the callback on destroy', function () {
+      var video = createVideo({ videoFrameCallback: true });
+      var asset = new VideoAsset(video);
+      asset.destroy();
+      assert.isTrue(video.cancelVideoFrameCallback.calledOnce);
+    });
+  });
+
+  suite('without video frame callbacks', function () {
+    var realRequestAnimationFrame = window.requestAnimationFrame;
+    var realCancelAnimationFrame = window.cancelAnimationFrame;
+    var callbacks;
+
+    beforeEach(function () {
+      callbacks = [];
+      window.requestAnimationFrame = function (fn) {
+        callbacks.push(fn);
+        return callbacks.length;
+      };
+      window.cancelAnimationFrame = function (handle) {
+        callbacks[handle - 1] = null;
+      };
+    });
+
+    afterEach(function () {
+      window.requestAnimationFrame = realRequestAnimationFrame;
+      window.cancelAnimationFrame = realCancelAnimationFrame;
+    });
+
+    function tick() {
+      var pending = callbacks;
+      callbacks = [];
+      pending.forEach(function (fn) {
+        if (fn) {
+          fn();
+        }
+      });
+    }
+
+    test('polls while playing', function () {
+      var video = createVideo();
+      var asset = new VideoAsset(video);
+      var spy = sinon.spy();
+      asset.addEventListener('change', spy);
+
+      // Paused video does not poll.
+      assert.lengthOf(callbacks, 0);
+
+      video.paused = false;
+      video.dispatchEvent(new Event('play'));
+      tick();
+      tick();
+      assert.strictEqual(spy.callCount, 2);
+
+      video.paused = true;
+      tick();
+      assert.strictEqual(spy.callCount, 3);
+      assert.lengthOf(callbacks, 0);
+
+      asset.destroy();
+    });
+
+    test('stops polling on destroy', function () {
+      var video = createVideo();
+      video.paused = false;
+      var asset = new VideoAsset(video);
+      var spy = sinon.spy();
+      asset.addEventListener('change', spy);
+      asset.destroy();
+      tick();
+      assert.isFalse(spy.called);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import DynamicAsset from './Dynamic';
+
+/**
+ * @class VideoAsset
+ * @implements Asset
+ * @extends DynamicAsset
+ * @classdesc
+ *
+ * A {@link DynamicAsset} displaying the current frame of a video element.
+ *
+ * The asset is marked dirty whenever a new frame is presented. Where
+ * `requestVideoFrameCallback` is available, it is used to be notified of new
+ * frames; otherwise, the asset is marked dirty on every animation frame while
+ * the video is playing. The asset is also marked dirty when the video is
+ * seeked, so that the new frame is displayed while paused.
+ *
+ * Destroying the asset does not affect the video element.
+ *
+ * @param {HTMLVideoElement} video The underlying video element.
+ */
+class VideoAsset extends DynamicAsset {
+  #video: any;
+  #markDirtyHandler: () => void;
+  #playHandler: () => void;
+  #videoFrameHandle: number | null;
+  #animationFrameHandle: number | null;
+  constructor(video: HTMLVideoElement) {
+    super(video);
+
+    this.#video = video;
+
+    this.#videoFrameHandle = null;
+    this.#animationFrameHandle = null;
+
+    this.#markDirtyHandler = this.markDirty.bind(this);
+    this.#playHandler = this.#requestFrame.bind(this);
+
+    video.addEventListener('seeked', this.#markDirtyHandler);
+    video.addEventListener('loadeddata', this.#markDirtyHandler);
+    video.addEventListener('play', this.#playHandler);
+
+    this.#requestFrame();
+  }
+  /**
+   * Destructor.
+   */
+  destroy() {
+    const video = this.#video;
+
+    video.removeEventListener('seeked', this.#markDirtyHandler);
+    video.removeEventListener('loadeddata', this.#markDirtyHandler);
+    video.removeEventListener('play', this.#playHandler);
+
+    if (this.#videoFrameHandle != null) {
+      video.cancelVideoFrameCallback(this.#videoFrameHandle);
+      this.#videoFrameHandle = null;
+    }
+    if (this.#animationFrameHandle != null) {
+      cancelAnimationFrame(this.#animationFrameHandle);
+      this.#animationFrameHandle = null;
+    }
+
+    super.destroy();
+  }
+  /**
+   * Returns the underlying video element.
+   * @return {HTMLVideoElement}
+   */
+  video(): HTMLVideoElement {
+    return this.#video;
+  }
+  #requestFrame() {
+    const self = this;
+    const video = this.#video;
+
+    if (typeof video.requestVideoFrameCallback === 'function') {
+      // Video frame callbacks are only called when a frame is presented, so
+      // there is no need to stop requesting them while the video is paused.
+      if (this.#videoFrameHandle == null) {
+        this.#videoFrameHandle = video.requestVideoFrameCallback(function () {
+          self.#videoFrameHandle = null;
+          self.markDirty();
+          self.#requestFrame();
+        });
+      }
+      return;
+    }
+
+    // Without video frame callbacks, poll on every animation frame while the
+    // video is playing. Polling is resumed by the play event.
+    if (this.#animationFrameHandle == null && !video.paused && !video.ended) {
+      this.#animationFrameHandle = requestAnimationFrame(function () {
+        self.#animationFrameHandle = null;
+        self.markDirty();
+        self.#requestFrame();
+      });
+    }
+  }
+}
+
+export default VideoAsset;
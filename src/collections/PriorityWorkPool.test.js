@@ -0,0 +1,91 @@
+import { suite, test, assert } from 'vitest';
+import sinon from 'sinon';
+import wait from '../../test/wait';
+
+import PriorityWorkPool from './PriorityWorkPool';
+import cancelize from '../util/cancelize';
+
+import runTests from './WorkCommon';
+
+runTests('PriorityWorkPool', PriorityWorkPool);
+
+// Returns a cancelable function that completes when its finish method is
+// called, recording the order in which it was started.
+function manual(name, started) {
+  var fn = cancelize(function (done) {
+    started.push(name);
+    fn.finish = done;
+  });
+  return fn;
+}
+
+suite('PriorityWorkPool priorities', function () {
+  test('start in priority order', function () {
+    var q = new PriorityWorkPool({ paused: true });
+    var started = [];
+    var spy = sinon.spy();
+    q.push(manual('a', started), spy, () => 2);
+    q.push(manual('b', started), spy, () => 1);
+    q.push(manual('c', started), spy, () => 2);
+    q.push(manual('d', started), spy, () => 0);
+    q.resume();
+    assert.deepEqual(started, ['d']);
+    assert.strictEqual(q.length(), 3);
+  });
+
+  test('ties are started in queue order', function () {
+    var q = new PriorityWorkPool({ concurrency: 3, paused: true });
+    var started = [];
+    q.push(manual('a', started), sinon.spy());
+    q.push(manual('b', started), sinon.spy());
+    q.push(manual('c', started), sinon.spy());
+    q.resume();
+    assert.deepEqual(started, ['a', 'b', 'c']);
+  });
+
+  test('concurrency', function () {
+    var q = new PriorityWorkPool({ concurrency: 2 });
+    var started = [];
+    var first = manual('a', started);
+    q.push(first, sinon.spy());
+    q.push(manual('b', started), sinon.spy());
+    q.push(manual('c', started), sinon.spy());
+    assert.deepEqual(started, ['a', 'b']);
+    first.finish(null);
+    assert.deepEqual(started, ['a', 'b', 'c']);
+  });
+
+  test('reprioritize queued tasks', function (done) {
+    var q = new PriorityWorkPool();
+    var started = [];
+    var priorities = { b: 1, c: 2 };
+    var first = manual('a', started);
+    q.push(first, sinon.spy());
+    q.push(manual('b', started), sinon.spy(), () => priorities.b);
+    q.push(manual('c', started), sinon.spy(), () => priorities.c);
+    priorities.c = 0;
+    first.finish(null);
+    wait.until(
+      function () {
+        return started.length === 2;
+      },
+      function () {
+        assert.deepEqual(started, ['a', 'c']);
+        done();
+      }
+    );
+  });
+
+  test('cancel queued task', function () {
+    var q = new PriorityWorkPool();
+    var started = [];
+    var spy = sinon.spy();
+    var first = manual('a', started);
+    q.push(first, sinon.spy());
+    var cancel = q.push(manual('b', started), spy);
+    cancel('err');
+    assert.isTrue(spy.calledOnceWithExactly('err'));
+    first.finish(null);
+    assert.deepEqual(started, ['a']);
+  });
+});
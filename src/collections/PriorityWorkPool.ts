@@ -0,0 +1,164 @@
+class PriorityWorkTask {
+  fn: any;
+  cb: any;
+  priority: () => number;
+  seq: number;
+  cfn: any;
+
+  constructor(fn, cb, priority: () => number, seq: number) {
+    this.fn = fn;
+    this.cb = cb;
+    this.priority = priority;
+    this.seq = seq;
+    this.cfn = null;
+  }
+}
+
+interface PriorityWorkPoolOptions {
+  concurrency?: number;
+  paused?: boolean;
+}
+
+function zeroPriority() {
+  return 0;
+}
+
+/**
+ * A work pool running up to a given number of tasks at the same time, and
+ * starting queued tasks in priority order.
+ *
+ * The priority of each task is given by a function returning a number, where
+ * lower numbers denote higher priority. It is evaluated whenever a task is to
+ * be started, so that tasks may be reprioritized after being queued. Tasks with
+ * the same priority are started in the order they were queued.
+ */
+class PriorityWorkPool {
+  #concurrency: number;
+  #paused: boolean;
+  #queue: PriorityWorkTask[];
+  #running: PriorityWorkTask[];
+  #nextSeq: number;
+
+  constructor(opts?: PriorityWorkPoolOptions) {
+    this.#concurrency = (opts && opts.concurrency) || 1;
+    this.#paused = (opts && !!opts.paused) || false;
+    this.#queue = [];
+    this.#running = [];
+    this.#nextSeq = 0;
+  }
+  /**
+   * Returns the number of queued tasks, excluding running ones.
+   */
+  length() {
+    return this.#queue.length;
+  }
+  /**
+   * Queues a task.
+   *
+   * @param fn A cancelable function receiving a callback.
+   * @param cb The callback, called with the results of fn.
+   * @param priority A function returning the task priority. Defaults to 0.
+   * @return A function to cancel the task.
+   */
+  push(fn, cb, priority?: () => number) {
+    const task = new PriorityWorkTask(
+      fn,
+      cb,
+      priority || zeroPriority,
+      this.#nextSeq++
+    );
+
+    const cancel = this.#cancel.bind(this, task);
+
+    this.#queue.push(task);
+
+    // Run the task if a slot is free.
+    this.#next();
+
+    return cancel;
+  }
+  pause() {
+    this.#paused = true;
+  }
+  resume() {
+    if (this.#paused) {
+      this.#paused = false;
+      this.#next();
+    }
+  }
+  #start(task: PriorityWorkTask) {
+    this.#running.push(task);
+
+    const finish = this.#finish.bind(this, task);
+    task.cfn = task.fn(finish);
+
+    // Detect when a non-cancellable function has been queued.
+    if (typeof task.cfn !== 'function') {
+      throw new Error('PriorityWorkPool: function is not cancellable');
+    }
+  }
+  #finish(task: PriorityWorkTask) {
+    const args = Array.prototype.slice.call(arguments, 1);
+
+    const pos = this.#running.indexOf(task);
+
+    // Consistency check.
+    if (pos < 0) {
+      throw new Error('PriorityWorkPool: called finish on wrong task');
+    }
+
+    this.#running.splice(pos, 1);
+
+    // Call the task callback on the return values, then advance to the next
+    // task.
+    task.cb.apply(null, args);
+    this.#next();
+  }
+  #cancel(task: PriorityWorkTask) {
+    const args = Array.prototype.slice.call(arguments, 1);
+
+    if (this.#running.indexOf(task) >= 0) {
+      // Cancel running task. Because cancel passes control to the #finish
+      // callback we passed into fn, the cleanup logic will be handled there.
+      task.cfn.apply(null, args);
+    } else {
+      // Remove task from queue.
+      const pos = this.#queue.indexOf(task);
+      if (pos >= 0) {
+        this.#queue.splice(pos, 1);
+        task.cb.apply(null, args);
+      }
+    }
+  }
+  #next() {
+    while (
+      !this.#paused &&
+      this.#queue.length > 0 &&
+      this.#running.length < this.#concurrency
+    ) {
+      this.#start(this.#dequeue());
+    }
+  }
+  #dequeue() {
+    const queue = this.#queue;
+
+    // Find the task with the highest priority. A linear scan is adequate for
+    // the typical queue length, and lets priorities change freely.
+    let best = 0;
+    let bestPriority = queue[0].priority();
+    for (let i = 1; i < queue.length; i++) {
+      const priority = queue[i].priority();
+      if (
+        priority < bestPriority ||
+        (priority === bestPriority && queue[i].seq < queue[best].seq)
+      ) {
+        best = i;
+        bestPriority = priority;
+      }
+    }
+
+    return queue.splice(best, 1)[0];
+  }
+}
+
+export default PriorityWorkPool;
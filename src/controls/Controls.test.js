@@ -0,0 +1,189 @@
+import { suite, test, assert, beforeEach, afterEach } from 'vitest';
+import sinon from 'sinon';
+
+import eventEmitter from 'minimal-event-emitter';
+
+import Controls from './Controls';
+
+function MethodStub() {}
+eventEmitter(MethodStub);
+
+function MockRenderLoop(stage) {
+  this.stage = sinon.stub().returns(stage);
+  this.renderOnNextFrame = sinon.spy();
+}
+eventEmitter(MockRenderLoop);
+
+function MockView() {
+  this.updateWithControlParameters = sinon.spy();
+}
+
+function MockLayer(view, rect) {
+  this.view = sinon.stub().returns(view);
+  this.effects = sinon.stub().returns({ rect });
+}
+
+// A 200x100 stage split into a left and a right half, each with its own view.
+function MockStage(layers) {
+  var element = document.createElement('div');
+  element.getBoundingClientRect = function () {
+    return { left: 10, top: 10, width: 200, height: 100 };
+  };
+  document.body.appendChild(element);
+  this.element = element;
+  this.domElement = sinon.stub().returns(element);
+  this.width = sinon.stub().returns(200);
+  this.height = sinon.stub().returns(100);
+  this.listLayers = sinon.stub().returns(layers);
+  this.layerAt = function (x) {
+    return x < 100 ? layers[0] : layers[1];
+  };
+}
+
+function press(element, clientX, clientY, type) {
+  var event = new Event(type || 'pointerdown', { bubbles: true });
+  event.clientX = clientX;
+  event.clientY = clientY;
+  element.dispatchEvent(event);
+}
+
+suite('Controls', function () {
+  var leftView, rightView, stage, renderLoop, controls, method;
+
+  beforeEach(function () {
+    leftView = new MockView();
+    rightView = new MockView();
+    stage = new MockStage([
+      new MockLayer(leftView, { relativeWidth: 0.5 }),
+      new MockLayer(rightView, { relativeX: 0.5, relativeWidth: 0.5 }),
+    ]);
+    renderLoop = new MockRenderLoop(stage);
+    controls = new Controls();
+    method = new MethodStub();
+    controls.registerMethod('method', method, true);
+    controls.attach(renderLoop);
+  });
+
+  afterEach(function () {
+    controls.destroy();
+    document.body.removeChild(stage.element);
+  });
+
+  function move(x) {
+    method.emit('parameterDynamics', 'x', { offset: x });
+    renderLoop.emit('beforeRender');
+  }
+
+  test('updates every view by default', function () {
+    move(0.1);
+    assert.isTrue(leftView.updateWithControlParameters.calledOnce);
+    assert.isTrue(rightView.updateWithControlParameters.calledOnce);
+    assert.strictEqual(
+      leftView.updateWithControlParameters.firstCall.args[0].x,
+      0.1
+    );
+  });
+
+  test('bound to a view', function () {
+    controls.bindView(rightView);
+    assert.strictEqual(controls.boundView(), rightView);
+
+    move(0.1);
+    assert.isTrue(leftView.updateWithControlParameters.notCalled);
+    assert.isTrue(rightView.updateWithControlParameters.calledOnce);
+
+    // A press on the other view's layer routes interaction away.
+    press(stage.element, 50, 50);
+    move(0.1);
+    assert.isTrue(rightView.updateWithControlParameters.calledOnce);
+
+    press(stage.element, 150, 50);
+    move(0.1);
+    assert.isTrue(rightView.updateWithControlParameters.calledTwice);
+    assert.isTrue(leftView.updateWithControlParameters.notCalled);
+  });
+
+  test('bound to a region', function () {
+    controls.bindRect({ relativeWidth: 0.5 });
+    assert.deepEqual(controls.boundRect(), { relativeWidth: 0.5 });
+
+    move(0.1);
+    assert.isTrue(leftView.updateWithControlParameters.calledOnce);
+    assert.isTrue(rightView.updateWithControlParameters.notCalled);
+
+    press(stage.element, 150, 50);
+    move(0.1);
+    assert.isTrue(leftView.updateWithControlParameters.calledOnce);
+
+    // Presses outside the stage do not change the routing.
+    press(stage.element, 300, 50);
+    move(0.1);
+    assert.isTrue(leftView.updateWithControlParameters.calledOnce);
+
+    press(stage.element, 50, 50);
+    move(0.1);
+    assert.isTrue(leftView.updateWithControlParameters.calledTwice);
+  });
+
+  test('unbind', function () {
+    controls.bindView(rightView);
+    press(stage.element, 50, 50);
+    controls.unbind();
+    assert.isNull(controls.boundView());
+    move(0.1);
+    assert.isTrue(leftView.updateWithControlParameters.calledOnce);
+    assert.isTrue(rightView.updateWithControlParameters.calledOnce);
+  });
+
+  test('stops routing when detached', function () {
+    controls.bindView(rightView);
+    controls.detach();
+    press(stage.element, 50, 50);
+    controls.attach(renderLoop);
+    move(0.1);
+    assert.isTrue(rightView.updateWithControlParameters.calledOnce);
+  });
+
+  test('routes wheel input to the region under the pointer', function () {
+    controls.bindView(rightView);
+    press(stage.element, 50, 50, 'wheel');
+    move(0.1);
+    assert.isTrue(rightView.updateWithControlParameters.notCalled);
+
+    press(stage.element, 150, 50, 'wheel');
+    move(0.1);
+    assert.isTrue(rightView.updateWithControlParameters.calledOnce);
+  });
+
+  test('listens on the document only while bound', function () {
+    var addSpy = sinon.spy(document, 'addEventListener');
+    var removeSpy = sinon.spy(document, 'removeEventListener');
+    try {
+      controls.detach();
+      controls.attach(renderLoop);
+      assert.isTrue(addSpy.notCalled);
+
+      controls.bindView(rightView);
+      var count = addSpy.callCount;
+      assert.isAbove(count, 0);
+      controls.bindRect({ relativeWidth: 0.5 });
+      assert.strictEqual(addSpy.callCount, count);
+
+      controls.unbind();
+      assert.strictEqual(removeSpy.callCount, count);
+      for (var i = 0; i < count; i++) {
+        assert.strictEqual(
+          removeSpy.getCall(i).args[1],
+          addSpy.getCall(i).args[1]
+        );
+      }
+
+      controls.bindView(rightView);
+      controls.detach();
+      assert.strictEqual(removeSpy.callCount, 2 * count);
+    } finally {
+      addSpy.restore();
+      removeSpy.restore();
+    }
+  });
+});
@@ -16,7 +16,11 @@
 import eventEmitter from 'minimal-event-emitter';
 import Composer from './Composer';
 import clearOwnProperties from '../util/clearOwnProperties';
+import calcRect from '../util/calcRect';
 import RenderLoop from '../RenderLoop';
+import XrRenderLoop from '../XrRenderLoop';
+import Layer from '../Layer';
+import { Rect, RectSpec } from '../jsdoc-extras';
 
 // TODO: this was probably got from window?
 // @ts-ignore
@@ -31,10 +35,18 @@ const debug = typeof MARZIPANODEBUG !== 'undefined' && MARZIPANODEBUG.controls;
  * {@link ControlMethod} instances can be registered on this class. The methods
  * are then combined to calculate the final parameters to change the {@link View}.
  *
- * Controls is attached to a {@link RenderLoop}. Currently it affects the
- * {@link view} of all {@link Layer} on the {@link Stage} of the
- * {@link RenderLoop} it is attached to. A more flexible API may be provided
- * in the future.
+ * Controls is attached to a {@link RenderLoop}. By default, it affects the
+ * {@link View} of every {@link Layer} on the {@link Stage} of the
+ * {@link RenderLoop} it is attached to. For layouts where layers occupy
+ * different regions of the stage, such as a side-by-side comparison, the
+ * controls may instead be bound to a single view with
+ * {@link Controls#bindView}, or to the layers within a region of the stage with
+ * {@link Controls#bindRect}. Bound controls only respond to interaction that
+ * begins with a press on their region, so that each region may be navigated
+ * with a separate Controls instance. Mouse wheel input is routed to the region
+ * under the pointer, and keyboard input to the region last pressed or scrolled
+ * over, since key presses have no position. Regions sharing the same view are
+ * navigated together.
  *
  * The ControlMethod instances are registered with an id and may be enabled,
  * disabled and unregistered using that id. The whole Control can also be
@@ -51,6 +63,12 @@ class Controls {
   #attachedRenderLoop: any;
   #beforeRenderHandler?: (() => void) | null;
   #changeHandler?: (() => void) | null;
+  #focusHandler: ((event: Event) => void) | null;
+  #boundView: any;
+  #boundRect: RectSpec | null;
+  #focused: boolean;
+  #tmpRect: Required<Rect>;
+  #tmpLayerRect: Required<Rect>;
 
   constructor(opts?: { enabled?: any } | undefined) {
     opts = opts || {};
@@ -68,6 +86,19 @@ class Controls {
     this.updatedViews_ = [];
 
     this.#attachedRenderLoop = null;
+
+    // Listens on the document for the interactions changing the focus, while
+    // the controls are attached and bound.
+    this.#focusHandler = null;
+
+    // The view or stage region the controls are bound to, if any, and whether
+    // the last press on the stage was within it.
+    this.#boundView = null;
+    this.#boundRect = null;
+    this.#focused = true;
+
+    this.#tmpRect = { x: 0, y: 0, width: 0, height: 0 };
+    this.#tmpLayerRect = { x: 0, y: 0, width: 0, height: 0 };
   }
   /**
    * Destructor.
@@ -252,12 +283,12 @@ class Controls {
     throw new Error('Method not implemented.');
   }
   /**
-   * Attaches the controls to a {@link RenderLoop}. The RenderLoop will be woken
-   * up when the controls are activated
+   * Attaches the controls to a {@link RenderLoop} or {@link XrRenderLoop}. The
+   * RenderLoop will be woken up when the controls are activated
    *
-   * @param {RenderLoop}
+   * @param {RenderLoop|XrRenderLoop}
    */
-  attach(renderLoop: RenderLoop) {
+  attach(renderLoop: RenderLoop | XrRenderLoop) {
     if (this.#attachedRenderLoop) {
       this.detach();
     }
@@ -271,6 +302,8 @@ class Controls {
       this.#beforeRenderHandler
     );
     this.#composer.addEventListener('change', this.#changeHandler);
+
+    this.#updateFocusListeners();
   }
   /**
    * Detaches the controls
@@ -289,6 +322,8 @@ class Controls {
     this.#beforeRenderHandler = null;
     this.#changeHandler = null;
     this.#attachedRenderLoop = null;
+
+    this.#updateFocusListeners();
   }
   /**
    * @param {Boolean}
@@ -296,6 +331,126 @@ class Controls {
   attached() {
     return this.#attachedRenderLoop != null;
   }
+  /**
+   * Binds the controls to a single {@link View}. Only the given view is
+   * updated, and only in response to interaction that begins with a press on
+   * a layer displaying it. Replaces any previous binding.
+   *
+   * @param {View} view
+   */
+  bindView(view) {
+    this.#boundView = view;
+    this.#boundRect = null;
+    this.#focused = true;
+    this.#updateFocusListeners();
+  }
+  /**
+   * Binds the controls to a region of the stage. Only the views of the layers
+   * contained in the region are updated, and only in response to interaction
+   * that begins with a press within the region. Replaces any previous binding.
+   *
+   * @param {RectSpec} rect
+   */
+  bindRect(rect: RectSpec) {
+    this.#boundView = null;
+    this.#boundRect = rect;
+    this.#focused = true;
+    this.#updateFocusListeners();
+  }
+  /**
+   * Removes the binding set by {@link Controls#bindView} or
+   * {@link Controls#bindRect}, so that the controls affect every layer again.
+   */
+  unbind() {
+    this.#boundView = null;
+    this.#boundRect = null;
+    this.#focused = true;
+    this.#updateFocusListeners();
+  }
+  /**
+   * Returns the view the controls are bound to, or null if none.
+   * @return {?View}
+   */
+  boundView() {
+    return this.#boundView;
+  }
+  /**
+   * Returns the stage region the controls are bound to, or null if none.
+   * @return {?RectSpec}
+   */
+  boundRect() {
+    return this.#boundRect;
+  }
+  #updateFocusListeners() {
+    const listen =
+      typeof document !== 'undefined' &&
+      this.#attachedRenderLoop != null &&
+      (this.#boundView != null || this.#boundRect != null);
+
+    if (listen && !this.#focusHandler) {
+      this.#focusHandler = this.#handleFocusEvent.bind(this);
+      for (const type of focusEventTypes) {
+        document.addEventListener(type, this.#focusHandler, focusListenerOpts);
+      }
+    } else if (!listen && this.#focusHandler) {
+      for (const type of focusEventTypes) {
+        document.removeEventListener(
+          type,
+          this.#focusHandler,
+          focusListenerOpts
+        );
+      }
+      this.#focusHandler = null;
+    }
+  }
+  #handleFocusEvent(event: Event) {
+    const point = eventPoint(event);
+    if (!point) {
+      return;
+    }
+
+    const stage = this.#attachedRenderLoop.stage();
+    const bounds = stage.domElement().getBoundingClientRect();
+    const x = point.clientX - bounds.left;
+    const y = point.clientY - bounds.top;
+
+    // Presses outside the stage do not change the focus.
+    if (x < 0 || y < 0 || x >= bounds.width || y >= bounds.height) {
+      return;
+    }
+
+    this.#focused = this.#hits(stage, x, y);
+  }
+  #hits(stage, x: number, y: number) {
+    if (this.#boundView) {
+      const layer = stage.layerAt(x, y);
+      return layer != null && layer.view() === this.#boundView;
+    }
+    const rect = this.#tmpRect;
+    calcRect(stage.width(), stage.height(), this.#boundRect as RectSpec, rect);
+    const u = x / stage.width();
+    const v = y / stage.height();
+    return (
+      u >= rect.x &&
+      u < rect.x + rect.width &&
+      v >= rect.y &&
+      v < rect.y + rect.height
+    );
+  }
+  #containsLayer(stage, layer: Layer) {
+    const width = stage.width();
+    const height = stage.height();
+    const rect = this.#tmpRect;
+    const layerRect = this.#tmpLayerRect;
+    calcRect(width, height, this.#boundRect as RectSpec, rect);
+    calcRect(width, height, layer.effects()?.rect, layerRect);
+    return (
+      layerRect.x >= rect.x - epsilon &&
+      layerRect.y >= rect.y - epsilon &&
+      layerRect.x + layerRect.width <= rect.x + rect.width + epsilon &&
+      layerRect.y + layerRect.height <= rect.y + rect.height + epsilon
+    );
+  }
   #listen(id: string) {
     const method = this.#methods[id];
     if (!method) {
@@ -389,12 +544,26 @@ class Controls {
       this.#attachedRenderLoop.renderOnNextFrame();
     }
 
+    // Discard the offsets caused by interaction with another region.
+    if (!this.#focused) {
+      return;
+    }
+
+    if (this.#boundView) {
+      this.#boundView.updateWithControlParameters(controlData.offsets);
+      return;
+    }
+
     // Update each view at most once, even when shared by multiple layers.
     // The number of views is expected to be small, so use an array to keep track.
     this.updatedViews_.length = 0;
 
-    const layers = this.#attachedRenderLoop.stage().listLayers();
+    const stage = this.#attachedRenderLoop.stage();
+    const layers = stage.listLayers();
     for (let i = 0; i < layers.length; i++) {
+      if (this.#boundRect && !this.#containsLayer(stage, layers[i])) {
+        continue;
+      }
       const view = layers[i].view();
       if (this.updatedViews_.indexOf(view) < 0) {
         layers[i].view().updateWithControlParameters(controlData.offsets);
@@ -406,4 +575,21 @@ class Controls {
 
 eventEmitter(Controls);
 
+// Events starting an interaction, on which the focus is updated.
+const focusEventTypes = ['pointerdown', 'mousedown', 'touchstart', 'wheel'];
+
+// The focus is updated before the control methods see the events, and never
+// prevents scrolling.
+const focusListenerOpts = { capture: true, passive: true };
+
+// Tolerance for comparing normalized rects.
+const epsilon = 1e-6;
+
+function eventPoint(event) {
+  if (event.touches) {
+    return event.touches.length ? event.touches[0] : null;
+  }
+  return event.clientX != null ? event : null;
+}
+
 export default Controls;
@@ -0,0 +1,145 @@
+import { suite, test, beforeEach, afterEach, assert } from 'vitest';
+import sinon from 'sinon';
+
+import DeviceOrientationControlMethod from './DeviceOrientation';
+import ControlComposer from './Composer';
+import eventEmitter from 'minimal-event-emitter';
+
+function dispatchOrientation(alpha, beta, gamma, extra) {
+  var event = new Event('deviceorientation');
+  event.alpha = alpha;
+  event.beta = beta;
+  event.gamma = gamma;
+  for (var key in extra) {
+    event[key] = extra[key];
+  }
+  window.dispatchEvent(event);
+}
+
+function degrees(value) {
+  return (value * Math.PI) / 180;
+}
+
+suite('DeviceOrientationControlMethod', function () {
+  var method;
+  var spy;
+
+  beforeEach(function () {
+    method = new DeviceOrientationControlMethod();
+    spy = sinon.spy();
+    method.addEventListener('parameterDynamics', spy);
+  });
+
+  afterEach(function () {
+    method.destroy();
+  });
+
+  function offset(parameter) {
+    for (var i = spy.callCount - 1; i >= 0; i--) {
+      if (spy.getCall(i).args[0] === parameter) {
+        return spy.getCall(i).args[1].offset;
+      }
+    }
+    return null;
+  }
+
+  test('reports orientation of an upright device', function () {
+    var done = sinon.spy();
+    method.getOrientation(done);
+    dispatchOrientation(0, 90, 0);
+    assert.isTrue(done.calledOnce);
+    var orientation = done.firstCall.args[1];
+    assert.closeTo(orientation.yaw, 0, 1e-6);
+    assert.closeTo(orientation.pitch, 0, 1e-6);
+  });
+
+  test('does not emit on first reading', function () {
+    dispatchOrientation(0, 90, 0);
+    assert.isFalse(spy.called);
+  });
+
+  test('turning left decreases yaw', function () {
+    dispatchOrientation(0, 90, 0);
+    dispatchOrientation(30, 90, 0);
+    assert.closeTo(offset('yaw'), degrees(-30), 1e-6);
+    assert.closeTo(offset('pitch'), 0, 1e-6);
+  });
+
+  test('tilting up decreases pitch', function () {
+    dispatchOrientation(0, 90, 0);
+    dispatchOrientation(0, 110, 0);
+    assert.closeTo(offset('pitch'), degrees(-20), 1e-6);
+    assert.closeTo(offset('yaw'), 0, 1e-6);
+  });
+
+  test('yaw offset wraps around', function () {
+    dispatchOrientation(175, 90, 0);
+    dispatchOrientation(185, 90, 0);
+    assert.closeTo(offset('yaw'), degrees(-10), 1e-6);
+  });
+
+  test('ignores events without sensor data', function () {
+    var done = sinon.spy();
+    method.getOrientation(done);
+    dispatchOrientation(null, null, null);
+    assert.isFalse(done.called);
+  });
+
+  test('compensates for screen orientation', function () {
+    // Lying face up, the camera looks straight down and the heading is given
+    // by the top edge of the screen.
+    var done = sinon.spy();
+    method.getOrientation(done);
+    dispatchOrientation(0, 0, 0);
+    assert.closeTo(done.firstCall.args[1].pitch, Math.PI / 2, 1e-6);
+    assert.closeTo(done.firstCall.args[1].yaw, 0, 1e-6);
+
+    var realOrientation = window.orientation;
+    window.orientation = 90;
+    try {
+      method.getOrientation(done);
+      dispatchOrientation(0, 0, 0);
+      assert.closeTo(done.secondCall.args[1].pitch, Math.PI / 2, 1e-6);
+      assert.closeTo(done.secondCall.args[1].yaw, Math.PI / 2, 1e-6);
+    } finally {
+      window.orientation = realOrientation;
+    }
+  });
+
+  test('smoothing', function () {
+    method.destroy();
+    method = new DeviceOrientationControlMethod({ smoothing: 0.5 });
+    method.addEventListener('parameterDynamics', spy);
+    dispatchOrientation(0, 90, 0);
+    dispatchOrientation(0, 110, 0);
+    assert.closeTo(offset('pitch'), degrees(-10), 1e-6);
+  });
+
+  test('absolute heading from compass', function () {
+    method.destroy();
+    method = new DeviceOrientationControlMethod({ absolute: true });
+    var done = sinon.spy();
+    method.getOrientation(done);
+    dispatchOrientation(123, 90, 0, { webkitCompassHeading: 45 });
+    assert.closeTo(done.firstCall.args[1].yaw, degrees(45), 1e-6);
+  });
+
+  test('composes with other control methods', function () {
+    function MethodStub() {}
+    eventEmitter(MethodStub);
+    var drag = new MethodStub();
+
+    var composer = new ControlComposer();
+    composer.add(method);
+    composer.add(drag);
+
+    dispatchOrientation(0, 90, 0);
+    dispatchOrientation(10, 90, 0);
+    drag.emit('parameterDynamics', 'yaw', { offset: 0.1 });
+
+    var offsets = composer.offsets().offsets;
+    assert.closeTo(offsets.yaw, degrees(-10) + 0.1, 1e-6);
+
+    composer.destroy();
+  });
+});
@@ -0,0 +1,236 @@
+import eventEmitter from 'minimal-event-emitter';
+import { mat4 } from 'gl-matrix';
+import Dynamics from './Dynamics';
+import degToRad from '../util/degToRad';
+import clamp from '../util/clamp';
+import mod from '../util/mod';
+import clearOwnProperties from '../util/clearOwnProperties';
+
+/**
+ * Device orientation control method options.
+ */
+export interface DeviceOrientationControlMethodOptions {
+  /**
+   * Whether to use the orientation relative to magnetic north, where
+   * available, rather than relative to an arbitrary initial heading.
+   */
+  absolute?: boolean;
+  /**
+   * Amount of smoothing applied to the sensor readings, between 0 (none) and 1
+   * (readings are ignored).
+   */
+  smoothing?: number;
+}
+
+/**
+ * Camera orientation in view parameters, as computed from the device sensors.
+ */
+export interface DeviceOrientation {
+  yaw: number;
+  pitch: number;
+}
+
+/**
+ * @class DeviceOrientationControlMethod
+ * @implements ControlMethod
+ * @classdesc
+ *
+ * Controls the yaw and pitch according to the orientation of the device, as
+ * reported by `deviceorientation` events. The camera looks out of the back of
+ * the screen, taking the current screen orientation into account.
+ *
+ * The method emits the changes in orientation as offsets, so that it may be
+ * enabled alongside other control methods such as
+ * {@link DragControlMethod}: dragging offsets the view while the device
+ * orientation keeps being followed. To match the view to the device when the
+ * method is enabled, use {@link DeviceOrientationControlMethod#getOrientation}.
+ *
+ * Some browsers, notably Safari on iOS, require the user to grant permission
+ * before any events are delivered. Call
+ * {@link DeviceOrientationControlMethod.requestPermission} in response to a
+ * user gesture before enabling the method.
+ *
+ * @param {Object} opts
+ * @param {boolean} [opts.absolute=false] Whether to use the orientation
+ *     relative to magnetic north, where available. The `yaw` reported by
+ *     {@link DeviceOrientationControlMethod#getOrientation} is then the
+ *     compass heading.
+ * @param {number} [opts.smoothing=0] Amount of smoothing applied to the sensor
+ *     readings, between 0 (none) and 1 (readings are ignored).
+ */
+class DeviceOrientationControlMethod {
+  #eventName: string;
+  #smoothing: number;
+  #dynamics: { yaw: Dynamics; pitch: Dynamics };
+  #deviceOrientationHandler: (event: any) => void;
+  #current: DeviceOrientation | null;
+  #orientationCallbacks: ((
+    err: Error | null,
+    orientation: DeviceOrientation
+  ) => void)[];
+  #tmpMatrix: mat4;
+  constructor(opts?: DeviceOrientationControlMethodOptions) {
+    opts = opts || {};
+
+    // Absolute orientation is delivered through a separate event on browsers
+    // supporting it, and through the regular event on Safari.
+    this.#eventName =
+      opts.absolute && 'ondeviceorientationabsolute' in window
+        ? 'deviceorientationabsolute'
+        : 'deviceorientation';
+    this.#smoothing = clamp(opts.smoothing || 0, 0, 1);
+
+    this.#dynamics = {
+      yaw: new Dynamics(),
+      pitch: new Dynamics(),
+    };
+
+    // The smoothed orientation for the last reading.
+    this.#current = null;
+
+    // Callbacks waiting for the next reading.
+    this.#orientationCallbacks = [];
+
+    this.#tmpMatrix = mat4.create();
+
+    this.#deviceOrientationHandler = this.#handleData.bind(
+      this,
+      !!opts.absolute
+    );
+    window.addEventListener(this.#eventName, this.#deviceOrientationHandler);
+  }
+  /**
+   * Destructor.
+   */
+  destroy() {
+    window.removeEventListener(this.#eventName, this.#deviceOrientationHandler);
+    clearOwnProperties(this);
+  }
+  emit(_arg0: string, _arg1: string, _arg2: Dynamics) {
+    throw new Error('Method not implemented.');
+  }
+  /**
+   * Requests permission to receive device orientation events, where the
+   * browser requires it. Must be called in response to a user gesture.
+   *
+   * @return {Promise<boolean>} Whether device orientation events are
+   *     available.
+   */
+  static requestPermission(): Promise<boolean> {
+    const DeviceOrientationEvent = (window as any).DeviceOrientationEvent;
+    if (!DeviceOrientationEvent) {
+      return Promise.resolve(false);
+    }
+    if (typeof DeviceOrientationEvent.requestPermission !== 'function') {
+      return Promise.resolve(true);
+    }
+    return DeviceOrientationEvent.requestPermission().then(function (
+      response: string
+    ) {
+      return response === 'granted';
+    });
+  }
+  /**
+   * Obtains the camera orientation on the next sensor reading.
+   *
+   * @param {Function} done Called with an error argument, always null, and
+   *     the {@link DeviceOrientation} in view parameters.
+   */
+  getOrientation(
+    done: (err: Error | null, orientation: DeviceOrientation) => void
+  ) {
+    this.#orientationCallbacks.push(done);
+  }
+  #handleData(absolute: boolean, event) {
+    if (event.alpha == null || event.beta == null || event.gamma == null) {
+      // Sensors are not available.
+      return;
+    }
+
+    let alpha = event.alpha;
+    if (absolute && event.webkitCompassHeading != null) {
+      // Safari reports the compass heading clockwise from north.
+      alpha = -event.webkitCompassHeading;
+    }
+
+    const reading = this.#computeOrientation(alpha, event.beta, event.gamma);
+
+    const previous = this.#current;
+    let current = reading;
+    if (previous) {
+      const factor = 1 - this.#smoothing;
+      current = {
+        yaw: previous.yaw + wrapAngle(reading.yaw - previous.yaw) * factor,
+        pitch: previous.pitch + (reading.pitch - previous.pitch) * factor,
+      };
+    }
+    this.#current = current;
+
+    // Report the current orientation.
+    const callbacks = this.#orientationCallbacks;
+    this.#orientationCallbacks = [];
+    callbacks.forEach(function (callback) {
+      callback(null, { yaw: current.yaw, pitch: current.pitch });
+    });
+
+    // Emit control offsets.
+    if (previous) {
+      this.#dynamics.yaw.offset = wrapAngle(current.yaw - previous.yaw);
+      this.#dynamics.pitch.offset = current.pitch - previous.pitch;
+
+      this.emit('parameterDynamics', 'yaw', this.#dynamics.yaw);
+      this.emit('parameterDynamics', 'pitch', this.#dynamics.pitch);
+    }
+  }
+  #computeOrientation(alpha: number, beta: number, gamma: number) {
+    const matrix = this.#tmpMatrix;
+
+    // Rotate from the device frame into the earth frame (x pointing east, y
+    // pointing north and z pointing up), then compensate for the rotation of
+    // the screen relative to the device.
+    mat4.identity(matrix);
+    mat4.rotateZ(matrix, matrix, degToRad(alpha));
+    mat4.rotateX(matrix, matrix, degToRad(beta));
+    mat4.rotateY(matrix, matrix, degToRad(gamma));
+    mat4.rotateZ(matrix, matrix, -degToRad(screenOrientationAngle()));
+
+    // The camera looks into the -z direction and its up vector is +y.
+    const forwardEast = -matrix[8];
+    const forwardNorth = -matrix[9];
+    const forwardUp = -matrix[10];
+    const upEast = matrix[4];
+    const upNorth = matrix[5];
+
+    const elevation = Math.asin(clamp(forwardUp, -1, 1));
+
+    // Derive the heading from both the forward and up vectors, so that it
+    // remains well defined when looking straight up or down.
+    const cosElevation = Math.cos(elevation);
+    const sinElevation = Math.sin(elevation);
+    const headingEast = cosElevation * forwardEast - sinElevation * upEast;
+    const headingNorth = cosElevation * forwardNorth - sinElevation * upNorth;
+
+    // Yaw increases clockwise when seen from above and pitch increases
+    // downwards.
+    return {
+      yaw: Math.atan2(headingEast, headingNorth),
+      pitch: -elevation,
+    };
+  }
+}
+
+eventEmitter(DeviceOrientationControlMethod);
+
+function screenOrientationAngle() {
+  const screenOrientation = window.screen && (window.screen as any).orientation;
+  if (screenOrientation && screenOrientation.angle != null) {
+    return screenOrientation.angle;
+  }
+  return (window as any).orientation || 0;
+}
+
+function wrapAngle(angle: number) {
+  return mod(angle + Math.PI, 2 * Math.PI) - Math.PI;
+}
+
+export default DeviceOrientationControlMethod;
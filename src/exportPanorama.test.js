@@ -0,0 +1,100 @@
+import { suite, test, assert } from 'vitest';
+
+import exportPanorama, { reprojectCubeToEquirect } from './exportPanorama';
+
+var faceColors = {
+  f: [255, 0, 0, 255],
+  b: [0, 255, 0, 255],
+  l: [0, 0, 255, 255],
+  r: [255, 255, 0, 255],
+  u: [0, 255, 255, 255],
+  d: [255, 0, 255, 255],
+};
+
+function makeImage(width, height) {
+  return {
+    width: width,
+    height: height,
+    data: new Uint8ClampedArray(width * height * 4),
+  };
+}
+
+// Returns a face filled with a color, or with one color on its top half and
+// another on its bottom half.
+function makeFace(size, topColor, bottomColor) {
+  var image = makeImage(size, size);
+  for (var y = 0; y < size; y++) {
+    var color = y < size / 2 || !bottomColor ? topColor : bottomColor;
+    for (var x = 0; x < size; x++) {
+      image.data.set(color, (y * size + x) * 4);
+    }
+  }
+  return image;
+}
+
+function makeFaces(size) {
+  var faces = {};
+  for (var face in faceColors) {
+    faces[face] = makeFace(size, faceColors[face]);
+  }
+  return faces;
+}
+
+function pixel(image, x, y) {
+  var i = (y * image.width + x) * 4;
+  return Array.from(image.data.subarray(i, i + 4));
+}
+
+suite('exportPanorama', function () {
+  suite('reprojectCubeToEquirect', function () {
+    test('faces', function () {
+      var result = makeImage(64, 32);
+      reprojectCubeToEquirect(makeFaces(8), result, 32, 0);
+      assert.deepEqual(pixel(result, 32, 16), faceColors.f);
+      assert.deepEqual(pixel(result, 48, 16), faceColors.r);
+      assert.deepEqual(pixel(result, 16, 16), faceColors.l);
+      assert.deepEqual(pixel(result, 0, 16), faceColors.b);
+      assert.deepEqual(pixel(result, 63, 16), faceColors.b);
+      assert.deepEqual(pixel(result, 10, 0), faceColors.u);
+      assert.deepEqual(pixel(result, 10, 31), faceColors.d);
+    });
+
+    test('face orientation', function () {
+      var faces = makeFaces(8);
+      var top = [10, 20, 30, 255];
+      var bottom = [40, 50, 60, 255];
+      faces.f = makeFace(8, top, bottom);
+      faces.u = makeFace(8, top, bottom);
+      var result = makeImage(64, 32);
+      reprojectCubeToEquirect(faces, result, 32, 0);
+      // The top of the front face is above the horizon.
+      assert.deepEqual(pixel(result, 32, 13), top);
+      assert.deepEqual(pixel(result, 32, 18), bottom);
+      // The top of the up face is towards the back.
+      assert.deepEqual(pixel(result, 0, 2), top);
+      assert.deepEqual(pixel(result, 32, 2), bottom);
+    });
+
+    test('bands', function () {
+      var faces = makeFaces(8);
+      var whole = makeImage(64, 32);
+      reprojectCubeToEquirect(faces, whole, 32, 0);
+      var band = makeImage(64, 8);
+      reprojectCubeToEquirect(faces, band, 32, 12);
+      for (var y = 0; y < 8; y++) {
+        for (var x = 0; x < 64; x++) {
+          assert.deepEqual(pixel(band, x, y), pixel(whole, x, y + 12));
+        }
+      }
+    });
+  });
+
+  test('rejects unsupported types', async function () {
+    var err = await exportPanorama
+      .exportEquirect(null, [], { size: 64, type: 'image/gif' })
+      .catch(function (err) {
+        return err;
+      });
+    assert.strictEqual(err.message, 'Unsupported image type: image/gif');
+  });
+});
@@ -0,0 +1,263 @@
+import { vec3 } from 'gl-matrix';
+import Layer from './Layer';
+import WebGlStage from './stages/WebGl';
+import RectilinearView from './views/Rectilinear';
+import { faceList, faceRotation, faceAxes } from './geometries/Cube';
+import {
+  RenderToImageOptions,
+  checkImageOptions,
+  encodeCanvas,
+  renderToCanvas,
+} from './renderToImage';
+
+/**
+ * A cube face, named as in {@link CubeGeometry}: front, up, down, left, right
+ * or back.
+ */
+export type CubeFace = 'f' | 'u' | 'd' | 'l' | 'r' | 'b';
+
+/**
+ * Options for {@link exportCubeFaces} and {@link exportEquirect}.
+ */
+export interface ExportPanoramaOptions
+  extends Omit<
+    RenderToImageOptions,
+    'width' | 'height' | 'view' | 'projectionMode'
+  > {
+  /**
+   * The size of each cube face, or the width of the equirectangular image, in
+   * pixels. Equirectangular images are half as high as they are wide.
+   */
+  size: number;
+}
+
+// Number of equirectangular rows reprojected at once, which bounds the memory
+// used for large images.
+const bandSize = 256;
+
+/**
+ * Renders layers into the six faces of a cube map, as expected by
+ * {@link CubeGeometry}. Only layers with a {@link RectilinearView} are
+ * rendered, with their effects; their views are left unchanged.
+ *
+ * Each face is rendered with {@link renderToImage} once its tiles have loaded,
+ * and the timeout applies to each face.
+ *
+ * @param {WebGlStage} stage The stage the layer texture stores belong to.
+ * @param {Layer[]} layers The layers to render, from bottom to top.
+ * @param {ExportPanoramaOptions} opts
+ * @return {Promise<Object<CubeFace, Blob|ImageBitmap>>} A promise resolved
+ *     with the image for each face.
+ */
+function exportCubeFaces(
+  stage: WebGlStage,
+  layers: Layer[],
+  opts: ExportPanoramaOptions
+): Promise<{ [face in CubeFace]: Blob | ImageBitmap }> {
+  try {
+    checkImageOptions(opts);
+  } catch (err) {
+    return Promise.reject(err);
+  }
+  return renderCubeFaces(stage, layers, opts.size, opts).then(function (
+    canvases
+  ) {
+    const faces = faceList.split('') as CubeFace[];
+    return Promise.all(
+      faces.map((face) => encodeCanvas(canvases[face], opts))
+    ).then(function (images) {
+      const result = {} as { [face in CubeFace]: Blob | ImageBitmap };
+      faces.forEach((face, i) => {
+        result[face] = images[i];
+      });
+      return result;
+    });
+  });
+}
+
+/**
+ * Renders layers into an equirectangular image, as expected by
+ * {@link EquirectGeometry}. The layers are rendered as for
+ * {@link exportCubeFaces}, into faces a quarter of the image width, which are
+ * then reprojected.
+ *
+ * @param {WebGlStage} stage The stage the layer texture stores belong to.
+ * @param {Layer[]} layers The layers to render, from bottom to top.
+ * @param {ExportPanoramaOptions} opts
+ * @return {Promise<Blob|ImageBitmap>} A promise resolved with the image.
+ */
+function exportEquirect(
+  stage: WebGlStage,
+  layers: Layer[],
+  opts: ExportPanoramaOptions
+): Promise<Blob | ImageBitmap> {
+  try {
+    checkImageOptions(opts);
+  } catch (err) {
+    return Promise.reject(err);
+  }
+
+  const width = opts.size;
+  const height = Math.ceil(width / 2);
+  const faceSize = Math.ceil(width / 4);
+
+  return renderCubeFaces(stage, layers, faceSize, opts).then(function (
+    canvases
+  ) {
+    const faces = {} as { [face in CubeFace]: ImageData };
+    for (let i = 0; i < faceList.length; i++) {
+      const face = faceList[i] as CubeFace;
+      const context = canvases[face].getContext('2d');
+      if (!context) {
+        throw new Error('Failed to read face canvas');
+      }
+      faces[face] = context.getImageData(0, 0, faceSize, faceSize);
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Failed to create image canvas');
+    }
+    for (let top = 0; top < height; top += bandSize) {
+      const band = context.createImageData(
+        width,
+        Math.min(bandSize, height - top)
+      );
+      reprojectCubeToEquirect(faces, band, height, top);
+      context.putImageData(band, 0, top);
+    }
+
+    return encodeCanvas(canvas, opts);
+  });
+}
+
+// Renders the cube faces one after the other.
+function renderCubeFaces(
+  stage: WebGlStage,
+  layers: Layer[],
+  size: number,
+  opts: ExportPanoramaOptions
+) {
+  const sphericalLayers = layers.filter(
+    (layer) => layer.view() instanceof RectilinearView
+  );
+  const result = {} as { [face in CubeFace]: HTMLCanvasElement };
+
+  let promise = Promise.resolve();
+  for (let i = 0; i < faceList.length; i++) {
+    const face = faceList[i] as CubeFace;
+    const rot = faceRotation[face];
+    promise = promise
+      .then(function () {
+        return renderToCanvas(stage, sphericalLayers, {
+          ...opts,
+          width: size,
+          height: size,
+          view: { yaw: -rot.y, pitch: -rot.x, roll: 0, fov: Math.PI / 2 },
+          projectionMode: 'rectilinear',
+        });
+      })
+      .then(function (canvas) {
+        result[face] = canvas;
+      });
+  }
+  return promise.then(() => result);
+}
+
+/**
+ * Fills rows of an equirectangular image from the faces of a cube map,
+ * sampled bilinearly.
+ * @param {Object<CubeFace, ImageData>} faces The square faces.
+ * @param {ImageData} result The rows to fill, as wide as the image.
+ * @param {number} height The height of the whole image.
+ * @param {number} top The index of the first row to fill.
+ * @private
+ */
+export function reprojectCubeToEquirect(
+  faces: { [face in CubeFace]: ImageData },
+  result: ImageData,
+  height: number,
+  top: number
+) {
+  const width = result.width;
+  const data = result.data;
+  const dir = vec3.create();
+
+  for (let row = 0; row < result.height; row++) {
+    const pitch = ((top + row + 0.5) / height) * Math.PI - Math.PI / 2;
+    const cosPitch = Math.cos(pitch);
+    const sinPitch = Math.sin(pitch);
+
+    for (let col = 0; col < width; col++) {
+      const yaw = ((col + 0.5) / width) * 2 * Math.PI - Math.PI;
+      vec3.set(
+        dir,
+        Math.sin(yaw) * cosPitch,
+        -sinPitch,
+        -Math.cos(yaw) * cosPitch
+      );
+
+      // The direction is seen through the face it is closest to.
+      let face: CubeFace = 'f';
+      let depth = -Infinity;
+      for (let i = 0; i < faceList.length; i++) {
+        const d = vec3.dot(dir, faceAxes[faceList[i]].forward);
+        if (d > depth) {
+          depth = d;
+          face = faceList[i] as CubeFace;
+        }
+      }
+
+      const axes = faceAxes[face];
+      const image = faces[face];
+      const size = image.width;
+      const u = vec3.dot(dir, axes.right) / depth;
+      const v = vec3.dot(dir, axes.up) / depth;
+      const x = ((u + 1) / 2) * size - 0.5;
+      const y = ((1 - v) / 2) * size - 0.5;
+
+      sampleBilinear(image, x, y, data, (row * width + col) * 4);
+    }
+  }
+}
+
+// Samples an image at a position in pixels, clamped to the image edges.
+function sampleBilinear(
+  image: ImageData,
+  x: number,
+  y: number,
+  result: Uint8ClampedArray,
+  offset: number
+) {
+  const size = image.width;
+  const data = image.data;
+  x = Math.max(0, Math.min(size - 1, x));
+  y = Math.max(0, Math.min(size - 1, y));
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const x1 = Math.min(size - 1, x0 + 1);
+  const y1 = Math.min(size - 1, y0 + 1);
+  const fx = x - x0;
+  const fy = y - y0;
+
+  const i00 = (y0 * size + x0) * 4;
+  const i01 = (y0 * size + x1) * 4;
+  const i10 = (y1 * size + x0) * 4;
+  const i11 = (y1 * size + x1) * 4;
+
+  for (let c = 0; c < 4; c++) {
+    const top = data[i00 + c] + (data[i01 + c] - data[i00 + c]) * fx;
+    const bottom = data[i10 + c] + (data[i11 + c] - data[i10 + c]) * fx;
+    result[offset + c] = top + (bottom - top) * fy;
+  }
+}
+
+export { exportCubeFaces, exportEquirect };
+
+export default {
+  exportCubeFaces,
+  exportEquirect,
+};
@@ -59,12 +59,20 @@ function rotateVector(vec, z, x, y) {
 
 // Normalized vectors pointing to the center of each face.
 var faceVectors = {};
+// Axes of a camera seeing each face as stored in its tiles: pointing to the
+// center, the right and the top of the face.
+var faceAxes = {};
 for (var i = 0; i < faceList.length; i++) {
   var face = faceList[i];
   var rotation = faceRotation[face];
   var v = vec3.fromValues(0, 0, -1);
   rotateVector(v, 0, rotation.x, rotation.y);
   faceVectors[face] = v;
+  var right = vec3.fromValues(1, 0, 0);
+  rotateVector(right, 0, rotation.x, rotation.y);
+  var up = vec3.fromValues(0, 1, 0);
+  rotateVector(up, 0, rotation.x, rotation.y);
+  faceAxes[face] = { forward: v, right: right, up: up };
 }
 
 // Map each face to its adjacent faces.
@@ -577,5 +585,5 @@ CubeGeometry.type = CubeGeometry.prototype.type = 'cube';
 // @ts-ignore
 CubeTile.type = CubeTile.prototype.type = 'cube';
 
-export { CubeTile };
+export { CubeTile, faceList, faceRotation, faceAxes };
 export default CubeGeometry;
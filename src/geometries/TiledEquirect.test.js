@@ -0,0 +1,161 @@
+import { suite, test, beforeEach, assert } from 'vitest';
+
+import TiledEquirect, { TiledEquirectTile } from './TiledEquirect';
+import RectilinearView from '../views/Rectilinear';
+
+suite('TiledEquirectGeometry', function () {
+  function containsTile(tileList, tile) {
+    for (var i = 0; i < tileList.length; i++) {
+      if (tileList[i].equals(tile)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  suite('malformed levels', function () {
+    test('level width must be multiple of tile width', function () {
+      assert.throws(function () {
+        new TiledEquirect([{ tileWidth: 512, width: 1000 }]);
+      });
+    });
+
+    test('level height must be multiple of tile height', function () {
+      assert.throws(function () {
+        new TiledEquirect([{ tileWidth: 512, tileHeight: 384, width: 1024 }]);
+      });
+    });
+
+    test('level width must be multiple of parent level', function () {
+      assert.throws(function () {
+        new TiledEquirect([
+          { tileWidth: 256, width: 1024 },
+          { tileWidth: 256, width: 1536 },
+        ]);
+      });
+    });
+
+    test('number of tiles in level must be multiple of parent level', function () {
+      assert.throws(function () {
+        new TiledEquirect([
+          { tileWidth: 256, width: 1024 },
+          { tileWidth: 1024, width: 2048 },
+        ]);
+      });
+    });
+  });
+
+  suite('levels with constant tile size', function () {
+    var geometry = null;
+
+    beforeEach(function () {
+      geometry = new TiledEquirect([
+        { tileWidth: 512, width: 1024 },
+        { tileWidth: 512, width: 2048 },
+        { tileWidth: 512, width: 4096 },
+      ]);
+    });
+
+    test('max tile size', function () {
+      assert.strictEqual(geometry.maxTileSize(), 512);
+    });
+
+    test('level tiles', function () {
+      assert.lengthOf(geometry.levelTiles(geometry.levelList[0]), 2);
+      assert.lengthOf(geometry.levelTiles(geometry.levelList[1]), 8);
+      assert.lengthOf(geometry.levelTiles(geometry.levelList[2]), 32);
+    });
+
+    test('top tile does not have parent', function () {
+      var tile = new TiledEquirectTile(0, 0, 0, geometry);
+      assert.isNull(tile.parent());
+    });
+
+    test('parent of level 1', function () {
+      var tile = new TiledEquirectTile(3, 1, 1, geometry);
+      var parent = new TiledEquirectTile(1, 0, 0, geometry);
+      assert.isTrue(tile.parent().equals(parent));
+    });
+
+    test('children of level 0', function () {
+      var tile = new TiledEquirectTile(1, 0, 0, geometry);
+      var children = tile.children();
+      assert.lengthOf(children, 4);
+      assert.isTrue(
+        containsTile(children, new TiledEquirectTile(2, 0, 1, geometry))
+      );
+      assert.isTrue(
+        containsTile(children, new TiledEquirectTile(3, 0, 1, geometry))
+      );
+      assert.isTrue(
+        containsTile(children, new TiledEquirectTile(2, 1, 1, geometry))
+      );
+      assert.isTrue(
+        containsTile(children, new TiledEquirectTile(3, 1, 1, geometry))
+      );
+    });
+
+    test('bottom tile does not have children', function () {
+      var tile = new TiledEquirectTile(0, 0, 2, geometry);
+      assert.isNull(tile.children());
+    });
+
+    test('neighbors wrap around horizontally', function () {
+      var tile = new TiledEquirectTile(0, 0, 1, geometry);
+      var neighbors = tile.neighbors();
+      assert.lengthOf(neighbors, 3);
+      assert.isTrue(
+        containsTile(neighbors, new TiledEquirectTile(3, 0, 1, geometry))
+      );
+      assert.isTrue(
+        containsTile(neighbors, new TiledEquirectTile(1, 0, 1, geometry))
+      );
+      assert.isTrue(
+        containsTile(neighbors, new TiledEquirectTile(0, 1, 1, geometry))
+      );
+    });
+  });
+
+  suite('levels with non-square tiles', function () {
+    test('tile height defaults to tile width', function () {
+      var geometry = new TiledEquirect([{ tileWidth: 256, width: 1024 }]);
+      assert.strictEqual(geometry.levelList[0].numVerticalTiles(), 2);
+    });
+
+    test('explicit tile height', function () {
+      var geometry = new TiledEquirect([
+        { tileWidth: 512, tileHeight: 256, width: 2048 },
+      ]);
+      assert.strictEqual(geometry.levelList[0].numHorizontalTiles(), 4);
+      assert.strictEqual(geometry.levelList[0].numVerticalTiles(), 4);
+      assert.strictEqual(geometry.maxTileSize(), 512);
+    });
+  });
+
+  suite('visible tiles', function () {
+    test('tile in front of the view is visible', function () {
+      var geometry = new TiledEquirect([{ tileWidth: 256, width: 2048 }]);
+      var view = new RectilinearView({ yaw: 0, pitch: 0, fov: Math.PI / 4 });
+      view.setSize({ width: 100, height: 100 });
+
+      var visible = geometry.visibleTiles(view, geometry.levelList[0]);
+
+      // The view looks at the center of the image.
+      assert.isTrue(
+        containsTile(visible, new TiledEquirectTile(3, 1, 0, geometry))
+      );
+      assert.isTrue(
+        containsTile(visible, new TiledEquirectTile(4, 2, 0, geometry))
+      );
+      assert.isFalse(
+        containsTile(visible, new TiledEquirectTile(0, 1, 0, geometry))
+      );
+    });
+
+    test('no tiles are visible for an empty viewport', function () {
+      var geometry = new TiledEquirect([{ tileWidth: 256, width: 2048 }]);
+      var view = new RectilinearView({ yaw: 0, pitch: 0, fov: Math.PI / 4 });
+      assert.lengthOf(geometry.visibleTiles(view, geometry.levelList[0]), 0);
+    });
+  });
+});
@@ -0,0 +1,401 @@
+import hash from '../util/hash';
+import TileSearcher from '../TileSearcher';
+import LruMap from '../collections/LruMap';
+import Level from './Level';
+import { makeLevelList, makeSelectableLevelList } from './common';
+import clamp from '../util/clamp';
+import cmp from '../util/cmp';
+import mod from '../util/mod';
+import getType from '../util/type';
+import { vec3, vec4 } from 'gl-matrix';
+import { Size, Tile } from '../jsdoc-extras';
+
+const neighborsCacheSize = 64;
+
+// Maximum angular distance between the sample points returned by
+// TiledEquirectTile#vertices. Tiles are patches of a sphere rather than flat
+// rectangles, so their corners alone do not bound them; sampling their interior
+// keeps frustum culling from discarding visible tiles.
+const maxSampleSpacing = Math.PI / 16;
+
+// Convert normalized equirectangular image coordinates into a unit vector.
+// The horizontal coordinate increases to the right, with 0.5 pointing into the
+// -z direction; the vertical coordinate increases downwards, with 0 pointing
+// into the +y direction.
+function imageToVector(vec: vec3, u: number, v: number) {
+  const theta = (u - 0.5) * 2 * Math.PI;
+  const phi = v * Math.PI;
+  vec3.set(
+    vec,
+    Math.sin(phi) * Math.sin(theta),
+    Math.cos(phi),
+    -Math.sin(phi) * Math.cos(theta)
+  );
+  return vec;
+}
+
+/**
+ * @class TiledEquirectTile
+ * @implements Tile
+ * @classdesc
+ *
+ * A tile in a {@link TiledEquirectGeometry}.
+ */
+class TiledEquirectTile {
+  x: number;
+  y: number;
+  z: number;
+  _geometry: TiledEquirectGeometry;
+  _level: TiledEquirectLevel;
+  type = 'tiledEquirect' as const;
+  constructor(x: number, y: number, z: number, geometry) {
+    this.x = x;
+    this.y = y;
+    this.z = z;
+    this._geometry = geometry;
+    this._level = geometry.levelList[z];
+  }
+  /**
+   * Returns the horizontal offset of the tile within the full image, in
+   * normalized coordinates.
+   */
+  left() {
+    return this.x / this._level.numHorizontalTiles();
+  }
+  /**
+   * Returns the vertical offset of the tile within the full image, in
+   * normalized coordinates.
+   */
+  top() {
+    return this.y / this._level.numVerticalTiles();
+  }
+  /**
+   * Returns the width of the tile relative to the full image.
+   */
+  scaleX() {
+    return 1 / this._level.numHorizontalTiles();
+  }
+  /**
+   * Returns the height of the tile relative to the full image.
+   */
+  scaleY() {
+    return 1 / this._level.numVerticalTiles();
+  }
+  /**
+   * Returns a set of points on the unit sphere covering the tile, suitable for
+   * {@link RectilinearView#intersects}.
+   */
+  vertices() {
+    const numX = Math.ceil((this.scaleX() * 2 * Math.PI) / maxSampleSpacing);
+    const numY = Math.ceil((this.scaleY() * Math.PI) / maxSampleSpacing);
+
+    const result: vec3[] = [];
+
+    for (let i = 0; i <= numX; i++) {
+      for (let j = 0; j <= numY; j++) {
+        const u = this.left() + (i / numX) * this.scaleX();
+        const v = this.top() + (j / numY) * this.scaleY();
+        result.push(imageToVector(vec3.create(), u, v));
+      }
+    }
+
+    return result;
+  }
+  parent() {
+    if (this.z === 0) {
+      return null;
+    }
+
+    const geometry = this._geometry;
+    const level = this._level;
+    const parentLevel = geometry.levelList[this.z - 1];
+
+    const tileX = Math.floor(
+      (this.x / level.numHorizontalTiles()) * parentLevel.numHorizontalTiles()
+    );
+    const tileY = Math.floor(
+      (this.y / level.numVerticalTiles()) * parentLevel.numVerticalTiles()
+    );
+
+    return new TiledEquirectTile(tileX, tileY, this.z - 1, geometry);
+  }
+  children(result?: Tile[]) {
+    const geometry = this._geometry;
+
+    if (this.z === geometry.levelList.length - 1) {
+      return null;
+    }
+
+    const level = this._level;
+    const childLevel = geometry.levelList[this.z + 1];
+
+    const nHoriz = childLevel.numHorizontalTiles() / level.numHorizontalTiles();
+    const nVert = childLevel.numVerticalTiles() / level.numVerticalTiles();
+
+    result = result || [];
+
+    for (let h = 0; h < nHoriz; h++) {
+      for (let v = 0; v < nVert; v++) {
+        const tileX = nHoriz * this.x + h;
+        const tileY = nVert * this.y + v;
+        result.push(new TiledEquirectTile(tileX, tileY, this.z + 1, geometry));
+      }
+    }
+
+    return result;
+  }
+  neighbors() {
+    const geometry = this._geometry;
+    const cache = geometry._neighborsCache;
+
+    // Satisfy from cache when available.
+    const cachedResult = cache.get(this);
+    if (cachedResult) {
+      return cachedResult;
+    }
+
+    const numX = this._level.numHorizontalTiles();
+    const numY = this._level.numVerticalTiles();
+
+    const result: TiledEquirectTile[] = [];
+
+    // Tiles wrap around horizontally.
+    if (numX > 1) {
+      result.push(
+        new TiledEquirectTile(mod(this.x - 1, numX), this.y, this.z, geometry)
+      );
+    }
+    if (numX > 2) {
+      result.push(
+        new TiledEquirectTile(mod(this.x + 1, numX), this.y, this.z, geometry)
+      );
+    }
+
+    // Tiles do not wrap around vertically. Tiles touching a pole are
+    // connected through their horizontal neighbors.
+    if (this.y > 0) {
+      result.push(new TiledEquirectTile(this.x, this.y - 1, this.z, geometry));
+    }
+    if (this.y < numY - 1) {
+      result.push(new TiledEquirectTile(this.x, this.y + 1, this.z, geometry));
+    }
+
+    // Store into cache to satisfy future requests.
+    cache.set(this, result);
+
+    return result;
+  }
+  hash() {
+    return hash(this.z, this.y, this.x);
+  }
+  equals(that) {
+    return (
+      this._geometry === that._geometry &&
+      this.z === that.z &&
+      this.y === that.y &&
+      this.x === that.x
+    );
+  }
+  cmp(that) {
+    return cmp(this.z, that.z) || cmp(this.y, that.y) || cmp(this.x, that.x);
+  }
+  str() {
+    return 'TiledEquirectTile(' + this.x + ', ' + this.y + ', ' + this.z + ')';
+  }
+}
+
+class TiledEquirectLevel extends Level {
+  #width: number;
+  #tileWidth: number;
+  #tileHeight: number;
+  constructor(levelProperties) {
+    super(levelProperties);
+
+    this.#width = levelProperties.width;
+    this.#tileWidth = levelProperties.tileWidth;
+    this.#tileHeight =
+      levelProperties.tileHeight != null
+        ? levelProperties.tileHeight
+        : levelProperties.tileWidth;
+
+    if (this.#width % this.#tileWidth !== 0) {
+      throw new Error(
+        'Level width is not multiple of tile width: ' +
+          this.#width +
+          ' ' +
+          this.#tileWidth
+      );
+    }
+    if ((this.#width / 2) % this.#tileHeight !== 0) {
+      throw new Error(
+        'Level height is not multiple of tile height: ' +
+          this.#width / 2 +
+          ' ' +
+          this.#tileHeight
+      );
+    }
+  }
+  width() {
+    return this.#width;
+  }
+  height() {
+    return this.#width / 2;
+  }
+  tileWidth() {
+    return this.#tileWidth;
+  }
+  tileHeight() {
+    return this.#tileHeight;
+  }
+  _validateWithParentLevel(parentLevel: TiledEquirectLevel) {
+    if (this.width() % parentLevel.width() !== 0) {
+      throw new Error(
+        'Level width must be multiple of parent level: ' +
+          this.width() +
+          ' vs. ' +
+          parentLevel.width()
+      );
+    }
+    if (this.numHorizontalTiles() % parentLevel.numHorizontalTiles() !== 0) {
+      throw new Error(
+        'Number of horizontal tiles must be multiple of parent level: ' +
+          this.numHorizontalTiles() +
+          ' vs. ' +
+          parentLevel.numHorizontalTiles()
+      );
+    }
+    if (this.numVerticalTiles() % parentLevel.numVerticalTiles() !== 0) {
+      throw new Error(
+        'Number of vertical tiles must be multiple of parent level: ' +
+          this.numVerticalTiles() +
+          ' vs. ' +
+          parentLevel.numVerticalTiles()
+      );
+    }
+  }
+}
+
+/**
+ * @class TiledEquirectGeometry
+ * @implements Geometry
+ * @classdesc
+ *
+ * A {@link Geometry} implementation suitable for tiled equirectangular images
+ * with a 2:1 aspect ratio and multiple resolution levels. Unlike
+ * {@link EquirectGeometry}, each level may be split into a grid of tiles, so
+ * that images larger than the maximum texture size can be displayed.
+ *
+ * The following restrictions apply:
+ *   - The width of a level must be a multiple of the tile width, and its
+ *     height a multiple of the tile height;
+ *   - The width of a level must be a multiple of the parent level width;
+ *   - The number of tiles in a level must be a multiple of the number of tiles
+ *     in the parent level.
+ *
+ * @param {Object[]} levelPropertiesList Level description
+ * @param {number} levelPropertiesList[].width Level width in pixels
+ * @param {number} levelPropertiesList[].tileWidth Tile width in pixels
+ * @param {number} [levelPropertiesList[].tileHeight=tileWidth] Tile height in
+ *     pixels
+ */
+class TiledEquirectGeometry {
+  levelList: any[];
+  selectableLevelList: unknown[];
+  _tileSearcher: TileSearcher;
+  _neighborsCache: LruMap;
+  _vec: vec4;
+  _viewSize: Size;
+  Tile = TiledEquirectTile;
+  type = 'tiledEquirect' as const;
+  constructor(levelPropertiesList) {
+    if (getType(levelPropertiesList) !== 'array') {
+      throw new Error('Level list must be an array');
+    }
+
+    this.levelList = makeLevelList(levelPropertiesList, TiledEquirectLevel);
+    this.selectableLevelList = makeSelectableLevelList(this.levelList);
+
+    for (let i = 1; i < this.levelList.length; i++) {
+      this.levelList[i]._validateWithParentLevel(this.levelList[i - 1]);
+    }
+
+    this._tileSearcher = new TileSearcher();
+
+    this._neighborsCache = new LruMap(neighborsCacheSize);
+
+    this._vec = vec4.create();
+
+    this._viewSize = { width: 0, height: 0 };
+  }
+  maxTileSize() {
+    let maxTileSize = 0;
+    for (let i = 0; i < this.levelList.length; i++) {
+      const level = this.levelList[i];
+      maxTileSize = Math.max(
+        maxTileSize,
+        level.tileWidth(),
+        level.tileHeight()
+      );
+    }
+    return maxTileSize;
+  }
+  levelTiles(level, result?: TiledEquirectTile[]) {
+    const levelIndex = this.levelList.indexOf(level);
+    const maxX = level.numHorizontalTiles() - 1;
+    const maxY = level.numVerticalTiles() - 1;
+
+    result = result || [];
+
+    for (let x = 0; x <= maxX; x++) {
+      for (let y = 0; y <= maxY; y++) {
+        result.push(new TiledEquirectTile(x, y, levelIndex, this));
+      }
+    }
+
+    return result;
+  }
+  _closestTile(view, level) {
+    const ray = this._vec;
+
+    // Compute a view ray into the central screen point.
+    vec4.set(ray, 0, 0, 1, 1);
+    vec4.transformMat4(ray, ray, view.inverseProjection());
+
+    // Convert the view ray into normalized image coordinates.
+    const r = Math.sqrt(ray[0] * ray[0] + ray[1] * ray[1] + ray[2] * ray[2]);
+    const u = 0.5 + Math.atan2(ray[0], -ray[2]) / (2 * Math.PI);
+    const v = Math.acos(clamp(ray[1] / r, -1, 1)) / Math.PI;
+
+    const tileZ = this.levelList.indexOf(level);
+    const numX = level.numHorizontalTiles();
+    const numY = level.numVerticalTiles();
+
+    const tileX = clamp(Math.floor(u * numX), 0, numX - 1);
+    const tileY = clamp(Math.floor(v * numY), 0, numY - 1);
+
+    return new TiledEquirectTile(tileX, tileY, tileZ, this);
+  }
+  visibleTiles(view, level, result?: Tile[]) {
+    const viewSize = this._viewSize;
+    const tileSearcher = this._tileSearcher;
+
+    result = result || [];
+
+    view.size(viewSize);
+    if (viewSize.width === 0 || viewSize.height === 0) {
+      // No tiles are visible if the viewport is empty.
+      return result;
+    }
+
+    const startingTile = this._closestTile(view, level);
+    const count = tileSearcher.search(view, startingTile, result);
+    if (!count) {
+      throw new Error('Starting tile is not visible');
+    }
+
+    return result;
+  }
+}
+
+export { TiledEquirectTile };
+export default TiledEquirectGeometry;
@@ -16,32 +16,57 @@
 
 // TODO: re-structure imports
 import WebGlStage from './stages/WebGl';
+import WebGl2Stage from './stages/WebGl2';
 
 // Renderers.
 import WebGlCubeRenderer from './renderers/WebGlCube';
 import WebGlFlatRenderer from './renderers/WebGlFlat';
 import WebGlEquirectRenderer from './renderers/WebGlEquirect';
+import WebGlTiledEquirectRenderer from './renderers/WebGlTiledEquirect';
+import WebGl2CubeRenderer from './renderers/WebGl2Cube';
+import WebGl2FlatRenderer from './renderers/WebGl2Flat';
 import registerDefaultRenderers from './renderers/registerDefaultRenderers';
 
 // Geometries.
 import CubeGeometry from './geometries/Cube';
 import FlatGeometry from './geometries/Flat';
 import EquirectGeometry from './geometries/Equirect';
+import TiledEquirectGeometry from './geometries/TiledEquirect';
 
 // Views.
 import RectilinearView, {
   type RectilinearViewCoords,
   type RectilinearViewParams,
 } from './views/Rectilinear';
+import { type ProjectionMode } from './views/projections';
 import FlatView from './views/Flat';
+import XrView from './views/Xr';
 
 // Sources.
 import ImageUrlSource from './sources/ImageUrl';
 import SingleAssetSource from './sources/SingleAsset';
+import VideoSource from './sources/Video';
+import EquirectToCubeSource, {
+  type EquirectImage,
+  type EquirectToCubeSourceOptions,
+} from './sources/EquirectToCube';
+
+// Loaders.
+import HtmlImageLoader from './loaders/HtmlImage';
+import FetchImageLoader, {
+  type FetchImageLoaderOptions,
+} from './loaders/FetchImage';
+
+// Errors.
+import NetworkError from './NetworkError';
+import HttpError from './HttpError';
+import CorsError from './CorsError';
+import DecodeError from './DecodeError';
 
 // Assets.
 import StaticAsset from './assets/Static';
 import DynamicAsset from './assets/Dynamic';
+import VideoAsset from './assets/Video';
 
 // Texture store.
 import TextureStore from './TextureStore';
@@ -51,6 +76,7 @@ import Layer from './Layer';
 
 // Render loop.
 import RenderLoop from './RenderLoop';
+import XrRenderLoop from './XrRenderLoop';
 
 // Controls.
 import KeyControlMethod from './controls/Key';
@@ -60,23 +86,91 @@ import ScrollZoomControlMethod from './controls/ScrollZoom';
 import PinchZoomControlMethod from './controls/PinchZoom';
 import VelocityControlMethod from './controls/Velocity';
 import ElementPressControlMethod from './controls/ElementPress';
+import DeviceOrientationControlMethod from './controls/DeviceOrientation';
 import Controls from './controls/Controls';
 import Dynamics from './controls/Dynamics';
 
 // High-level API.
-import Viewer from './Viewer';
-import Scene from './Scene';
+import Viewer, { type ViewerPointerEvent } from './Viewer';
+import Scene, { type SceneGeoreference } from './Scene';
+import Tour, { type TourData } from './Tour';
+import CameraPath, {
+  type CameraKeyframe,
+  type CameraPathOptions,
+  type CameraPathEasing,
+  type CameraPathInterpolation,
+} from './CameraPath';
+import LinkedViews, {
+  type LinkedViewsOptions,
+  type LinkedViewOffsets,
+} from './LinkedViews';
+import SwipeCompare, { type SwipeCompareOptions } from './SwipeCompare';
+import PointerPicker, {
+  type PointerPickerOptions,
+  type PointerPickEvent,
+} from './PointerPicker';
 
 // Hotspots.
 import Hotspot from './Hotspot';
-import HotspotContainer from './HotspotContainer';
+import HotspotContainer, {
+  type HotspotContainerOptions,
+  type HotspotClusterOptions,
+} from './HotspotContainer';
+import SpriteHotspot, {
+  type SpriteHotspotCoords,
+  type SpriteHotspotOptions,
+  type SpriteImage,
+} from './SpriteHotspot';
+import SpriteHotspotLayer, {
+  type SpriteHotspotLayerOptions,
+  type SpriteHotspotPlacement,
+} from './SpriteHotspotLayer';
+import Annotation, {
+  type AnnotationType,
+  type AnnotationStyle,
+  type AnnotationOptions,
+  type AnnotationData,
+} from './Annotation';
+import AnnotationContainer, {
+  type AnnotationContainerOptions,
+  type AnnotationRenderMode,
+} from './AnnotationContainer';
+import { type SphericalPoint } from './util/sphericalPath';
+import MeasurementTool, {
+  type MeasurementToolOptions,
+  type Measurement,
+} from './MeasurementTool';
+import FloorPlan, {
+  type FloorPlanOptions,
+  type FloorPlanAnchor,
+} from './FloorPlan';
+import { type GeoLocation } from './util/geo';
 
 // Effects.
 import colorEffects from './colorEffects';
+import stereo, {
+  type StereoOptions,
+  type StereoLayout,
+  type StereoOutput,
+  type AnaglyphType,
+} from './stereo';
+import shaderEffects, {
+  type ShaderEffect,
+  type ShaderEffectInstance,
+  type ShaderEffectUniform,
+  type ShaderEffectUniformType,
+  type ShaderEffectUniformValue,
+  type ShaderEffectImage,
+} from './shaderEffects';
 
 // Miscellaneous functions.
 import registerDefaultControls from './controls/registerDefaultControls';
 import autorotate from './autorotate';
+import renderToImage, { type RenderToImageOptions } from './renderToImage';
+import exportPanorama, {
+  type CubeFace,
+  type ExportPanoramaOptions,
+} from './exportPanorama';
 
 // Utility functions.
 import async from './util/async';
@@ -120,7 +214,58 @@ export const dependencies = {
   hammerjs,
 };
 
-export type { RectilinearViewCoords, RectilinearViewParams };
+export type {
+  RectilinearViewCoords,
+  RectilinearViewParams,
+  ProjectionMode,
+  TourData,
+  CameraKeyframe,
+  CameraPathOptions,
+  CameraPathEasing,
+  CameraPathInterpolation,
+  LinkedViewsOptions,
+  LinkedViewOffsets,
+  SwipeCompareOptions,
+  ViewerPointerEvent,
+  PointerPickerOptions,
+  PointerPickEvent,
+  HotspotContainerOptions,
+  HotspotClusterOptions,
+  SpriteHotspotCoords,
+  SpriteHotspotOptions,
+  SpriteImage,
+  SpriteHotspotLayerOptions,
+  SpriteHotspotPlacement,
+  AnnotationType,
+  AnnotationStyle,
+  AnnotationOptions,
+  AnnotationData,
+  AnnotationContainerOptions,
+  AnnotationRenderMode,
+  SphericalPoint,
+  MeasurementToolOptions,
+  Measurement,
+  FloorPlanOptions,
+  FloorPlanAnchor,
+  SceneGeoreference,
+  GeoLocation,
+  FetchImageLoaderOptions,
+  StereoOptions,
+  StereoLayout,
+  StereoOutput,
+  AnaglyphType,
+  ShaderEffect,
+  ShaderEffectInstance,
+  ShaderEffectUniform,
+  ShaderEffectUniformType,
+  ShaderEffectUniformValue,
+  ShaderEffectImage,
+  RenderToImageOptions,
+  CubeFace,
+  ExportPanoramaOptions,
+  EquirectImage,
+  EquirectToCubeSourceOptions,
+};
 
 // Utility functions.
 export const util = {
@@ -155,30 +300,48 @@ export const util = {
 export {
   // Stages.
   WebGlStage,
+  WebGl2Stage,
   // Renderers.
   WebGlCubeRenderer,
   WebGlFlatRenderer,
   WebGlEquirectRenderer,
+  WebGlTiledEquirectRenderer,
+  WebGl2CubeRenderer,
+  WebGl2FlatRenderer,
   registerDefaultRenderers,
   // Geometries.
   CubeGeometry,
   FlatGeometry,
   EquirectGeometry,
+  TiledEquirectGeometry,
   // Views.
   RectilinearView,
   FlatView,
+  XrView,
   // Sources.
   ImageUrlSource,
   SingleAssetSource,
+  VideoSource,
+  EquirectToCubeSource,
+  // Loaders.
+  HtmlImageLoader,
+  FetchImageLoader,
+  // Errors.
+  NetworkError,
+  HttpError,
+  CorsError,
+  DecodeError,
   // Assets.
   StaticAsset,
   DynamicAsset,
+  VideoAsset,
   // Texture store.
   TextureStore,
   // Layer.
   Layer,
   // Render loop.
   RenderLoop,
+  XrRenderLoop,
   // Controls.
   KeyControlMethod,
   DragControlMethod,
@@ -187,17 +350,33 @@ export {
   PinchZoomControlMethod,
   VelocityControlMethod,
   ElementPressControlMethod,
+  DeviceOrientationControlMethod,
   Controls,
   Dynamics,
   // High-level API.
   Viewer,
   Scene,
+  Tour,
+  CameraPath,
+  LinkedViews,
+  SwipeCompare,
+  PointerPicker,
   // Hotspots.
   Hotspot,
   HotspotContainer,
+  SpriteHotspot,
+  SpriteHotspotLayer,
+  Annotation,
+  AnnotationContainer,
+  MeasurementTool,
+  FloorPlan,
   // Effects.
   colorEffects,
+  stereo,
+  shaderEffects,
   // Miscellaneous functions.
   registerDefaultControls,
   autorotate,
+  renderToImage,
+  exportPanorama,
 };
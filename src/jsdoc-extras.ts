@@ -17,6 +17,7 @@
 import { mat4, vec4 } from 'gl-matrix';
 import Level from './geometries/Level';
 import Layer from './Layer';
+import { type ShaderEffectInstance } from './shaderEffects';
 import Stage from './stages/Stage';
 
 // This file contains no executable code, only documentation.
@@ -141,6 +142,33 @@ export interface View {
  * @param {function(?Error, Asset)} done The callback.
  * @return {function()} A function to cancel loading.
  */
+export interface ImageLoader {
+  loadImage(
+    url: string,
+    rect: Rect | null,
+    done: (err: Error | null, asset?: Asset) => void
+  ): () => void;
+}
+
+/**
+ * @interface StageOverlay
+ * @classdesc Draws content over the layers of a {@link Stage}, such as a
+ * {@link SpriteHotspotLayer}. See {@link Stage#addOverlay}.
+ *
+ * Overlays emit a `change` event when they must be redrawn.
+ */
+
+/**
+ * Draws the overlay. Called on every frame, after the layers are rendered.
+ * @function
+ * @name StageOverlay.prototype.render
+ * @param {Stage} stage The stage.
+ */
+export interface StageOverlay {
+  render(stage: any): void;
+  addEventListener(event: string, fn: Function): void;
+  removeEventListener(event: string, fn: Function): void;
+}
 
 // TODO: jsdoc this
 /**
@@ -162,6 +190,12 @@ export interface Source {
    * @returns Function that cancels the loading when called.
    */
   loadAsset(stage: Stage, tile: Tile, done?: Function): Function;
+  /**
+   * Returns whether loading an asset should be retried after failing with an
+   * error. When absent, failed loads are always retried.
+   * @param err The error returned by {@link Source#loadAsset}.
+   */
+  shouldRetry?(err: Error): boolean;
 }
 
 export interface Texture {
@@ -252,11 +286,19 @@ export interface Effects {
    */
   colorMatrix?: mat4;
   /**
-   * Use only a portion of the texture when rendering. Only supported on
-   * {@link WebGlEquirectRenderer}. Useful for rendering stereoscopic 360°
-   * video.
+   * Use only a portion of the texture when rendering, in texture coordinates
+   * with the origin at the bottom left corner. For tiled geometries, the crop
+   * applies to each tile. Useful for rendering stereoscopic media; see
+   * {@link StereoOptions}.
    */
   textureCrop?: Rect;
+  /**
+   * Fragment shader snippets to apply, in order, after the color matrix and
+   * offset. The snippets must be registered with
+   * {@link shaderEffects.registerShaderEffect}. Not supported by the CSS
+   * renderers.
+   */
+  shaders?: ShaderEffectInstance[];
 }
 
 /**
@@ -267,14 +309,15 @@ export interface Effects {
  * {@link Tile tiles}.
  *
  * This is an abstract interface; the concrete implementations are
- * {@link CubeGeometry}, {@link EquirectGeometry} and {@link FlatGeometry}.
+ * {@link CubeGeometry}, {@link EquirectGeometry}, {@link TiledEquirectGeometry}
+ * and {@link FlatGeometry}.
  */
 
 /**
  * The geometry type, used by the {@link Stage} to determine the appropriate
  * renderer for a given geometry and view.
  *
- * Known values are `"cube"`, `"equirect"` and `"flat"`.
+ * Known values are `"cube"`, `"equirect"`, `"tiledEquirect"` and `"flat"`.
  *
  * See also {@link Stage#registerRenderer}.
  *
@@ -293,7 +336,7 @@ export interface Effects {
  * @return {Tile[]} result
  */
 
-type GeometryType = 'cube' | 'equirect' | 'flat';
+type GeometryType = 'cube' | 'equirect' | 'tiledEquirect' | 'flat';
 
 export interface Geometry {
   type: GeometryType;
@@ -307,7 +350,8 @@ export interface Geometry {
  * A Tile is one of the partitions of a {@link Geometry}.
  *
  * This is an abstract interface; the concrete implementations are
- * {@link CubeTile}, {@link EquirectTile} and {@link FlatTile}.
+ * {@link CubeTile}, {@link EquirectTile}, {@link TiledEquirectTile} and
+ * {@link FlatTile}.
  */
 
 /**
@@ -334,6 +378,7 @@ export interface Geometry {
  */
 
 export interface Tile {
+  type: GeometryType;
   hash(): number;
   equals(that: Tile): boolean;
   cmp(that: Tile): number;
@@ -384,6 +429,15 @@ export interface Tile {
  * @param {Rect} rect The rectangular region into which to render.
  */
 
+/**
+ * The {@link RectilinearView} projection modes drawn by the renderer class,
+ * besides the rectilinear projection. Optional; renderers without it only draw
+ * the rectilinear projection.
+ *
+ * @property {ProjectionMode[]}
+ * @name Renderer.projectionModes
+ */
+
 export interface Renderer {
   startLayer(layer: Layer, rect: Rect): void;
   renderTile(tile: Tile, texture: Texture, layer: Layer, layerZ: number): void;
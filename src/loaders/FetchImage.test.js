@@ -0,0 +1,248 @@
+import { suite, test, assert, beforeEach, afterEach } from 'vitest';
+import sinon from 'sinon';
+
+import wait from '../../test/wait';
+
+import FetchImageLoader from './FetchImage';
+import NetworkError from '../NetworkError';
+import HttpError from '../HttpError';
+import CorsError from '../CorsError';
+import DecodeError from '../DecodeError';
+
+// Mock worker, replying to decode requests on demand.
+class MockWorker {
+  constructor() {
+    this.listeners = {};
+    this.messages = [];
+    this.terminate = sinon.spy();
+  }
+  addEventListener(type, fn) {
+    this.listeners[type] = fn;
+  }
+  removeEventListener(type) {
+    delete this.listeners[type];
+  }
+  postMessage(data) {
+    this.messages.push(data);
+  }
+  reply(data) {
+    this.listeners.message({ data });
+  }
+  fail() {
+    this.listeners.error();
+  }
+}
+
+function createBitmap() {
+  var canvas = document.createElement('canvas');
+  canvas.close = sinon.spy();
+  return canvas;
+}
+
+function response(status) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    blob: function () {
+      return Promise.resolve('blob');
+    },
+  };
+}
+
+suite('FetchImageLoader', function () {
+  var original;
+  var workers;
+
+  beforeEach(function () {
+    original = {
+      fetch: globalThis.fetch,
+      createImageBitmap: globalThis.createImageBitmap,
+      Worker: globalThis.Worker,
+      createObjectURL: URL.createObjectURL,
+      revokeObjectURL: URL.revokeObjectURL,
+    };
+    workers = [];
+    location.replace('http://localhost/');
+    globalThis.fetch = sinon.stub().resolves(response(200));
+    globalThis.createImageBitmap = sinon.stub().callsFake(function () {
+      return Promise.resolve(createBitmap());
+    });
+    globalThis.Worker = function () {
+      var worker = new MockWorker();
+      workers.push(worker);
+      return worker;
+    };
+    URL.createObjectURL = sinon.stub().returns('blob:worker');
+    URL.revokeObjectURL = sinon.spy();
+  });
+
+  afterEach(function () {
+    globalThis.fetch = original.fetch;
+    globalThis.createImageBitmap = original.createImageBitmap;
+    globalThis.Worker = original.Worker;
+    URL.createObjectURL = original.createObjectURL;
+    URL.revokeObjectURL = original.revokeObjectURL;
+  });
+
+  test('supported', function () {
+    assert.isTrue(FetchImageLoader.supported());
+  });
+
+  test('request options', function (done) {
+    var loader = new FetchImageLoader({
+      headers: function (url) {
+        return { Authorization: 'Bearer ' + url };
+      },
+      credentials: 'include',
+      useWorker: false,
+    });
+    loader.loadImage('url', null, function (err) {
+      assert.isNull(err);
+      var init = globalThis.fetch.firstCall.args[1];
+      assert.strictEqual(globalThis.fetch.firstCall.args[0], 'url');
+      assert.strictEqual(init.mode, 'cors');
+      assert.strictEqual(init.credentials, 'include');
+      assert.deepEqual(init.headers, { Authorization: 'Bearer url' });
+      done();
+    });
+  });
+
+  test('decode on main thread', function (done) {
+    var loader = new FetchImageLoader({ useWorker: false });
+    assert.isFalse(loader.usesWorker());
+    var rect = { x: 0.5, y: 0, width: 0.5, height: 1 };
+    loader.loadImage('url', rect, function (err, asset) {
+      assert.isNull(err);
+      assert.instanceOf(asset.element(), HTMLCanvasElement);
+      // The image is decoded, then cropped.
+      assert.strictEqual(globalThis.createImageBitmap.callCount, 2);
+      done();
+    });
+  });
+
+  test('decode in worker', function (done) {
+    var loader = new FetchImageLoader();
+    assert.isTrue(loader.usesWorker());
+    var bitmap = createBitmap();
+    loader.loadImage('url', null, function (err, asset) {
+      assert.isNull(err);
+      assert.strictEqual(asset.element(), bitmap);
+      done();
+    });
+    wait.until(
+      function () {
+        return workers[0].messages.length > 0;
+      },
+      function () {
+        var message = workers[0].messages[0];
+        assert.strictEqual(message.blob, 'blob');
+        assert.isNull(message.rect);
+        workers[0].reply({ id: message.id, bitmap });
+      }
+    );
+  });
+
+  test('fall back to main thread when the worker fails', function (done) {
+    var loader = new FetchImageLoader();
+    loader.loadImage('url', null, function (err, asset) {
+      assert.isNull(err);
+      assert.instanceOf(asset.element(), HTMLCanvasElement);
+      assert.isFalse(loader.usesWorker());
+      assert.isTrue(workers[0].terminate.calledOnce);
+      done();
+    });
+    wait.until(
+      function () {
+        return workers[0].messages.length > 0;
+      },
+      function () {
+        workers[0].fail();
+      }
+    );
+  });
+
+  test('http error', function (done) {
+    globalThis.fetch.resolves(response(404));
+    var loader = new FetchImageLoader({ useWorker: false });
+    loader.loadImage('url', null, function (err, asset) {
+      assert.instanceOf(err, HttpError);
+      assert.notInstanceOf(err, NetworkError);
+      assert.strictEqual(err.status, 404);
+      assert.isUndefined(asset);
+      done();
+    });
+  });
+
+  test('decode error', function (done) {
+    globalThis.createImageBitmap.rejects(new Error('invalid image'));
+    var loader = new FetchImageLoader({ useWorker: false });
+    loader.loadImage('url', null, function (err) {
+      assert.instanceOf(err, DecodeError);
+      done();
+    });
+  });
+
+  test('network error', function (done) {
+    globalThis.fetch.rejects(new TypeError('Failed to fetch'));
+    var loader = new FetchImageLoader({ useWorker: false });
+    loader.loadImage('http://example.com/img.jpg', null, function (err) {
+      assert.instanceOf(err, NetworkError);
+      assert.notInstanceOf(err, CorsError);
+      assert.strictEqual(globalThis.fetch.secondCall.args[1].mode, 'no-cors');
+      done();
+    });
+  });
+
+  test('cors error', function (done) {
+    globalThis.fetch.onFirstCall().rejects(new TypeError('Failed to fetch'));
+    var loader = new FetchImageLoader({ useWorker: false });
+    loader.loadImage('http://example.com/img.jpg', null, function (err) {
+      assert.instanceOf(err, CorsError);
+      done();
+    });
+  });
+
+  test('cancel', function (done) {
+    var loader = new FetchImageLoader();
+    var spy = sinon.spy();
+    var cancel = loader.loadImage('url', null, spy);
+    var error = new Error('canceled');
+    cancel(error);
+    assert.isTrue(spy.calledOnceWithExactly(error));
+    assert.isTrue(globalThis.fetch.firstCall.args[1].signal.aborted);
+    // The request completes anyway, since the mock fetch ignores the signal,
+    // but the response is not decoded.
+    setTimeout(function () {
+      assert.isTrue(spy.calledOnce);
+      assert.lengthOf(workers[0].messages, 0);
+      done();
+    }, 20);
+  });
+
+  test('close bitmaps decoded after cancel', function (done) {
+    var loader = new FetchImageLoader();
+    var spy = sinon.spy();
+    var cancel = loader.loadImage('url', null, spy);
+    // Cancel after the decode request was sent to the worker.
+    wait.until(
+      function () {
+        return workers[0].messages.length > 0;
+      },
+      function () {
+        cancel();
+        var bitmap = createBitmap();
+        workers[0].reply({ id: workers[0].messages[0].id, bitmap });
+        assert.isTrue(spy.calledOnce);
+        assert.isTrue(bitmap.close.calledOnce);
+        done();
+      }
+    );
+  });
+
+  test('destroy', function () {
+    var loader = new FetchImageLoader();
+    loader.destroy();
+    assert.isTrue(workers[0].terminate.calledOnce);
+    assert.isTrue(URL.revokeObjectURL.calledOnceWithExactly('blob:worker'));
+  });
+});
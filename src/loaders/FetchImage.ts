@@ -0,0 +1,344 @@
+import StaticAsset from '../assets/Static';
+import NetworkError from '../NetworkError';
+import HttpError from '../HttpError';
+import CorsError from '../CorsError';
+import DecodeError from '../DecodeError';
+import once from '../util/once';
+import clearOwnProperties from '../util/clearOwnProperties';
+import decodeImage from './decodeImage';
+import decodeWorkerSrc from './decodeWorker';
+import { Rect } from '../jsdoc-extras';
+
+type DecodeCallback = (err: Error | null, bitmap?: ImageBitmap) => void;
+
+interface PendingDecode {
+  blob: Blob;
+  rect: Rect | null;
+  done: DecodeCallback;
+}
+
+/**
+ * Fetch image loader options.
+ */
+export interface FetchImageLoaderOptions {
+  /**
+   * Headers to send with each request, or a function receiving the image URL
+   * and returning them. Useful to send authorization headers.
+   */
+  headers?: HeadersInit | ((url: string) => HeadersInit);
+  /**
+   * Whether to send credentials such as cookies with each request. Defaults to
+   * `same-origin`.
+   */
+  credentials?: RequestCredentials;
+  /**
+   * Whether to decode images in a worker. Defaults to true. Decoding falls back
+   * to the main thread when workers are unavailable.
+   */
+  useWorker?: boolean;
+}
+
+/**
+ * @class FetchImageLoader
+ * @implements ImageLoader
+ * @classdesc
+ *
+ * A {@link Loader} fetching images with the Fetch API and decoding them into
+ * `ImageBitmap` objects with `createImageBitmap`, in a worker where possible.
+ *
+ * Unlike {@link HtmlImageLoader}, requests may carry custom headers and
+ * credentials, are aborted when loading is cancelled, and fail with errors
+ * describing the cause of the failure, which {@link ImageUrlSource} uses to
+ * decide whether and when to retry:
+ *
+ * - {@link HttpError} when the server responds with an unsuccessful status;
+ * - {@link CorsError} when a cross-origin response is blocked;
+ * - {@link NetworkError} when the server could not be reached;
+ * - {@link DecodeError} when the response is not a valid image.
+ *
+ * Cross-origin requests are always made in CORS mode, as required to create
+ * WebGL textures from their responses. To tell a CORS failure apart from a
+ * network failure, a failed cross-origin request is repeated in `no-cors`
+ * mode, which only succeeds if the server is reachable.
+ *
+ * The loader must be passed to the stage through the `loader` option, and
+ * destroyed when no longer needed. See {@link FetchImageLoader.supported}
+ * for the browser requirements.
+ *
+ * @param {FetchImageLoaderOptions} opts
+ */
+class FetchImageLoader {
+  #headers: FetchImageLoaderOptions['headers'];
+  #credentials: RequestCredentials;
+  #worker: Worker | null;
+  #workerUrl: string | null;
+  #nextDecodeId: number;
+  #pendingDecodes: Map<number, PendingDecode>;
+  #workerMessageHandler: (event: MessageEvent) => void;
+  #workerErrorHandler: () => void;
+
+  constructor(opts?: FetchImageLoaderOptions) {
+    opts = opts || {};
+
+    this.#headers = opts.headers;
+    this.#credentials = opts.credentials || 'same-origin';
+
+    // Decode requests sent to the worker and awaiting a reply, by id.
+    this.#nextDecodeId = 1;
+    this.#pendingDecodes = new Map();
+
+    this.#workerMessageHandler = this.#handleWorkerMessage.bind(this);
+    this.#workerErrorHandler = this.#handleWorkerError.bind(this);
+
+    this.#worker = null;
+    this.#workerUrl = null;
+    if (opts.useWorker !== false) {
+      this.#createWorker();
+    }
+  }
+  /**
+   * Destructor. Terminates the decoding worker.
+   */
+  destroy() {
+    this.#destroyWorker();
+    clearOwnProperties(this);
+  }
+  /**
+   * Returns whether the browser supports the features required by the loader.
+   * @return {boolean}
+   */
+  static supported() {
+    return (
+      typeof fetch === 'function' && typeof createImageBitmap === 'function'
+    );
+  }
+  /**
+   * Returns whether images are being decoded in a worker.
+   * @return {boolean}
+   */
+  usesWorker() {
+    return this.#worker != null;
+  }
+  /**
+   * Loads an {@link Asset} from an image.
+   * @param {string} url The image URL.
+   * @param {?Rect} rect A {@link Rect} describing a portion of the image, or null
+   *     to use the full image.
+   * @param {function(?Error, Asset)} done The callback.
+   * @return {function()} A function to cancel loading.
+   */
+  loadImage(url: string, rect: Rect | null, done) {
+    const self = this;
+
+    done = once(done);
+
+    const controller =
+      typeof AbortController !== 'undefined' ? new AbortController() : null;
+    const signal = controller ? controller.signal : undefined;
+
+    let canceled = false;
+    let cancelDecode: (() => void) | null = null;
+
+    fetch(url, {
+      mode: 'cors',
+      credentials: this.#credentials,
+      headers: this.#requestHeaders(url),
+      signal,
+    })
+      .then(function (response) {
+        if (!response.ok) {
+          throw new HttpError(
+            'HTTP error ' + response.status + ': ' + url,
+            response.status
+          );
+        }
+        return response.blob();
+      })
+      .then(
+        function (blob) {
+          if (canceled) {
+            return;
+          }
+          cancelDecode = self.#decode(blob, rect, function (err, bitmap) {
+            if (err) {
+              done(
+                new DecodeError('Decode error: ' + url + ': ' + err.message)
+              );
+              return;
+            }
+            done(null, new StaticAsset(bitmap));
+          });
+        },
+        function (err) {
+          if (canceled) {
+            return;
+          }
+          self.#handleFetchError(url, err, signal, done);
+        }
+      );
+
+    function cancel() {
+      canceled = true;
+      if (controller) {
+        controller.abort();
+      }
+      if (cancelDecode) {
+        cancelDecode();
+      }
+      done.apply(null, arguments);
+    }
+
+    return cancel;
+  }
+  #requestHeaders(url: string) {
+    const headers = this.#headers;
+    return typeof headers === 'function' ? headers(url) : headers;
+  }
+  #handleFetchError(url: string, err, signal, done) {
+    if (err instanceof HttpError) {
+      done(err);
+      return;
+    }
+
+    if (!isCrossOrigin(url)) {
+      done(new NetworkError('Network error: ' + url));
+      return;
+    }
+
+    // The failure of a cross-origin request may be due to CORS or to the
+    // network. A request in no-cors mode is not subject to CORS checks, so it
+    // only fails if the server is unreachable.
+    fetch(url, {
+      mode: 'no-cors',
+      method: 'HEAD',
+      credentials: this.#credentials,
+      signal,
+    }).then(
+      function () {
+        done(new CorsError('CORS error: ' + url));
+      },
+      function () {
+        done(new NetworkError('Network error: ' + url));
+      }
+    );
+  }
+  #decode(blob: Blob, rect: Rect | null, done: DecodeCallback) {
+    if (!this.#worker) {
+      return decodeOnMainThread(blob, rect, done);
+    }
+
+    const id = this.#nextDecodeId++;
+    this.#pendingDecodes.set(id, { blob, rect, done });
+    this.#worker.postMessage({ id, blob, rect });
+
+    const pendingDecodes = this.#pendingDecodes;
+    return function cancel() {
+      pendingDecodes.delete(id);
+    };
+  }
+  #handleWorkerMessage(event: MessageEvent) {
+    const data = event.data;
+    const pending = this.#pendingDecodes.get(data.id);
+    if (!pending) {
+      // The decoding was cancelled.
+      if (data.bitmap) {
+        data.bitmap.close();
+      }
+      return;
+    }
+    this.#pendingDecodes.delete(data.id);
+    if (data.error != null) {
+      pending.done(new Error(data.error));
+    } else {
+      pending.done(null, data.bitmap);
+    }
+  }
+  #handleWorkerError() {
+    // The worker could not be started, e.g. because the content security
+    // policy forbids it. Decode on the main thread from now on, including
+    // the requests already sent to the worker.
+    this.#destroyWorker();
+    const pendingDecodes = this.#pendingDecodes;
+    pendingDecodes.forEach(function (pending, id) {
+      decodeOnMainThread(pending.blob, pending.rect, function (err, bitmap) {
+        // Skip requests cancelled in the meantime.
+        if (pendingDecodes.get(id) === pending) {
+          pendingDecodes.delete(id);
+          pending.done(err, bitmap);
+        } else if (bitmap) {
+          bitmap.close();
+        }
+      });
+    });
+  }
+  #createWorker() {
+    if (typeof Worker === 'undefined' || typeof Blob === 'undefined') {
+      return;
+    }
+    let workerUrl: string | null = null;
+    try {
+      workerUrl = URL.createObjectURL(
+        new Blob([decodeWorkerSrc], { type: 'text/javascript' })
+      );
+      this.#worker = new Worker(workerUrl);
+      this.#workerUrl = workerUrl;
+    } catch (err) {
+      if (workerUrl) {
+        URL.revokeObjectURL(workerUrl);
+      }
+      return;
+    }
+    this.#worker.addEventListener('message', this.#workerMessageHandler);
+    this.#worker.addEventListener('error', this.#workerErrorHandler);
+  }
+  #destroyWorker() {
+    if (this.#worker) {
+      this.#worker.removeEventListener('message', this.#workerMessageHandler);
+      this.#worker.removeEventListener('error', this.#workerErrorHandler);
+      this.#worker.terminate();
+      this.#worker = null;
+    }
+    if (this.#workerUrl) {
+      URL.revokeObjectURL(this.#workerUrl);
+      this.#workerUrl = null;
+    }
+  }
+}
+
+function decodeOnMainThread(
+  blob: Blob,
+  rect: Rect | null,
+  done: DecodeCallback
+) {
+  let canceled = false;
+  decodeImage(blob, rect).then(
+    function (bitmap) {
+      if (canceled) {
+        bitmap.close();
+        return;
+      }
+      done(null, bitmap);
+    },
+    function (err) {
+      if (!canceled) {
+        done(err);
+      }
+    }
+  );
+  return function cancel() {
+    canceled = true;
+  };
+}
+
+function isCrossOrigin(url: string) {
+  if (typeof location === 'undefined') {
+    return false;
+  }
+  try {
+    return new URL(url, location.href).origin !== location.origin;
+  } catch (err) {
+    return false;
+  }
+}
+
+export default FetchImageLoader;
@@ -0,0 +1,41 @@
+import { Rect } from '../jsdoc-extras';
+
+// Options for createImageBitmap. Pixel storage parameters such as
+// UNPACK_FLIP_Y_WEBGL are ignored when uploading an ImageBitmap into a texture,
+// so the flip and premultiplication must happen while decoding.
+const createImageBitmapOpts = {
+  imageOrientation: 'flipY',
+  premultiplyAlpha: 'premultiply',
+} as const;
+
+// Decodes an image and crops it to the given rect, in normalized coordinates
+// with the origin at the top left corner.
+//
+// The same logic is implemented by the worker in decodeWorker.ts; the two must
+// be kept in sync.
+function decodeImage(blob: Blob, rect: Rect | null): Promise<ImageBitmap> {
+  if (!rect) {
+    return createImageBitmap(blob, createImageBitmapOpts);
+  }
+  // The image dimensions are required to compute the crop rectangle, so the
+  // image is decoded before it is cropped.
+  return createImageBitmap(blob).then(function (image) {
+    const x = (rect.x || 0) * image.width;
+    const y = (rect.y || 0) * image.height;
+    const width = (rect.width || 1) * image.width;
+    const height = (rect.height || 1) * image.height;
+    return createImageBitmap(
+      image,
+      x,
+      y,
+      width,
+      height,
+      createImageBitmapOpts
+    ).then(function (cropped) {
+      image.close();
+      return cropped;
+    });
+  });
+}
+
+export default decodeImage;
@@ -0,0 +1,32 @@
+// Source for the worker used by FetchImageLoader to decode images off the main
+// thread. It receives `{ id, blob, rect }` messages and replies with
+// `{ id, bitmap }` on success or `{ id, error }` on failure, transferring the
+// bitmap. The decoding logic mirrors decodeImage.ts.
+export default [
+  'var opts = { imageOrientation: "flipY", premultiplyAlpha: "premultiply" };',
+
+  'function decode(blob, rect) {',
+  '  if (!rect) {',
+  '    return createImageBitmap(blob, opts);',
+  '  }',
+  '  return createImageBitmap(blob).then(function (image) {',
+  '    var x = (rect.x || 0) * image.width;',
+  '    var y = (rect.y || 0) * image.height;',
+  '    var width = (rect.width || 1) * image.width;',
+  '    var height = (rect.height || 1) * image.height;',
+  '    return createImageBitmap(image, x, y, width, height, opts).then(function (cropped) {',
+  '      image.close();',
+  '      return cropped;',
+  '    });',
+  '  });',
+  '}',
+
+  'self.onmessage = function (event) {',
+  '  var id = event.data.id;',
+  '  decode(event.data.blob, event.data.rect).then(function (bitmap) {',
+  '    self.postMessage({ id: id, bitmap: bitmap }, [bitmap]);',
+  '  }, function (err) {',
+  '    self.postMessage({ id: id, error: String((err && err.message) || err) });',
+  '  });',
+  '};',
+].join('\n');
@@ -0,0 +1,120 @@
+import { suite, test, assert } from 'vitest';
+import eventEmitter from 'minimal-event-emitter';
+
+import renderToImage from './renderToImage';
+import Layer from './Layer';
+import TextureStore from './TextureStore';
+import EquirectGeometry from './geometries/Equirect';
+import RectilinearView from './views/Rectilinear';
+
+// Mock a Stage. Tiles fail to load before reaching createTexture().
+class MockStage {
+  createTexture() {
+    assert.fail('unexpected createTexture');
+  }
+}
+
+eventEmitter(MockStage);
+
+function rejection(promise) {
+  return promise.then(
+    function () {
+      assert.fail('expected rejection');
+    },
+    function (err) {
+      return err;
+    }
+  );
+}
+
+suite('renderToImage', function () {
+  test('rejects invalid sizes', async function () {
+    var sizes = [
+      { width: 0, height: 100 },
+      { width: 100, height: -1 },
+      { width: 100.5, height: 100 },
+    ];
+    for (var i = 0; i < sizes.length; i++) {
+      var err = await rejection(renderToImage(null, [], sizes[i]));
+      assert.include(err.message, 'positive integers');
+    }
+  });
+
+  test('rejects unsupported types', async function () {
+    var err = await rejection(
+      renderToImage(null, [], { width: 1, height: 1, type: 'image/gif' })
+    );
+    assert.strictEqual(err.message, 'Unsupported image type: image/gif');
+  });
+
+  test('rejects invalid qualities', async function () {
+    var err = await rejection(
+      renderToImage(null, [], { width: 1, height: 1, quality: 101 })
+    );
+    assert.include(err.message, 'between 0 and 100');
+  });
+
+  test('rejects projections the renderers cannot draw', async function () {
+    var stage = new MockStage();
+    stage.supportsProjectionMode = function (geometryType, viewType, mode) {
+      return mode !== 'pannini';
+    };
+    var layer = new Layer(
+      {},
+      new EquirectGeometry([{ width: 512 }]),
+      new RectilinearView(),
+      new TextureStore({}, stage)
+    );
+    var err = await rejection(
+      renderToImage(stage, [layer], {
+        width: 1,
+        height: 1,
+        projectionMode: 'pannini',
+      })
+    );
+    assert.include(err.message, 'not supported');
+    layer.destroy();
+  });
+
+  test('rejects if a tile has already failed to load', async function () {
+    var loadError = new Error('load error');
+    var source = {
+      loadAsset: function (_stage, tile, done) {
+        setTimeout(function () {
+          done(loadError, tile);
+        }, 0);
+        return function () {};
+      },
+      shouldRetry: function () {
+        return false;
+      },
+    };
+    var store = new TextureStore(source, new MockStage());
+    var view = new RectilinearView();
+    view.setSize({ width: 100, height: 100 });
+    var layer = new Layer(
+      source,
+      new EquirectGeometry([{ width: 512 }]),
+      view,
+      store
+    );
+
+    // Display the layer until its tile fails to load.
+    var tiles = [];
+    layer.visibleTiles(tiles);
+    await new Promise(function (resolve) {
+      store.addEventListener('textureError', resolve);
+      store.startFrame();
+      tiles.forEach(function (tile) {
+        store.markTile(tile);
+      });
+      store.endFrame();
+    });
+
+    var err = await rejection(
+      renderToImage(null, [layer], { width: 100, height: 100 })
+    );
+    assert.include(err.message, 'Failed to load tiles');
+    assert.isFalse(store.query(tiles[0]).pinned);
+  });
+});
@@ -0,0 +1,501 @@
+import Layer from './Layer';
+import TextureStore from './TextureStore';
+import WebGlStage from './stages/WebGl';
+import RectilinearView, { RectilinearViewParams } from './views/Rectilinear';
+import FlatView, { FlatViewParams } from './views/Flat';
+import { ProjectionMode } from './views/projections';
+import stereo from './stereo';
+import calcRect from './util/calcRect';
+import { Effects, Tile } from './jsdoc-extras';
+
+/**
+ * Options for {@link renderToImage}.
+ */
+export interface RenderToImageOptions {
+  /**
+   * The image width in pixels.
+   */
+  width: number;
+  /**
+   * The image height in pixels.
+   */
+  height: number;
+  /**
+   * View parameters overriding those of the layer views, such as the yaw,
+   * pitch and field of view of a {@link RectilinearView}.
+   */
+  view?: RectilinearViewParams | FlatViewParams;
+  /**
+   * The projection of the rendered {@link RectilinearView views}. Defaults to
+   * the projection of the layer views.
+   */
+  projectionMode?: ProjectionMode;
+  /**
+   * The image format. Browsers unable to encode WebP produce a PNG instead.
+   */
+  type?: 'image/png' | 'image/jpeg' | 'image/webp';
+  /**
+   * The quality of JPEG and WebP images, between 0 and 100.
+   */
+  quality?: number;
+  /**
+   * Whether to produce an encoded `Blob` or an `ImageBitmap`, which skips the
+   * encoding.
+   */
+  output?: 'blob' | 'imageBitmap';
+  /**
+   * Time in milliseconds to wait for the tiles to load before giving up. If
+   * zero, wait indefinitely.
+   */
+  timeout?: number;
+}
+
+// The largest framebuffer rendered into at once. Larger images are rendered
+// in several chunks, which also bounds the memory used on the GPU.
+const maxChunkSize = 4096;
+
+const imageTypes = ['image/png', 'image/jpeg', 'image/webp'];
+
+/**
+ * Renders layers into an image of arbitrary size, independently of the size
+ * of the stage and of whether it is attached to the DOM.
+ *
+ * The layers are rendered through copies of their views, so that the views
+ * on screen are unaffected. Layers whose view type cannot be copied, such as
+ * {@link XrView}, are skipped, and stereoscopic layers are rendered as on the
+ * stage. The image is rendered once all the tiles visible at the resolution
+ * level selected for its size have loaded; the tiles are pinned into the
+ * texture stores until then.
+ *
+ * Images larger than the stage can render at once are rendered in chunks.
+ *
+ * @param {WebGlStage} stage The stage the layer texture stores belong to.
+ * @param {Layer[]} layers The layers to render, from bottom to top. They need
+ *     not have been added to the stage.
+ * @param {RenderToImageOptions} opts
+ * @return {Promise<Blob|ImageBitmap>} A promise resolved with the image, or
+ *     rejected if a tile fails to load or the timeout expires.
+ */
+function renderToImage(
+  stage: WebGlStage,
+  layers: Layer[],
+  opts: RenderToImageOptions
+): Promise<Blob | ImageBitmap> {
+  try {
+    checkImageOptions(opts);
+  } catch (err) {
+    return Promise.reject(err);
+  }
+  return renderToCanvas(stage, layers, opts).then(function (canvas) {
+    return encodeCanvas(canvas, opts);
+  });
+}
+
+/**
+ * Validates the format options of an image.
+ * @param {RenderToImageOptions} opts
+ * @throws An error if the type or quality is invalid.
+ * @private
+ */
+export function checkImageOptions(
+  opts: Pick<RenderToImageOptions, 'type' | 'quality'>
+) {
+  const type = opts.type || 'image/png';
+  const quality = opts.quality != null ? opts.quality : 75;
+  if (imageTypes.indexOf(type) < 0) {
+    throw new Error('Unsupported image type: ' + type);
+  }
+  if (typeof quality !== 'number' || quality < 0 || quality > 100) {
+    throw new Error('Image quality needs to be a number between 0 and 100');
+  }
+}
+
+/**
+ * Renders layers into a 2D canvas, as for {@link renderToImage}.
+ * @param {WebGlStage} stage
+ * @param {Layer[]} layers
+ * @param {RenderToImageOptions} opts
+ * @return {Promise<HTMLCanvasElement>}
+ * @private
+ */
+export function renderToCanvas(
+  stage: WebGlStage,
+  layers: Layer[],
+  opts: RenderToImageOptions
+): Promise<HTMLCanvasElement> {
+  const width = opts.width;
+  const height = opts.height;
+  const timeout = opts.timeout || 0;
+
+  if (!(width > 0 && height > 0) || width % 1 || height % 1) {
+    return Promise.reject(
+      new Error('Image width and height must be positive integers')
+    );
+  }
+  const projectionMode = opts.projectionMode;
+  if (
+    projectionMode &&
+    layers.some(
+      (layer) =>
+        !stage.supportsProjectionMode(
+          layer.geometry().type,
+          layer.view().type,
+          projectionMode
+        )
+    )
+  ) {
+    return Promise.reject(
+      new Error('Projection mode ' + projectionMode + ' not supported')
+    );
+  }
+
+  const copies = copyLayers(layers, opts);
+  for (let i = 0; i < copies.layers.length; i++) {
+    copies.layers[i].view().setSize({ width, height });
+  }
+
+  // Pin the tiles needed for the image, so that rendering the stage in the
+  // meantime does not evict them.
+  const pinned: { store: TextureStore; tile: Tile }[] = [];
+  const tiles: Tile[] = [];
+  for (let i = 0; i < copies.layers.length; i++) {
+    const store = copies.layers[i].textureStore();
+    tiles.length = 0;
+    copies.layers[i].visibleTiles(tiles);
+    for (let j = 0; j < tiles.length; j++) {
+      store.pin(tiles[j]);
+      pinned.push({ store, tile: tiles[j] });
+    }
+  }
+
+  const stores: TextureStore[] = [];
+  for (let i = 0; i < pinned.length; i++) {
+    if (stores.indexOf(pinned[i].store) < 0) {
+      stores.push(pinned[i].store);
+    }
+  }
+
+  return new Promise<HTMLCanvasElement>(function (resolve, reject) {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    function cleanup() {
+      if (timer != null) {
+        clearTimeout(timer);
+      }
+      for (let i = 0; i < stores.length; i++) {
+        stores[i].removeEventListener('textureLoad', check);
+        stores[i].removeEventListener('textureError', fail);
+      }
+      for (let i = 0; i < pinned.length; i++) {
+        pinned[i].store.unpin(pinned[i].tile);
+      }
+      copies.destroy();
+    }
+
+    function check() {
+      for (let i = 0; i < pinned.length; i++) {
+        if (!pinned[i].store.texture(pinned[i].tile)) {
+          return;
+        }
+      }
+      let canvas: HTMLCanvasElement;
+      try {
+        canvas = renderCanvas(stage, copies.layers, copies.effects, opts);
+      } catch (err) {
+        cleanup();
+        reject(err);
+        return;
+      }
+      cleanup();
+      resolve(canvas);
+    }
+
+    function fail(tile: Tile, err: Error) {
+      for (let i = 0; i < pinned.length; i++) {
+        if (pinned[i].tile.equals(tile)) {
+          cleanup();
+          reject(err);
+          return;
+        }
+      }
+    }
+
+    // Tiles that have already failed to load will not emit another error.
+    for (let i = 0; i < pinned.length; i++) {
+      if (pinned[i].store.query(pinned[i].tile).hasError) {
+        cleanup();
+        reject(new Error('Failed to load tiles for the image'));
+        return;
+      }
+    }
+
+    for (let i = 0; i < stores.length; i++) {
+      stores[i].addEventListener('textureLoad', check);
+      stores[i].addEventListener('textureError', fail);
+    }
+    if (timeout > 0) {
+      timer = setTimeout(function () {
+        timer = null;
+        cleanup();
+        reject(new Error('Timed out waiting for tiles to load'));
+      }, timeout);
+    }
+
+    check();
+  });
+}
+
+/**
+ * Encodes a canvas as requested by the options of {@link renderToImage}.
+ * @param {HTMLCanvasElement} canvas
+ * @param {RenderToImageOptions} opts
+ * @return {Promise<Blob|ImageBitmap>}
+ * @private
+ */
+export function encodeCanvas(
+  canvas: HTMLCanvasElement,
+  opts: Pick<RenderToImageOptions, 'type' | 'quality' | 'output'>
+): Promise<Blob | ImageBitmap> {
+  if (opts.output === 'imageBitmap') {
+    return createImageBitmap(canvas);
+  }
+  const type = opts.type || 'image/png';
+  const quality = opts.quality != null ? opts.quality : 75;
+  return new Promise<Blob>(function (resolve, reject) {
+    canvas.toBlob(
+      function (blob) {
+        if (blob) {
+          resolve(blob);
+        } else {
+          reject(new Error('Failed to encode image'));
+        }
+      },
+      type,
+      quality / 100
+    );
+  });
+}
+
+// Creates the layers to render, with copies of the layer views.
+function copyLayers(layers: Layer[], opts: RenderToImageOptions) {
+  const result = {
+    layers: [] as Layer[],
+    effects: [] as Effects[],
+    destroy() {
+      result.layers.forEach((layer) => layer.destroy());
+      views.forEach((view) => view.destroy());
+    },
+  };
+  const views: (RectilinearView | FlatView)[] = [];
+
+  for (let i = 0; i < layers.length; i++) {
+    const layer = layers[i];
+    const view = copyView(layer.view(), opts);
+    if (!view) {
+      continue;
+    }
+    views.push(view);
+
+    const stereoOpts = layer.stereo();
+    const effects = layer.effects() || {};
+    const eyes =
+      !stereoOpts.layout || stereoOpts.layout === 'mono'
+        ? [null]
+        : stereo.outputEyes(stereoOpts.output || 'left');
+
+    for (let j = 0; j < eyes.length; j++) {
+      const eye = eyes[j];
+      const copy = new Layer(
+        layer.source(),
+        layer.geometry(),
+        view,
+        layer.textureStore()
+      );
+      copy.setFixedLevel(layer.fixedLevel());
+      result.layers.push(copy);
+      result.effects.push(
+        eye ? stereo.eyeEffects(effects, stereoOpts, eye) : effects
+      );
+    }
+  }
+
+  return result;
+}
+
+function copyView(view: any, opts: RenderToImageOptions) {
+  if (view instanceof RectilinearView) {
+    return new RectilinearView({
+      ...view.parameters(),
+      ...(opts.view as RectilinearViewParams),
+      projectionMode: opts.projectionMode || view.projectionMode(),
+    });
+  }
+  if (view instanceof FlatView) {
+    return new FlatView({
+      ...view.parameters(),
+      ...(opts.view as FlatViewParams),
+    });
+  }
+  return null;
+}
+
+// Renders the layers chunk by chunk into a 2D canvas of the image size.
+function renderCanvas(
+  stage: WebGlStage,
+  layers: Layer[],
+  effects: Effects[],
+  opts: RenderToImageOptions
+) {
+  const gl = stage.webGlContext();
+  if (!gl) {
+    throw new Error('Bad WebGL context - maybe context was lost?');
+  }
+
+  const width = opts.width;
+  const height = opts.height;
+  const viewportDims = gl.getParameter(gl.MAX_VIEWPORT_DIMS);
+  const maxSize = Math.min(
+    maxChunkSize,
+    stage.maxTextureSize(),
+    gl.getParameter(gl.MAX_RENDERBUFFER_SIZE),
+    viewportDims[0],
+    viewportDims[1]
+  );
+  const chunkWidth = Math.min(width, maxSize);
+  const chunkHeight = Math.min(height, maxSize);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Failed to create image canvas');
+  }
+  const imageData = context.createImageData(chunkWidth, chunkHeight);
+  const pixels = new Uint8Array(chunkWidth * chunkHeight * 4);
+
+  const texture = gl.createTexture();
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texImage2D(
+    gl.TEXTURE_2D,
+    0,
+    gl.RGBA,
+    chunkWidth,
+    chunkHeight,
+    0,
+    gl.RGBA,
+    gl.UNSIGNED_BYTE,
+    null
+  );
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+  gl.bindTexture(gl.TEXTURE_2D, null);
+
+  const depthBuffer = gl.createRenderbuffer();
+  gl.bindRenderbuffer(gl.RENDERBUFFER, depthBuffer);
+  gl.renderbufferStorage(
+    gl.RENDERBUFFER,
+    gl.DEPTH_COMPONENT16,
+    chunkWidth,
+    chunkHeight
+  );
+  gl.bindRenderbuffer(gl.RENDERBUFFER, null);
+
+  const framebuffer = gl.createFramebuffer();
+  gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+  gl.framebufferTexture2D(
+    gl.FRAMEBUFFER,
+    gl.COLOR_ATTACHMENT0,
+    gl.TEXTURE_2D,
+    texture,
+    0
+  );
+  gl.framebufferRenderbuffer(
+    gl.FRAMEBUFFER,
+    gl.DEPTH_ATTACHMENT,
+    gl.RENDERBUFFER,
+    depthBuffer
+  );
+
+  const renderers = layers.map((layer) => stage.createRendererForLayer(layer));
+  const rect = { x: 0, y: 0, width: 0, height: 0 };
+
+  try {
+    if (gl.checkFramebufferStatus(gl.FRAMEBUFFER) !== gl.FRAMEBUFFER_COMPLETE) {
+      throw new Error('Failed to create image framebuffer');
+    }
+
+    stage.setRenderTarget(framebuffer, {
+      width: chunkWidth,
+      height: chunkHeight,
+    });
+
+    for (let y = 0; y < height; y += chunkHeight) {
+      for (let x = 0; x < width; x += chunkWidth) {
+        // Position the layers relative to the chunk. The parts outside the
+        // chunk are clipped by the renderers.
+        for (let i = 0; i < layers.length; i++) {
+          calcRect(width, height, effects[i].rect, rect);
+          layers[i].setEffects({
+            ...effects[i],
+            rect: {
+              absoluteX: rect.x * width - x,
+              absoluteY: rect.y * height - y,
+              absoluteWidth: rect.width * width,
+              absoluteHeight: rect.height * height,
+            },
+          });
+        }
+
+        stage.renderLayers(layers, renderers, chunkWidth, chunkHeight);
+
+        gl.readPixels(
+          0,
+          0,
+          chunkWidth,
+          chunkHeight,
+          gl.RGBA,
+          gl.UNSIGNED_BYTE,
+          pixels
+        );
+        copyPixels(pixels, imageData.data, chunkWidth, chunkHeight);
+        context.putImageData(imageData, x, y);
+      }
+    }
+  } finally {
+    stage.setRenderTarget(null);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    gl.deleteFramebuffer(framebuffer);
+    gl.deleteRenderbuffer(depthBuffer);
+    gl.deleteTexture(texture);
+    for (let i = 0; i < renderers.length; i++) {
+      stage.destroyRenderer(renderers[i]);
+    }
+  }
+
+  return canvas;
+}
+
+// Copies pixels read from a framebuffer into image data, which is stored top
+// to bottom and without premultiplied alpha.
+function copyPixels(
+  src: Uint8Array,
+  dst: Uint8ClampedArray,
+  width: number,
+  height: number
+) {
+  const rowSize = width * 4;
+  for (let row = 0; row < height; row++) {
+    const srcOffset = (height - row - 1) * rowSize;
+    const dstOffset = row * rowSize;
+    for (let i = 0; i < rowSize; i += 4) {
+      const alpha = src[srcOffset + i + 3];
+      const scale = alpha > 0 ? 255 / alpha : 0;
+      dst[dstOffset + i] = src[srcOffset + i] * scale;
+      dst[dstOffset + i + 1] = src[srcOffset + i + 1] * scale;
+      dst[dstOffset + i + 2] = src[srcOffset + i + 2] * scale;
+      dst[dstOffset + i + 3] = alpha;
+    }
+  }
+}
+
+export default renderToImage;
@@ -0,0 +1,328 @@
+import { mat4 as mat4 } from 'gl-matrix';
+import { vec3 as vec3 } from 'gl-matrix';
+import clearOwnProperties from '../util/clearOwnProperties';
+
+import WebGlCommon from './WebGlCommon';
+var createConstantBuffers = WebGlCommon.createConstantBuffers;
+var destroyConstantBuffers = WebGlCommon.destroyConstantBuffers;
+var ShaderProgramCache = WebGlCommon.ShaderProgramCache;
+var setViewport = WebGlCommon.setViewport;
+var setupPixelEffectUniforms = WebGlCommon.setupPixelEffectUniforms;
+var setupShaderEffectUniforms = WebGlCommon.setupShaderEffectUniforms;
+var setupTextureCropUniform = WebGlCommon.setupTextureCropUniform;
+var computeDepth = WebGlCommon.computeDepth;
+
+import vertexSrc from '../shaders/vertexInstanced';
+import fragmentSrc from '../shaders/fragmentInstanced';
+
+var vertexIndices = [0, 1, 2, 0, 2, 3];
+var vertexPositions = [
+  -0.5, -0.5, 0.0, 0.5, -0.5, 0.0, 0.5, 0.5, 0.0, -0.5, 0.5, 0.0,
+];
+var textureCoords = [0.0, 0.0, 1.0, 0.0, 1.0, 1.0, 0.0, 1.0];
+
+var attribList = [
+  'aVertexPosition',
+  'aTextureCoord',
+  'aTileMatrix',
+  'aTileParams',
+];
+var uniformList = [
+  'uOpacity',
+  'uSampler',
+  'uViewportMatrix',
+  'uTextureCrop',
+  'uColorOffset',
+  'uColorMatrix',
+];
+
+// Per-instance data: the 16 elements of the tile matrix, followed by the depth
+// and the texture layer.
+var instanceSize = 18;
+var instanceBytes = instanceSize * Float32Array.BYTES_PER_ELEMENT;
+
+// Initial number of instances the instance buffer has room for.
+var initialCapacity = 64;
+
+/**
+ * @class WebGl2BaseRenderer
+ * @implements Renderer
+ * @classdesc
+ *
+ * Base class for renderers drawing all visible tiles of a layer with as few
+ * instanced draw calls as possible, appropriate for a {@link WebGl2Stage}.
+ *
+ * Tiles are collected by renderTile() and drawn by endLayer(). Consecutive
+ * tiles whose textures share the same array texture are drawn together; the
+ * rendering order is otherwise the same as for {@link WebGlBaseRenderer}.
+ */
+class WebGl2BaseRenderer {
+  constructor(gl) {
+    this.gl = gl;
+
+    // The tile matrix positions a tile in world space.
+    // We compute it in Javascript because lack of precision in the vertex shader
+    // causes seams to appear between adjacent tiles at large zoom levels.
+    this.tileMatrix = mat4.create();
+
+    // The viewport matrix responsible for viewport clamping.
+    // See setViewport() for an explanation of how it works.
+    this.viewportMatrix = mat4.create();
+
+    // Translation and scale vectors for tiles.
+    this.translateVector = vec3.create();
+    this.scaleVector = vec3.create();
+
+    // Instance data for the tiles collected since the last draw call, and the
+    // array texture they are stored in.
+    this.instanceData = new Float32Array(initialCapacity * instanceSize);
+    this.instanceCount = 0;
+    this.instanceArray = null;
+
+    this.constantBuffers = createConstantBuffers(
+      gl,
+      vertexIndices,
+      vertexPositions,
+      textureCoords
+    );
+
+    this.instanceBuffer = gl.createBuffer();
+
+    this.shaderPrograms = new ShaderProgramCache(
+      gl,
+      vertexSrc,
+      fragmentSrc,
+      attribList,
+      uniformList
+    );
+    this.shaderProgram = this.shaderPrograms.get(null);
+
+    // The vertex array objects capture the attribute setup, which therefore
+    // does not interfere with renderers using the default vertex array. The
+    // attribute locations may differ between programs, so each program has
+    // its own vertex array.
+    this.vertexArrays = new Map();
+    this._vertexArray(this.shaderProgram);
+  }
+  destroy() {
+    var gl = this.gl;
+    this.vertexArrays.forEach(function (vertexArray) {
+      gl.deleteVertexArray(vertexArray);
+    });
+    gl.deleteBuffer(this.instanceBuffer);
+    destroyConstantBuffers(gl, this.constantBuffers);
+    this.shaderPrograms.destroy();
+    clearOwnProperties(this);
+  }
+  _vertexArray(shaderProgram) {
+    var vertexArray = this.vertexArrays.get(shaderProgram);
+    if (!vertexArray) {
+      vertexArray = this.gl.createVertexArray();
+      this._setupVertexArray(vertexArray, shaderProgram);
+      this.vertexArrays.set(shaderProgram, vertexArray);
+    }
+    return vertexArray;
+  }
+  _setupVertexArray(vertexArray, shaderProgram) {
+    var gl = this.gl;
+    var constantBuffers = this.constantBuffers;
+
+    gl.bindVertexArray(vertexArray);
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, constantBuffers.vertexPositions);
+    gl.enableVertexAttribArray(shaderProgram.aVertexPosition);
+    gl.vertexAttribPointer(
+      shaderProgram.aVertexPosition,
+      3,
+      gl.FLOAT,
+      false,
+      0,
+      0
+    );
+
+    // Programs computing the texture coordinates per pixel have none.
+    if (shaderProgram.aTextureCoord != null) {
+      gl.bindBuffer(gl.ARRAY_BUFFER, constantBuffers.textureCoords);
+      gl.enableVertexAttribArray(shaderProgram.aTextureCoord);
+      gl.vertexAttribPointer(
+        shaderProgram.aTextureCoord,
+        2,
+        gl.FLOAT,
+        false,
+        0,
+        0
+      );
+    }
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.instanceBuffer);
+    gl.bufferData(
+      gl.ARRAY_BUFFER,
+      this.instanceData.byteLength,
+      gl.DYNAMIC_DRAW
+    );
+
+    // A matrix attribute occupies one location per column.
+    for (var i = 0; i < 4; i++) {
+      var location = shaderProgram.aTileMatrix + i;
+      gl.enableVertexAttribArray(location);
+      gl.vertexAttribPointer(
+        location,
+        4,
+        gl.FLOAT,
+        false,
+        instanceBytes,
+        i * 4 * Float32Array.BYTES_PER_ELEMENT
+      );
+      gl.vertexAttribDivisor(location, 1);
+    }
+
+    gl.enableVertexAttribArray(shaderProgram.aTileParams);
+    gl.vertexAttribPointer(
+      shaderProgram.aTileParams,
+      2,
+      gl.FLOAT,
+      false,
+      instanceBytes,
+      16 * Float32Array.BYTES_PER_ELEMENT
+    );
+    gl.vertexAttribDivisor(shaderProgram.aTileParams, 1);
+
+    gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, constantBuffers.vertexIndices);
+
+    gl.bindVertexArray(null);
+  }
+  startLayer(layer, rect) {
+    var gl = this.gl;
+    // Use the program for the shader effects of the layer.
+    var shaderPrograms = this._shaderProgramsForLayer(layer);
+    var shaderProgram = shaderPrograms.get(layer.effects());
+    this.shaderProgram = shaderProgram;
+    var viewportMatrix = this.viewportMatrix;
+
+    gl.useProgram(shaderProgram);
+
+    gl.bindVertexArray(this._vertexArray(shaderProgram));
+
+    setViewport(gl, layer, rect, viewportMatrix);
+    gl.uniformMatrix4fv(shaderProgram.uViewportMatrix, false, viewportMatrix);
+
+    gl.activeTexture(gl.TEXTURE0);
+    gl.uniform1i(shaderProgram.uSampler, 0);
+
+    setupTextureCropUniform(gl, layer.effects(), shaderProgram.uTextureCrop);
+
+    setupPixelEffectUniforms(gl, layer.effects(), {
+      opacity: shaderProgram.uOpacity,
+      colorOffset: shaderProgram.uColorOffset,
+      colorMatrix: shaderProgram.uColorMatrix,
+    });
+
+    setupShaderEffectUniforms(
+      gl,
+      shaderProgram,
+      layer.effects(),
+      rect,
+      shaderPrograms
+    );
+
+    this.instanceCount = 0;
+    this.instanceArray = null;
+  }
+  endLayer(layer, rect) {
+    var gl = this.gl;
+
+    this._flush();
+
+    gl.bindVertexArray(null);
+    gl.bindTexture(gl.TEXTURE_2D_ARRAY, null);
+  }
+  renderTile(tile, texture, layer, layerZ) {
+    var tileMatrix = this.tileMatrix;
+
+    // Tiles stored in a different array texture cannot be drawn together with
+    // the ones collected so far.
+    if (texture._array !== this.instanceArray) {
+      this._flush();
+      this.instanceArray = texture._array;
+    }
+
+    this._computeTileMatrix(tileMatrix, tile, layer);
+
+    this._reserve(this.instanceCount + 1);
+
+    var offset = this.instanceCount * instanceSize;
+    this.instanceData.set(tileMatrix, offset);
+    this.instanceData[offset + 16] = computeDepth(layerZ, tile.z);
+    this.instanceData[offset + 17] = texture._layer;
+    this.instanceCount++;
+  }
+  // Returns the shader programs drawing a layer.
+  _shaderProgramsForLayer(_layer) {
+    return this.shaderPrograms;
+  }
+  // Computes the per-instance matrix of a tile, which positions it on the
+  // screen.
+  _computeTileMatrix(out, tile, layer) {
+    var translateVector = this.translateVector;
+    var scaleVector = this.scaleVector;
+
+    translateVector[0] = tile.centerX();
+    translateVector[1] = tile.centerY();
+    translateVector[2] = -0.5;
+
+    scaleVector[0] = tile.scaleX();
+    scaleVector[1] = tile.scaleY();
+    scaleVector[2] = 1.0;
+
+    mat4.copy(out, layer.view().projection());
+    mat4.rotateX(out, out, tile.rotX());
+    mat4.rotateY(out, out, tile.rotY());
+    mat4.translate(out, out, translateVector);
+    mat4.scale(out, out, scaleVector);
+  }
+  _reserve(count) {
+    var data = this.instanceData;
+    if (count * instanceSize <= data.length) {
+      return;
+    }
+    var capacity = data.length / instanceSize;
+    while (capacity < count) {
+      capacity *= 2;
+    }
+    this.instanceData = new Float32Array(capacity * instanceSize);
+    this.instanceData.set(data);
+  }
+  _flush() {
+    var gl = this.gl;
+    var count = this.instanceCount;
+
+    if (count === 0) {
+      return;
+    }
+
+    gl.bindTexture(gl.TEXTURE_2D_ARRAY, this.instanceArray.texture);
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.instanceBuffer);
+    gl.bufferData(
+      gl.ARRAY_BUFFER,
+      this.instanceData.subarray(0, count * instanceSize),
+      gl.DYNAMIC_DRAW
+    );
+
+    gl.drawElementsInstanced(
+      gl.TRIANGLES,
+      vertexIndices.length,
+      gl.UNSIGNED_SHORT,
+      0,
+      count
+    );
+
+    this.instanceCount = 0;
+  }
+}
+
+// Instanced renderers require their textures to be stored in array textures.
+// See WebGl2Stage#textureClassForTile.
+WebGl2BaseRenderer.instanced = true;
+
+export default WebGl2BaseRenderer;
@@ -0,0 +1,229 @@
+import { suite, test, assert } from 'vitest';
+import { mat4 as mat4 } from 'gl-matrix';
+
+import WebGl2BaseRenderer from './WebGl2Base';
+
+// A WebGL 2 context recording its calls. Constants are named after themselves,
+// attributes are given distinct locations, and other methods return a truthy
+// value, such that shaders compile and programs link. Typed array arguments
+// are copied, since the renderer reuses them.
+function recordingWebGlContext() {
+  var calls = [];
+  var nextLocation = 0;
+  var gl = new Proxy(
+    {
+      calls: calls,
+      drawingBufferWidth: 400,
+      drawingBufferHeight: 300,
+      getAttribLocation: function () {
+        return nextLocation++;
+      },
+    },
+    {
+      get: function (target, property) {
+        if (!(property in target)) {
+          target[property] = /^[A-Z0-9_]+$/.test(property)
+            ? property
+            : function () {
+                var args = [].slice.call(arguments).map(function (arg) {
+                  return ArrayBuffer.isView(arg) ? arg.slice() : arg;
+                });
+                calls.push([property].concat(args));
+                return {};
+              };
+        }
+        return target[property];
+      },
+    }
+  );
+  return gl;
+}
+
+function callsTo(gl, name) {
+  return gl.calls.filter(function (call) {
+    return call[0] === name;
+  });
+}
+
+// Returns the instance data uploaded by each draw.
+function instanceUploads(gl) {
+  return callsTo(gl, 'bufferData')
+    .filter(function (call) {
+      return ArrayBuffer.isView(call[2]) && call[3] === 'DYNAMIC_DRAW';
+    })
+    .map(function (call) {
+      return call[2];
+    });
+}
+
+var fullRect = { x: 0, y: 0, width: 1, height: 1 };
+
+function mockLayer(effects) {
+  var projection = mat4.create();
+  return {
+    effects: function () {
+      return effects || {};
+    },
+    view: function () {
+      return {
+        projection: function () {
+          return projection;
+        },
+      };
+    },
+  };
+}
+
+function mockTile() {
+  return {
+    z: 0,
+    centerX: function () {
+      return 0;
+    },
+    centerY: function () {
+      return 0;
+    },
+    scaleX: function () {
+      return 1;
+    },
+    scaleY: function () {
+      return 1;
+    },
+    rotX: function () {
+      return 0;
+    },
+    rotY: function () {
+      return 0;
+    },
+  };
+}
+
+function mockArray() {
+  return { texture: {}, width: 256, height: 256, free: [] };
+}
+
+suite('WebGl2BaseRenderer', function () {
+  test('draws consecutive tiles of an array texture together', function () {
+    var gl = recordingWebGlContext();
+    var renderer = new WebGl2BaseRenderer(gl);
+    var layer = mockLayer();
+    var first = mockArray();
+    var second = mockArray();
+
+    renderer.startLayer(layer, fullRect);
+    renderer.renderTile(mockTile(), { _array: first, _layer: 3 }, layer, 0);
+    renderer.renderTile(mockTile(), { _array: first, _layer: 5 }, layer, 0);
+    renderer.renderTile(mockTile(), { _array: second, _layer: 0 }, layer, 0);
+    renderer.renderTile(mockTile(), { _array: first, _layer: 1 }, layer, 0);
+    renderer.endLayer(layer, fullRect);
+
+    var draws = callsTo(gl, 'drawElementsInstanced');
+    assert.deepEqual(
+      draws.map(function (call) {
+        return call[5];
+      }),
+      [2, 1, 1]
+    );
+
+    var bound = callsTo(gl, 'bindTexture')
+      .filter(function (call) {
+        return call[2] != null;
+      })
+      .map(function (call) {
+        return call[2];
+      });
+    assert.lengthOf(bound, 3);
+    assert.strictEqual(bound[0], first.texture);
+    assert.strictEqual(bound[1], second.texture);
+    assert.strictEqual(bound[2], first.texture);
+
+    // The instance data of the first draw holds the layers of both tiles.
+    var data = instanceUploads(gl)[0];
+    assert.lengthOf(data, 36);
+    assert.strictEqual(data[17], 3);
+    assert.strictEqual(data[35], 5);
+    renderer.destroy();
+  });
+
+  test('draws nothing for a layer without tiles', function () {
+    var gl = recordingWebGlContext();
+    var renderer = new WebGl2BaseRenderer(gl);
+    var layer = mockLayer();
+    renderer.startLayer(layer, fullRect);
+    renderer.endLayer(layer, fullRect);
+    assert.lengthOf(callsTo(gl, 'drawElementsInstanced'), 0);
+    renderer.destroy();
+  });
+
+  test('grows the instance data to fit the tiles of a layer', function () {
+    var gl = recordingWebGlContext();
+    var renderer = new WebGl2BaseRenderer(gl);
+    var layer = mockLayer();
+    var array = mockArray();
+
+    renderer.startLayer(layer, fullRect);
+    for (var i = 0; i < 100; i++) {
+      renderer.renderTile(mockTile(), { _array: array, _layer: i }, layer, 0);
+    }
+    renderer.endLayer(layer, fullRect);
+
+    var draws = callsTo(gl, 'drawElementsInstanced');
+    assert.lengthOf(draws, 1);
+    assert.strictEqual(draws[0][5], 100);
+
+    var data = instanceUploads(gl)[0];
+    assert.lengthOf(data, 100 * 18);
+    for (var j = 0; j < 100; j++) {
+      assert.strictEqual(data[j * 18 + 17], j);
+    }
+    renderer.destroy();
+  });
+
+  test('sets up a vertex array for each shader program', function () {
+    var gl = recordingWebGlContext();
+    var renderer = new WebGl2BaseRenderer(gl);
+    var plainLayer = mockLayer();
+    var effectLayer = mockLayer({ shaders: [{ name: 'vignette' }] });
+    var plainProgram = renderer.shaderPrograms.get(plainLayer.effects());
+    var effectProgram = renderer.shaderPrograms.get(effectLayer.effects());
+    assert.notEqual(
+      effectProgram.aVertexPosition,
+      plainProgram.aVertexPosition
+    );
+
+    renderer.startLayer(effectLayer, fullRect);
+    renderer.endLayer(effectLayer, fullRect);
+    renderer.startLayer(plainLayer, fullRect);
+    renderer.endLayer(plainLayer, fullRect);
+    renderer.startLayer(effectLayer, fullRect);
+    renderer.endLayer(effectLayer, fullRect);
+
+    var created = callsTo(gl, 'createVertexArray');
+    assert.lengthOf(created, 2);
+    assert.strictEqual(renderer.vertexArrays.size, 2);
+
+    // Each vertex array points the attributes of its own program.
+    var enabled = callsTo(gl, 'enableVertexAttribArray').map(function (call) {
+      return call[1];
+    });
+    assert.include(enabled, plainProgram.aVertexPosition);
+    assert.include(enabled, effectProgram.aVertexPosition);
+
+    var effectArray = renderer.vertexArrays.get(effectProgram);
+    var plainArray = renderer.vertexArrays.get(plainProgram);
+    assert.notEqual(effectArray, plainArray);
+
+    // Setting up a vertex array binds it once, and each layer binds its own.
+    var bound = callsTo(gl, 'bindVertexArray')
+      .filter(function (call) {
+        return call[1] != null;
+      })
+      .map(function (call) {
+        return call[1] === plainArray ? 'plain' : 'effect';
+      });
+    assert.deepEqual(bound, ['plain', 'effect', 'effect', 'plain', 'effect']);
+
+    renderer.destroy();
+    assert.lengthOf(callsTo(gl, 'deleteVertexArray'), 2);
+  });
+});
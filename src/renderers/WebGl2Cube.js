@@ -0,0 +1,85 @@
+import WebGl2BaseRenderer from './WebGl2Base';
+import WebGlCommon from './WebGlCommon';
+var ShaderProgramCache = WebGlCommon.ShaderProgramCache;
+var computeInverseTileMatrix = WebGlCommon.computeInverseTileMatrix;
+var projectionModeIndex = WebGlCommon.projectionModeIndex;
+var setupProjectionUniforms = WebGlCommon.setupProjectionUniforms;
+
+import { projectionModes } from '../views/projections';
+
+import vertexSrc from '../shaders/vertexInstancedProjection';
+import fragmentSrc from '../shaders/fragmentInstancedProjection';
+
+var attribList = ['aVertexPosition', 'aTileMatrix', 'aTileParams'];
+var uniformList = [
+  'uOpacity',
+  'uSampler',
+  'uViewportMatrix',
+  'uTextureCrop',
+  'uColorOffset',
+  'uColorMatrix',
+  'uProjectionMode',
+  'uProjectionMix',
+  'uProjectionScale',
+  'uInvRotMatrix',
+];
+
+/**
+ * @class WebGl2CubeRenderer
+ * @implements Renderer
+ * @classdesc
+ *
+ * An instanced renderer for {@link CubeGeometry} and {@link RectilinearView},
+ * appropriate for a {@link WebGl2Stage}.
+ *
+ * Projections other than the rectilinear one are computed per pixel, as by
+ * {@link WebGlCubeRenderer}.
+ *
+ * Most users do not need to instantiate this class. Renderers are created and
+ * destroyed by {@link Stage} as necessary.
+ */
+class WebGl2CubeRenderer extends WebGl2BaseRenderer {
+  constructor(gl) {
+    super(gl);
+
+    // Whether the current layer is drawn per pixel.
+    this.projecting = false;
+
+    this.projectionPrograms = new ShaderProgramCache(
+      gl,
+      vertexSrc,
+      fragmentSrc,
+      attribList,
+      uniformList
+    );
+  }
+  destroy() {
+    this.projectionPrograms.destroy();
+    super.destroy();
+  }
+  startLayer(layer, rect) {
+    this.projecting = projectionModeIndex(layer.view()) !== 0;
+    super.startLayer(layer, rect);
+    if (this.projecting) {
+      setupProjectionUniforms(this.gl, this.shaderProgram, layer.view());
+    }
+  }
+  _shaderProgramsForLayer(layer) {
+    return projectionModeIndex(layer.view()) !== 0
+      ? this.projectionPrograms
+      : this.shaderPrograms;
+  }
+  _computeTileMatrix(out, tile, layer) {
+    if (this.projecting) {
+      // The shaders find the pixels within the tile from its inverse matrix.
+      computeInverseTileMatrix(out, tile);
+      return;
+    }
+    super._computeTileMatrix(out, tile, layer);
+  }
+}
+
+// The renderer draws every projection mode.
+WebGl2CubeRenderer.projectionModes = projectionModes;
+
+export default WebGl2CubeRenderer;
@@ -0,0 +1,181 @@
+import { suite, test, assert } from 'vitest';
+import { mat4 as mat4 } from 'gl-matrix';
+
+import WebGl2CubeRenderer from './WebGl2Cube';
+
+// A WebGL 2 context recording its calls. Constants are named after themselves,
+// attributes are given distinct locations, and other methods return a truthy
+// value, such that shaders compile and programs link. Typed array arguments
+// are copied, since the renderer reuses them.
+function recordingWebGlContext() {
+  var calls = [];
+  var nextLocation = 0;
+  var gl = new Proxy(
+    {
+      calls: calls,
+      drawingBufferWidth: 400,
+      drawingBufferHeight: 300,
+      getAttribLocation: function () {
+        return nextLocation++;
+      },
+    },
+    {
+      get: function (target, property) {
+        if (!(property in target)) {
+          target[property] = /^[A-Z0-9_]+$/.test(property)
+            ? property
+            : function () {
+                var args = [].slice.call(arguments).map(function (arg) {
+                  return ArrayBuffer.isView(arg) ? arg.slice() : arg;
+                });
+                calls.push([property].concat(args));
+                return {};
+              };
+        }
+        return target[property];
+      },
+    }
+  );
+  return gl;
+}
+
+// Returns the instance data uploaded by each draw.
+function instanceUploads(gl) {
+  return gl.calls
+    .filter(function (call) {
+      return (
+        call[0] === 'bufferData' &&
+        ArrayBuffer.isView(call[2]) &&
+        call[3] === 'DYNAMIC_DRAW'
+      );
+    })
+    .map(function (call) {
+      return call[2];
+    });
+}
+
+function mockLayer(mode) {
+  // The identity projection leaves the tiles in world space.
+  var projection = mat4.create();
+  var inverseRotation = mat4.create();
+  return {
+    effects: function () {
+      return {};
+    },
+    view: function () {
+      return {
+        projection: function () {
+          return projection;
+        },
+        projectionMode: function () {
+          return mode;
+        },
+        projectionMix: function () {
+          return 1;
+        },
+        projectionScale: function () {
+          return 2;
+        },
+        width: function () {
+          return 400;
+        },
+        height: function () {
+          return 300;
+        },
+        inverseRotation: function () {
+          return inverseRotation;
+        },
+      };
+    },
+  };
+}
+
+function mockTile() {
+  return {
+    z: 1,
+    centerX: function () {
+      return 0.25;
+    },
+    centerY: function () {
+      return -0.25;
+    },
+    scaleX: function () {
+      return 0.5;
+    },
+    scaleY: function () {
+      return 0.5;
+    },
+    rotX: function () {
+      return Math.PI / 2;
+    },
+    rotY: function () {
+      return Math.PI;
+    },
+  };
+}
+
+var fullRect = { x: 0, y: 0, width: 1, height: 1 };
+
+suite('WebGl2CubeRenderer', function () {
+  test('draws other projections per pixel', function () {
+    var gl = recordingWebGlContext();
+    var renderer = new WebGl2CubeRenderer(gl);
+    var array = { texture: {}, width: 256, height: 256, free: [] };
+    var texture = { _array: array, _layer: 2 };
+
+    var layer = mockLayer('rectilinear');
+    renderer.startLayer(layer, fullRect);
+    renderer.renderTile(mockTile(), texture, layer, 0);
+    renderer.endLayer(layer, fullRect);
+
+    layer = mockLayer('equisolid');
+    renderer.startLayer(layer, fullRect);
+    renderer.renderTile(mockTile(), texture, layer, 0);
+    renderer.endLayer(layer, fullRect);
+    var shaderProgram = renderer.shaderProgram;
+    assert.strictEqual(
+      shaderProgram,
+      renderer.projectionPrograms.get(layer.effects())
+    );
+    assert.isTrue(
+      gl.calls.some(function (call) {
+        return (
+          call[0] === 'uniform1i' &&
+          call[1] === shaderProgram.uProjectionMode &&
+          call[2] === 2
+        );
+      })
+    );
+
+    // The instance matrix is the inverse of the one positioning the tile.
+    var uploads = instanceUploads(gl);
+    assert.lengthOf(uploads, 2);
+    var tileMatrix = uploads[0].subarray(0, 16);
+    var invTileMatrix = uploads[1].subarray(0, 16);
+    var product = mat4.multiply(mat4.create(), invTileMatrix, tileMatrix);
+    var identity = mat4.create();
+    for (var i = 0; i < 16; i++) {
+      assert.closeTo(product[i], identity[i], 1e-6);
+    }
+    assert.strictEqual(uploads[1][17], 2);
+    renderer.destroy();
+  });
+
+  test('sets up vertex arrays without texture coordinates', function () {
+    var gl = recordingWebGlContext();
+    var renderer = new WebGl2CubeRenderer(gl);
+    var layer = mockLayer('pannini');
+    renderer.startLayer(layer, fullRect);
+    renderer.endLayer(layer, fullRect);
+
+    var shaderProgram = renderer.projectionPrograms.get(layer.effects());
+    assert.isUndefined(shaderProgram.aTextureCoord);
+    assert.isTrue(renderer.vertexArrays.has(shaderProgram));
+    gl.calls.forEach(function (call) {
+      if (call[0] === 'enableVertexAttribArray') {
+        assert.isNumber(call[1]);
+      }
+    });
+    renderer.destroy();
+  });
+});
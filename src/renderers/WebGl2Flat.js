@@ -0,0 +1,20 @@
+import WebGl2BaseRenderer from './WebGl2Base';
+
+/**
+ * @class WebGl2FlatRenderer
+ * @implements Renderer
+ * @classdesc
+ *
+ * An instanced renderer for {@link FlatGeometry} and {@link FlatView},
+ * appropriate for a {@link WebGl2Stage}.
+ *
+ * Most users do not need to instantiate this class. Renderers are created and
+ * destroyed by {@link Stage} as necessary.
+ */
+class WebGl2FlatRenderer extends WebGl2BaseRenderer {
+  constructor(...args) {
+    super(...args);
+  }
+}
+
+export default WebGl2FlatRenderer;
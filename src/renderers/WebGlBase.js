@@ -20,12 +20,13 @@ import clearOwnProperties from '../util/clearOwnProperties';
 import WebGlCommon from './WebGlCommon';
 var createConstantBuffers = WebGlCommon.createConstantBuffers;
 var destroyConstantBuffers = WebGlCommon.destroyConstantBuffers;
-var createShaderProgram = WebGlCommon.createShaderProgram;
-var destroyShaderProgram = WebGlCommon.destroyShaderProgram;
+var ShaderProgramCache = WebGlCommon.ShaderProgramCache;
 var enableAttributes = WebGlCommon.enableAttributes;
 var disableAttributes = WebGlCommon.disableAttributes;
 var setViewport = WebGlCommon.setViewport;
 var setupPixelEffectUniforms = WebGlCommon.setupPixelEffectUniforms;
+var setupShaderEffectUniforms = WebGlCommon.setupShaderEffectUniforms;
+var setupTextureCropUniform = WebGlCommon.setupTextureCropUniform;
 
 var setDepth = WebGlCommon.setDepth;
 var setTexture = WebGlCommon.setTexture;
@@ -46,6 +47,7 @@ var uniformList = [
   'uSampler',
   'uProjMatrix',
   'uViewportMatrix',
+  'uTextureCrop',
   'uColorOffset',
   'uColorMatrix',
 ];
@@ -74,22 +76,25 @@ class WebGlBaseRenderer {
       textureCoords
     );
 
-    this.shaderProgram = createShaderProgram(
+    this.shaderPrograms = new ShaderProgramCache(
       gl,
       vertexSrc,
       fragmentSrc,
       attribList,
       uniformList
     );
+    this.shaderProgram = this.shaderPrograms.get(null);
   }
   destroy() {
     destroyConstantBuffers(this.gl, this.constantBuffers);
-    destroyShaderProgram(this.gl, this.shaderProgram);
+    this.shaderPrograms.destroy();
     clearOwnProperties(this);
   }
   startLayer(layer, rect) {
     var gl = this.gl;
-    var shaderProgram = this.shaderProgram;
+    // Use the program for the shader effects of the layer.
+    var shaderProgram = this.shaderPrograms.get(layer.effects());
+    this.shaderProgram = shaderProgram;
     var constantBuffers = this.constantBuffers;
     var viewportMatrix = this.viewportMatrix;
 
@@ -119,11 +124,21 @@ class WebGlBaseRenderer {
       0
     );
 
+    setupTextureCropUniform(gl, layer.effects(), shaderProgram.uTextureCrop);
+
     setupPixelEffectUniforms(gl, layer.effects(), {
       opacity: shaderProgram.uOpacity,
       colorOffset: shaderProgram.uColorOffset,
       colorMatrix: shaderProgram.uColorMatrix,
     });
+
+    setupShaderEffectUniforms(
+      gl,
+      shaderProgram,
+      layer.effects(),
+      rect,
+      this.shaderPrograms
+    );
   }
   endLayer(layer, rect) {
     var gl = this.gl;
@@ -18,6 +18,15 @@ var MAX_LAYERS = 256; // Max number of layers per stage.
 var MAX_LEVELS = 256; // Max number of levels per layer.
 
 import clamp from '../util/clamp';
+import clearOwnProperties from '../util/clearOwnProperties';
+import {
+  composeShaderEffects,
+  shaderEffect,
+  shaderEffectImageVersion,
+  shaderEffectsKey,
+  shaderEffectUniforms,
+} from '../shaderEffects';
+import { projectionModes } from '../views/projections';
 import { vec4 as vec4 } from 'gl-matrix';
 import { vec3 as vec3 } from 'gl-matrix';
 import { mat4 as mat4 } from 'gl-matrix';
@@ -32,15 +41,26 @@ function createShader(gl, type, src) {
   return shader;
 }
 
+// Creates a shader program and looks up its attribute and uniform locations,
+// which are stored as properties of the program.
+//
+// Fragment shaders supporting shader effects are composed with the given list
+// of effects, or with none. The locations of the effect uniforms are stored
+// into the effectUniforms property.
 function createShaderProgram(
   gl,
   vertexSrc,
   fragmentSrc,
   attribList,
-  uniformList
+  uniformList,
+  shaderEffects
 ) {
   var vertexShader = createShader(gl, gl.VERTEX_SHADER, vertexSrc);
-  var fragmentShader = createShader(gl, gl.FRAGMENT_SHADER, fragmentSrc);
+  var fragmentShader = createShader(
+    gl,
+    gl.FRAGMENT_SHADER,
+    composeShaderEffects(fragmentSrc, shaderEffects)
+  );
 
   var shaderProgram = gl.createProgram();
 
@@ -68,6 +88,29 @@ function createShaderProgram(
     }
   }
 
+  // The effect uniforms, with the type and default value they were declared
+  // with, since the effects may be unregistered later.
+  shaderProgram.effectUniforms = [];
+  if (shaderEffects && shaderEffects.length) {
+    shaderProgram.uLayerRect = gl.getUniformLocation(
+      shaderProgram,
+      'uLayerRect'
+    );
+    var effectUniforms = shaderEffectUniforms(shaderEffects);
+    for (var k = 0; k < effectUniforms.length; k++) {
+      var index = effectUniforms[k][0];
+      var name = effectUniforms[k][1];
+      var declaration = shaderEffect(shaderEffects[index].name).uniforms[name];
+      shaderProgram.effectUniforms.push({
+        index: index,
+        name: name,
+        type: declaration.type,
+        value: declaration.value,
+        location: gl.getUniformLocation(shaderProgram, effectUniforms[k][2]),
+      });
+    }
+  }
+
   return shaderProgram;
 }
 
@@ -142,8 +185,12 @@ function setTexture(gl, shaderProgram, texture) {
   gl.uniform1i(shaderProgram.uSampler, 0);
 }
 
+function computeDepth(layerZ, tileZ) {
+  return ((layerZ + 1) * MAX_LEVELS - tileZ) / (MAX_LEVELS * MAX_LAYERS);
+}
+
 function setDepth(gl, shaderProgram, layerZ, tileZ) {
-  var depth = ((layerZ + 1) * MAX_LEVELS - tileZ) / (MAX_LEVELS * MAX_LAYERS);
+  var depth = computeDepth(layerZ, tileZ);
   gl.uniform1f(shaderProgram.uDepth, depth);
 }
 
@@ -172,6 +219,218 @@ function setupPixelEffectUniforms(gl, effects, uniforms) {
   gl.uniformMatrix4fv(uniforms.colorMatrix, false, colorMatrix);
 }
 
+function setupTextureCropUniform(gl, effects, uniform) {
+  var textureCrop = (effects && effects.textureCrop) || {};
+  var x = textureCrop.x != null ? textureCrop.x : 0;
+  var y = textureCrop.y != null ? textureCrop.y : 0;
+  var width = textureCrop.width != null ? textureCrop.width : 1;
+  var height = textureCrop.height != null ? textureCrop.height : 1;
+  gl.uniform4f(uniform, x, y, width, height);
+}
+
+// Sets the uniforms of the shader effects a program was created with, from the
+// values given in the layer effects. Samplers are bound to the texture units
+// following the one used for the layer textures, with textures taken from the
+// given shader program cache.
+function setupShaderEffectUniforms(gl, shaderProgram, effects, rect, cache) {
+  var effectUniforms = shaderProgram.effectUniforms;
+  if (!effectUniforms || !shaderProgram.uLayerRect) {
+    return;
+  }
+
+  var targetSize = renderTargetSize(gl);
+  gl.uniform4f(
+    shaderProgram.uLayerRect,
+    targetSize.width * rect.x,
+    targetSize.height * (1 - rect.y - rect.height),
+    targetSize.width * rect.width,
+    targetSize.height * rect.height
+  );
+
+  var instances = (effects && effects.shaders) || [];
+  var unit = 1;
+  for (var i = 0; i < effectUniforms.length; i++) {
+    var uniform = effectUniforms[i];
+    var values = instances[uniform.index] && instances[uniform.index].uniforms;
+    var value =
+      values && values[uniform.name] != null
+        ? values[uniform.name]
+        : uniform.value;
+    var location = uniform.location;
+    switch (uniform.type) {
+      case 'float':
+        gl.uniform1f(location, value != null ? value : 0);
+        break;
+      case 'vec2':
+        gl.uniform2fv(location, value || [0, 0]);
+        break;
+      case 'vec3':
+        gl.uniform3fv(location, value || [0, 0, 0]);
+        break;
+      case 'vec4':
+        gl.uniform4fv(location, value || defaultColorOffset);
+        break;
+      case 'mat4':
+        gl.uniformMatrix4fv(location, false, value || defaultColorMatrix);
+        break;
+      case 'sampler2D':
+        gl.activeTexture(gl.TEXTURE0 + unit);
+        gl.bindTexture(gl.TEXTURE_2D, value ? cache.texture(value) : null);
+        gl.uniform1i(location, unit);
+        unit++;
+        break;
+    }
+  }
+  gl.activeTexture(gl.TEXTURE0);
+}
+
+// Shader programs for a pair of shaders, composed with the different lists of
+// shader effects of the layers drawn by a renderer. Programs are compiled on
+// first use and kept until the cache is destroyed, as are the textures for the
+// images bound to shader effect samplers.
+class ShaderProgramCache {
+  constructor(gl, vertexSrc, fragmentSrc, attribList, uniformList) {
+    this.gl = gl;
+    this.vertexSrc = vertexSrc;
+    this.fragmentSrc = fragmentSrc;
+    this.attribList = attribList;
+    this.uniformList = uniformList;
+    this.programs = new Map();
+    this.textures = new Map();
+  }
+  destroy() {
+    var gl = this.gl;
+    this.programs.forEach(function (shaderProgram) {
+      destroyShaderProgram(gl, shaderProgram);
+    });
+    this.textures.forEach(function (entry) {
+      gl.deleteTexture(entry.texture);
+    });
+    clearOwnProperties(this);
+  }
+  // Returns the program for the shader effects of the given layer effects.
+  get(effects) {
+    var shaderEffects = effects && effects.shaders;
+    var key = shaderEffectsKey(shaderEffects);
+    var shaderProgram = this.programs.get(key);
+    if (!shaderProgram) {
+      shaderProgram = createShaderProgram(
+        this.gl,
+        this.vertexSrc,
+        this.fragmentSrc,
+        this.attribList,
+        this.uniformList,
+        shaderEffects
+      );
+      this.programs.set(key, shaderProgram);
+    }
+    return shaderProgram;
+  }
+  // Returns the texture for an image bound to a shader effect sampler, uploading
+  // the image again if it has been updated since.
+  texture(image) {
+    var gl = this.gl;
+    var version = shaderEffectImageVersion(image);
+    var entry = this.textures.get(image);
+    if (entry && entry.version === version) {
+      return entry.texture;
+    }
+    if (!entry) {
+      entry = { texture: gl.createTexture(), version: version };
+      this.textures.set(image, entry);
+    }
+    entry.version = version;
+    gl.bindTexture(gl.TEXTURE_2D, entry.texture);
+    // The unpack state is left over from the last upload, such as a tile
+    // flipped vertically and premultiplied. Images are sampled as they are,
+    // with the top row at screenCoord() y = 0.
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+    gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, false);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, image);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    return entry.texture;
+  }
+  forEach(fn) {
+    this.programs.forEach(function (shaderProgram) {
+      fn(shaderProgram);
+    });
+  }
+}
+
+// Returns the index of the projection of a view in projectionModes, which
+// identifies it in the shaders. Views other than RectilinearView only support
+// the rectilinear projection.
+function projectionModeIndex(view) {
+  return typeof view.projectionMode === 'function'
+    ? projectionModes.indexOf(view.projectionMode())
+    : 0;
+}
+
+// Sets the uniforms of shaders drawing the projection of a view per pixel.
+function setupProjectionUniforms(gl, shaderProgram, view) {
+  var mode = projectionModeIndex(view);
+  gl.uniform1i(shaderProgram.uProjectionMode, mode);
+  if (mode === 0) {
+    return;
+  }
+  var scale = view.projectionScale();
+  gl.uniform1f(shaderProgram.uProjectionMix, view.projectionMix());
+  gl.uniform2f(
+    shaderProgram.uProjectionScale,
+    (scale * view.width()) / view.height(),
+    scale
+  );
+  gl.uniformMatrix4fv(
+    shaderProgram.uInvRotMatrix,
+    false,
+    view.inverseRotation()
+  );
+}
+
+// Temporary vectors for computeInverseTileMatrix.
+var tileTranslateVector = vec3.create();
+var tileScaleVector = vec3.create();
+
+// Computes the inverse of the matrix positioning a cube or flat tile in world
+// space, that is, the tile matrix without the view projection. Renderers
+// drawing the projection of a view per pixel use it to find the pixels within
+// a tile.
+function computeInverseTileMatrix(out, tile) {
+  vec3.set(tileTranslateVector, tile.centerX(), tile.centerY(), -0.5);
+  vec3.set(tileScaleVector, tile.scaleX(), tile.scaleY(), 1.0);
+
+  mat4.identity(out);
+  mat4.rotateX(out, out, tile.rotX());
+  mat4.rotateY(out, out, tile.rotY());
+  mat4.translate(out, out, tileTranslateVector);
+  mat4.scale(out, out, tileScaleVector);
+  return mat4.invert(out, out);
+}
+
+// The dimensions of the framebuffer currently being rendered into, for contexts
+// rendering into a framebuffer other than the drawing buffer.
+var renderTargetSizes = new WeakMap();
+
+function setRenderTargetSize(gl, size) {
+  if (size) {
+    renderTargetSizes.set(gl, { width: size.width, height: size.height });
+  } else {
+    renderTargetSizes.delete(gl);
+  }
+}
+
+function renderTargetSize(gl) {
+  return (
+    renderTargetSizes.get(gl) || {
+      width: gl.drawingBufferWidth,
+      height: gl.drawingBufferHeight,
+    }
+  );
+}
+
 // Temporary vectors for setViewport.
 var translateVector = vec3.create();
 var scaleVector = vec3.create();
@@ -185,9 +444,13 @@ var scaleVector = vec3.create();
 // area, we clamp the viewport to the rendering area, and return a compensation
 // matrix to scale and translate vertices accordingly.
 function setViewport(gl, layer, rect, viewportMatrix) {
+  var targetSize = renderTargetSize(gl);
+  var targetWidth = targetSize.width;
+  var targetHeight = targetSize.height;
+
   if (rect.x === 0 && rect.width === 1 && rect.y === 0 && rect.height === 1) {
     // Fast path for full rect.
-    gl.viewport(0, 0, gl.drawingBufferWidth, gl.drawingBufferHeight);
+    gl.viewport(0, 0, targetWidth, targetHeight);
     mat4.identity(viewportMatrix);
     return;
   }
@@ -225,10 +488,10 @@ function setViewport(gl, layer, rect, viewportMatrix) {
   mat4.scale(viewportMatrix, viewportMatrix, scaleVector);
 
   gl.viewport(
-    gl.drawingBufferWidth * clampedOffsetX,
-    gl.drawingBufferHeight * clampedOffsetY,
-    gl.drawingBufferWidth * clampedWidth,
-    gl.drawingBufferHeight * clampedHeight
+    targetWidth * clampedOffsetX,
+    targetHeight * clampedOffsetY,
+    targetWidth * clampedWidth,
+    targetHeight * clampedHeight
   );
 }
 
@@ -241,6 +504,15 @@ export default {
   disableAttributes: disableAttributes,
   setTexture: setTexture,
   setDepth: setDepth,
+  computeDepth: computeDepth,
   setViewport: setViewport,
+  setRenderTargetSize: setRenderTargetSize,
+  renderTargetSize: renderTargetSize,
   setupPixelEffectUniforms: setupPixelEffectUniforms,
+  setupTextureCropUniform: setupTextureCropUniform,
+  setupShaderEffectUniforms: setupShaderEffectUniforms,
+  projectionModeIndex: projectionModeIndex,
+  computeInverseTileMatrix: computeInverseTileMatrix,
+  setupProjectionUniforms: setupProjectionUniforms,
+  ShaderProgramCache: ShaderProgramCache,
 };
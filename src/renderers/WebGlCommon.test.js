@@ -0,0 +1,80 @@
+import { suite, test, assert } from 'vitest';
+import sinon from 'sinon';
+
+import WebGlCommon from './WebGlCommon';
+import { updateShaderEffectImage } from '../shaderEffects';
+
+var ShaderProgramCache = WebGlCommon.ShaderProgramCache;
+
+function MockGl() {
+  var count = 0;
+  this.createTexture = sinon.spy(function () {
+    return { id: count++ };
+  });
+  this.deleteTexture = sinon.spy();
+  this.bindTexture = sinon.spy();
+  this.texImage2D = sinon.spy();
+  this.texParameteri = sinon.spy();
+  this.pixelStorei = sinon.spy();
+  this.UNPACK_FLIP_Y_WEBGL = 'UNPACK_FLIP_Y_WEBGL';
+  this.UNPACK_PREMULTIPLY_ALPHA_WEBGL = 'UNPACK_PREMULTIPLY_ALPHA_WEBGL';
+}
+
+suite('WebGlCommon', function () {
+  suite('ShaderProgramCache', function () {
+    test('uploads a sampler image once', function () {
+      var gl = new MockGl();
+      var cache = new ShaderProgramCache(gl, '', '', [], []);
+      var image = document.createElement('canvas');
+      var texture = cache.texture(image);
+      assert.strictEqual(cache.texture(image), texture);
+      assert.isTrue(gl.createTexture.calledOnce);
+      assert.isTrue(gl.texImage2D.calledOnce);
+    });
+
+    test('uploads sampler images top row first', function () {
+      var gl = new MockGl();
+      var cache = new ShaderProgramCache(gl, '', '', [], []);
+      // A tile upload leaves the images flipped and premultiplied.
+      gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+      gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, true);
+      gl.pixelStorei.resetHistory();
+
+      cache.texture(document.createElement('canvas'));
+      assert.isTrue(gl.pixelStorei.calledWith(gl.UNPACK_FLIP_Y_WEBGL, false));
+      assert.isTrue(
+        gl.pixelStorei.calledWith(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, false)
+      );
+      assert.isTrue(gl.pixelStorei.calledBefore(gl.texImage2D));
+      assert.isFalse(gl.pixelStorei.calledAfter(gl.texImage2D));
+    });
+
+    test('uploads a sampler image again after an update', function () {
+      var gl = new MockGl();
+      var cache = new ShaderProgramCache(gl, '', '', [], []);
+      var image = document.createElement('canvas');
+      var texture = cache.texture(image);
+      updateShaderEffectImage(image);
+      assert.strictEqual(cache.texture(image), texture);
+      assert.isTrue(gl.createTexture.calledOnce);
+      assert.isTrue(gl.texImage2D.calledTwice);
+      assert.strictEqual(gl.texImage2D.secondCall.args[5], image);
+    });
+
+    test('deletes the textures when destroyed', function () {
+      var gl = new MockGl();
+      var cache = new ShaderProgramCache(gl, '', '', [], []);
+      var first = cache.texture(document.createElement('canvas'));
+      var second = cache.texture(document.createElement('canvas'));
+      cache.destroy();
+      assert.isTrue(gl.deleteTexture.calledTwice);
+      assert.sameMembers(
+        [
+          gl.deleteTexture.firstCall.args[0],
+          gl.deleteTexture.secondCall.args[0],
+        ],
+        [first, second]
+      );
+    });
+  });
+});
@@ -13,7 +13,45 @@
  * See the License for the specific language governing permissions and
  * limitations under the License.
  */
+import { mat4 as mat4 } from 'gl-matrix';
+
 import WebGlBaseRenderer from './WebGlBase';
+import WebGlCommon from './WebGlCommon';
+var ShaderProgramCache = WebGlCommon.ShaderProgramCache;
+var enableAttributes = WebGlCommon.enableAttributes;
+var setViewport = WebGlCommon.setViewport;
+var setupPixelEffectUniforms = WebGlCommon.setupPixelEffectUniforms;
+var setupShaderEffectUniforms = WebGlCommon.setupShaderEffectUniforms;
+var setupTextureCropUniform = WebGlCommon.setupTextureCropUniform;
+var setupProjectionUniforms = WebGlCommon.setupProjectionUniforms;
+var projectionModeIndex = WebGlCommon.projectionModeIndex;
+var computeInverseTileMatrix = WebGlCommon.computeInverseTileMatrix;
+var setDepth = WebGlCommon.setDepth;
+var setTexture = WebGlCommon.setTexture;
+
+import { projectionModes } from '../views/projections';
+
+import vertexSrc from '../shaders/vertexCubeProjection';
+import fragmentSrc from '../shaders/fragmentCubeProjection';
+
+// The number of indices of the tile quad drawn by WebGlBaseRenderer.
+var vertexIndexCount = 6;
+
+var attribList = ['aVertexPosition'];
+var uniformList = [
+  'uDepth',
+  'uOpacity',
+  'uSampler',
+  'uViewportMatrix',
+  'uTextureCrop',
+  'uColorOffset',
+  'uColorMatrix',
+  'uProjectionMode',
+  'uProjectionMix',
+  'uProjectionScale',
+  'uInvRotMatrix',
+  'uInvTileMatrix',
+];
 
 /**
  * @class WebGlCubeRenderer
@@ -23,13 +61,112 @@ import WebGlBaseRenderer from './WebGlBase';
  * A renderer for {@link CubeGeometry} and {@link RectilinearView}, appropriate
  * for a {@link WebGlStage}.
  *
+ * Projections other than the rectilinear one are computed per pixel, from the
+ * {@link RectilinearView#projectionMode projection mode} of the view: every
+ * tile is drawn over the whole viewport, and only keeps the pixels whose ray
+ * goes through it.
+ *
  * Most users do not need to instantiate this class. Renderers are created and
  * destroyed by {@link Stage} as necessary.
  */
 class WebGlCubeRenderer extends WebGlBaseRenderer {
-  constructor(...args) {
-    super(...args);
+  constructor(gl) {
+    super(gl);
+
+    // The inverse of the matrix positioning a tile in world space.
+    this.invTileMatrix = mat4.create();
+
+    // Whether the current layer is drawn per pixel.
+    this.projecting = false;
+
+    this.projectionPrograms = new ShaderProgramCache(
+      gl,
+      vertexSrc,
+      fragmentSrc,
+      attribList,
+      uniformList
+    );
+  }
+  destroy() {
+    this.projectionPrograms.destroy();
+    super.destroy();
+  }
+  startLayer(layer, rect) {
+    this.projecting = projectionModeIndex(layer.view()) !== 0;
+    if (!this.projecting) {
+      super.startLayer(layer, rect);
+      return;
+    }
+
+    var gl = this.gl;
+    // Use the program for the shader effects of the layer.
+    var shaderProgram = this.projectionPrograms.get(layer.effects());
+    this.shaderProgram = shaderProgram;
+    var constantBuffers = this.constantBuffers;
+    var viewportMatrix = this.viewportMatrix;
+
+    gl.useProgram(shaderProgram);
+
+    enableAttributes(gl, shaderProgram);
+
+    setViewport(gl, layer, rect, viewportMatrix);
+    gl.uniformMatrix4fv(shaderProgram.uViewportMatrix, false, viewportMatrix);
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, constantBuffers.vertexPositions);
+    gl.vertexAttribPointer(
+      shaderProgram.aVertexPosition,
+      3,
+      gl.FLOAT,
+      gl.FALSE,
+      0,
+      0
+    );
+
+    setupProjectionUniforms(gl, shaderProgram, layer.view());
+
+    setupTextureCropUniform(gl, layer.effects(), shaderProgram.uTextureCrop);
+
+    setupPixelEffectUniforms(gl, layer.effects(), {
+      opacity: shaderProgram.uOpacity,
+      colorOffset: shaderProgram.uColorOffset,
+      colorMatrix: shaderProgram.uColorMatrix,
+    });
+
+    setupShaderEffectUniforms(
+      gl,
+      shaderProgram,
+      layer.effects(),
+      rect,
+      this.projectionPrograms
+    );
+  }
+  renderTile(tile, texture, layer, layerZ) {
+    if (!this.projecting) {
+      super.renderTile(tile, texture, layer, layerZ);
+      return;
+    }
+
+    var gl = this.gl;
+    var shaderProgram = this.shaderProgram;
+    var constantBuffers = this.constantBuffers;
+
+    computeInverseTileMatrix(this.invTileMatrix, tile);
+    gl.uniformMatrix4fv(
+      shaderProgram.uInvTileMatrix,
+      false,
+      this.invTileMatrix
+    );
+
+    setDepth(gl, shaderProgram, layerZ, tile.z);
+
+    setTexture(gl, shaderProgram, texture);
+
+    gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, constantBuffers.vertexIndices);
+    gl.drawElements(gl.TRIANGLES, vertexIndexCount, gl.UNSIGNED_SHORT, 0);
   }
 }
 
+// The renderer draws every projection mode.
+WebGlCubeRenderer.projectionModes = projectionModes;
+
 export default WebGlCubeRenderer;
@@ -0,0 +1,172 @@
+import { suite, test, assert } from 'vitest';
+import { mat4 as mat4 } from 'gl-matrix';
+
+import WebGlCubeRenderer from './WebGlCube';
+
+// A WebGL context recording its calls. Constants are named after themselves,
+// and other methods return a truthy value, such that shaders compile and
+// programs link. Typed array arguments are copied, since the renderer reuses
+// them.
+function recordingWebGlContext() {
+  var calls = [];
+  var gl = new Proxy(
+    { calls: calls, drawingBufferWidth: 400, drawingBufferHeight: 300 },
+    {
+      get: function (target, property) {
+        if (!(property in target)) {
+          target[property] = /^[A-Z0-9_]+$/.test(property)
+            ? property
+            : function () {
+                var args = [].slice.call(arguments).map(function (arg) {
+                  return ArrayBuffer.isView(arg) ? arg.slice() : arg;
+                });
+                calls.push([property].concat(args));
+                return {};
+              };
+        }
+        return target[property];
+      },
+    }
+  );
+  return gl;
+}
+
+// Returns the last value given to a uniform.
+function uniformValue(gl, location) {
+  var value = null;
+  gl.calls.forEach(function (call) {
+    if (/^uniform/.test(call[0]) && call[1] === location) {
+      value = call[call.length - 1];
+    }
+  });
+  return value;
+}
+
+function mockLayer(mode) {
+  // The identity projection leaves the tiles in world space.
+  var projection = mat4.create();
+  var inverseRotation = mat4.create();
+  return {
+    effects: function () {
+      return {};
+    },
+    view: function () {
+      return {
+        projection: function () {
+          return projection;
+        },
+        projectionMode: function () {
+          return mode;
+        },
+        projectionMix: function () {
+          return 1;
+        },
+        projectionScale: function () {
+          return 2;
+        },
+        width: function () {
+          return 400;
+        },
+        height: function () {
+          return 300;
+        },
+        inverseRotation: function () {
+          return inverseRotation;
+        },
+      };
+    },
+  };
+}
+
+function mockTile() {
+  return {
+    z: 1,
+    centerX: function () {
+      return 0.25;
+    },
+    centerY: function () {
+      return -0.25;
+    },
+    scaleX: function () {
+      return 0.5;
+    },
+    scaleY: function () {
+      return 0.5;
+    },
+    rotX: function () {
+      return Math.PI / 2;
+    },
+    rotY: function () {
+      return Math.PI;
+    },
+  };
+}
+
+function assertIdentity(matrix) {
+  var identity = mat4.create();
+  for (var i = 0; i < 16; i++) {
+    assert.closeTo(matrix[i], identity[i], 1e-6);
+  }
+}
+
+var fullRect = { x: 0, y: 0, width: 1, height: 1 };
+
+suite('WebGlCubeRenderer', function () {
+  test('draws other projections per pixel', function () {
+    var gl = recordingWebGlContext();
+    var renderer = new WebGlCubeRenderer(gl);
+    var tile = mockTile();
+
+    var layer = mockLayer('rectilinear');
+    renderer.startLayer(layer, fullRect);
+    renderer.renderTile(tile, {}, layer, 0);
+    renderer.endLayer(layer, fullRect);
+    var tileMatrix = uniformValue(gl, renderer.shaderProgram.uProjMatrix);
+
+    layer = mockLayer('stereographic');
+    renderer.startLayer(layer, fullRect);
+    renderer.renderTile(tile, {}, layer, 0);
+    renderer.endLayer(layer, fullRect);
+    var shaderProgram = renderer.shaderProgram;
+    assert.strictEqual(
+      shaderProgram,
+      renderer.projectionPrograms.get(layer.effects())
+    );
+    assert.strictEqual(uniformValue(gl, shaderProgram.uProjectionMode), 1);
+    assert.deepEqual(
+      gl.calls.filter(function (call) {
+        return call[1] === shaderProgram.uProjectionScale;
+      })[0],
+      ['uniform2f', shaderProgram.uProjectionScale, (2 * 400) / 300, 2]
+    );
+
+    // The tile is found from the inverse of the matrix positioning it.
+    var invTileMatrix = uniformValue(gl, shaderProgram.uInvTileMatrix);
+    assertIdentity(mat4.multiply(mat4.create(), invTileMatrix, tileMatrix));
+
+    var draws = gl.calls.filter(function (call) {
+      return call[0] === 'drawElements';
+    });
+    assert.lengthOf(draws, 2);
+    renderer.destroy();
+  });
+
+  test('draws the rectilinear projection with the tile geometry', function () {
+    var gl = recordingWebGlContext();
+    var renderer = new WebGlCubeRenderer(gl);
+    var layer = mockLayer('stereographic');
+    renderer.startLayer(layer, fullRect);
+    renderer.endLayer(layer, fullRect);
+
+    layer = mockLayer('rectilinear');
+    renderer.startLayer(layer, fullRect);
+    renderer.renderTile(mockTile(), {}, layer, 0);
+    renderer.endLayer(layer, fullRect);
+    assert.strictEqual(
+      renderer.shaderProgram,
+      renderer.shaderPrograms.get(layer.effects())
+    );
+    assert.isNotNull(uniformValue(gl, renderer.shaderProgram.uProjMatrix));
+    renderer.destroy();
+  });
+});
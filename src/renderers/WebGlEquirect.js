@@ -19,16 +19,20 @@ import clearOwnProperties from '../util/clearOwnProperties';
 import WebGlCommon from './WebGlCommon';
 var createConstantBuffers = WebGlCommon.createConstantBuffers;
 var destroyConstantBuffers = WebGlCommon.destroyConstantBuffers;
-var createShaderProgram = WebGlCommon.createShaderProgram;
-var destroyShaderProgram = WebGlCommon.destroyShaderProgram;
+var ShaderProgramCache = WebGlCommon.ShaderProgramCache;
 var enableAttributes = WebGlCommon.enableAttributes;
 var disableAttributes = WebGlCommon.disableAttributes;
 var setViewport = WebGlCommon.setViewport;
 var setupPixelEffectUniforms = WebGlCommon.setupPixelEffectUniforms;
+var setupShaderEffectUniforms = WebGlCommon.setupShaderEffectUniforms;
+var setupTextureCropUniform = WebGlCommon.setupTextureCropUniform;
+var setupProjectionUniforms = WebGlCommon.setupProjectionUniforms;
 
 var setDepth = WebGlCommon.setDepth;
 var setTexture = WebGlCommon.setTexture;
 
+import { projectionModes } from '../views/projections';
+
 import vertexSrc from '../shaders/vertexEquirect';
 import fragmentSrc from '../shaders/fragmentEquirect';
 
@@ -47,10 +51,11 @@ var uniformList = [
   'uViewportMatrix',
   'uColorOffset',
   'uColorMatrix',
-  'uTextureX',
-  'uTextureY',
-  'uTextureWidth',
-  'uTextureHeight',
+  'uTextureCrop',
+  'uProjectionMode',
+  'uProjectionMix',
+  'uProjectionScale',
+  'uInvRotMatrix',
 ];
 
 /**
@@ -61,6 +66,9 @@ var uniformList = [
  * A renderer for {@link EquirectGeometry} and {@link RectilinearView},
  * appropriate for {@link WebGlStage}.
  *
+ * Projections other than the rectilinear one are computed per pixel, from the
+ * {@link RectilinearView#projectionMode projection mode} of the view.
+ *
  * Most users do not need to instantiate this class. Renderers are created and
  * destroyed by {@link Stage} as necessary.
  */
@@ -82,22 +90,25 @@ class WebGlEquirectRenderer {
       textureCoords
     );
 
-    this.shaderProgram = createShaderProgram(
+    this.shaderPrograms = new ShaderProgramCache(
       gl,
       vertexSrc,
       fragmentSrc,
       attribList,
       uniformList
     );
+    this.shaderProgram = this.shaderPrograms.get(null);
   }
   destroy() {
     destroyConstantBuffers(this.gl, this.constantBuffers);
-    destroyShaderProgram(this.gl, this.shaderProgram);
+    this.shaderPrograms.destroy();
     clearOwnProperties(this);
   }
   startLayer(layer, rect) {
     var gl = this.gl;
-    var shaderProgram = this.shaderProgram;
+    // Use the program for the shader effects of the layer.
+    var shaderProgram = this.shaderPrograms.get(layer.effects());
+    this.shaderProgram = shaderProgram;
     var constantBuffers = this.constantBuffers;
     var invProjMatrix = this.invProjMatrix;
     var viewportMatrix = this.viewportMatrix;
@@ -126,23 +137,23 @@ class WebGlEquirectRenderer {
 
     gl.uniformMatrix4fv(shaderProgram.uInvProjMatrix, false, invProjMatrix);
 
-    // Compute and set the texture scale and crop offsets.
-    var textureCrop = layer.effects().textureCrop || {};
-    var textureX = textureCrop.x != null ? textureCrop.x : 0;
-    var textureY = textureCrop.y != null ? textureCrop.y : 0;
-    var textureWidth = textureCrop.width != null ? textureCrop.width : 1;
-    var textureHeight = textureCrop.height != null ? textureCrop.height : 1;
+    setupProjectionUniforms(gl, shaderProgram, layer.view());
 
-    gl.uniform1f(shaderProgram.uTextureX, textureX);
-    gl.uniform1f(shaderProgram.uTextureY, textureY);
-    gl.uniform1f(shaderProgram.uTextureWidth, textureWidth);
-    gl.uniform1f(shaderProgram.uTextureHeight, textureHeight);
+    setupTextureCropUniform(gl, layer.effects(), shaderProgram.uTextureCrop);
 
     setupPixelEffectUniforms(gl, layer.effects(), {
       opacity: shaderProgram.uOpacity,
       colorOffset: shaderProgram.uColorOffset,
       colorMatrix: shaderProgram.uColorMatrix,
     });
+
+    setupShaderEffectUniforms(
+      gl,
+      shaderProgram,
+      layer.effects(),
+      rect,
+      this.shaderPrograms
+    );
   }
   endLayer(layer, rect) {
     var gl = this.gl;
@@ -163,4 +174,7 @@ class WebGlEquirectRenderer {
   }
 }
 
+// The renderer draws every projection mode.
+WebGlEquirectRenderer.projectionModes = projectionModes;
+
 export default WebGlEquirectRenderer;
@@ -0,0 +1,215 @@
+import clearOwnProperties from '../util/clearOwnProperties';
+
+import WebGlCommon from './WebGlCommon';
+var createShaderProgram = WebGlCommon.createShaderProgram;
+var destroyShaderProgram = WebGlCommon.destroyShaderProgram;
+var enableAttributes = WebGlCommon.enableAttributes;
+var disableAttributes = WebGlCommon.disableAttributes;
+var renderTargetSize = WebGlCommon.renderTargetSize;
+
+import vertexSrc from '../shaders/vertexSprite';
+import fragmentSrc from '../shaders/fragmentSprite';
+
+var attribList = ['aVertexPosition', 'aTextureCoord'];
+var uniformList = ['uSampler', 'uOpacity'];
+
+// Two triangles per sprite, with two position and two texture coordinates per
+// vertex.
+var floatsPerVertex = 4;
+var verticesPerSprite = 6;
+var floatsPerSprite = floatsPerVertex * verticesPerSprite;
+
+// Corners of a sprite in the order they are written into the vertex buffer,
+// as [x, y] fractions of the sprite size from the top left.
+var spriteCorners = [0, 0, 1, 0, 1, 1, 0, 0, 1, 1, 0, 1];
+
+// Draws textured screen-aligned rectangles, such as the icons and labels of a
+// SpriteHotspotLayer.
+//
+// Sprites are given in stage pixels, and batched into a single vertex buffer.
+// Consecutive sprites sharing the same image are drawn with a single call.
+// Textures are created on first use and destroyed when an image is no longer
+// drawn, so that the caller need not manage them. Images drawn into after
+// their first use, such as canvases, must be marked with invalidate() to be
+// uploaded again.
+class WebGlSpriteRenderer {
+  constructor(gl) {
+    this.gl = gl;
+
+    this.shaderProgram = createShaderProgram(
+      gl,
+      vertexSrc,
+      fragmentSrc,
+      attribList,
+      uniformList
+    );
+
+    this.vertexBuffer = gl.createBuffer();
+    this.vertices = new Float32Array(0);
+
+    // Textures by image, and the images drawn in the current frame.
+    this.textures = new Map();
+    this.usedImages = new Set();
+
+    // Images whose content has changed since they were uploaded.
+    this.staleImages = new Set();
+  }
+  destroy() {
+    var gl = this.gl;
+    this.textures.forEach(function (texture) {
+      gl.deleteTexture(texture);
+    });
+    gl.deleteBuffer(this.vertexBuffer);
+    destroyShaderProgram(gl, this.shaderProgram);
+    clearOwnProperties(this);
+  }
+  // Draws a list of sprites, each with an image, left, top, width and height
+  // properties in stage pixels. The sprites are clipped to the given rect,
+  // in the same format as the one passed to layer renderers.
+  render(sprites, stageWidth, stageHeight, rect, opacity) {
+    var gl = this.gl;
+    var shaderProgram = this.shaderProgram;
+
+    this.usedImages.clear();
+
+    if (sprites.length > 0 && stageWidth > 0 && stageHeight > 0) {
+      this.fillVertices(sprites, stageWidth, stageHeight);
+
+      gl.useProgram(shaderProgram);
+      enableAttributes(gl, shaderProgram);
+
+      // Sprites are positioned in clip space over the whole render target,
+      // and clipped to the layer rect with the scissor test.
+      var targetSize = renderTargetSize(gl);
+      gl.viewport(0, 0, targetSize.width, targetSize.height);
+      gl.enable(gl.SCISSOR_TEST);
+      gl.scissor(
+        Math.round(targetSize.width * Math.max(rect.x, 0)),
+        Math.round(targetSize.height * Math.max(1 - rect.y - rect.height, 0)),
+        Math.round(targetSize.width * Math.max(rect.width, 0)),
+        Math.round(targetSize.height * Math.max(rect.height, 0))
+      );
+
+      // Sprites are drawn over the layers regardless of depth, in the given
+      // order.
+      gl.disable(gl.DEPTH_TEST);
+
+      gl.bindBuffer(gl.ARRAY_BUFFER, this.vertexBuffer);
+      gl.bufferData(
+        gl.ARRAY_BUFFER,
+        this.vertices.subarray(0, sprites.length * floatsPerSprite),
+        gl.DYNAMIC_DRAW
+      );
+      var stride = floatsPerVertex * 4;
+      gl.vertexAttribPointer(
+        shaderProgram.aVertexPosition,
+        2,
+        gl.FLOAT,
+        false,
+        stride,
+        0
+      );
+      gl.vertexAttribPointer(
+        shaderProgram.aTextureCoord,
+        2,
+        gl.FLOAT,
+        false,
+        stride,
+        8
+      );
+
+      gl.uniform1f(shaderProgram.uOpacity, opacity);
+      gl.activeTexture(gl.TEXTURE0);
+      gl.uniform1i(shaderProgram.uSampler, 0);
+
+      var start = 0;
+      for (var i = 1; i <= sprites.length; i++) {
+        if (i < sprites.length && sprites[i].image === sprites[start].image) {
+          continue;
+        }
+        gl.bindTexture(gl.TEXTURE_2D, this.texture(sprites[start].image));
+        gl.drawArrays(
+          gl.TRIANGLES,
+          start * verticesPerSprite,
+          (i - start) * verticesPerSprite
+        );
+        start = i;
+      }
+
+      gl.bindTexture(gl.TEXTURE_2D, null);
+      gl.enable(gl.DEPTH_TEST);
+      gl.disable(gl.SCISSOR_TEST);
+      disableAttributes(gl, shaderProgram);
+    }
+
+    // Destroy the textures for images no longer drawn.
+    var usedImages = this.usedImages;
+    this.textures.forEach(function (texture, image, textures) {
+      if (!usedImages.has(image)) {
+        gl.deleteTexture(texture);
+        textures.delete(image);
+      }
+    });
+  }
+  invalidate(image) {
+    this.staleImages.add(image);
+  }
+  fillVertices(sprites, stageWidth, stageHeight) {
+    var length = sprites.length * floatsPerSprite;
+    if (this.vertices.length < length) {
+      this.vertices = new Float32Array(length);
+    }
+    var vertices = this.vertices;
+
+    var offset = 0;
+    for (var i = 0; i < sprites.length; i++) {
+      var sprite = sprites[i];
+      for (var j = 0; j < spriteCorners.length; j += 2) {
+        var u = spriteCorners[j];
+        var v = spriteCorners[j + 1];
+        var x = sprite.left + u * sprite.width;
+        var y = sprite.top + v * sprite.height;
+        vertices[offset++] = (x / stageWidth) * 2 - 1;
+        vertices[offset++] = 1 - (y / stageHeight) * 2;
+        vertices[offset++] = u;
+        vertices[offset++] = v;
+      }
+    }
+  }
+  texture(image) {
+    var gl = this.gl;
+    this.usedImages.add(image);
+
+    var texture = this.textures.get(image);
+    if (texture && !this.staleImages.has(image)) {
+      return texture;
+    }
+    this.staleImages.delete(image);
+
+    var created = !texture;
+    if (created) {
+      texture = gl.createTexture();
+    }
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    // The unpack state is left over from the last upload, such as a tile
+    // flipped vertically. Sprites are drawn with v=0 at their top.
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+    gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, true);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, image);
+    if (!created) {
+      return texture;
+    }
+
+    // Images may have any size, so disable mipmapping and wrapping, which
+    // WebGL 1 does not support for non-power-of-two textures.
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+
+    this.textures.set(image, texture);
+    return texture;
+  }
+}
+
+export default WebGlSpriteRenderer;
@@ -0,0 +1,58 @@
+import { suite, test, assert } from 'vitest';
+
+import WebGlSpriteRenderer from './WebGlSprite';
+
+// A WebGL context recording its calls. Constants are named after themselves,
+// and other methods return a truthy value, such that shaders compile and
+// programs link.
+function recordingWebGlContext() {
+  var calls = [];
+  var gl = new Proxy(
+    { calls: calls },
+    {
+      get: function (target, property) {
+        if (!(property in target)) {
+          target[property] = /^[A-Z0-9_]+$/.test(property)
+            ? property
+            : function () {
+                calls.push([property].concat([].slice.call(arguments)));
+                return {};
+              };
+        }
+        return target[property];
+      },
+    }
+  );
+  return gl;
+}
+
+// Returns the pixel store parameters set before the last texImage2D call.
+function unpackState(calls) {
+  var state = {};
+  for (var i = 0; i < calls.length; i++) {
+    if (calls[i][0] === 'pixelStorei') {
+      state[calls[i][1]] = calls[i][2];
+    } else if (calls[i][0] === 'texImage2D') {
+      var result = state;
+      state = Object.assign({}, state);
+    }
+  }
+  return result;
+}
+
+suite('WebGlSpriteRenderer', function () {
+  test('uploads images without flipping them', function () {
+    var gl = recordingWebGlContext();
+    var renderer = new WebGlSpriteRenderer(gl);
+
+    // A tile upload leaves the images flipped.
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+    renderer.texture(document.createElement('canvas'));
+
+    assert.deepEqual(unpackState(gl.calls), {
+      UNPACK_FLIP_Y_WEBGL: false,
+      UNPACK_PREMULTIPLY_ALPHA_WEBGL: true,
+    });
+    renderer.destroy();
+  });
+});
@@ -0,0 +1,190 @@
+import clearOwnProperties from '../util/clearOwnProperties';
+
+import WebGlCommon from './WebGlCommon';
+var createConstantBuffers = WebGlCommon.createConstantBuffers;
+var destroyConstantBuffers = WebGlCommon.destroyConstantBuffers;
+var ShaderProgramCache = WebGlCommon.ShaderProgramCache;
+var enableAttributes = WebGlCommon.enableAttributes;
+var disableAttributes = WebGlCommon.disableAttributes;
+var setViewport = WebGlCommon.setViewport;
+var setupPixelEffectUniforms = WebGlCommon.setupPixelEffectUniforms;
+var setupShaderEffectUniforms = WebGlCommon.setupShaderEffectUniforms;
+var setupTextureCropUniform = WebGlCommon.setupTextureCropUniform;
+
+var setDepth = WebGlCommon.setDepth;
+var setTexture = WebGlCommon.setTexture;
+
+import vertexSrc from '../shaders/vertexTiledEquirect';
+import fragmentSrc from '../shaders/fragmentNormal';
+import { mat4 as mat4 } from 'gl-matrix';
+
+// Number of subdivisions along each side of the mesh used to draw a tile.
+// Tiles are curved patches of the sphere, so they must be approximated by a
+// grid of quads rather than a single one.
+var meshSegments = 16;
+
+var vertexIndices = [];
+var vertexPositions = [];
+var textureCoords = [];
+
+// The mesh spans the unit square. The vertex shader maps it onto the region of
+// the sphere covered by each tile.
+(function buildMesh() {
+  for (var j = 0; j <= meshSegments; j++) {
+    for (var i = 0; i <= meshSegments; i++) {
+      var a = i / meshSegments;
+      var b = j / meshSegments;
+      vertexPositions.push(a, b, 0.0);
+      textureCoords.push(a, 1.0 - b);
+    }
+  }
+  var rowLength = meshSegments + 1;
+  for (var y = 0; y < meshSegments; y++) {
+    for (var x = 0; x < meshSegments; x++) {
+      var k = y * rowLength + x;
+      vertexIndices.push(k, k + 1, k + rowLength + 1);
+      vertexIndices.push(k, k + rowLength + 1, k + rowLength);
+    }
+  }
+})();
+
+var attribList = ['aVertexPosition', 'aTextureCoord'];
+var uniformList = [
+  'uDepth',
+  'uOpacity',
+  'uSampler',
+  'uProjMatrix',
+  'uViewportMatrix',
+  'uTextureCrop',
+  'uTileRect',
+  'uColorOffset',
+  'uColorMatrix',
+];
+
+/**
+ * @class WebGlTiledEquirectRenderer
+ * @implements Renderer
+ * @classdesc
+ *
+ * A renderer for {@link TiledEquirectGeometry} and {@link RectilinearView},
+ * appropriate for {@link WebGlStage}.
+ *
+ * Most users do not need to instantiate this class. Renderers are created and
+ * destroyed by {@link Stage} as necessary.
+ */
+class WebGlTiledEquirectRenderer {
+  constructor(gl) {
+    this.gl = gl;
+
+    // The projection matrix positions the sphere in world space.
+    this.projMatrix = mat4.create();
+
+    // The viewport matrix responsible for viewport clamping.
+    // See setViewport() for an explanation of how it works.
+    this.viewportMatrix = mat4.create();
+
+    this.constantBuffers = createConstantBuffers(
+      gl,
+      vertexIndices,
+      vertexPositions,
+      textureCoords
+    );
+
+    this.shaderPrograms = new ShaderProgramCache(
+      gl,
+      vertexSrc,
+      fragmentSrc,
+      attribList,
+      uniformList
+    );
+    this.shaderProgram = this.shaderPrograms.get(null);
+  }
+  destroy() {
+    destroyConstantBuffers(this.gl, this.constantBuffers);
+    this.shaderPrograms.destroy();
+    clearOwnProperties(this);
+  }
+  startLayer(layer, rect) {
+    var gl = this.gl;
+    // Use the program for the shader effects of the layer.
+    var shaderProgram = this.shaderPrograms.get(layer.effects());
+    this.shaderProgram = shaderProgram;
+    var constantBuffers = this.constantBuffers;
+    var projMatrix = this.projMatrix;
+    var viewportMatrix = this.viewportMatrix;
+
+    gl.useProgram(shaderProgram);
+
+    enableAttributes(gl, shaderProgram);
+
+    setViewport(gl, layer, rect, viewportMatrix);
+    gl.uniformMatrix4fv(shaderProgram.uViewportMatrix, false, viewportMatrix);
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, constantBuffers.vertexPositions);
+    gl.vertexAttribPointer(
+      shaderProgram.aVertexPosition,
+      3,
+      gl.FLOAT,
+      gl.FALSE,
+      0,
+      0
+    );
+    gl.bindBuffer(gl.ARRAY_BUFFER, constantBuffers.textureCoords);
+    gl.vertexAttribPointer(
+      shaderProgram.aTextureCoord,
+      2,
+      gl.FLOAT,
+      gl.FALSE,
+      0,
+      0
+    );
+
+    // All tiles share the same projection, as their position on the sphere is
+    // computed in the vertex shader.
+    mat4.copy(projMatrix, layer.view().projection());
+    gl.uniformMatrix4fv(shaderProgram.uProjMatrix, false, projMatrix);
+
+    setupTextureCropUniform(gl, layer.effects(), shaderProgram.uTextureCrop);
+
+    setupPixelEffectUniforms(gl, layer.effects(), {
+      opacity: shaderProgram.uOpacity,
+      colorOffset: shaderProgram.uColorOffset,
+      colorMatrix: shaderProgram.uColorMatrix,
+    });
+
+    setupShaderEffectUniforms(
+      gl,
+      shaderProgram,
+      layer.effects(),
+      rect,
+      this.shaderPrograms
+    );
+  }
+  endLayer(layer, rect) {
+    var gl = this.gl;
+    var shaderProgram = this.shaderProgram;
+    disableAttributes(gl, shaderProgram);
+  }
+  renderTile(tile, texture, layer, layerZ) {
+    var gl = this.gl;
+    var shaderProgram = this.shaderProgram;
+    var constantBuffers = this.constantBuffers;
+
+    gl.uniform4f(
+      shaderProgram.uTileRect,
+      tile.left(),
+      tile.top(),
+      tile.scaleX(),
+      tile.scaleY()
+    );
+
+    setDepth(gl, shaderProgram, layerZ, tile.z);
+
+    setTexture(gl, shaderProgram, texture);
+
+    gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, constantBuffers.vertexIndices);
+    gl.drawElements(gl.TRIANGLES, vertexIndices.length, gl.UNSIGNED_SHORT, 0);
+  }
+}
+
+export default WebGlTiledEquirectRenderer;
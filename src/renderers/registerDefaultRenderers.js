@@ -16,6 +16,9 @@
 import WebGlCube from './WebGlCube';
 import WebGlFlat from './WebGlFlat';
 import WebGlEquirect from './WebGlEquirect';
+import WebGlTiledEquirect from './WebGlTiledEquirect';
+import WebGl2Cube from './WebGl2Cube';
+import WebGl2Flat from './WebGl2Flat';
 
 /**
  * Registers all known renderers for the given stage type into that stage.
@@ -31,6 +34,23 @@ function registerDefaultRenderers(stage) {
       stage.registerRenderer('flat', 'flat', WebGlFlat);
       stage.registerRenderer('cube', 'rectilinear', WebGlCube);
       stage.registerRenderer('equirect', 'rectilinear', WebGlEquirect);
+      stage.registerRenderer(
+        'tiledEquirect',
+        'rectilinear',
+        WebGlTiledEquirect
+      );
+      break;
+    case 'webgl2':
+      // Geometries without an instanced renderer use the WebGL 1 renderers,
+      // which are compatible with a WebGL 2 context.
+      stage.registerRenderer('flat', 'flat', WebGl2Flat);
+      stage.registerRenderer('cube', 'rectilinear', WebGl2Cube);
+      stage.registerRenderer('equirect', 'rectilinear', WebGlEquirect);
+      stage.registerRenderer(
+        'tiledEquirect',
+        'rectilinear',
+        WebGlTiledEquirect
+      );
       break;
     default:
       throw new Error('Unknown stage type: ' + stage.type);
@@ -0,0 +1,174 @@
+import { suite, test, assert } from 'vitest';
+
+import shaderEffects, { effectsPlaceholder } from './shaderEffects';
+import fragmentNormal from './shaders/fragmentNormal';
+import fragmentEquirect from './shaders/fragmentEquirect';
+import fragmentInstanced from './shaders/fragmentInstanced';
+import fragmentCubeProjection from './shaders/fragmentCubeProjection';
+import fragmentInstancedProjection from './shaders/fragmentInstancedProjection';
+
+var baseSrc = ['void foo() {}', effectsPlaceholder, 'void main() {}'].join(
+  '\n'
+);
+
+var testEffect = {
+  source: 'vec4 effect(vec4 color, vec2 coord) { return color * amount; }',
+  uniforms: {
+    amount: { type: 'float', value: 0.5 },
+    tint: { type: 'vec3' },
+  },
+};
+
+function withEffect(name, effect, fn) {
+  shaderEffects.registerShaderEffect(name, effect);
+  try {
+    fn();
+  } finally {
+    shaderEffects.unregisterShaderEffect(name);
+  }
+}
+
+suite('shaderEffects', function () {
+  suite('registry', function () {
+    test('built-in effects', function () {
+      var names = shaderEffects.listShaderEffects();
+      assert.includeMembers(names, [
+        'blur',
+        'sharpen',
+        'vignette',
+        'toneMap',
+        'maskCrossfade',
+      ]);
+    });
+
+    test('register and unregister', function () {
+      assert.isNull(shaderEffects.shaderEffect('test'));
+      withEffect('test', testEffect, function () {
+        assert.strictEqual(shaderEffects.shaderEffect('test'), testEffect);
+        assert.include(shaderEffects.listShaderEffects(), 'test');
+      });
+      assert.isNull(shaderEffects.shaderEffect('test'));
+    });
+
+    test('register twice', function () {
+      withEffect('test', testEffect, function () {
+        assert.throws(function () {
+          shaderEffects.registerShaderEffect('test', testEffect);
+        }, 'already registered');
+      });
+    });
+
+    test('register without effect function', function () {
+      assert.throws(function () {
+        shaderEffects.registerShaderEffect('test', { source: 'void foo() {}' });
+      }, 'effect function');
+      assert.isNull(shaderEffects.shaderEffect('test'));
+    });
+  });
+
+  test('shaderEffectsKey', function () {
+    assert.strictEqual(shaderEffects.shaderEffectsKey(null), '');
+    assert.strictEqual(shaderEffects.shaderEffectsKey([]), '');
+    assert.strictEqual(
+      shaderEffects.shaderEffectsKey([
+        { name: 'first', uniforms: { radius: 1 } },
+        { name: 'second' },
+      ]),
+      'first,second'
+    );
+  });
+
+  test('shaderEffectsKey changes when an effect is registered again', function () {
+    var key;
+    withEffect('keyed', testEffect, function () {
+      key = shaderEffects.shaderEffectsKey([{ name: 'keyed' }]);
+    });
+    withEffect('keyed', testEffect, function () {
+      assert.notEqual(shaderEffects.shaderEffectsKey([{ name: 'keyed' }]), key);
+    });
+  });
+
+  suite('composeShaderEffects', function () {
+    test('without effects', function () {
+      var src = shaderEffects.composeShaderEffects(baseSrc, null);
+      assert.notInclude(src, effectsPlaceholder);
+      assert.notInclude(src, 'uLayerRect');
+      assert.include(src, 'vec4 applyEffects(vec4 color, vec2 coord) {');
+      assert.include(src, 'void main() {}');
+    });
+
+    test('with effects', function () {
+      withEffect('test', testEffect, function () {
+        var src = shaderEffects.composeShaderEffects(baseSrc, [
+          { name: 'test' },
+          { name: 'test', uniforms: { amount: 2 } },
+        ]);
+        assert.include(src, 'uniform vec4 uLayerRect;');
+        assert.include(src, 'vec2 screenCoord()');
+        assert.include(src, 'uniform float uEffect0_amount;');
+        assert.include(src, 'uniform vec3 uEffect0_tint;');
+        assert.include(src, '#define amount uEffect0_amount');
+        assert.include(src, 'uniform float uEffect1_amount;');
+        assert.include(src, '#define effect effect1');
+        assert.include(src, '#undef amount');
+        // The effects are applied in order.
+        assert.isBelow(
+          src.indexOf('color = effect0(color, coord);'),
+          src.indexOf('color = effect1(color, coord);')
+        );
+        // The effects are declared before the main function.
+        assert.isBelow(
+          src.indexOf('vec4 applyEffects'),
+          src.indexOf('void main()')
+        );
+      });
+    });
+
+    test('unknown effect', function () {
+      assert.throws(function () {
+        shaderEffects.composeShaderEffects(baseSrc, [{ name: 'unknown' }]);
+      }, 'Unknown shader effect: unknown');
+    });
+
+    test('shader without placeholder', function () {
+      var src = 'void main() {}';
+      assert.strictEqual(shaderEffects.composeShaderEffects(src, []), src);
+      assert.throws(function () {
+        shaderEffects.composeShaderEffects(src, [{ name: 'blur' }]);
+      }, 'does not support');
+    });
+
+    test('base shaders', function () {
+      [
+        fragmentNormal,
+        fragmentEquirect,
+        fragmentInstanced,
+        fragmentCubeProjection,
+        fragmentInstancedProjection,
+      ].forEach(function (src) {
+        assert.include(src, effectsPlaceholder);
+        var composed = shaderEffects.composeShaderEffects(src, [
+          { name: 'blur' },
+        ]);
+        assert.include(composed, 'color = applyEffects(color, ');
+        assert.include(composed, 'uniform float uEffect0_radius;');
+      });
+    });
+  });
+
+  test('shaderEffectUniforms', function () {
+    withEffect('test', testEffect, function () {
+      assert.deepEqual(
+        shaderEffects.shaderEffectUniforms([
+          { name: 'blur' },
+          { name: 'test' },
+        ]),
+        [
+          [0, 'radius', 'uEffect0_radius'],
+          [1, 'amount', 'uEffect1_amount'],
+          [1, 'tint', 'uEffect1_tint'],
+        ]
+      );
+    });
+  });
+});
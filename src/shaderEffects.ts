@@ -0,0 +1,397 @@
+/**
+ * Registry of fragment shader snippets that may be applied to layers through
+ * the `shaders` {@link Effects effect}.
+ *
+ * A snippet defines a GLSL function named `effect`, taking the color of a
+ * fragment, after the color matrix and offset are applied, and its texture
+ * coordinates, and returning the new color with premultiplied alpha:
+ *
+ *     vec4 effect(vec4 color, vec2 coord) {
+ *       return color * amount;
+ *     }
+ *
+ * Uniforms are declared with the snippet, and referred to by name in its
+ * source. Their values are given with the effect in the layer effects, and
+ * fall back to the declared defaults. A snippet may also call:
+ *
+ *   - `vec4 sampleTexture(vec2 coord)`, which samples the layer texture at
+ *     the given texture coordinates;
+ *   - `vec2 screenCoord()`, which returns the position of the fragment in the
+ *     layer rect, from (0, 0) at the top left to (1, 1) at the bottom right.
+ *
+ * Renderers compile a shader program for every combination of snippets in
+ * use, so layers should share combinations where possible.
+ *
+ * Images bound to `sampler2D` uniforms are sampled without premultiplied
+ * alpha, with texture coordinates from (0, 0) at the top left of the image,
+ * so that they line up with `screenCoord()`. They are uploaded into textures
+ * once, which are kept until the layers are removed from the stage. If the pixels of an
+ * image change, e.g. a canvas is drawn into, call
+ * {@link shaderEffects.updateShaderEffectImage} for it to be uploaded again.
+ *
+ * @namespace shaderEffects
+ */
+
+export type ShaderEffectUniformType =
+  | 'float'
+  | 'vec2'
+  | 'vec3'
+  | 'vec4'
+  | 'mat4'
+  | 'sampler2D';
+
+/**
+ * An image bound to a `sampler2D` uniform.
+ */
+export type ShaderEffectImage =
+  | HTMLImageElement
+  | HTMLCanvasElement
+  | ImageBitmap
+  | ImageData;
+
+export type ShaderEffectUniformValue =
+  | number
+  | number[]
+  | Float32Array
+  | ShaderEffectImage;
+
+export interface ShaderEffectUniform {
+  type: ShaderEffectUniformType;
+  /**
+   * Value used when the layer effects do not give one. Samplers without a
+   * value read as transparent black.
+   */
+  value?: ShaderEffectUniformValue;
+}
+
+/**
+ * A registered fragment shader snippet.
+ */
+export interface ShaderEffect {
+  /**
+   * GLSL source defining the `effect` function.
+   */
+  source: string;
+  uniforms?: { [name: string]: ShaderEffectUniform };
+}
+
+/**
+ * A snippet applied to a layer, as listed in the `shaders` effect.
+ */
+export interface ShaderEffectInstance {
+  /**
+   * The name under which the snippet was registered.
+   */
+  name: string;
+  uniforms?: { [name: string]: ShaderEffectUniformValue };
+}
+
+/**
+ * The line of the base fragment shaders replaced with the snippets.
+ * @private
+ */
+export const effectsPlaceholder = '// SHADER EFFECTS';
+
+const registry: Map<string, ShaderEffect> = new Map();
+
+// Distinguishes successive registrations under the same name, so that
+// programs compiled with a snippet are not reused for its replacement.
+const registrationIds: Map<string, number> = new Map();
+let nextRegistrationId = 0;
+
+// The number of times each image bound to a sampler has been updated.
+const imageVersions: WeakMap<ShaderEffectImage, number> = new WeakMap();
+
+/**
+ * Registers a snippet under a name.
+ * @param {string} name
+ * @param {ShaderEffect} effect
+ * @throws An error if a snippet is already registered under the name.
+ * @memberof shaderEffects
+ */
+function registerShaderEffect(name: string, effect: ShaderEffect) {
+  if (registry.has(name)) {
+    throw new Error('Shader effect already registered: ' + name);
+  }
+  if (!/\beffect\s*\(/.test(effect.source)) {
+    throw new Error('Shader effect must define an effect function: ' + name);
+  }
+  registry.set(name, effect);
+  registrationIds.set(name, nextRegistrationId++);
+}
+
+/**
+ * Unregisters a snippet. Programs already compiled with it are unaffected.
+ * @param {string} name
+ * @memberof shaderEffects
+ */
+function unregisterShaderEffect(name: string) {
+  registry.delete(name);
+  registrationIds.delete(name);
+}
+
+/**
+ * Returns the snippet registered under a name, or null if none.
+ * @param {string} name
+ * @return {?ShaderEffect}
+ * @memberof shaderEffects
+ */
+function shaderEffect(name: string) {
+  return registry.get(name) || null;
+}
+
+/**
+ * Returns the names of the registered snippets.
+ * @return {string[]}
+ * @memberof shaderEffects
+ */
+function listShaderEffects() {
+  return Array.from(registry.keys());
+}
+
+/**
+ * Returns a key identifying the shader program needed for a list of snippets.
+ * @param {?ShaderEffectInstance[]} instances
+ * @return {string}
+ * @memberof shaderEffects
+ */
+function shaderEffectsKey(instances?: ShaderEffectInstance[] | null) {
+  return instances
+    ? instances
+        .map((instance) => {
+          const id = registrationIds.get(instance.name);
+          return id != null ? instance.name + '#' + id : instance.name;
+        })
+        .join(',')
+    : '';
+}
+
+/**
+ * Signals that the pixels of an image bound to a `sampler2D` uniform have
+ * changed, so that renderers upload it again before their next draw.
+ * @param {ShaderEffectImage} image
+ * @memberof shaderEffects
+ */
+function updateShaderEffectImage(image: ShaderEffectImage) {
+  imageVersions.set(image, shaderEffectImageVersion(image) + 1);
+}
+
+/**
+ * Returns the number of times an image has been updated with
+ * {@link shaderEffects.updateShaderEffectImage}.
+ * @param {ShaderEffectImage} image
+ * @return {number}
+ * @memberof shaderEffects
+ * @private
+ */
+function shaderEffectImageVersion(image: ShaderEffectImage) {
+  return imageVersions.get(image) || 0;
+}
+
+// Returns the name of the uniform declared for an effect uniform.
+function uniformName(index: number, name: string) {
+  return 'uEffect' + index + '_' + name;
+}
+
+/**
+ * Replaces the placeholder of a base fragment shader with the declarations of
+ * a list of snippets and an `applyEffects` function applying them in order.
+ * @param {string} fragmentSrc
+ * @param {?ShaderEffectInstance[]} instances
+ * @return {string}
+ * @throws An error if a snippet is not registered, or if the shader has no
+ *     placeholder.
+ * @memberof shaderEffects
+ */
+function composeShaderEffects(
+  fragmentSrc: string,
+  instances?: ShaderEffectInstance[] | null
+) {
+  if (fragmentSrc.indexOf(effectsPlaceholder) < 0) {
+    if (instances && instances.length) {
+      throw new Error('Shader does not support shader effects');
+    }
+    return fragmentSrc;
+  }
+
+  const lines: string[] = [];
+  const calls: string[] = [];
+
+  if (instances && instances.length) {
+    lines.push(
+      'uniform vec4 uLayerRect;',
+      'vec2 screenCoord() {',
+      '  vec2 coord = (gl_FragCoord.xy - uLayerRect.xy) / uLayerRect.zw;',
+      '  return vec2(coord.x, 1.0 - coord.y);',
+      '}'
+    );
+  }
+
+  (instances || []).forEach((instance, i) => {
+    const effect = shaderEffect(instance.name);
+    if (!effect) {
+      throw new Error('Unknown shader effect: ' + instance.name);
+    }
+    const uniforms = Object.keys(effect.uniforms || {});
+
+    // Scope the function and uniform names to the snippet, so that several
+    // snippets may use the same names.
+    for (const name of uniforms) {
+      const type = effect.uniforms?.[name].type;
+      lines.push('uniform ' + type + ' ' + uniformName(i, name) + ';');
+      lines.push('#define ' + name + ' ' + uniformName(i, name));
+    }
+    lines.push('#define effect effect' + i);
+    lines.push(effect.source);
+    lines.push('#undef effect');
+    for (const name of uniforms) {
+      lines.push('#undef ' + name);
+    }
+
+    calls.push('  color = effect' + i + '(color, coord);');
+  });
+
+  lines.push(
+    'vec4 applyEffects(vec4 color, vec2 coord) {',
+    ...calls,
+    '  return color;',
+    '}'
+  );
+
+  return fragmentSrc.replace(effectsPlaceholder, lines.join('\n'));
+}
+
+/**
+ * Returns the names of the uniforms declared for a list of snippets, as
+ * `[snippet index, uniform name, declared name]` triples.
+ * @param {?ShaderEffectInstance[]} instances
+ * @return {Array}
+ * @memberof shaderEffects
+ */
+function shaderEffectUniforms(instances?: ShaderEffectInstance[] | null) {
+  const result: [number, string, string][] = [];
+  (instances || []).forEach((instance, i) => {
+    const effect = shaderEffect(instance.name);
+    for (const name of Object.keys((effect && effect.uniforms) || {})) {
+      result.push([i, name, uniformName(i, name)]);
+    }
+  });
+  return result;
+}
+
+// Built-in snippets.
+
+// The blur replaces the color with an average of the surrounding texture
+// colors, and thus discards the color matrix and offset.
+registerShaderEffect('blur', {
+  source: [
+    'vec4 effect(vec4 color, vec2 coord) {',
+    '  vec4 sum = vec4(0.0);',
+    '  for (int x = -2; x <= 2; x++) {',
+    '    for (int y = -2; y <= 2; y++) {',
+    '      sum += sampleTexture(coord + vec2(float(x), float(y)) * radius / 2.0);',
+    '    }',
+    '  }',
+    '  return sum / 25.0;',
+    '}',
+  ].join('\n'),
+  uniforms: {
+    // Blur radius, in texture coordinates.
+    radius: { type: 'float', value: 0.01 },
+  },
+});
+
+registerShaderEffect('sharpen', {
+  source: [
+    'vec4 effect(vec4 color, vec2 coord) {',
+    '  vec4 neighbors =',
+    '    sampleTexture(coord + vec2(offset, 0.0)) +',
+    '    sampleTexture(coord - vec2(offset, 0.0)) +',
+    '    sampleTexture(coord + vec2(0.0, offset)) +',
+    '    sampleTexture(coord - vec2(0.0, offset));',
+    '  vec4 center = sampleTexture(coord);',
+    '  vec3 detail = center.rgb - neighbors.rgb / 4.0;',
+    '  return vec4(clamp(color.rgb + detail * amount, 0.0, color.a), color.a);',
+    '}',
+  ].join('\n'),
+  uniforms: {
+    amount: { type: 'float', value: 0.5 },
+    // Distance to the neighboring samples, in texture coordinates.
+    offset: { type: 'float', value: 0.002 },
+  },
+});
+
+registerShaderEffect('vignette', {
+  source: [
+    'vec4 effect(vec4 color, vec2 coord) {',
+    '  float d = distance(screenCoord(), vec2(0.5)) * 1.41421356;',
+    '  float k = 1.0 - amount * smoothstep(radius, 1.0, d);',
+    '  return vec4(color.rgb * k, color.a);',
+    '}',
+  ].join('\n'),
+  uniforms: {
+    amount: { type: 'float', value: 0.5 },
+    // Distance from the center, as a fraction of the half diagonal, at which
+    // the darkening starts.
+    radius: { type: 'float', value: 0.5 },
+  },
+});
+
+registerShaderEffect('toneMap', {
+  source: [
+    'vec4 effect(vec4 color, vec2 coord) {',
+    '  if (color.a <= 0.0) {',
+    '    return color;',
+    '  }',
+    '  vec3 c = color.rgb / color.a * exposure;',
+    '  c = c / (1.0 + c);',
+    '  c = pow(c, vec3(1.0 / gamma));',
+    '  return vec4(c * color.a, color.a);',
+    '}',
+  ].join('\n'),
+  uniforms: {
+    exposure: { type: 'float', value: 1 },
+    gamma: { type: 'float', value: 1 },
+  },
+});
+
+registerShaderEffect('maskCrossfade', {
+  source: [
+    'vec4 effect(vec4 color, vec2 coord) {',
+    '  float m = texture2D(mask, screenCoord()).r;',
+    '  float edge = progress * (1.0 + softness);',
+    '  return color * (1.0 - smoothstep(edge - softness, edge, m));',
+    '}',
+  ].join('\n'),
+  uniforms: {
+    // Grayscale image covering the layer rect. Darker areas are revealed
+    // first as the progress increases.
+    mask: { type: 'sampler2D' },
+    // Between 0 (fully transparent) and 1 (fully opaque).
+    progress: { type: 'float', value: 0 },
+    softness: { type: 'float', value: 0.1 },
+  },
+});
+
+export {
+  registerShaderEffect,
+  unregisterShaderEffect,
+  shaderEffect,
+  listShaderEffects,
+  shaderEffectsKey,
+  updateShaderEffectImage,
+  shaderEffectImageVersion,
+  composeShaderEffects,
+  shaderEffectUniforms,
+};
+
+export default {
+  registerShaderEffect,
+  unregisterShaderEffect,
+  shaderEffect,
+  listShaderEffects,
+  shaderEffectsKey,
+  updateShaderEffectImage,
+  composeShaderEffects,
+  shaderEffectUniforms,
+};
@@ -0,0 +1,58 @@
+import { effectsPlaceholder } from '../shaderEffects';
+import unprojectPoint from './unprojectPoint';
+
+export default [
+  '#ifdef GL_FRAGMENT_PRECISION_HIGH',
+  'precision highp float;',
+  '#else',
+  'precision mediump float;',
+  '#endif',
+
+  'uniform sampler2D uSampler;',
+  'uniform float uOpacity;',
+  'uniform vec4 uTextureCrop;',
+  'uniform vec4 uColorOffset;',
+  'uniform mat4 uColorMatrix;',
+  'uniform int uProjectionMode;',
+  'uniform float uProjectionMix;',
+  'uniform vec2 uProjectionScale;',
+  'uniform mat4 uInvRotMatrix;',
+  'uniform mat4 uInvTileMatrix;',
+
+  'varying vec2 vScreenCoord;',
+
+  'const float PI = 3.14159265358979323846264;',
+
+  unprojectPoint,
+
+  'vec4 sampleTexture(vec2 coord) {',
+  '  return texture2D(uSampler, coord);',
+  '}',
+
+  effectsPlaceholder,
+
+  'void main(void) {',
+  '  vec3 dir;',
+  '  if (!unprojectPoint(vScreenCoord * uProjectionScale, dir)) {',
+  '    discard;',
+  '  }',
+
+  // Intersect the ray from the cube center with the plane of the tile, in tile
+  // space, where the tile spans [-0.5, 0.5] in the z = 0 plane.
+  '  vec3 origin = (uInvTileMatrix * vec4(0.0, 0.0, 0.0, 1.0)).xyz;',
+  '  vec3 ray = (uInvTileMatrix * (uInvRotMatrix * vec4(dir, 0.0))).xyz;',
+  '  if (origin.z * ray.z >= 0.0) {',
+  '    discard;',
+  '  }',
+  '  vec2 p = origin.xy - ray.xy * origin.z / ray.z;',
+  '  if (abs(p.x) > 0.5 || abs(p.y) > 0.5) {',
+  '    discard;',
+  '  }',
+
+  '  vec2 coord = uTextureCrop.xy + (p + 0.5) * uTextureCrop.zw;',
+
+  '  vec4 color = sampleTexture(coord) * uColorMatrix + uColorOffset;',
+  '  color = applyEffects(color, coord);',
+  '  gl_FragColor = vec4(color.rgba * uOpacity);',
+  '}',
+].join('\n');
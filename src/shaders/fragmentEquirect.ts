@@ -13,6 +13,9 @@
  * See the License for the specific language governing permissions and
  * limitations under the License.
  */
+import { effectsPlaceholder } from '../shaderEffects';
+import unprojectPoint from './unprojectPoint';
+
 export default [
   '#ifdef GL_FRAGMENT_PRECISION_HIGH',
   'precision highp float;',
@@ -22,28 +25,48 @@ export default [
 
   'uniform sampler2D uSampler;',
   'uniform float uOpacity;',
-  'uniform float uTextureX;',
-  'uniform float uTextureY;',
-  'uniform float uTextureWidth;',
-  'uniform float uTextureHeight;',
+  'uniform vec4 uTextureCrop;',
   'uniform vec4 uColorOffset;',
   'uniform mat4 uColorMatrix;',
+  'uniform int uProjectionMode;',
+  'uniform float uProjectionMix;',
+  'uniform vec2 uProjectionScale;',
+  'uniform mat4 uInvRotMatrix;',
 
   'varying vec4 vRay;',
+  'varying vec2 vScreenCoord;',
 
   'const float PI = 3.14159265358979323846264;',
 
+  unprojectPoint,
+
+  'vec4 sampleTexture(vec2 coord) {',
+  '  return texture2D(uSampler, coord);',
+  '}',
+
+  effectsPlaceholder,
+
   'void main(void) {',
-  '  float r = inversesqrt(vRay.x * vRay.x + vRay.y * vRay.y + vRay.z * vRay.z);',
-  '  float phi  = acos(vRay.y * r);',
-  '  float theta = atan(vRay.x, -1.0*vRay.z);',
+  '  vec4 ray = vRay;',
+  '  if (uProjectionMode != 0) {',
+  '    vec3 dir;',
+  '    if (!unprojectPoint(vScreenCoord * uProjectionScale, dir)) {',
+  '      discard;',
+  '    }',
+  '    ray = uInvRotMatrix * vec4(dir, 0.0);',
+  '  }',
+
+  '  float r = inversesqrt(ray.x * ray.x + ray.y * ray.y + ray.z * ray.z);',
+  '  float phi  = acos(ray.y * r);',
+  '  float theta = atan(ray.x, -1.0*ray.z);',
   '  float s = 0.5 + 0.5 * theta / PI;',
   '  float t = 1.0 - phi / PI;',
 
-  '  s = s * uTextureWidth + uTextureX;',
-  '  t = t * uTextureHeight + uTextureY;',
+  '  s = uTextureCrop.x + s * uTextureCrop.z;',
+  '  t = uTextureCrop.y + t * uTextureCrop.w;',
 
-  '  vec4 color = texture2D(uSampler, vec2(s, t)) * uColorMatrix + uColorOffset;',
+  '  vec4 color = sampleTexture(vec2(s, t)) * uColorMatrix + uColorOffset;',
+  '  color = applyEffects(color, vec2(s, t));',
   '  gl_FragColor = vec4(color.rgba * uOpacity);',
   '}',
 ].join('\n');
@@ -0,0 +1,32 @@
+import { effectsPlaceholder } from '../shaderEffects';
+
+export default [
+  '#version 300 es',
+
+  'precision highp float;',
+  'precision highp sampler2DArray;',
+
+  'uniform sampler2DArray uSampler;',
+  'uniform float uOpacity;',
+  'uniform vec4 uColorOffset;',
+  'uniform mat4 uColorMatrix;',
+
+  'in vec2 vTextureCoord;',
+  'flat in float vTextureLayer;',
+
+  'out vec4 fragColor;',
+
+  'vec4 sampleTexture(vec2 coord) {',
+  '  return texture(uSampler, vec3(coord, vTextureLayer));',
+  '}',
+
+  // Shader effects are written against GLSL ES 1.0.
+  '#define texture2D texture',
+  effectsPlaceholder,
+
+  'void main(void) {',
+  '  vec4 color = sampleTexture(vTextureCoord) * uColorMatrix + uColorOffset;',
+  '  color = applyEffects(color, vTextureCoord);',
+  '  fragColor = vec4(color.rgba * uOpacity);',
+  '}',
+].join('\n');
@@ -0,0 +1,62 @@
+import { effectsPlaceholder } from '../shaderEffects';
+import unprojectPoint from './unprojectPoint';
+
+export default [
+  '#version 300 es',
+
+  'precision highp float;',
+  'precision highp sampler2DArray;',
+
+  'uniform sampler2DArray uSampler;',
+  'uniform float uOpacity;',
+  'uniform vec4 uTextureCrop;',
+  'uniform vec4 uColorOffset;',
+  'uniform mat4 uColorMatrix;',
+  'uniform int uProjectionMode;',
+  'uniform float uProjectionMix;',
+  'uniform vec2 uProjectionScale;',
+  'uniform mat4 uInvRotMatrix;',
+
+  'in vec2 vScreenCoord;',
+  'flat in mat4 vInvTileMatrix;',
+  'flat in float vTextureLayer;',
+
+  'out vec4 fragColor;',
+
+  'const float PI = 3.14159265358979323846264;',
+
+  unprojectPoint,
+
+  'vec4 sampleTexture(vec2 coord) {',
+  '  return texture(uSampler, vec3(coord, vTextureLayer));',
+  '}',
+
+  // Shader effects are written against GLSL ES 1.0.
+  '#define texture2D texture',
+  effectsPlaceholder,
+
+  'void main(void) {',
+  '  vec3 dir;',
+  '  if (!unprojectPoint(vScreenCoord * uProjectionScale, dir)) {',
+  '    discard;',
+  '  }',
+
+  // Intersect the ray from the cube center with the plane of the tile, in tile
+  // space, where the tile spans [-0.5, 0.5] in the z = 0 plane.
+  '  vec3 origin = (vInvTileMatrix * vec4(0.0, 0.0, 0.0, 1.0)).xyz;',
+  '  vec3 ray = (vInvTileMatrix * (uInvRotMatrix * vec4(dir, 0.0))).xyz;',
+  '  if (origin.z * ray.z >= 0.0) {',
+  '    discard;',
+  '  }',
+  '  vec2 p = origin.xy - ray.xy * origin.z / ray.z;',
+  '  if (abs(p.x) > 0.5 || abs(p.y) > 0.5) {',
+  '    discard;',
+  '  }',
+
+  '  vec2 coord = uTextureCrop.xy + (p + 0.5) * uTextureCrop.zw;',
+
+  '  vec4 color = sampleTexture(coord) * uColorMatrix + uColorOffset;',
+  '  color = applyEffects(color, coord);',
+  '  fragColor = vec4(color.rgba * uOpacity);',
+  '}',
+].join('\n');
@@ -13,6 +13,8 @@
  * See the License for the specific language governing permissions and
  * limitations under the License.
  */
+import { effectsPlaceholder } from '../shaderEffects';
+
 export default [
   '#ifdef GL_FRAGMENT_PRECISION_HIGH',
   'precision highp float;',
@@ -27,8 +29,15 @@ export default [
 
   'varying vec2 vTextureCoord;',
 
+  'vec4 sampleTexture(vec2 coord) {',
+  '  return texture2D(uSampler, coord);',
+  '}',
+
+  effectsPlaceholder,
+
   'void main(void) {',
-  '  vec4 color = texture2D(uSampler, vTextureCoord) * uColorMatrix + uColorOffset;',
+  '  vec4 color = sampleTexture(vTextureCoord) * uColorMatrix + uColorOffset;',
+  '  color = applyEffects(color, vTextureCoord);',
   '  gl_FragColor = vec4(color.rgba * uOpacity);',
   '}',
 ].join('\n');
@@ -0,0 +1,16 @@
+export default [
+  '#ifdef GL_FRAGMENT_PRECISION_HIGH',
+  'precision highp float;',
+  '#else',
+  'precision mediump float;',
+  '#endif',
+
+  'uniform sampler2D uSampler;',
+  'uniform float uOpacity;',
+
+  'varying vec2 vTextureCoord;',
+
+  'void main(void) {',
+  '  gl_FragColor = texture2D(uSampler, vTextureCoord) * uOpacity;',
+  '}',
+].join('\n');
@@ -0,0 +1,45 @@
+/**
+ * GLSL function converting a point in the plane of the projection into a camera
+ * space direction, as unprojectPoint in views/projections does. Returns false
+ * if the point is outside of the projection.
+ *
+ * Shaders including it must declare the `uProjectionMode` and `uProjectionMix`
+ * uniforms and the `PI` constant. It is valid GLSL ES 1.0 and 3.0.
+ */
+export default [
+  'bool unprojectPoint(vec2 p, out vec3 dir) {',
+  '  if (uProjectionMode == 1 || uProjectionMode == 2) {',
+  '    float r = length(p);',
+  '    float theta;',
+  '    if (uProjectionMode == 1) {',
+  '      float k = 1.0 - 0.5 * uProjectionMix;',
+  '      theta = atan(k * r) / k;',
+  '    } else {',
+  '      if (r > 2.0) {',
+  '        return false;',
+  '      }',
+  '      theta = 2.0 * asin(0.5 * r);',
+  '    }',
+  '    vec2 d = r > 0.0 ? p / r : vec2(0.0);',
+  '    dir = vec3(d * sin(theta), -cos(theta));',
+  '    return true;',
+  '  }',
+  '  if (uProjectionMode == 3) {',
+  '    float k = uProjectionMix + 1.0;',
+  '    float lambda = atan(p.x, k) + asin(p.x * uProjectionMix / sqrt(k * k + p.x * p.x));',
+  '    float denom = uProjectionMix + cos(lambda);',
+  '    if (denom <= 0.0) {',
+  '      return false;',
+  '    }',
+  '    dir = vec3(sin(lambda), p.y * denom / k, -cos(lambda));',
+  '    return true;',
+  '  }',
+  '  if (abs(p.x) > PI) {',
+  '    return false;',
+  '  }',
+  '  float e = exp(p.y);',
+  '  float phi = atan(0.5 * (e - 1.0 / e));',
+  '  dir = vec3(sin(p.x) * cos(phi), sin(phi), -cos(p.x) * cos(phi));',
+  '  return true;',
+  '}',
+].join('\n');
@@ -0,0 +1,14 @@
+export default [
+  'attribute vec3 aVertexPosition;',
+
+  'uniform float uDepth;',
+  'uniform mat4 uViewportMatrix;',
+
+  'varying vec2 vScreenCoord;',
+
+  'void main(void) {',
+  // The tile quad spans [-0.5, 0.5], and is scaled up to cover the viewport.
+  '  vScreenCoord = 2.0 * aVertexPosition.xy;',
+  '  gl_Position = uViewportMatrix * vec4(vScreenCoord, uDepth, 1.0);',
+  '}',
+].join('\n');
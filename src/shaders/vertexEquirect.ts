@@ -21,9 +21,11 @@ export default [
   'uniform mat4 uInvProjMatrix;',
 
   'varying vec4 vRay;',
+  'varying vec2 vScreenCoord;',
 
   'void main(void) {',
   '  vRay = uInvProjMatrix * vec4(aVertexPosition.xy, 1.0, 1.0);',
+  '  vScreenCoord = aVertexPosition.xy;',
   '  gl_Position = uViewportMatrix * vec4(aVertexPosition.xy, uDepth, 1.0);',
   '}',
 ].join('\n');
@@ -0,0 +1,21 @@
+export default [
+  '#version 300 es',
+
+  'in vec3 aVertexPosition;',
+  'in vec2 aTextureCoord;',
+  'in mat4 aTileMatrix;',
+  'in vec2 aTileParams;',
+
+  'uniform mat4 uViewportMatrix;',
+  'uniform vec4 uTextureCrop;',
+
+  'out vec2 vTextureCoord;',
+  'flat out float vTextureLayer;',
+
+  'void main(void) {',
+  '  gl_Position = uViewportMatrix * aTileMatrix * vec4(aVertexPosition.xy, 0.0, 1.0);',
+  '  gl_Position.z = aTileParams.x * gl_Position.w;',
+  '  vTextureCoord = uTextureCrop.xy + aTextureCoord * uTextureCrop.zw;',
+  '  vTextureLayer = aTileParams.y;',
+  '}',
+].join('\n');
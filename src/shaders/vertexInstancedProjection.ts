@@ -0,0 +1,22 @@
+export default [
+  '#version 300 es',
+
+  'in vec3 aVertexPosition;',
+  'in mat4 aTileMatrix;',
+  'in vec2 aTileParams;',
+
+  'uniform mat4 uViewportMatrix;',
+
+  'out vec2 vScreenCoord;',
+  'flat out mat4 vInvTileMatrix;',
+  'flat out float vTextureLayer;',
+
+  // The tile matrix is the inverse of the matrix positioning the tile in world
+  // space, and the tile quad is scaled up to cover the viewport.
+  'void main(void) {',
+  '  vScreenCoord = 2.0 * aVertexPosition.xy;',
+  '  gl_Position = uViewportMatrix * vec4(vScreenCoord, aTileParams.x, 1.0);',
+  '  vInvTileMatrix = aTileMatrix;',
+  '  vTextureLayer = aTileParams.y;',
+  '}',
+].join('\n');
@@ -19,6 +19,7 @@ export default [
 
   'uniform float uDepth;',
   'uniform mat4 uViewportMatrix;',
+  'uniform vec4 uTextureCrop;',
   'uniform mat4 uProjMatrix;',
 
   'varying vec2 vTextureCoord;',
@@ -26,6 +27,6 @@ export default [
   'void main(void) {',
   '  gl_Position = uViewportMatrix * uProjMatrix * vec4(aVertexPosition.xy, 0.0, 1.0);',
   '  gl_Position.z = uDepth * gl_Position.w;',
-  '  vTextureCoord = aTextureCoord;',
+  '  vTextureCoord = uTextureCrop.xy + aTextureCoord * uTextureCrop.zw;',
   '}',
 ].join('\n');
@@ -0,0 +1,25 @@
+export default [
+  'attribute vec3 aVertexPosition;',
+  'attribute vec2 aTextureCoord;',
+
+  'uniform float uDepth;',
+  'uniform mat4 uViewportMatrix;',
+  'uniform vec4 uTextureCrop;',
+  'uniform mat4 uProjMatrix;',
+  'uniform vec4 uTileRect;',
+
+  'varying vec2 vTextureCoord;',
+
+  'const float PI = 3.14159265358979323846264;',
+
+  'void main(void) {',
+  '  float u = uTileRect.x + aVertexPosition.x * uTileRect.z;',
+  '  float v = uTileRect.y + aVertexPosition.y * uTileRect.w;',
+  '  float theta = (u - 0.5) * 2.0 * PI;',
+  '  float phi = v * PI;',
+  '  vec3 p = vec3(sin(phi) * sin(theta), cos(phi), -sin(phi) * cos(theta));',
+  '  gl_Position = uViewportMatrix * uProjMatrix * vec4(p, 1.0);',
+  '  gl_Position.z = uDepth * gl_Position.w;',
+  '  vTextureCoord = uTextureCrop.xy + aTextureCoord * uTextureCrop.zw;',
+  '}',
+].join('\n');
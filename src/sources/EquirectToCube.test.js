@@ -0,0 +1,85 @@
+import { suite, test, assert } from 'vitest';
+
+import EquirectToCubeSource from './EquirectToCube';
+
+function makeImage(width, height) {
+  return {
+    width: width,
+    height: height,
+    data: new Uint8ClampedArray(width * height * 4),
+  };
+}
+
+suite('EquirectToCubeSource', function () {
+  test('levels', function () {
+    var source = new EquirectToCubeSource(makeImage(4000, 2000), {
+      tileSize: 256,
+      useWorker: false,
+    });
+    assert.deepEqual(source.levels(), [
+      { tileSize: 256, size: 256 },
+      { tileSize: 256, size: 512 },
+      { tileSize: 256, size: 1024 },
+    ]);
+  });
+
+  test('levels for a small image', function () {
+    var source = new EquirectToCubeSource(makeImage(1024, 512), {
+      useWorker: false,
+    });
+    assert.deepEqual(source.levels(), [{ tileSize: 512, size: 512 }]);
+  });
+
+  test('levels are copies', function () {
+    var source = new EquirectToCubeSource(makeImage(1024, 512), {
+      useWorker: false,
+    });
+    source.levels()[0].size = 1;
+    assert.strictEqual(source.levels()[0].size, 512);
+  });
+
+  test('invalid tile size', function () {
+    assert.throws(function () {
+      new EquirectToCubeSource(makeImage(1024, 512), { tileSize: 0 });
+    }, /Tile size/);
+    assert.throws(function () {
+      new EquirectToCubeSource(makeImage(1024, 512), { tileSize: 1.5 });
+    }, /Tile size/);
+  });
+
+  test('no worker when disabled', function () {
+    var source = new EquirectToCubeSource(makeImage(1024, 512), {
+      useWorker: false,
+    });
+    assert.isFalse(source.usesWorker());
+    source.destroy();
+  });
+
+  test('does not retry', function () {
+    var source = new EquirectToCubeSource(makeImage(1024, 512), {
+      useWorker: false,
+    });
+    assert.isFalse(source.shouldRetry());
+  });
+
+  test('cancel loading', function () {
+    return new Promise(function (resolve) {
+      var source = new EquirectToCubeSource(makeImage(64, 32), {
+        tileSize: 8,
+        useWorker: false,
+      });
+      var tile = { face: 'f', x: 0, y: 0, z: 1 };
+      var cancel = source.loadAsset(
+        null,
+        tile,
+        function (err, doneTile, asset) {
+          assert.strictEqual(err.message, 'cancelled');
+          assert.strictEqual(doneTile, tile);
+          assert.isUndefined(asset);
+          resolve();
+        }
+      );
+      cancel(new Error('cancelled'), tile);
+    });
+  });
+});
@@ -0,0 +1,361 @@
+import StaticAsset from '../assets/Static';
+import once from '../util/once';
+import noop from '../util/noop';
+import clearOwnProperties from '../util/clearOwnProperties';
+import { Pixels, renderCubeTile, selectMipmap } from './equirectTiles';
+import equirectTilesWorkerSrc from './equirectTilesWorker';
+
+/**
+ * An equirectangular image from which {@link EquirectToCubeSource} generates
+ * tiles.
+ */
+export type EquirectImage =
+  | ImageBitmap
+  | HTMLImageElement
+  | HTMLCanvasElement
+  | ImageData;
+
+/**
+ * Equirect to cube source options.
+ */
+export interface EquirectToCubeSourceOptions {
+  /**
+   * The tile size of the levels returned by
+   * {@link EquirectToCubeSource#levels}. Defaults to 512.
+   */
+  tileSize?: number;
+  /**
+   * Whether to generate tiles in a worker. Defaults to true. Tiles are
+   * generated on the main thread when workers or `OffscreenCanvas` are
+   * unavailable.
+   */
+  useWorker?: boolean;
+}
+
+interface TileRequest {
+  face: string;
+  size: number;
+  tileSize: number;
+  x: number;
+  y: number;
+}
+
+type TileCallback = (
+  err: Error | null,
+  element?: ImageBitmap | HTMLCanvasElement
+) => void;
+
+interface PendingTile {
+  request: TileRequest;
+  done: TileCallback;
+}
+
+/**
+ * @class EquirectToCubeSource
+ * @implements Source
+ * @classdesc
+ *
+ * A {@link Source} generating the tiles of a {@link CubeGeometry} from a single
+ * equirectangular image, so that an image obtained in the browser, such as a
+ * user upload, may be displayed at full resolution without being tiled on a
+ * server first.
+ *
+ * Each tile is reprojected from the image when it is first loaded, in a worker
+ * where possible. Lower resolution levels are sampled from downscaled copies
+ * of the image, computed as needed.
+ *
+ * The geometry must be created from the {@link EquirectToCubeSource#levels}
+ * of the source, and the source destroyed when no longer needed:
+ *
+ *     var source = new EquirectToCubeSource(bitmap);
+ *     var geometry = new CubeGeometry(source.levels());
+ *
+ * @param {EquirectImage} image The equirectangular image. It is read once, so
+ *     later changes to it are ignored.
+ * @param {EquirectToCubeSourceOptions} opts
+ */
+class EquirectToCubeSource {
+  #image: EquirectImage;
+  #levels: { tileSize: number; size: number }[];
+  #mipmaps: Pixels[] | null;
+  #worker: Worker | null;
+  #workerUrl: string | null;
+  #workerReady: Promise<void> | null;
+  #nextTileId: number;
+  #pendingTiles: Map<number, PendingTile>;
+  #workerMessageHandler: (event: MessageEvent) => void;
+  #workerErrorHandler: () => void;
+
+  constructor(image: EquirectImage, opts?: EquirectToCubeSourceOptions) {
+    opts = opts || {};
+
+    const tileSize = opts.tileSize != null ? opts.tileSize : 512;
+    if (!(tileSize > 0) || tileSize % 1) {
+      throw new Error('Tile size must be a positive integer');
+    }
+
+    this.#image = image;
+    this.#levels = cubeLevels(imageSize(image).width, tileSize);
+
+    // Successive halvings of the image, for tiles generated on the main thread.
+    this.#mipmaps = null;
+
+    // Tile requests sent to the worker and awaiting a reply, by id.
+    this.#nextTileId = 1;
+    this.#pendingTiles = new Map();
+
+    this.#workerMessageHandler = this.#handleWorkerMessage.bind(this);
+    this.#workerErrorHandler = this.#handleWorkerError.bind(this);
+
+    this.#worker = null;
+    this.#workerUrl = null;
+    this.#workerReady = null;
+    if (opts.useWorker !== false) {
+      this.#createWorker();
+    }
+  }
+  /**
+   * Destructor. Terminates the worker.
+   */
+  destroy() {
+    this.#destroyWorker();
+    clearOwnProperties(this);
+  }
+  /**
+   * Returns the level list from which to create the {@link CubeGeometry}. The
+   * face size doubles from one level to the next, from the tile size up to
+   * at least a quarter of the image width, which preserves the resolution of
+   * the image.
+   * @return {Array<{tileSize: number, size: number}>}
+   */
+  levels() {
+    return this.#levels.map((level) => ({ ...level }));
+  }
+  /**
+   * Returns whether tiles are being generated in a worker.
+   * @return {boolean}
+   */
+  usesWorker() {
+    return this.#worker != null;
+  }
+  loadAsset(_stage, tile, done) {
+    done = once(done);
+
+    const level = this.#levels[tile.z];
+    const request = {
+      face: tile.face,
+      size: level.size,
+      tileSize: level.tileSize,
+      x: tile.x,
+      y: tile.y,
+    };
+
+    const cancelGenerate = this.#generate(request, function (err, element) {
+      if (err) {
+        done(err, tile);
+        return;
+      }
+      done(null, tile, new StaticAsset(element));
+    });
+
+    function cancel() {
+      cancelGenerate();
+      done.apply(null, arguments);
+    }
+
+    return cancel;
+  }
+  /**
+   * Returns false, since generating a tile fails the same way every time.
+   * @return {boolean}
+   */
+  shouldRetry() {
+    return false;
+  }
+  #generate(request: TileRequest, done: TileCallback) {
+    if (!this.#worker) {
+      return this.#generateOnMainThread(request, done);
+    }
+
+    const id = this.#nextTileId++;
+    const pending = { request, done };
+    const pendingTiles = this.#pendingTiles;
+    pendingTiles.set(id, pending);
+
+    // The request must follow the image, which is sent once converted.
+    const worker = this.#worker;
+    this.#workerReady?.then(function () {
+      if (pendingTiles.get(id) === pending) {
+        worker.postMessage({ id, ...request });
+      }
+    }, noop);
+
+    return function cancel() {
+      pendingTiles.delete(id);
+    };
+  }
+  #generateOnMainThread(request: TileRequest, done: TileCallback) {
+    const timeout = setTimeout(() => {
+      let canvas: HTMLCanvasElement;
+      try {
+        canvas = this.#renderOnMainThread(request);
+      } catch (err) {
+        done(err as Error);
+        return;
+      }
+      done(null, canvas);
+    }, 0);
+
+    return function cancel() {
+      clearTimeout(timeout);
+    };
+  }
+  #renderOnMainThread(request: TileRequest) {
+    if (!this.#mipmaps) {
+      this.#mipmaps = [readPixels(this.#image)];
+    }
+    const image = selectMipmap(this.#mipmaps, request.size);
+
+    const tileSize = request.tileSize;
+    const canvas = document.createElement('canvas');
+    canvas.width = tileSize;
+    canvas.height = tileSize;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Failed to create tile canvas');
+    }
+    const tile = context.createImageData(tileSize, tileSize);
+    renderCubeTile(
+      image,
+      request.face,
+      request.size,
+      tileSize,
+      request.x,
+      request.y,
+      tile.data
+    );
+    context.putImageData(tile, 0, 0);
+    return canvas;
+  }
+  #handleWorkerMessage(event: MessageEvent) {
+    const data = event.data;
+    const pending = this.#pendingTiles.get(data.id);
+    if (!pending) {
+      // The tile was cancelled.
+      if (data.bitmap) {
+        data.bitmap.close();
+      }
+      return;
+    }
+    this.#pendingTiles.delete(data.id);
+    if (data.error != null) {
+      pending.done(new Error(data.error));
+    } else {
+      pending.done(null, data.bitmap);
+    }
+  }
+  #handleWorkerError() {
+    // The worker could not be started or could not read the image, e.g.
+    // because OffscreenCanvas is unsupported in workers. Generate tiles on the
+    // main thread from now on, including those already requested.
+    this.#destroyWorker();
+    const pendingTiles = this.#pendingTiles;
+    pendingTiles.forEach((pending, id) => {
+      this.#generateOnMainThread(pending.request, function (err, element) {
+        // Skip tiles cancelled in the meantime.
+        if (pendingTiles.get(id) === pending) {
+          pendingTiles.delete(id);
+          pending.done(err, element);
+        }
+      });
+    });
+  }
+  #createWorker() {
+    if (
+      typeof Worker === 'undefined' ||
+      typeof Blob === 'undefined' ||
+      typeof (window as any).OffscreenCanvas === 'undefined' ||
+      typeof createImageBitmap !== 'function'
+    ) {
+      return;
+    }
+    let workerUrl: string | null = null;
+    let worker: Worker;
+    try {
+      workerUrl = URL.createObjectURL(
+        new Blob([equirectTilesWorkerSrc], { type: 'text/javascript' })
+      );
+      worker = new Worker(workerUrl);
+    } catch (err) {
+      if (workerUrl) {
+        URL.revokeObjectURL(workerUrl);
+      }
+      return;
+    }
+    this.#worker = worker;
+    this.#workerUrl = workerUrl;
+    worker.addEventListener('message', this.#workerMessageHandler);
+    worker.addEventListener('error', this.#workerErrorHandler);
+
+    // Send a copy of the image, which may then be transferred.
+    this.#workerReady = createImageBitmap(this.#image).then(function (bitmap) {
+      worker.postMessage({ image: bitmap }, [bitmap]);
+    });
+    this.#workerReady.catch(() => {
+      if (this.#worker === worker) {
+        this.#handleWorkerError();
+      }
+    });
+  }
+  #destroyWorker() {
+    if (this.#worker) {
+      this.#worker.removeEventListener('message', this.#workerMessageHandler);
+      this.#worker.removeEventListener('error', this.#workerErrorHandler);
+      this.#worker.terminate();
+      this.#worker = null;
+    }
+    if (this.#workerUrl) {
+      URL.revokeObjectURL(this.#workerUrl);
+      this.#workerUrl = null;
+    }
+    this.#workerReady = null;
+  }
+}
+
+function cubeLevels(imageWidth: number, tileSize: number) {
+  const faceSize = Math.ceil(imageWidth / 4);
+  const levels = [{ tileSize, size: tileSize }];
+  for (let size = tileSize; size < faceSize; ) {
+    size *= 2;
+    levels.push({ tileSize, size });
+  }
+  return levels;
+}
+
+function imageSize(image: EquirectImage) {
+  if (
+    typeof HTMLImageElement !== 'undefined' &&
+    image instanceof HTMLImageElement
+  ) {
+    return { width: image.naturalWidth, height: image.naturalHeight };
+  }
+  return { width: image.width, height: image.height };
+}
+
+function readPixels(image: EquirectImage): Pixels {
+  if (typeof ImageData !== 'undefined' && image instanceof ImageData) {
+    return image;
+  }
+  const size = imageSize(image);
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Failed to read image');
+  }
+  context.drawImage(image as CanvasImageSource, 0, 0);
+  return context.getImageData(0, 0, size.width, size.height);
+}
+
+export default EquirectToCubeSource;
@@ -19,6 +19,10 @@ import sinon from 'sinon';
 import wait from '../../test/wait';
 
 import ImageUrlSource from './ImageUrl';
+import NetworkError from '../NetworkError';
+import HttpError from '../HttpError';
+import CorsError from '../CorsError';
+import DecodeError from '../DecodeError';
 
 class MockStage {
   constructor() {}
@@ -201,5 +205,192 @@ suite('ImageUrlSource', function () {
     });
   });
 
-  // TODO: Test retry ratelimiting.
+  test('deduplicate concurrent requests', function (done) {
+    var stage = new MockStage();
+    var finish;
+    sinon.stub(stage, 'loadImage').callsFake(function (url, rect, done) {
+      finish = done;
+      return function () {};
+    });
+
+    var source = new ImageUrlSource(function () {
+      return { url: 'url', rect: { x: 0, y: 0, width: 1, height: 0.5 } };
+    });
+    var spy1 = sinon.spy();
+    var spy2 = sinon.spy();
+    source.loadAsset(stage, 'tile1', spy1);
+    source.loadAsset(stage, 'tile2', spy2);
+    wait.until(
+      function () {
+        return finish != null;
+      },
+      function () {
+        finish(null, 'asset');
+        assert.isTrue(stage.loadImage.calledOnce);
+        assert.isTrue(spy1.calledOnceWithExactly(null, 'tile1', 'asset'));
+        assert.isTrue(spy2.calledOnceWithExactly(null, 'tile2', 'asset'));
+        done();
+      }
+    );
+  });
+
+  test('cancel a deduplicated request', function (done) {
+    var stage = new MockStage();
+    var finish;
+    var cancelLoad = sinon.spy();
+    sinon.stub(stage, 'loadImage').callsFake(function (url, rect, done) {
+      finish = done;
+      return cancelLoad;
+    });
+
+    var source = new ImageUrlSource(function () {
+      return { url: 'url' };
+    });
+    var spy1 = sinon.spy();
+    var spy2 = sinon.spy();
+    var cancel1 = source.loadAsset(stage, 'tile1', spy1);
+    source.loadAsset(stage, 'tile2', spy2);
+    wait.until(
+      function () {
+        return finish != null;
+      },
+      function () {
+        var err = new Error('canceled');
+        cancel1(err);
+        assert.isTrue(spy1.calledOnceWith(err));
+        // The request goes on for the other tile.
+        assert.isTrue(cancelLoad.notCalled);
+        finish(null, 'asset');
+        assert.isTrue(spy2.calledOnceWithExactly(null, 'tile2', 'asset'));
+        done();
+      }
+    );
+  });
+
+  test('requests in priority order', function (done) {
+    var stage = new MockStage();
+    var started = [];
+    var finish = {};
+    sinon.stub(stage, 'loadImage').callsFake(function (url, rect, done) {
+      started.push(url);
+      finish[url] = done;
+      return function () {};
+    });
+    var priorities = { first: 0, low: 2, high: 1 };
+    stage.tilePriority = function (tile) {
+      return priorities[tile];
+    };
+
+    var source = new ImageUrlSource(
+      function (tile) {
+        return { url: tile };
+      },
+      { concurrency: 1 }
+    );
+    source.loadAsset(stage, 'first', sinon.spy());
+    source.loadAsset(stage, 'low', sinon.spy());
+    source.loadAsset(stage, 'high', sinon.spy());
+    wait.until(
+      function () {
+        return started.length === 1;
+      },
+      function () {
+        // Reprioritize before the next request starts.
+        priorities.low = 0.5;
+        finish.first(null, 'asset');
+        assert.deepEqual(started, ['first', 'low']);
+        done();
+      }
+    );
+  });
+
+  test('default retry policy', function () {
+    var source = new ImageUrlSource(function () {});
+    assert.isTrue(source.shouldRetry(new Error('error')));
+    assert.isTrue(source.shouldRetry(new NetworkError('error')));
+    assert.isTrue(source.shouldRetry(new HttpError('error', 404)));
+    assert.isTrue(source.shouldRetry(new CorsError('error')));
+    assert.isTrue(source.shouldRetry(new DecodeError('error')));
+  });
+
+  test('transient retry policy', function () {
+    var source = new ImageUrlSource(function () {}, {
+      retryPolicy: ImageUrlSource.transientRetryPolicy(),
+    });
+    assert.isTrue(source.shouldRetry(new Error('error')));
+    assert.isTrue(source.shouldRetry(new NetworkError('error')));
+    assert.isTrue(source.shouldRetry(new HttpError('error', 503)));
+    assert.isTrue(source.shouldRetry(new HttpError('error', 429)));
+    assert.isFalse(source.shouldRetry(new HttpError('error', 404)));
+    assert.isFalse(source.shouldRetry(new CorsError('error')));
+    assert.isFalse(source.shouldRetry(new DecodeError('error')));
+  });
+
+  test('custom retry policy', function () {
+    var retryPolicy = sinon.stub().returns(null);
+    var source = new ImageUrlSource(function () {}, { retryPolicy });
+    var err = new Error('error');
+    assert.isFalse(source.shouldRetry(err));
+    assert.isTrue(retryPolicy.calledWithExactly(err));
+  });
+
+  test('delay after error', function (done) {
+    var stage = new MockStage();
+    var loadImage = sinon.spy(stage, 'loadImage');
+
+    var tileToUrl = sinon.stub().withArgs('tile').returns({ url: 'url-error' });
+
+    var source = new ImageUrlSource(tileToUrl, {
+      retryPolicy: function () {
+        return 20;
+      },
+    });
+    source.loadAsset(stage, 'tile', function (err) {
+      assert.instanceOf(err, Error);
+      var start = Date.now();
+      source.loadAsset(stage, 'tile', function () {
+        assert.strictEqual(loadImage.callCount, 2);
+        assert.isAtLeast(Date.now() - start, 15);
+        done();
+      });
+      assert.strictEqual(loadImage.callCount, 1);
+    });
+  });
+
+  test('network error event', function (done) {
+    var stage = new MockStage();
+    sinon.stub(stage, 'loadImage').callsFake(function (url, rect, done) {
+      done(new NetworkError('error'));
+      return function () {};
+    });
+
+    var tileToUrl = sinon.stub().withArgs('tile').returns({ url: 'url' });
+
+    var source = new ImageUrlSource(tileToUrl);
+    var spy = sinon.spy();
+    source.addEventListener('networkError', spy);
+    source.loadAsset(stage, 'tile', function (err) {
+      assert.isTrue(spy.calledOnceWithExactly(err, 'tile'));
+      done();
+    });
+  });
+
+  test('no network error event for http errors', function (done) {
+    var stage = new MockStage();
+    sinon.stub(stage, 'loadImage').callsFake(function (url, rect, done) {
+      done(new HttpError('error', 404));
+      return function () {};
+    });
+
+    var tileToUrl = sinon.stub().withArgs('tile').returns({ url: 'url' });
+
+    var source = new ImageUrlSource(tileToUrl);
+    var spy = sinon.spy();
+    source.addEventListener('networkError', spy);
+    source.loadAsset(stage, 'tile', function (err) {
+      assert.instanceOf(err, HttpError);
+      assert.isFalse(spy.called);
+      done();
+    });
+  });
 });
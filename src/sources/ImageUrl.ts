@@ -15,7 +15,10 @@
  */
 import eventEmitter from 'minimal-event-emitter';
 import NetworkError from '../NetworkError';
-import WorkPool from '../collections/WorkPool';
+import HttpError from '../HttpError';
+import CorsError from '../CorsError';
+import DecodeError from '../DecodeError';
+import PriorityWorkPool from '../collections/PriorityWorkPool';
 import chain from '../util/chain';
 import delay from '../util/delay';
 import now from '../util/now';
@@ -49,6 +52,15 @@ interface ImageUrlSourceOptions {
    * retrying a failed request.
    */
   retryDelay?: number;
+  /**
+   * @param {function(Error): ?number} [opts.retryPolicy] Function receiving the
+   * error with which a request failed and returning the time in milliseconds
+   * to wait before retrying it, or null to give up. The default policy waits
+   * `retryDelay` after network and HTTP errors, and retries at once after any
+   * other error. {@link ImageUrlSource.transientRetryPolicy} instead gives up
+   * on errors that are not going to go away on their own.
+   */
+  retryPolicy?: (err: Error) => number | null;
 }
 
 /**
@@ -59,14 +71,20 @@ interface ImageUrlSourceOptions {
  * A {@link Source} that loads {@link Asset assets} from images given a URL and
  * a crop rectangle.
  *
+ * Requests are started in the order given by {@link Stage#tilePriority}, which
+ * is evaluated again whenever a request slot becomes free, so that tiles at the
+ * center of the current view are loaded first. Concurrent requests for the same
+ * URL and rectangle are merged into one, whose asset is shared by all tiles.
+ *
  * @param {Function} sourceFromTile Function that receives a tile and returns
  * a `{ url, rect }` object, where `url` is an image URL and `rect`, when
  * present, is an `{ x, y, width, height }` object in normalized coordinates
  * denoting the portion of the image to use.
  */
 class ImageUrlSource implements Source {
-  #loadPool: WorkPool;
-  #retryDelay: any;
+  #loadPool: PriorityWorkPool;
+  #requests: { [key: string]: PendingRequest };
+  #retryPolicy: (err: Error) => number | null;
   #retryMap: {};
   #sourceFromTile: any;
 
@@ -78,34 +96,37 @@ class ImageUrlSource implements Source {
   ) {
     opts = opts ? opts : {};
 
-    this.#loadPool = new WorkPool({
+    this.#loadPool = new PriorityWorkPool({
       concurrency: opts.concurrency || defaultConcurrency,
     });
 
-    this.#retryDelay = opts.retryDelay || defaultRetryDelay;
+    // Map the key of each request in progress to the tiles awaiting it.
+    this.#requests = {};
+
+    const retryDelay = opts.retryDelay || defaultRetryDelay;
+    this.#retryPolicy =
+      opts.retryPolicy || defaultRetryPolicy.bind(null, retryDelay);
+    // Map each failed URL to the time at which it may be requested again.
     this.#retryMap = {};
 
     this.#sourceFromTile = sourceFromTile;
   }
   loadAsset(stage, tile, done) {
-    const retryDelay = this.#retryDelay;
     const retryMap = this.#retryMap;
 
     const tileSource = this.#sourceFromTile(tile);
     const url = tileSource.url;
     const rect = tileSource.rect;
 
-    const loadImage = stage.loadImage.bind(stage, url, rect);
-
     const loadFn = (done) => {
-      // TODO: Deduplicate load requests for the same URL. Although the browser
-      // might be smart enough to avoid duplicate requests, they are still unduly
-      // impacted by the concurrency parameter.
-      return this.#loadPool.push(loadImage, (err, asset) => {
+      return this.#request(stage, url, rect, tile, (err, asset) => {
         if (err) {
+          const retryAfter = this.#retryPolicy(err);
+          if (retryAfter) {
+            // Wait before retrying.
+            retryMap[url] = now() + retryAfter;
+          }
           if (err instanceof NetworkError) {
-            // If a network error occurred, wait before retrying.
-            retryMap[url] = now();
             this.emit('networkError', err, tile);
           }
           done(err, tile);
@@ -119,13 +140,12 @@ class ImageUrlSource implements Source {
 
     // Check whether we are retrying a failed request.
     let delayAmount;
-    const lastTime = retryMap[url];
-    if (lastTime != null) {
+    const retryTime = retryMap[url];
+    if (retryTime != null) {
       const currentTime = now();
-      const elapsed = currentTime - lastTime;
-      if (elapsed < retryDelay) {
+      if (currentTime < retryTime) {
         // Wait before retrying.
-        delayAmount = retryDelay - elapsed;
+        delayAmount = retryTime - currentTime;
       } else {
         // Retry timeout expired; perform the request at once.
         delayAmount = 0;
@@ -137,9 +157,99 @@ class ImageUrlSource implements Source {
 
     return chain(delayFn, loadFn)(done);
   }
+  #request(stage, url, rect, tile, done) {
+    const requests = this.#requests;
+    const key = requestKey(url, rect);
+
+    const waiter = { stage, tile, done };
+
+    const joined = requests[key];
+    const request: PendingRequest = joined || { waiters: [], cancel: null };
+    request.waiters.push(waiter);
+
+    if (!joined) {
+      requests[key] = request;
+
+      const loadImage = stage.loadImage.bind(stage, url, rect);
+
+      // The request is as urgent as the most urgent tile awaiting it.
+      const priority = () => {
+        let result = Infinity;
+        for (let i = 0; i < request.waiters.length; i++) {
+          const other = request.waiters[i];
+          if (other.stage.tilePriority) {
+            result = Math.min(result, other.stage.tilePriority(other.tile));
+          } else {
+            result = Math.min(result, 0);
+          }
+        }
+        return result;
+      };
+
+      const cancelLoad = this.#loadPool.push(
+        loadImage,
+        function () {
+          if (requests[key] === request) {
+            delete requests[key];
+          }
+          const waiters = request.waiters;
+          request.waiters = [];
+          for (let i = 0; i < waiters.length; i++) {
+            waiters[i].done.apply(null, arguments);
+          }
+        },
+        priority
+      );
+
+      // The load may have completed synchronously.
+      if (requests[key] === request) {
+        request.cancel = cancelLoad;
+      }
+    }
+
+    return function cancel() {
+      const pos = request.waiters.indexOf(waiter);
+      if (pos < 0) {
+        // The request has already completed.
+        return;
+      }
+      request.waiters.splice(pos, 1);
+      waiter.done.apply(null, arguments);
+      if (!request.waiters.length && request.cancel) {
+        // Nobody else is waiting; abort the request.
+        if (requests[key] === request) {
+          delete requests[key];
+        }
+        request.cancel.apply(null, arguments);
+      }
+    };
+  }
+  /**
+   * Returns whether a failed request should be retried, according to the
+   * retry policy.
+   * @param {Error} err
+   * @return {boolean}
+   */
+  shouldRetry(err: Error) {
+    return this.#retryPolicy(err) != null;
+  }
   emit(_arg0: string, _err: NetworkError, _tile: any) {
     throw new Error('Method not implemented.');
   }
+  /**
+   * Returns a retry policy, for the `retryPolicy` option, which retries only
+   * the requests whose failure may be temporary. It waits `retryDelay` after
+   * network errors and transient HTTP errors, gives up after other HTTP
+   * errors, CORS errors and decoding errors, and retries at once after any
+   * other error.
+   *
+   * @param {number} [retryDelay=10000] Time in milliseconds to wait before
+   *     retrying a failed request.
+   * @return {function(Error): ?number}
+   */
+  static transientRetryPolicy(retryDelay?: number) {
+    return transientRetryPolicy.bind(null, retryDelay || defaultRetryDelay);
+  }
   /**
    * Creates an ImageUrlSource from a string template.
    *
@@ -206,6 +316,37 @@ class ImageUrlSource implements Source {
 
 eventEmitter(ImageUrlSource);
 
+interface PendingRequest {
+  waiters: { stage: any; tile: Tile; done: Function }[];
+  cancel: Function | null;
+}
+
+function requestKey(url: string, rect?: Rect) {
+  return rect
+    ? url + '#' + rect.x + ',' + rect.y + ',' + rect.width + ',' + rect.height
+    : url;
+}
+
+function defaultRetryPolicy(retryDelay: number, err: Error) {
+  if (err instanceof NetworkError || err instanceof HttpError) {
+    // Avoid retrying continuously while offline or while the server fails.
+    return retryDelay;
+  }
+  return 0;
+}
+
+function transientRetryPolicy(retryDelay: number, err: Error) {
+  if (err instanceof HttpError) {
+    // Client errors other than timeouts and rate limiting are not going to go
+    // away on their own.
+    return err.isTransient() ? retryDelay : null;
+  }
+  if (err instanceof CorsError || err instanceof DecodeError) {
+    return null;
+  }
+  return defaultRetryPolicy(retryDelay, err);
+}
+
 function propertyRegExp(property) {
   const regExpStr = '\\{(' + property + ')\\}';
   return new RegExp(regExpStr, 'g');
@@ -0,0 +1,161 @@
+import { suite, test, assert } from 'vitest';
+import sinon from 'sinon';
+
+import VideoSource from './Video';
+import VideoAsset from '../assets/Video';
+
+function createVideo(readyState) {
+  var video = document.createElement('video');
+  video.readyState = readyState || 0;
+  video.paused = true;
+  video.ended = false;
+  video.play = sinon.spy(function () {
+    video.paused = false;
+    return Promise.resolve();
+  });
+  video.pause = sinon.spy(function () {
+    video.paused = true;
+  });
+  return video;
+}
+
+suite('VideoSource', function () {
+  test('applies options', function () {
+    var video = createVideo();
+    new VideoSource(video, { loop: true, muted: true });
+    assert.isTrue(video.loop);
+    assert.isTrue(video.muted);
+  });
+
+  test('playback controls', async function () {
+    var video = createVideo();
+    var source = new VideoSource(video);
+
+    assert.isFalse(source.isPlaying());
+    await source.play();
+    assert.isTrue(video.play.calledOnce);
+    assert.isTrue(source.isPlaying());
+
+    source.pause();
+    assert.isTrue(video.pause.calledOnce);
+    assert.isFalse(source.isPlaying());
+
+    source.seek(12);
+    assert.strictEqual(source.currentTime(), 12);
+
+    source.setLoop(true);
+    assert.isTrue(source.loop());
+  });
+
+  test('rejects when playback is prevented', async function () {
+    var video = createVideo();
+    var error = new Error('NotAllowedError');
+    video.play = function () {
+      return Promise.reject(error);
+    };
+    var source = new VideoSource(video);
+    try {
+      await source.play();
+      assert.fail('expected rejection');
+    } catch (err) {
+      assert.strictEqual(err, error);
+    }
+  });
+
+  test('forwards events', function () {
+    var video = createVideo();
+    var source = new VideoSource(video);
+    var names = ['play', 'pause', 'ended', 'timeUpdate', 'seek', 'error'];
+    var spies = {};
+    names.forEach(function (name) {
+      spies[name] = sinon.spy();
+      source.addEventListener(name, spies[name]);
+    });
+    ['play', 'pause', 'ended', 'timeupdate', 'seeked', 'error'].forEach(
+      function (name) {
+        video.dispatchEvent(new Event(name));
+      }
+    );
+    names.forEach(function (name) {
+      assert.isTrue(spies[name].calledOnce, name);
+    });
+
+    source.destroy();
+    video.dispatchEvent(new Event('play'));
+    assert.isTrue(spies.play.calledOnce);
+  });
+
+  test('provides asset once video has data', function () {
+    return new Promise(function (resolve) {
+      var video = createVideo(0);
+      var source = new VideoSource(video);
+      var tile = {};
+      var done = sinon.spy(function (err, doneTile, asset) {
+        assert.isNull(err);
+        assert.strictEqual(doneTile, tile);
+        assert.instanceOf(asset, VideoAsset);
+        assert.strictEqual(asset.video(), video);
+        asset.destroy();
+        resolve();
+      });
+      source.loadAsset(null, tile, done);
+      assert.isFalse(done.called);
+      video.readyState = 2;
+      video.dispatchEvent(new Event('loadeddata'));
+    });
+  });
+
+  test('provides asset asynchronously if video already has data', function () {
+    return new Promise(function (resolve) {
+      var video = createVideo(4);
+      var source = new VideoSource(video);
+      var done = sinon.spy(function (err, _tile, asset) {
+        assert.isNull(err);
+        asset.destroy();
+        resolve();
+      });
+      source.loadAsset(null, {}, done);
+      assert.isFalse(done.called);
+    });
+  });
+
+  test('cancel', function () {
+    var video = createVideo(0);
+    var source = new VideoSource(video);
+    var done = sinon.spy();
+    var cancel = source.loadAsset(null, {}, done);
+    var error = new Error('cancelled');
+    cancel(error);
+    assert.isTrue(done.calledOnceWithExactly(error));
+    video.dispatchEvent(new Event('loadeddata'));
+    assert.isTrue(done.calledOnce);
+  });
+
+  test('fails when the video cannot be loaded', function () {
+    var video = createVideo(0);
+    var source = new VideoSource(video);
+    var tile = {};
+    var done = sinon.spy();
+    source.loadAsset(null, tile, done);
+    video.dispatchEvent(new Event('error'));
+    assert.isTrue(done.calledOnce);
+    assert.instanceOf(done.firstCall.args[0], Error);
+    assert.strictEqual(done.firstCall.args[1], tile);
+    video.dispatchEvent(new Event('loadeddata'));
+    assert.isTrue(done.calledOnce);
+  });
+
+  test('fails when loading is aborted', function () {
+    var video = createVideo(0);
+    var source = new VideoSource(video);
+    var tile = {};
+    var done = sinon.spy();
+    source.loadAsset(null, tile, done);
+    video.dispatchEvent(new Event('abort'));
+    assert.isTrue(done.calledOnce);
+    assert.instanceOf(done.firstCall.args[0], Error);
+    assert.strictEqual(done.firstCall.args[1], tile);
+    video.dispatchEvent(new Event('error'));
+    assert.isTrue(done.calledOnce);
+  });
+});
@@ -0,0 +1,275 @@
+import eventEmitter from 'minimal-event-emitter';
+import VideoAsset from '../assets/Video';
+import clearOwnProperties from '../util/clearOwnProperties';
+
+// HTMLMediaElement#readyState once the current frame is available.
+const HAVE_CURRENT_DATA = 2;
+
+// Video element events forwarded by the source, and their names as source
+// events.
+const forwardedEvents = {
+  play: 'play',
+  pause: 'pause',
+  ended: 'ended',
+  timeupdate: 'timeUpdate',
+  seeked: 'seek',
+  error: 'error',
+};
+
+/**
+ * Signals that playback has started or resumed.
+ * @event VideoSource#play
+ */
+
+/**
+ * Signals that playback has been paused.
+ * @event VideoSource#pause
+ */
+
+/**
+ * Signals that playback has reached the end of a video that does not loop.
+ * @event VideoSource#ended
+ */
+
+/**
+ * Signals that the current playback position has changed.
+ * @event VideoSource#timeUpdate
+ */
+
+/**
+ * Signals that a seek operation has completed.
+ * @event VideoSource#seek
+ */
+
+/**
+ * Signals that the video could not be loaded or played.
+ * @event VideoSource#error
+ */
+
+/**
+ * Video source creation options.
+ */
+export interface VideoSourceOptions {
+  /**
+   * Whether to restart playback upon reaching the end of the video.
+   */
+  loop?: boolean;
+  /**
+   * Whether to mute the audio track. Most browsers only allow muted videos to
+   * play without a user gesture.
+   */
+  muted?: boolean;
+}
+
+/**
+ * @class VideoSource
+ * @implements Source
+ * @classdesc
+ *
+ * A {@link Source} providing the frames of a video as a {@link VideoAsset}, for
+ * use with a geometry consisting of a single tile, such as an
+ * {@link EquirectGeometry} with a single level.
+ *
+ * Assets are only provided once the video has data to display, so that no
+ * empty textures are created while the video is loading.
+ *
+ * The source exposes methods to control playback, and forwards the relevant
+ * events emitted by the video element.
+ *
+ * @param {HTMLVideoElement|string} video The video element, or the URL of a
+ *     video from which to create one. Created elements are set up for
+ *     cross-origin requests and inline playback, and are unloaded when the
+ *     source is destroyed.
+ * @param {Object} opts
+ * @param {boolean} [opts.loop] Whether to restart playback upon reaching the
+ *     end. If unset, the setting on the video element is kept.
+ * @param {boolean} [opts.muted] Whether to mute the audio track. If unset, the
+ *     setting on the video element is kept.
+ */
+class VideoSource {
+  #video: HTMLVideoElement;
+  #ownsVideo: boolean;
+  #eventHandlers: Record<string, () => void>;
+  constructor(video: HTMLVideoElement | string, opts?: VideoSourceOptions) {
+    opts = opts || {};
+
+    if (typeof video === 'string') {
+      const url = video;
+      video = document.createElement('video');
+      video.crossOrigin = 'anonymous';
+      video.preload = 'auto';
+      // Prevent the video from going full screen on iOS.
+      video.playsInline = true;
+      video.setAttribute('webkit-playsinline', '');
+      video.src = url;
+      this.#ownsVideo = true;
+    } else {
+      this.#ownsVideo = false;
+    }
+
+    this.#video = video;
+
+    if (opts.loop != null) {
+      video.loop = opts.loop;
+    }
+    if (opts.muted != null) {
+      video.muted = opts.muted;
+    }
+
+    this.#eventHandlers = {};
+    for (const videoEvent in forwardedEvents) {
+      const handler = this.emit.bind(this, forwardedEvents[videoEvent]);
+      this.#eventHandlers[videoEvent] = handler;
+      video.addEventListener(videoEvent, handler);
+    }
+  }
+  /**
+   * Destructor.
+   */
+  destroy() {
+    const video = this.#video;
+    for (const videoEvent in this.#eventHandlers) {
+      video.removeEventListener(videoEvent, this.#eventHandlers[videoEvent]);
+    }
+    if (this.#ownsVideo) {
+      // Release the network and decoding resources held by the element.
+      video.pause();
+      video.removeAttribute('src');
+      video.load();
+    }
+    clearOwnProperties(this);
+  }
+  emit(_arg0: string) {
+    throw new Error('Method not implemented.');
+  }
+  addEventListener(_arg0: string, _arg1: any) {
+    throw new Error('Method not implemented.');
+  }
+  removeEventListener(_arg0: string, _arg1: any) {
+    throw new Error('Method not implemented.');
+  }
+  /**
+   * Returns the underlying video element.
+   * @return {HTMLVideoElement}
+   */
+  video() {
+    return this.#video;
+  }
+  loadAsset(_stage, tile, done) {
+    const video = this.#video;
+
+    let timeout: ReturnType<typeof setTimeout> | null = null;
+    let listening = false;
+
+    function removeListeners() {
+      if (listening) {
+        video.removeEventListener('loadeddata', loadedDataHandler);
+        video.removeEventListener('error', errorHandler);
+        video.removeEventListener('abort', errorHandler);
+        listening = false;
+      }
+    }
+
+    function loadedDataHandler() {
+      removeListeners();
+      done(null, tile, new VideoAsset(video));
+    }
+
+    function errorHandler(event: Event) {
+      removeListeners();
+      let message = 'Video loading aborted';
+      if (event.type === 'error') {
+        message = 'Video failed to load';
+        if (video.error && video.error.message) {
+          message += ': ' + video.error.message;
+        }
+      }
+      done(new Error(message), tile);
+    }
+
+    if (video.readyState >= HAVE_CURRENT_DATA) {
+      timeout = setTimeout(loadedDataHandler, 0);
+    } else {
+      video.addEventListener('loadeddata', loadedDataHandler);
+      video.addEventListener('error', errorHandler);
+      video.addEventListener('abort', errorHandler);
+      listening = true;
+    }
+
+    function cancel() {
+      if (timeout != null) {
+        clearTimeout(timeout);
+      }
+      removeListeners();
+      done.apply(null, arguments);
+    }
+
+    return cancel;
+  }
+  /**
+   * Starts or resumes playback.
+   *
+   * @return {Promise} A promise resolved once playback has started, or
+   *     rejected if the browser prevents it, e.g. because it requires a user
+   *     gesture.
+   */
+  play(): Promise<void> {
+    try {
+      return Promise.resolve(this.#video.play());
+    } catch (err) {
+      return Promise.reject(err);
+    }
+  }
+  /**
+   * Pauses playback.
+   */
+  pause() {
+    this.#video.pause();
+  }
+  /**
+   * Returns whether the video is playing.
+   * @return {boolean}
+   */
+  isPlaying() {
+    return !this.#video.paused && !this.#video.ended;
+  }
+  /**
+   * Moves the playback position.
+   * @param {number} time The new position in seconds.
+   */
+  seek(time: number) {
+    this.#video.currentTime = time;
+  }
+  /**
+   * Returns the playback position in seconds.
+   * @return {number}
+   */
+  currentTime() {
+    return this.#video.currentTime;
+  }
+  /**
+   * Returns the video duration in seconds, or `NaN` if still unknown.
+   * @return {number}
+   */
+  duration() {
+    return this.#video.duration;
+  }
+  /**
+   * Returns whether playback restarts upon reaching the end.
+   * @return {boolean}
+   */
+  loop() {
+    return this.#video.loop;
+  }
+  /**
+   * Sets whether playback restarts upon reaching the end.
+   * @param {boolean} loop
+   */
+  setLoop(loop: boolean) {
+    this.#video.loop = loop;
+  }
+}
+
+eventEmitter(VideoSource);
+
+export default VideoSource;
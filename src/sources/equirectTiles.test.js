@@ -0,0 +1,126 @@
+import { suite, test, assert } from 'vitest';
+
+import { halveImage, selectMipmap, renderCubeTile } from './equirectTiles';
+
+function makeImage(width, height, colorAt) {
+  var data = new Uint8ClampedArray(width * height * 4);
+  for (var y = 0; y < height; y++) {
+    for (var x = 0; x < width; x++) {
+      data.set(colorAt(x, y), (y * width + x) * 4);
+    }
+  }
+  return { width: width, height: height, data: data };
+}
+
+function pixel(data, size, x, y) {
+  var i = (y * size + x) * 4;
+  return Array.from(data.subarray(i, i + 4));
+}
+
+var front = [255, 0, 0, 255];
+var right = [0, 255, 0, 255];
+var back = [0, 0, 255, 255];
+var left = [255, 255, 0, 255];
+var sky = [0, 255, 255, 255];
+var ground = [255, 0, 255, 255];
+
+// An equirectangular image with a color for each cube face.
+function makePanorama(width, height) {
+  return makeImage(width, height, function (x, y) {
+    if (y < height / 4) {
+      return sky;
+    }
+    if (y >= (height * 3) / 4) {
+      return ground;
+    }
+    var yaw = ((x + 0.5) / width) * 360 - 180;
+    if (yaw >= -45 && yaw < 45) {
+      return front;
+    }
+    if (yaw >= 45 && yaw < 135) {
+      return right;
+    }
+    if (yaw >= -135 && yaw < -45) {
+      return left;
+    }
+    return back;
+  });
+}
+
+suite('equirectTiles', function () {
+  test('halveImage', function () {
+    var image = makeImage(4, 2, function (x) {
+      return [x * 40, 100, 0, 255];
+    });
+    var half = halveImage(image);
+    assert.strictEqual(half.width, 2);
+    assert.strictEqual(half.height, 1);
+    assert.deepEqual(pixel(half.data, 2, 0, 0), [20, 100, 0, 255]);
+    assert.deepEqual(pixel(half.data, 2, 1, 0), [100, 100, 0, 255]);
+  });
+
+  test('selectMipmap', function () {
+    var image = makeImage(64, 32, function () {
+      return front;
+    });
+    var mipmaps = [image];
+    assert.strictEqual(selectMipmap(mipmaps, 16), image);
+    assert.strictEqual(selectMipmap(mipmaps, 32), image);
+    var mipmap = selectMipmap(mipmaps, 4);
+    assert.strictEqual(mipmap.width, 16);
+    assert.lengthOf(mipmaps, 3);
+    assert.strictEqual(selectMipmap(mipmaps, 8), mipmaps[1]);
+  });
+
+  suite('renderCubeTile', function () {
+    var panorama = makePanorama(64, 32);
+
+    function faceCenter(face) {
+      var tile = new Uint8ClampedArray(8 * 8 * 4);
+      renderCubeTile(panorama, face, 8, 8, 0, 0, tile);
+      return pixel(tile, 8, 4, 4);
+    }
+
+    test('faces', function () {
+      assert.deepEqual(faceCenter('f'), front);
+      assert.deepEqual(faceCenter('r'), right);
+      assert.deepEqual(faceCenter('b'), back);
+      assert.deepEqual(faceCenter('l'), left);
+      assert.deepEqual(faceCenter('u'), sky);
+      assert.deepEqual(faceCenter('d'), ground);
+    });
+
+    test('tiles', function () {
+      // The top right tile of the front face, in a face of 2×2 tiles, sees
+      // beyond 30° to the right and above.
+      var tile = new Uint8ClampedArray(8 * 8 * 4);
+      var panorama = makeImage(72, 36, function (x, y) {
+        var yaw = ((x + 0.5) / 72) * 360 - 180;
+        if (y < 12) {
+          return sky;
+        }
+        return yaw > 30 ? right : front;
+      });
+      renderCubeTile(panorama, 'f', 16, 8, 1, 0, tile);
+      assert.deepEqual(pixel(tile, 8, 0, 7), front);
+      assert.deepEqual(pixel(tile, 8, 7, 4), right);
+      assert.deepEqual(pixel(tile, 8, 0, 0), sky);
+    });
+
+    test('up face orientation', function () {
+      // The top of the up face is towards the back, and its right towards the
+      // right.
+      var tile = new Uint8ClampedArray(8 * 8 * 4);
+      var panorama = makeImage(64, 32, function (x, y) {
+        var yaw = ((x + 0.5) / 64) * 360 - 180;
+        if (y > 8) {
+          return ground;
+        }
+        return Math.abs(yaw) > 135 ? back : yaw > 45 && yaw < 135 ? right : sky;
+      });
+      renderCubeTile(panorama, 'u', 8, 8, 0, 0, tile);
+      assert.deepEqual(pixel(tile, 8, 4, 0), back);
+      assert.deepEqual(pixel(tile, 8, 7, 4), right);
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { faceAxes } from '../geometries/Cube';
+
+/**
+ * The pixels of an image, as in `ImageData`.
+ */
+export interface Pixels {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+// Reprojection of an equirectangular image into cube map tiles.
+//
+// The same logic is implemented by the worker in equirectTilesWorker.ts; the
+// two must be kept in sync.
+
+/**
+ * Returns an image half the size of another, averaging each 2×2 block of
+ * pixels.
+ * @param {Pixels} image
+ * @return {Pixels}
+ * @private
+ */
+export function halveImage(image: Pixels): Pixels {
+  const width = Math.max(1, Math.floor(image.width / 2));
+  const height = Math.max(1, Math.floor(image.height / 2));
+  const src = image.data;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.min(image.height - 1, 2 * y);
+    const y1 = Math.min(image.height - 1, 2 * y + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.min(image.width - 1, 2 * x);
+      const x1 = Math.min(image.width - 1, 2 * x + 1);
+      const i00 = (y0 * image.width + x0) * 4;
+      const i01 = (y0 * image.width + x1) * 4;
+      const i10 = (y1 * image.width + x0) * 4;
+      const i11 = (y1 * image.width + x1) * 4;
+      const offset = (y * width + x) * 4;
+      for (let c = 0; c < 4; c++) {
+        data[offset + c] =
+          (src[i00 + c] + src[i01 + c] + src[i10 + c] + src[i11 + c]) / 4;
+      }
+    }
+  }
+  return { width, height, data };
+}
+
+/**
+ * Returns the image to sample for a cube level of the given size: the smallest
+ * one at least four times as wide as the level, among an equirectangular
+ * image and its successive halvings. The halvings are computed as needed and
+ * appended to the list, which initially holds the image.
+ * @param {Pixels[]} mipmaps
+ * @param {number} size
+ * @return {Pixels}
+ * @private
+ */
+export function selectMipmap(mipmaps: Pixels[], size: number) {
+  let image = mipmaps[mipmaps.length - 1];
+  while (image.width >= 8 * size && image.width > 1) {
+    image = halveImage(image);
+    mipmaps.push(image);
+  }
+  for (let i = mipmaps.length - 1; i > 0; i--) {
+    if (mipmaps[i].width >= 4 * size) {
+      return mipmaps[i];
+    }
+  }
+  return mipmaps[0];
+}
+
+/**
+ * Fills a tile of a cube map face from an equirectangular image, sampled
+ * bilinearly. The tile pixels are stored from the top row to the bottom one.
+ * @param {Pixels} image The equirectangular image.
+ * @param {string} face The cube face.
+ * @param {number} size The face size in pixels.
+ * @param {number} tileSize The tile size in pixels.
+ * @param {number} tileX The tile column.
+ * @param {number} tileY The tile row.
+ * @param {Uint8ClampedArray} result The tile pixels.
+ * @private
+ */
+export function renderCubeTile(
+  image: Pixels,
+  face: string,
+  size: number,
+  tileSize: number,
+  tileX: number,
+  tileY: number,
+  result: Uint8ClampedArray
+) {
+  const axes = faceAxes[face];
+  const forward = axes.forward;
+  const right = axes.right;
+  const up = axes.up;
+
+  for (let row = 0; row < tileSize; row++) {
+    const v = 1 - (2 * (tileY * tileSize + row + 0.5)) / size;
+    for (let col = 0; col < tileSize; col++) {
+      const u = (2 * (tileX * tileSize + col + 0.5)) / size - 1;
+      const x = forward[0] + u * right[0] + v * up[0];
+      const y = forward[1] + u * right[1] + v * up[1];
+      const z = forward[2] + u * right[2] + v * up[2];
+
+      // The yaw is 0 at the center of the image, and the top row looks up.
+      const yaw = Math.atan2(x, -z);
+      const elevation = Math.atan2(y, Math.sqrt(x * x + z * z));
+      const px = (yaw / (2 * Math.PI) + 0.5) * image.width - 0.5;
+      const py = (0.5 - elevation / Math.PI) * image.height - 0.5;
+
+      sampleEquirect(image, px, py, result, (row * tileSize + col) * 4);
+    }
+  }
+}
+
+// Samples an equirectangular image at a position in pixels, wrapping around
+// horizontally and clamped vertically.
+function sampleEquirect(
+  image: Pixels,
+  x: number,
+  y: number,
+  result: Uint8ClampedArray,
+  offset: number
+) {
+  const width = image.width;
+  const height = image.height;
+  const data = image.data;
+  y = Math.max(0, Math.min(height - 1, y));
+  const xf = Math.floor(x);
+  const y0 = Math.floor(y);
+  const x0 = ((xf % width) + width) % width;
+  const x1 = (x0 + 1) % width;
+  const y1 = Math.min(height - 1, y0 + 1);
+  const fx = x - xf;
+  const fy = y - y0;
+
+  const i00 = (y0 * width + x0) * 4;
+  const i01 = (y0 * width + x1) * 4;
+  const i10 = (y1 * width + x0) * 4;
+  const i11 = (y1 * width + x1) * 4;
+
+  for (let c = 0; c < 4; c++) {
+    const top = data[i00 + c] + (data[i01 + c] - data[i00 + c]) * fx;
+    const bottom = data[i10 + c] + (data[i11 + c] - data[i10 + c]) * fx;
+    result[offset + c] = top + (bottom - top) * fy;
+  }
+}
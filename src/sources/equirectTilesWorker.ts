@@ -0,0 +1,137 @@
+import { faceAxes } from '../geometries/Cube';
+
+const axes = {};
+for (const face in faceAxes) {
+  axes[face] = {
+    forward: Array.from(faceAxes[face].forward),
+    right: Array.from(faceAxes[face].right),
+    up: Array.from(faceAxes[face].up),
+  };
+}
+
+// Source for the worker used by EquirectToCubeSource to generate tiles off the
+// main thread. It first receives an `{ image }` message transferring the
+// equirectangular ImageBitmap, which it reads through an OffscreenCanvas. It
+// then receives `{ id, face, size, tileSize, x, y }` messages and replies with
+// `{ id, bitmap }` on success or `{ id, error }` on failure, transferring the
+// bitmap. The reprojection logic mirrors equirectTiles.ts.
+export default [
+  'if (typeof OffscreenCanvas === "undefined") {',
+  '  throw new Error("OffscreenCanvas is not supported");',
+  '}',
+
+  'var opts = { imageOrientation: "flipY", premultiplyAlpha: "premultiply" };',
+  'var faceAxes = ' + JSON.stringify(axes) + ';',
+  'var mipmaps = null;',
+
+  'function readImage(bitmap) {',
+  '  var canvas = new OffscreenCanvas(bitmap.width, bitmap.height);',
+  '  var context = canvas.getContext("2d");',
+  '  context.drawImage(bitmap, 0, 0);',
+  '  bitmap.close();',
+  '  return context.getImageData(0, 0, canvas.width, canvas.height);',
+  '}',
+
+  'function halveImage(image) {',
+  '  var width = Math.max(1, Math.floor(image.width / 2));',
+  '  var height = Math.max(1, Math.floor(image.height / 2));',
+  '  var src = image.data;',
+  '  var data = new Uint8ClampedArray(width * height * 4);',
+  '  for (var y = 0; y < height; y++) {',
+  '    var y0 = Math.min(image.height - 1, 2 * y);',
+  '    var y1 = Math.min(image.height - 1, 2 * y + 1);',
+  '    for (var x = 0; x < width; x++) {',
+  '      var x0 = Math.min(image.width - 1, 2 * x);',
+  '      var x1 = Math.min(image.width - 1, 2 * x + 1);',
+  '      var i00 = (y0 * image.width + x0) * 4;',
+  '      var i01 = (y0 * image.width + x1) * 4;',
+  '      var i10 = (y1 * image.width + x0) * 4;',
+  '      var i11 = (y1 * image.width + x1) * 4;',
+  '      var offset = (y * width + x) * 4;',
+  '      for (var c = 0; c < 4; c++) {',
+  '        data[offset + c] = (src[i00 + c] + src[i01 + c] + src[i10 + c] + src[i11 + c]) / 4;',
+  '      }',
+  '    }',
+  '  }',
+  '  return { width: width, height: height, data: data };',
+  '}',
+
+  'function selectMipmap(size) {',
+  '  var image = mipmaps[mipmaps.length - 1];',
+  '  while (image.width >= 8 * size && image.width > 1) {',
+  '    image = halveImage(image);',
+  '    mipmaps.push(image);',
+  '  }',
+  '  for (var i = mipmaps.length - 1; i > 0; i--) {',
+  '    if (mipmaps[i].width >= 4 * size) {',
+  '      return mipmaps[i];',
+  '    }',
+  '  }',
+  '  return mipmaps[0];',
+  '}',
+
+  'function renderCubeTile(image, face, size, tileSize, tileX, tileY, result) {',
+  '  var axes = faceAxes[face];',
+  '  var forward = axes.forward;',
+  '  var right = axes.right;',
+  '  var up = axes.up;',
+  '  for (var row = 0; row < tileSize; row++) {',
+  '    var v = 1 - (2 * (tileY * tileSize + row + 0.5)) / size;',
+  '    for (var col = 0; col < tileSize; col++) {',
+  '      var u = (2 * (tileX * tileSize + col + 0.5)) / size - 1;',
+  '      var x = forward[0] + u * right[0] + v * up[0];',
+  '      var y = forward[1] + u * right[1] + v * up[1];',
+  '      var z = forward[2] + u * right[2] + v * up[2];',
+  '      var yaw = Math.atan2(x, -z);',
+  '      var elevation = Math.atan2(y, Math.sqrt(x * x + z * z));',
+  '      var px = (yaw / (2 * Math.PI) + 0.5) * image.width - 0.5;',
+  '      var py = (0.5 - elevation / Math.PI) * image.height - 0.5;',
+  '      sampleEquirect(image, px, py, result, (row * tileSize + col) * 4);',
+  '    }',
+  '  }',
+  '}',
+
+  'function sampleEquirect(image, x, y, result, offset) {',
+  '  var width = image.width;',
+  '  var height = image.height;',
+  '  var data = image.data;',
+  '  y = Math.max(0, Math.min(height - 1, y));',
+  '  var xf = Math.floor(x);',
+  '  var y0 = Math.floor(y);',
+  '  var x0 = ((xf % width) + width) % width;',
+  '  var x1 = (x0 + 1) % width;',
+  '  var y1 = Math.min(height - 1, y0 + 1);',
+  '  var fx = x - xf;',
+  '  var fy = y - y0;',
+  '  var i00 = (y0 * width + x0) * 4;',
+  '  var i01 = (y0 * width + x1) * 4;',
+  '  var i10 = (y1 * width + x0) * 4;',
+  '  var i11 = (y1 * width + x1) * 4;',
+  '  for (var c = 0; c < 4; c++) {',
+  '    var top = data[i00 + c] + (data[i01 + c] - data[i00 + c]) * fx;',
+  '    var bottom = data[i10 + c] + (data[i11 + c] - data[i10 + c]) * fx;',
+  '    result[offset + c] = top + (bottom - top) * fy;',
+  '  }',
+  '}',
+
+  'self.onmessage = function (event) {',
+  '  var msg = event.data;',
+  '  if (msg.image) {',
+  '    mipmaps = [readImage(msg.image)];',
+  '    return;',
+  '  }',
+  '  var tile = new ImageData(msg.tileSize, msg.tileSize);',
+  '  try {',
+  '    var image = selectMipmap(msg.size);',
+  '    renderCubeTile(image, msg.face, msg.size, msg.tileSize, msg.x, msg.y, tile.data);',
+  '  } catch (err) {',
+  '    self.postMessage({ id: msg.id, error: String((err && err.message) || err) });',
+  '    return;',
+  '  }',
+  '  createImageBitmap(tile, opts).then(function (bitmap) {',
+  '    self.postMessage({ id: msg.id, bitmap: bitmap }, [bitmap]);',
+  '  }, function (err) {',
+  '    self.postMessage({ id: msg.id, error: String((err && err.message) || err) });',
+  '  });',
+  '};',
+].join('\n');
@@ -18,8 +18,10 @@ import sinon from 'sinon';
 sinon.assert.expose(assert, { prefix: '' });
 
 import eventEmitter from 'minimal-event-emitter';
+import { mat4 } from 'gl-matrix';
 
 import Stage from './Stage';
+import Layer from '../Layer';
 
 import CubeGeometry, { CubeTile } from '../geometries/Cube';
 import EquirectGeometry, { EquirectTile } from '../geometries/Equirect';
@@ -48,6 +50,7 @@ class MockLayer {
     this.geometry = sinon.stub().returns(new MockGeometry());
     this.view = sinon.stub().returns(new MockView());
     this.effects = sinon.stub().returns({});
+    this.stereo = sinon.stub().returns({});
     this.isProgressive = sinon.stub();
     this.visibleTiles = sinon.stub();
     this.textureStore = function () {
@@ -62,9 +65,12 @@ class MockView {
   constructor() {
     this.type = 'fake';
     this.setSize = sinon.stub();
+    this.selectLevel = sinon.stub();
   }
 }
 
+eventEmitter(MockView);
+
 class MockGeometry {
   constructor() {
     this.type = 'fake';
@@ -88,6 +94,16 @@ class MockTextureStore {
   }
 }
 
+eventEmitter(MockTextureStore);
+
+class MockOverlay {
+  constructor() {
+    this.render = sinon.stub();
+  }
+}
+
+eventEmitter(MockOverlay);
+
 suite('Stage', function () {
   test('manages the layer stack correctly', function () {
     var stage = new TestStage();
@@ -203,6 +219,99 @@ suite('Stage', function () {
     assert.equal(size.height, 100);
   });
 
+  test('finds the layer at a point', function () {
+    var stage = new TestStage();
+    var background = new MockLayer();
+    var left = new MockLayer();
+    var inset = new MockLayer();
+    left.effects.returns({ rect: { relativeWidth: 0.5 } });
+    inset.effects.returns({
+      rect: {
+        absoluteX: 20,
+        absoluteY: 10,
+        absoluteWidth: 40,
+        absoluteHeight: 20,
+      },
+    });
+
+    stage.addLayer(background);
+    stage.addLayer(left);
+    stage.addLayer(inset);
+
+    // No layer is hit before the stage is sized.
+    assert.isNull(stage.layerAt(10, 10));
+
+    stage.setSize({ width: 200, height: 100 });
+    assert.strictEqual(stage.layerAt(30, 20), inset);
+    assert.strictEqual(stage.layerAt(10, 50), left);
+    assert.strictEqual(stage.layerAt(150, 50), background);
+    assert.isNull(stage.layerAt(250, 50));
+  });
+
+  test('tells the projection modes drawn by a renderer', function () {
+    var stage = new TestStage();
+    function Renderer() {}
+    Renderer.projectionModes = ['stereographic'];
+    stage.registerRenderer('fake', 'rectilinear', function () {});
+    stage.registerRenderer('other', 'rectilinear', Renderer);
+
+    var supports = stage.supportsProjectionMode.bind(stage);
+    assert.isTrue(supports('fake', 'rectilinear', 'rectilinear'));
+    assert.isFalse(supports('fake', 'rectilinear', 'stereographic'));
+    assert.isTrue(supports('other', 'rectilinear', 'stereographic'));
+    assert.isFalse(supports('other', 'rectilinear', 'pannini'));
+    // Layers without renderers are rejected when added instead.
+    assert.isTrue(supports('none', 'rectilinear', 'pannini'));
+  });
+
+  test('manages overlays', function () {
+    var stage = new TestStage();
+    var overlay1 = new MockOverlay();
+    var overlay2 = new MockOverlay();
+
+    var spy = sinon.spy();
+    stage.addEventListener('renderInvalid', spy);
+
+    stage.addOverlay(overlay1);
+    stage.addOverlay(overlay2);
+    assert.sameOrderedMembers(stage.listOverlays(), [overlay1, overlay2]);
+    assert.throws(function () {
+      stage.addOverlay(overlay1);
+    });
+    assert.equal(spy.callCount, 2);
+
+    overlay1.emit('change');
+    assert.equal(spy.callCount, 3);
+
+    stage.removeOverlay(overlay1);
+    assert.sameOrderedMembers(stage.listOverlays(), [overlay2]);
+    assert.throws(function () {
+      stage.removeOverlay(overlay1);
+    });
+    assert.equal(spy.callCount, 4);
+
+    overlay1.emit('change');
+    assert.equal(spy.callCount, 4);
+  });
+
+  test('renders overlays after the layers', function () {
+    var renderer = new MockRenderer();
+    var stage = new TestStage(false, renderer);
+    var layer = new MockLayer(new MockTextureStore());
+    var overlay = new MockOverlay();
+    var spy = sinon.spy();
+    stage.addEventListener('renderComplete', spy);
+
+    stage.addLayer(layer);
+    stage.addOverlay(overlay);
+    stage.setSize({ width: 100, height: 100 });
+    stage.render();
+
+    assert.calledOnceWithExactly(overlay.render, stage);
+    assert.isTrue(overlay.render.calledAfter(renderer.endLayer));
+    assert.isTrue(overlay.render.calledBefore(spy));
+  });
+
   suite('general rendering', function () {
     test('renders a single layer', function () {
       var renderer = new MockRenderer();
@@ -386,6 +495,67 @@ suite('Stage', function () {
       assert.calledWith(store.markTile, tile2);
       assert.callOrder(store.startFrame, store.markTile, store.endFrame);
     });
+
+    test('renders each eye of a stereoscopic layer', function () {
+      var renderer = new MockRenderer();
+      var stage = new TestStage(false, renderer);
+
+      var tile = new EquirectTile(0, new EquirectGeometry([{ width: 1 }]));
+      var texture = {};
+      var store = new MockTextureStore();
+      store.texture.withArgs(tile).returns(texture);
+      var geometry = new MockGeometry();
+      geometry.visibleTiles = function (view, level, result) {
+        result.push(tile);
+      };
+      var layer = new Layer({}, geometry, new MockView(), store, {
+        effects: { opacity: 0.5 },
+        stereo: { layout: 'top-bottom', output: 'anaglyph' },
+      });
+      var renderCompleteSpy = sinon.spy();
+      layer.addEventListener('renderComplete', renderCompleteSpy);
+
+      stage.addLayer(layer);
+      stage.setSize({ width: 100, height: 100 });
+      stage.render();
+
+      // The left eye is rendered on top of the right eye.
+      assert.calledTwice(renderer.startLayer);
+      var rightLayer = renderer.startLayer.firstCall.args[0];
+      var leftLayer = renderer.startLayer.secondCall.args[0];
+      assert.notStrictEqual(rightLayer, layer);
+      assert.notStrictEqual(leftLayer, layer);
+      assert.strictEqual(rightLayer.textureStore(), store);
+      assert.strictEqual(rightLayer.effects().opacity, 0.5);
+      assert.deepEqual(rightLayer.effects().textureCrop, {
+        x: 0,
+        y: 0,
+        width: 1,
+        height: 0.5,
+      });
+      assert.deepEqual(leftLayer.effects().textureCrop, {
+        x: 0,
+        y: 0.5,
+        width: 1,
+        height: 0.5,
+      });
+      assert.calledWith(renderer.renderTile, tile, texture, rightLayer, 2);
+      assert.calledWith(renderer.renderTile, tile, texture, leftLayer, 1);
+      assert.calledTwice(renderCompleteSpy);
+
+      // The eye layers are reused on subsequent frames.
+      stage.render();
+      assert.strictEqual(renderer.startLayer.getCall(3).args[0], leftLayer);
+
+      // Monoscopic layers are rendered directly.
+      var destroySpy = sinon.spy(leftLayer, 'destroy');
+      layer.setStereo({});
+      stage.render();
+      assert.strictEqual(renderer.startLayer.lastCall.args[0], layer);
+      assert.calledOnce(destroySpy);
+
+      layer.destroy();
+    });
   });
 
   suite('non-progressive rendering', function () {
@@ -743,6 +913,42 @@ suite('Stage', function () {
     });
   });
 
+  test('computes tile priorities', function () {
+    var renderer = new MockRenderer();
+    var stage = new TestStage(false, renderer);
+
+    var geometry = new CubeGeometry([
+      { tileSize: 512, size: 512 },
+      { tileSize: 256, size: 1024 },
+    ]);
+    var centerTile = new CubeTile('f', 1, 1, 1, geometry);
+    var cornerTile = new CubeTile('f', 0, 0, 1, geometry);
+    var parentTile = new CubeTile('f', 0, 0, 0, geometry);
+    var hiddenTile = new CubeTile('b', 0, 0, 1, geometry);
+    var store = new MockTextureStore();
+    store.texture.returns(null).withArgs(parentTile).returns({});
+    var layer = new MockLayer(store);
+    // Project the front face onto the whole viewport.
+    layer.view().projection = sinon.stub().returns(mat4.create());
+    layer.visibleTiles.callsFake(function (result) {
+      result.push(cornerTile, centerTile);
+    });
+
+    stage.addLayer(layer);
+    stage.setSize({ width: 100, height: 100 });
+    stage.render();
+
+    // Lower levels first, then closer to the center first.
+    assert.isBelow(stage.tilePriority(parentTile), 1);
+    assert.isAtLeast(stage.tilePriority(centerTile), 1);
+    assert.isBelow(
+      stage.tilePriority(centerTile),
+      stage.tilePriority(cornerTile)
+    );
+    assert.isBelow(stage.tilePriority(cornerTile), 2);
+    assert.strictEqual(stage.tilePriority(hiddenTile), Infinity);
+  });
+
   suite('progressive rendering', function () {
     test('falls back to a parent tile', function () {
       var renderer = new MockRenderer();
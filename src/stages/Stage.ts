@@ -14,7 +14,9 @@
  * limitations under the License.
  */
 import eventEmitter from 'minimal-event-emitter';
+import { vec4 } from 'gl-matrix';
 import WorkQueue from '../collections/WorkQueue';
+import TileMap from '../collections/Map';
 import calcRect from '../util/calcRect';
 import async from '../util/async';
 import cancelize from '../util/cancelize';
@@ -26,11 +28,14 @@ import {
   Rect,
   Renderer,
   Size,
+  StageOverlay,
   Texture,
   TextureConstructor,
   Tile,
 } from '../jsdoc-extras';
 import Layer from '../Layer';
+import { ProjectionMode } from '../views/projections';
+import stereo, { StereoEye } from '../stereo';
 
 function forwardTileCmp(t1, t2) {
   return t1.cmp(t2);
@@ -40,6 +45,37 @@ function reverseTileCmp(t1, t2) {
   return -t1.cmp(t2);
 }
 
+// Returns the loading priority of a tile, where lower values denote higher
+// priority. The integer part is the resolution level, so that lower levels come
+// first, and the fractional part increases with the distance between the tile
+// center and the view center in normalized device coordinates.
+function computeTilePriority(tile, view, tmp: vec4) {
+  var distance = 0;
+  // Single-tile levels do not provide vertices.
+  if (typeof tile.vertices === 'function' && view.projection) {
+    var vertices = tile.vertices();
+    vec4.set(tmp, 0, 0, 0, 0);
+    for (var i = 0; i < vertices.length; i++) {
+      tmp[0] += vertices[i][0];
+      tmp[1] += vertices[i][1];
+      tmp[2] += vertices[i][2] || 0;
+    }
+    vec4.scale(tmp, tmp, 1 / vertices.length);
+    tmp[3] = 1;
+    vec4.transformMat4(tmp, tmp, view.projection());
+    if (tmp[3] > 0) {
+      var x = tmp[0] / tmp[3];
+      var y = tmp[1] / tmp[3];
+      var squared = x * x + y * y;
+      distance = squared / (1 + squared);
+    } else {
+      // The tile center is behind the viewer.
+      distance = 1;
+    }
+  }
+  return tile.z + distance;
+}
+
 /**
  * Signals that the stage has been rendered.
  *
@@ -82,10 +118,16 @@ class Stage {
   _progressive: boolean;
   _layers: Layer[];
   _renderers: Renderer[];
+  _overlays: StageOverlay[];
+  _eyeLayers: Map<Layer, Partial<Record<StereoEye, Layer>>>;
+  _frameLayers: Layer[];
+  _frameRenderers: Renderer[];
   _tilesToLoad: never[];
   _tilesToRender: never[];
   _tmpVisible: never[];
   _tmpChildren: never[];
+  _tilePriorities: TileMap;
+  _tmpPriorityVec: vec4;
   _width: number;
   _height: number;
   _tmpRect: Required<Rect>;
@@ -104,6 +146,18 @@ class Stage {
     // The list of renderers; the i-th renderer is for the i-th layer.
     this._renderers = [];
 
+    // The list of overlays, drawn over the layers in this order.
+    this._overlays = [];
+
+    // The layers rendering each eye of the stereoscopic layers. They share
+    // everything but the effects with the respective layer.
+    this._eyeLayers = new Map();
+
+    // The lists of layers and renderers for the current frame, where each
+    // stereoscopic layer is replaced by its eye layers.
+    this._frameLayers = [];
+    this._frameRenderers = [];
+
     // The lists of tiles to load and render, populated during render().
     this._tilesToLoad = [];
     this._tilesToRender = [];
@@ -112,6 +166,10 @@ class Stage {
     this._tmpVisible = [];
     this._tmpChildren = [];
 
+    // The loading priority of the tiles to load in the last frame.
+    this._tilePriorities = new TileMap();
+    this._tmpPriorityVec = vec4.create();
+
     // Cached stage dimensions.
     // Start with zero, which inhibits rendering until setSize() is called.
     this._width = 0;
@@ -138,6 +196,9 @@ class Stage {
    */
   destroy() {
     this.removeAllLayers();
+    while (this._overlays.length > 0) {
+      this.removeOverlay(this._overlays[0]);
+    }
     clearOwnProperties(this);
   }
   /**
@@ -156,6 +217,34 @@ class Stage {
   registerRenderer(geometryType: string, viewType: string, Renderer: any) {
     return this._rendererRegistry.set(geometryType, viewType, Renderer);
   }
+  /**
+   * Returns whether the {@link Renderer} registered for the given geometry and
+   * view type draws a {@link RectilinearView} projection mode. Every renderer
+   * draws the rectilinear projection, and the other modes listed in its
+   * {@link Renderer.projectionModes} property.
+   *
+   * @param {string} geometryType The geometry type, as given by
+   *     {@link Geometry#type}.
+   * @param {string} viewType The view type, as given by {@link View#type}.
+   * @param {ProjectionMode} mode
+   * @return {boolean} Whether the projection is drawn, or true if no renderer
+   *     is registered.
+   */
+  supportsProjectionMode(
+    geometryType: string,
+    viewType: string,
+    mode: ProjectionMode
+  ) {
+    if (mode === 'rectilinear') {
+      return true;
+    }
+    const Renderer = this._rendererRegistry.get(geometryType, viewType);
+    return (
+      !Renderer ||
+      (!!Renderer.projectionModes &&
+        Renderer.projectionModes.indexOf(mode) >= 0)
+    );
+  }
   /**
    * Returns the underlying DOM element.
    *
@@ -211,6 +300,12 @@ class Stage {
   emit(_arg0: string, _arg1?: any) {
     throw new Error('Method not implemented.');
   }
+  addEventListener(_arg0: string, _arg1: any) {
+    throw new Error('Method not implemented.');
+  }
+  removeEventListener(_arg0: string, _arg1: any) {
+    throw new Error('Method not implemented.');
+  }
   /**
    * Call {@link Stage#setSize} instead.
    *
@@ -265,6 +360,36 @@ class Stage {
   hasLayer(layer: Layer): boolean {
     return this._layers.indexOf(layer) >= 0;
   }
+  /**
+   * Returns the topmost {@link Layer layer} whose `rect` effect contains a
+   * point, or null if there is none.
+   * @param {number} x The horizontal offset from the stage left, in pixels.
+   * @param {number} y The vertical offset from the stage top, in pixels.
+   * @return {?Layer}
+   */
+  layerAt(x: number, y: number): Layer | null {
+    var width = this._width;
+    var height = this._height;
+    if (!(width > 0 && height > 0)) {
+      return null;
+    }
+    var rect = this._tmpRect;
+    var u = x / width;
+    var v = y / height;
+    for (var i = this._layers.length - 1; i >= 0; i--) {
+      var effects = this._layers[i].effects();
+      calcRect(width, height, effects?.rect, rect);
+      if (
+        u >= rect.x &&
+        u < rect.x + rect.width &&
+        v >= rect.y &&
+        v < rect.y + rect.height
+      ) {
+        return this._layers[i];
+      }
+    }
+    return null;
+  }
   /**
    * Adds a {@link Layer layer} into the stage.
    * @param {Layer} layer The layer to add.
@@ -288,21 +413,7 @@ class Stage {
 
     this.validateLayer(layer); // must be defined by subclasses.
 
-    var geometryType = layer.geometry().type;
-    var viewType = layer.view().type;
-    var rendererClass = this._rendererRegistry.get(geometryType, viewType);
-    if (!rendererClass) {
-      throw new Error(
-        'No ' +
-          this.type +
-          ' renderer avaiable for ' +
-          geometryType +
-          ' geometry and ' +
-          viewType +
-          ' view'
-      );
-    }
-    var renderer = this.createRenderer(rendererClass);
+    var renderer = this.createRendererForLayer(layer);
 
     this._layers.splice(i, 0, layer);
     this._renderers.splice(i, 0, renderer);
@@ -311,6 +422,7 @@ class Stage {
     layer.addEventListener('viewChange', this._emitRenderInvalid);
     layer.addEventListener('effectsChange', this._emitRenderInvalid);
     layer.addEventListener('fixedLevelChange', this._emitRenderInvalid);
+    layer.addEventListener('stereoChange', this._emitRenderInvalid);
     layer.addEventListener('textureStoreChange', this._emitRenderInvalid);
 
     this._emitRenderInvalid();
@@ -359,6 +471,7 @@ class Stage {
     var renderer = this._renderers.splice(index, 1)[0];
 
     this.destroyRenderer(renderer);
+    this._destroyEyeLayers(removedLayer);
 
     removedLayer.removeEventListener('viewChange', this._emitRenderInvalid);
     removedLayer.removeEventListener('effectsChange', this._emitRenderInvalid);
@@ -366,6 +479,7 @@ class Stage {
       'fixedLevelChange',
       this._emitRenderInvalid
     );
+    removedLayer.removeEventListener('stereoChange', this._emitRenderInvalid);
     removedLayer.removeEventListener(
       'textureStoreChange',
       this._emitRenderInvalid
@@ -376,6 +490,42 @@ class Stage {
   destroyRenderer(_renderer: any) {
     throw new Error('Method not implemented.');
   }
+  /**
+   * Adds a {@link StageOverlay overlay}, drawn over the layers on every frame.
+   * Overlays are drawn in the order they were added, and are not drawn into
+   * immersive sessions.
+   * @param {StageOverlay} overlay
+   * @throws An error if the overlay already belongs to the stage.
+   */
+  addOverlay(overlay: StageOverlay) {
+    if (this._overlays.indexOf(overlay) >= 0) {
+      throw new Error('Overlay already in stage');
+    }
+    this._overlays.push(overlay);
+    overlay.addEventListener('change', this._emitRenderInvalid);
+    this._emitRenderInvalid();
+  }
+  /**
+   * Removes an {@link StageOverlay overlay}.
+   * @param {StageOverlay} overlay
+   * @throws An error if the overlay does not belong to the stage.
+   */
+  removeOverlay(overlay: StageOverlay) {
+    var index = this._overlays.indexOf(overlay);
+    if (index < 0) {
+      throw new Error('No such overlay in stage');
+    }
+    this._overlays.splice(index, 1);
+    overlay.removeEventListener('change', this._emitRenderInvalid);
+    this._emitRenderInvalid();
+  }
+  /**
+   * Returns the list of {@link StageOverlay overlays}, in drawing order.
+   * @return {StageOverlay[]}
+   */
+  listOverlays(): StageOverlay[] {
+    return [...this._overlays];
+  }
   /**
    * Removes all {@link Layer layers} from the stage.
    */
@@ -405,8 +555,142 @@ class Stage {
    *
    * This contains the rendering logic common to all stage types. Subclasses
    * define the startFrame() and endFrame() methods to perform their own logic.
+   *
+   * Stereoscopic layers are rendered once for each eye required by their
+   * {@link StereoOptions output}.
    */
   render() {
+    if (this._width <= 0 || this._height <= 0) {
+      return;
+    }
+
+    this._collectFrameLayers();
+
+    var stableStage = this.renderLayers(
+      this._frameLayers,
+      this._frameRenderers,
+      this._width,
+      this._height
+    );
+
+    for (var i = 0; i < this._overlays.length; i++) {
+      this._overlays[i].render(this);
+    }
+
+    this.emit('renderComplete', stableStage);
+  }
+  _collectFrameLayers() {
+    var layers = this._layers;
+    var renderers = this._renderers;
+    var frameLayers = this._frameLayers;
+    var frameRenderers = this._frameRenderers;
+
+    frameLayers.length = 0;
+    frameRenderers.length = 0;
+
+    for (var i = 0; i < layers.length; i++) {
+      var layer = layers[i];
+      var stereoOpts = layer.stereo();
+
+      if (!stereoOpts.layout || stereoOpts.layout === 'mono') {
+        this._destroyEyeLayers(layer);
+        frameLayers.push(layer);
+        frameRenderers.push(renderers[i]);
+        continue;
+      }
+
+      // Render each of the eyes required by the output in turn. The eye layers
+      // have the same geometry and view as the layer, hence the same renderer.
+      var eyes = stereo.outputEyes(stereoOpts.output || 'left');
+      for (var j = 0; j < eyes.length; j++) {
+        var eyeLayer = this._eyeLayer(layer, eyes[j]);
+        eyeLayer.setEffects(
+          stereo.eyeEffects(layer.effects(), stereoOpts, eyes[j])
+        );
+        eyeLayer.setFixedLevel(layer.fixedLevel());
+        frameLayers.push(eyeLayer);
+        frameRenderers.push(renderers[i]);
+      }
+    }
+  }
+  _eyeLayer(layer: Layer, eye: StereoEye) {
+    var eyes = this._eyeLayers.get(layer);
+    if (!eyes) {
+      eyes = {};
+      this._eyeLayers.set(layer, eyes);
+    }
+    var eyeLayer = eyes[eye];
+    if (!eyeLayer) {
+      eyeLayer = new Layer(
+        layer.source(),
+        layer.geometry(),
+        layer.view(),
+        layer.textureStore()
+      );
+      // Report the rendering of each eye as that of the layer.
+      eyeLayer.addEventListener(
+        'renderComplete',
+        layer.emit.bind(layer, 'renderComplete')
+      );
+      eyes[eye] = eyeLayer;
+    }
+    return eyeLayer;
+  }
+  _destroyEyeLayers(layer: Layer) {
+    var eyes = this._eyeLayers.get(layer);
+    if (!eyes) {
+      return;
+    }
+    for (var eye in eyes) {
+      eyes[eye].destroy();
+    }
+    this._eyeLayers.delete(layer);
+  }
+  /**
+   * Creates a renderer for a layer that is not part of the stage, for use with
+   * {@link Stage#renderLayers}. The caller is responsible for destroying it
+   * with {@link Stage#destroyRenderer}.
+   *
+   * @param {Layer} layer
+   * @return {Renderer}
+   * @throws An error if no renderer is registered for the layer geometry and
+   *     view types.
+   */
+  createRendererForLayer(layer: Layer) {
+    var geometryType = layer.geometry().type;
+    var viewType = layer.view().type;
+    var rendererClass = this._rendererRegistry.get(geometryType, viewType);
+    if (!rendererClass) {
+      throw new Error(
+        'No ' +
+          this.type +
+          ' renderer available for ' +
+          geometryType +
+          ' geometry and ' +
+          viewType +
+          ' view'
+      );
+    }
+    return this.createRenderer(rendererClass);
+  }
+  /**
+   * Renders a frame containing the given layers, which need not have been
+   * added to the stage. Used by {@link Stage#render} for the stage layers, and
+   * by {@link XrRenderLoop} to render the layers for each eye.
+   *
+   * @param {Layer[]} layers The layers to render, from bottom to top.
+   * @param {Renderer[]} renderers The renderers for each layer.
+   * @param {number} width The width of the rendering area in pixels.
+   * @param {number} height The height of the rendering area in pixels.
+   * @return {boolean} Whether all layers were rendered at the desired
+   *     resolution.
+   */
+  renderLayers(
+    layers: Layer[],
+    renderers: Renderer[],
+    width: number,
+    height: number
+  ) {
     var i, j;
 
     var tilesToLoad = this._tilesToLoad;
@@ -415,32 +699,27 @@ class Stage {
     var stableStage = true;
     var stableLayer;
 
-    // Get the stage dimensions.
-    var width = this._width;
-    var height = this._height;
-
     var rect = this._tmpRect;
     var size = this._tmpSize;
 
-    if (width <= 0 || height <= 0) {
-      return;
-    }
-
     this.startFrame(); // defined by subclasses
 
+    // Forget the tile priorities from the previous frame.
+    this._tilePriorities.clear();
+
     // Signal start of frame to the texture stores.
-    for (i = 0; i < this._layers.length; i++) {
-      this._layers[i].textureStore().startFrame();
+    for (i = 0; i < layers.length; i++) {
+      layers[i].textureStore().startFrame();
     }
 
     // Render layers.
-    for (i = 0; i < this._layers.length; i++) {
-      var layer = this._layers[i];
+    for (i = 0; i < layers.length; i++) {
+      var layer = layers[i];
       var effects = layer.effects();
       var view = layer.view();
       var textureStore = layer.textureStore();
-      var renderer = this._renderers[i];
-      var depth = this._layers.length - i;
+      var renderer = renderers[i];
+      var depth = layers.length - i;
       var tile: Tile, texture: Texture;
 
       // Convert the rect effect into a normalized rect.
@@ -453,8 +732,8 @@ class Stage {
       }
 
       // Update the view size.
-      size.width = rect.width * this._width;
-      size.height = rect.height * this._height;
+      size.width = rect.width * width;
+      size.height = rect.height * height;
       view.setSize(size);
 
       // Signal start of layer to the renderer.
@@ -504,13 +783,13 @@ class Stage {
     }
 
     // Signal end of frame to the texture stores.
-    for (i = 0; i < this._layers.length; i++) {
-      this._layers[i].textureStore().endFrame();
+    for (i = 0; i < layers.length; i++) {
+      layers[i].textureStore().endFrame();
     }
 
     this.endFrame(); // defined by subclasses
 
-    this.emit('renderComplete', stableStage);
+    return stableStage;
   }
   _collectTiles(layer, textureStore) {
     var tilesToLoad = this._tilesToLoad;
@@ -548,6 +827,22 @@ class Stage {
     // Sort tiles to load in ascending resolution order.
     tilesToLoad.sort(forwardTileCmp);
 
+    // Record the loading priority of the tiles to load. A tile may be required
+    // by several layers, in which case the highest priority prevails.
+    var view = layer.view();
+    var tilePriorities = this._tilePriorities;
+    for (i = 0; i < tilesToLoad.length; i++) {
+      var priority = computeTilePriority(
+        tilesToLoad[i],
+        view,
+        this._tmpPriorityVec
+      );
+      var previous = tilePriorities.get(tilesToLoad[i]);
+      if (previous == null || priority < previous) {
+        tilePriorities.set(tilesToLoad[i], priority);
+      }
+    }
+
     // Sort tiles to render in descending resolution order.
     tilesToRender.sort(reverseTileCmp);
 
@@ -622,6 +917,29 @@ class Stage {
     }
     return !found;
   }
+  /**
+   * Returns the loading priority of a tile in the last rendered frame, where
+   * lower values denote higher priority. Tiles at lower resolution levels come
+   * first, followed by tiles closer to the center of the view. Tiles not
+   * required by the last frame have infinite priority.
+   *
+   * This may be used by a {@link Source} to schedule requests.
+   *
+   * @param {Tile} tile
+   * @return {number}
+   */
+  tilePriority(tile: Tile): number {
+    var priority = this._tilePriorities.get(tile);
+    return priority != null ? priority : Infinity;
+  }
+  /**
+   * Returns the texture class used to hold the texture for the given tile.
+   * Subclasses may override this to store textures for some tiles differently.
+   * @param {Tile} _tile
+   */
+  textureClassForTile(_tile: Tile): TextureConstructor | null {
+    return this.TextureClass;
+  }
   /**
    * Create a texture for the given tile and asset. Called by {@link TextureStore}.
    * @param {Tile} tile
@@ -632,8 +950,9 @@ class Stage {
     var self = this;
 
     function makeTexture() {
-      if (self.TextureClass) {
-        return new self.TextureClass(self, tile, asset);
+      var TextureClass = self.textureClassForTile(tile);
+      if (TextureClass) {
+        return new TextureClass(self, tile, asset);
       }
       return null;
     }
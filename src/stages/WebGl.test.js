@@ -0,0 +1,115 @@
+import { suite, test, assert } from 'vitest';
+import sinon from 'sinon';
+
+import WebGlStage from './WebGl';
+import TextureStore from '../TextureStore';
+
+// WebGL is not available in the test environment, so the stage is given a
+// fake context.
+class TestStage extends WebGlStage {
+  _createContext() {
+    return {};
+  }
+}
+
+class MockTile {
+  hash() {
+    return 0;
+  }
+  equals(that) {
+    return this === that;
+  }
+}
+
+function mockSource() {
+  return {
+    loadAsset: sinon.spy(function (_stage, tile, done) {
+      setTimeout(function () {
+        done(null, tile, { isDynamic: () => false, destroy: sinon.spy() });
+      }, 0);
+      return function () {};
+    }),
+  };
+}
+
+function stubCreateTexture(stage) {
+  sinon.stub(stage, 'createTexture').callsFake(function (tile, asset, done) {
+    setTimeout(function () {
+      done(null, tile, asset, { refresh: sinon.spy(), destroy: sinon.spy() });
+    }, 0);
+    return function () {};
+  });
+}
+
+function contextEvent(type) {
+  return new Event(type, { cancelable: true });
+}
+
+suite('WebGlStage', function () {
+  suite('context loss', function () {
+    test('emits events and drops the context', function () {
+      var stage = new TestStage();
+      var lostSpy = sinon.spy();
+      var legacySpy = sinon.spy();
+      stage.addEventListener('contextLost', lostSpy);
+      stage.addEventListener('webglcontextlost', legacySpy);
+
+      var event = contextEvent('webglcontextlost');
+      stage.domElement().dispatchEvent(event);
+
+      assert.isTrue(event.defaultPrevented);
+      assert.isTrue(lostSpy.calledOnce);
+      assert.isTrue(legacySpy.calledOnce);
+      assert.isTrue(legacySpy.calledAfter(lostSpy));
+      assert.isNull(stage.webGlContext());
+      stage.destroy();
+    });
+
+    test('restores the context and reloads textures', function (done) {
+      var invalidateSpy = sinon.spy(TextureStore.prototype, 'invalidate');
+      var stage = new TestStage();
+      stubCreateTexture(stage);
+      var source = mockSource();
+      var store = new TextureStore(source, stage);
+      var tile = new MockTile();
+      var restoredSpy = sinon.spy();
+      stage.addEventListener('contextRestored', restoredSpy);
+
+      var loads = 0;
+      store.addEventListener('textureLoad', function (loadedTile) {
+        assert.strictEqual(loadedTile, tile);
+        loads++;
+        if (loads === 1) {
+          stage.domElement().dispatchEvent(contextEvent('webglcontextlost'));
+          stage
+            .domElement()
+            .dispatchEvent(contextEvent('webglcontextrestored'));
+          assert.isNotNull(stage.webGlContext());
+          assert.isTrue(restoredSpy.calledOnce);
+          assert.isTrue(invalidateSpy.calledOnce);
+          assert.isTrue(invalidateSpy.calledOn(store));
+          return;
+        }
+        assert.strictEqual(source.loadAsset.callCount, 2);
+        invalidateSpy.restore();
+        store.destroy();
+        stage.destroy();
+        done();
+      });
+      store.pin(tile);
+    });
+
+    test('stops handling context events once destroyed', function () {
+      var stage = new TestStage();
+      var canvas = stage.domElement();
+      var createContextSpy = sinon.spy(TestStage.prototype, '_createContext');
+      stage.destroy();
+      var event = contextEvent('webglcontextlost');
+      canvas.dispatchEvent(event);
+      canvas.dispatchEvent(contextEvent('webglcontextrestored'));
+      createContextSpy.restore();
+      assert.isFalse(event.defaultPrevented);
+      assert.isFalse(createContextSpy.called);
+    });
+  });
+});
@@ -21,7 +21,10 @@ import ispot from '../util/ispot';
 import { setAbsolute as setAbsolute } from '../util/dom';
 import { setFullSize as setFullSize } from '../util/dom';
 import clearOwnProperties from '../util/clearOwnProperties';
-import { Renderer, Texture } from '../jsdoc-extras';
+import { ImageLoader, Renderer, Size, Texture } from '../jsdoc-extras';
+import WebGlCommon from '../renderers/WebGlCommon';
+var setRenderTargetSize = WebGlCommon.setRenderTargetSize;
+var renderTargetSize = WebGlCommon.renderTargetSize;
 
 // TODO(tjgq): Unify Stage and WebGlStage.
 
@@ -34,7 +37,9 @@ var browserQuirks = {
   videoUseTexImage2D: browser.chrome,
 };
 
-function initWebGlContext(canvas, opts) {
+function initWebGlContext(canvas, opts, contextNames?: string[]) {
+  contextNames = contextNames || ['webgl', 'experimental-webgl'];
+
   var options = {
     alpha: true,
     premultipliedAlpha: true,
@@ -42,10 +47,10 @@ function initWebGlContext(canvas, opts) {
     preserveDrawingBuffer: !!(opts && opts.preserveDrawingBuffer),
   };
 
-  var gl =
-    canvas.getContext &&
-    (canvas.getContext('webgl', options) ||
-      canvas.getContext('experimental-webgl', options));
+  var gl: any = null;
+  for (var i = 0; i < contextNames.length && !gl; i++) {
+    gl = canvas.getContext && canvas.getContext(contextNames[i], options);
+  }
 
   if (!gl) {
     throw new Error('Could not get WebGL context');
@@ -209,11 +214,35 @@ class WebGlTexture implements Texture {
   }
 }
 
-interface WebGlStageOptions {
+/**
+ * Signals that the WebGL context has been lost. No rendering is possible until
+ * {@link WebGlStage#contextRestored} is emitted.
+ *
+ * @event WebGlStage#contextLost
+ */
+
+/**
+ * Signals that the WebGL context has been lost. Deprecated alias of
+ * {@link WebGlStage#contextLost}, emitted right after it.
+ *
+ * @event WebGlStage#webglcontextlost
+ * @deprecated
+ */
+
+/**
+ * Signals that the WebGL context has been restored after a loss. Renderers for
+ * the current layers have been recreated, and every {@link TextureStore}
+ * belonging to the stage reloads its textures upon receiving this event.
+ *
+ * @event WebGlStage#contextRestored
+ */
+
+export interface WebGlStageOptions {
   antialias?: boolean;
   preserveDrawingBuffer?: boolean;
   generateMipmaps?: boolean;
   wrapContext?: (gl: WebGLRenderingContext) => WebGLRenderingContext;
+  loader?: ImageLoader;
 }
 
 /**
@@ -228,6 +257,7 @@ interface WebGlStageOptions {
  * @param {boolean} [opts.preserveDrawingBuffer=false]
  * @param {boolean} [opts.generateMipmaps=false]
  * @param {function} [opts.wrapContext]
+ * @param {ImageLoader} [opts.loader]
  *
  * The `antialias` and `preserveDrawingBuffer` options control the WebGL
  * context attributes of the same name. The `alpha` and `premultipliedAlpha`
@@ -247,17 +277,25 @@ interface WebGlStageOptions {
  * This is useful when used together with WebGLDebugUtils to debug WebGL issues.
  * See https://www.khronos.org/webgl/wiki/Debugging.
  *
+ * The `loader` option is the {@link ImageLoader} used to load images, such as
+ * a {@link FetchImageLoader}. It defaults to an {@link HtmlImageLoader}. A
+ * loader passed in this way is not destroyed together with the stage.
+ *
  * Also see the available {@link Stage} options.
  */
 class WebGlStage extends Stage {
   TextureClass = WebGlTexture;
   type = 'webgl';
   _generateMipmaps: any;
-  _loader: HtmlImageLoader;
+  _loader: ImageLoader;
   _domElement: HTMLCanvasElement;
   _gl: any;
-  _handleContextLoss: () => void;
+  _contextOptions: WebGlStageOptions;
+  _handleContextLoss: (event: Event) => void;
+  _handleContextRestored: () => void;
   _rendererInstances: Renderer[];
+  _renderTarget: WebGLFramebuffer | null;
+  _renderTargetSize: Size | null;
   static type: string;
   static TextureClass: typeof WebGlTexture;
   constructor(opts?: WebGlStageOptions) {
@@ -268,30 +306,52 @@ class WebGlStage extends Stage {
     this._generateMipmaps =
       opts.generateMipmaps != null ? opts.generateMipmaps : false;
 
-    this._loader = new HtmlImageLoader(this);
+    this._loader = opts.loader || new HtmlImageLoader(this);
 
     this._domElement = document.createElement('canvas');
 
     setAbsolute(this._domElement);
     setFullSize(this._domElement);
 
-    this._gl = initWebGlContext(this._domElement, opts);
+    this._gl = this._createContext(opts);
 
-    this._handleContextLoss = () => {
-      this.emit('webglcontextlost');
+    // Keep the options around to obtain the context again once it is restored.
+    this._contextOptions = opts;
+
+    this._handleContextLoss = (event) => {
+      // The browser only attempts to restore the context if the default action
+      // is prevented.
+      event.preventDefault();
       this._gl = null;
+      this.emit('contextLost');
+      this.emit('webglcontextlost');
     };
 
-    // Handle WebGl context loss.
+    this._handleContextRestored = () => {
+      this._gl = this._createContext(this._contextOptions);
+      this._recreateRenderers();
+      this.emit('contextRestored');
+      this._emitRenderInvalid();
+    };
+
+    // Handle WebGl context loss and restoration.
     this._domElement.addEventListener(
       'webglcontextlost',
       this._handleContextLoss
     );
+    this._domElement.addEventListener(
+      'webglcontextrestored',
+      this._handleContextRestored
+    );
 
     // WebGl renderers are singletons for a given stage. This list stores the
     // existing renderers so they can be reused across layers with the same
     // geometry and view type.
     this._rendererInstances = [];
+
+    // The framebuffer to render into instead of the canvas, if any.
+    this._renderTarget = null;
+    this._renderTargetSize = null;
   }
   /**
    * Destructor.
@@ -301,9 +361,20 @@ class WebGlStage extends Stage {
       'webglcontextlost',
       this._handleContextLoss
     );
+    this._domElement.removeEventListener(
+      'webglcontextrestored',
+      this._handleContextRestored
+    );
     // Delegate clearing own properties to the Stage destructor.
     super.destroy.call(this);
   }
+  /**
+   * Obtains the rendering context from the canvas. Called upon construction and
+   * when the context is restored after a loss.
+   */
+  _createContext(opts: WebGlStageOptions) {
+    return initWebGlContext(this._domElement, opts);
+  }
   /**
    * Returns the underlying DOM element.
    *
@@ -313,13 +384,34 @@ class WebGlStage extends Stage {
     return this._domElement;
   }
   /**
-   * Returns the underlying WebGL rendering context.
+   * Returns the underlying WebGL rendering context, or null if the context has
+   * been lost.
    *
    * @return {WebGLRenderingContext }
    */
   webGlContext() {
     return this._gl;
   }
+  /**
+   * Returns whether the WebGL context is currently lost.
+   *
+   * @return {boolean}
+   */
+  isContextLost() {
+    return !this._gl;
+  }
+  /**
+   * Sets a framebuffer to render into instead of the canvas, such as the one
+   * provided by a WebXR session. Pass null to render into the canvas again.
+   *
+   * @param {WebGLFramebuffer|null} framebuffer
+   * @param {Size=} size The framebuffer dimensions in pixels. Required unless
+   *     the framebuffer is null.
+   */
+  setRenderTarget(framebuffer: WebGLFramebuffer | null, size?: Size) {
+    this._renderTarget = framebuffer;
+    this._renderTargetSize = framebuffer && size ? size : null;
+  }
   setSizeForType() {
     // Update the size of the canvas coordinate space.
     //
@@ -341,6 +433,10 @@ class WebGlStage extends Stage {
     return this._gl.getParameter(this._gl.MAX_TEXTURE_SIZE);
   }
   validateLayer(layer) {
+    if (!this._gl) {
+      // The maximum texture size is unknown while the context is lost.
+      return;
+    }
     var tileSize = layer.geometry().maxTileSize();
     var maxTextureSize = this.maxTextureSize();
     if (tileSize > maxTextureSize) {
@@ -354,6 +450,11 @@ class WebGlStage extends Stage {
     }
   }
   createRenderer(Renderer) {
+    if (!this._gl) {
+      // Renderers cannot be created while the context is lost. They are
+      // created for all layers once the context is restored.
+      return null;
+    }
     var rendererInstances = this._rendererInstances;
     for (var i = 0; i < rendererInstances.length; i++) {
       if (rendererInstances[i] instanceof Renderer) {
@@ -366,12 +467,25 @@ class WebGlStage extends Stage {
   }
   destroyRenderer(renderer) {
     var rendererInstances = this._rendererInstances;
-    if (this._renderers.indexOf(renderer) < 0) {
+    var index = rendererInstances.indexOf(renderer);
+    // Renderers may be shared by several layers, and renderers discarded after
+    // a context loss have already been released.
+    if (index >= 0 && this._renderers.indexOf(renderer) < 0) {
       renderer.destroy();
-      var index = rendererInstances.indexOf(renderer);
-      if (index >= 0) {
-        rendererInstances.splice(index, 1);
-      }
+      rendererInstances.splice(index, 1);
+    }
+  }
+  _recreateRenderers() {
+    // The existing renderers own resources belonging to the lost context, so
+    // they are discarded without being destroyed.
+    this._rendererInstances = [];
+    for (var i = 0; i < this._layers.length; i++) {
+      var layer = this._layers[i];
+      var rendererClass = this._rendererRegistry.get(
+        layer.geometry().type,
+        layer.view().type
+      );
+      this._renderers[i] = this.createRenderer(rendererClass);
     }
   }
   startFrame() {
@@ -381,8 +495,14 @@ class WebGlStage extends Stage {
       throw new Error('Bad WebGL context - maybe context was lost?');
     }
 
+    // Select the framebuffer to render into, and let renderers know about its
+    // dimensions.
+    gl.bindFramebuffer(gl.FRAMEBUFFER, this._renderTarget);
+    setRenderTargetSize(gl, this._renderTargetSize);
+
     // Set the WebGL viewport.
-    gl.viewport(0, 0, gl.drawingBufferWidth, gl.drawingBufferHeight);
+    var targetSize = renderTargetSize(gl);
+    gl.viewport(0, 0, targetSize.width, targetSize.height);
 
     // Clear framebuffer.
     gl.clearColor(0.0, 0.0, 0.0, 0.0);
@@ -430,4 +550,5 @@ WebGlStage.type = WebGlStage.prototype.type = 'webgl';
 
 WebGlStage.TextureClass = WebGlStage.prototype.TextureClass = WebGlTexture;
 
+export { WebGlTexture, initWebGlContext };
 export default WebGlStage;
@@ -0,0 +1,258 @@
+import { suite, test, assert } from 'vitest';
+import sinon from 'sinon';
+
+import WebGl2Stage, { WebGl2Texture } from './WebGl2';
+import { WebGlTexture } from './WebGl';
+import registerDefaultRenderers from '../renderers/registerDefaultRenderers';
+import WebGlCubeRenderer from '../renderers/WebGlCube';
+
+function MockGl(limits) {
+  var count = 0;
+  this.createTexture = sinon.spy(function () {
+    return { id: count++ };
+  });
+  this.deleteTexture = sinon.spy();
+  this.bindTexture = sinon.spy();
+  this.texStorage3D = sinon.spy();
+  this.texSubImage3D = sinon.spy();
+  this.texParameteri = sinon.spy();
+  this.pixelStorei = sinon.spy();
+  this.getParameter = function (name) {
+    return limits[name];
+  };
+  this.MAX_ARRAY_TEXTURE_LAYERS = 'MAX_ARRAY_TEXTURE_LAYERS';
+  this.MAX_TEXTURE_SIZE = 'MAX_TEXTURE_SIZE';
+  this.TEXTURE_2D_ARRAY = 'TEXTURE_2D_ARRAY';
+}
+
+// WebGL 2 is not available in the test environment, so the canvas is given a
+// fake context.
+class TestStage extends WebGl2Stage {
+  _createContext(opts) {
+    var gl = new MockGl(
+      Object.assign(
+        { MAX_ARRAY_TEXTURE_LAYERS: 256, MAX_TEXTURE_SIZE: 4096 },
+        opts.limits
+      )
+    );
+    this._domElement.getContext = function (name) {
+      return name === 'webgl2' ? gl : null;
+    };
+    return super._createContext(opts);
+  }
+}
+
+function mockTile() {
+  return { type: 'cube' };
+}
+
+function mockAsset(width, height) {
+  return {
+    timestamp: sinon.stub().returns(0),
+    element: sinon.stub().returns({}),
+    width: sinon.stub().returns(width),
+    height: sinon.stub().returns(height),
+  };
+}
+
+suite('WebGl2Stage', function () {
+  suite('array textures', function () {
+    test('share an array texture between tiles of the same size', function () {
+      var stage = new TestStage();
+      var gl = stage.webGlContext();
+      var first = new WebGl2Texture(stage, mockTile(), mockAsset(256, 256));
+      var second = new WebGl2Texture(stage, mockTile(), mockAsset(256, 256));
+
+      assert.isTrue(gl.createTexture.calledOnce);
+      assert.strictEqual(first._array, second._array);
+      assert.notEqual(first._layer, second._layer);
+      assert.deepEqual(gl.texStorage3D.firstCall.args.slice(3), [256, 256, 16]);
+      stage.destroy();
+    });
+
+    test('use a separate array texture for each size', function () {
+      var stage = new TestStage();
+      var gl = stage.webGlContext();
+      var first = new WebGl2Texture(stage, mockTile(), mockAsset(256, 256));
+      var second = new WebGl2Texture(stage, mockTile(), mockAsset(512, 256));
+
+      assert.isTrue(gl.createTexture.calledTwice);
+      assert.notEqual(first._array, second._array);
+      assert.strictEqual(second._array.width, 512);
+      stage.destroy();
+    });
+
+    test('grow by another array texture once full', function () {
+      var stage = new TestStage({ textureArrayLayers: 2 });
+      var gl = stage.webGlContext();
+      var textures = [];
+      for (var i = 0; i < 3; i++) {
+        textures.push(
+          new WebGl2Texture(stage, mockTile(), mockAsset(256, 256))
+        );
+      }
+
+      assert.isTrue(gl.createTexture.calledTwice);
+      assert.strictEqual(textures[0]._array, textures[1]._array);
+      assert.notEqual(textures[1]._array, textures[2]._array);
+      assert.strictEqual(textures[2]._layer, 0);
+      stage.destroy();
+    });
+
+    test('have no more layers than supported', function () {
+      var stage = new TestStage({
+        textureArrayLayers: 16,
+        limits: { MAX_ARRAY_TEXTURE_LAYERS: 4 },
+      });
+      var gl = stage.webGlContext();
+      new WebGl2Texture(stage, mockTile(), mockAsset(256, 256));
+      assert.strictEqual(gl.texStorage3D.firstCall.args[5], 4);
+      stage.destroy();
+    });
+
+    test('reuse released layers', function () {
+      var stage = new TestStage();
+      var gl = stage.webGlContext();
+      var first = new WebGl2Texture(stage, mockTile(), mockAsset(256, 256));
+      new WebGl2Texture(stage, mockTile(), mockAsset(256, 256));
+      var layer = first._layer;
+      first.destroy();
+
+      var third = new WebGl2Texture(stage, mockTile(), mockAsset(256, 256));
+      assert.strictEqual(third._layer, layer);
+      assert.isTrue(gl.createTexture.calledOnce);
+      assert.isFalse(gl.deleteTexture.called);
+      stage.destroy();
+    });
+
+    test('are deleted once all layers are released', function () {
+      var stage = new TestStage();
+      var gl = stage.webGlContext();
+      var first = new WebGl2Texture(stage, mockTile(), mockAsset(256, 256));
+      var second = new WebGl2Texture(stage, mockTile(), mockAsset(256, 256));
+      var texture = first._array.texture;
+
+      first.destroy();
+      assert.isFalse(gl.deleteTexture.called);
+      second.destroy();
+      assert.isTrue(gl.deleteTexture.calledOnceWith(texture));
+
+      new WebGl2Texture(stage, mockTile(), mockAsset(256, 256));
+      assert.isTrue(gl.createTexture.calledTwice);
+      stage.destroy();
+    });
+  });
+
+  suite('textures', function () {
+    test('upload the asset into their layer', function () {
+      var stage = new TestStage();
+      var gl = stage.webGlContext();
+      new WebGl2Texture(stage, mockTile(), mockAsset(256, 256));
+      var asset = mockAsset(256, 128);
+      var texture = new WebGl2Texture(stage, mockTile(), asset);
+
+      assert.isTrue(gl.texSubImage3D.calledTwice);
+      var args = gl.texSubImage3D.secondCall.args;
+      assert.deepEqual(args.slice(4, 8), [texture._layer, 256, 128, 1]);
+      assert.strictEqual(args[10], asset.element());
+      assert.isTrue(gl.pixelStorei.calledBefore(gl.texSubImage3D));
+      stage.destroy();
+    });
+
+    test('upload the asset again only once it changes', function () {
+      var stage = new TestStage();
+      var gl = stage.webGlContext();
+      var asset = mockAsset(256, 256);
+      var texture = new WebGl2Texture(stage, mockTile(), asset);
+
+      texture.refresh(mockTile(), asset);
+      assert.isTrue(gl.texSubImage3D.calledOnce);
+
+      asset.timestamp.returns(1);
+      texture.refresh(mockTile(), asset);
+      assert.isTrue(gl.texSubImage3D.calledTwice);
+      assert.isTrue(gl.createTexture.calledOnce);
+      stage.destroy();
+    });
+
+    test('move to another array texture when resized', function () {
+      var stage = new TestStage();
+      var gl = stage.webGlContext();
+      var asset = mockAsset(256, 256);
+      var texture = new WebGl2Texture(stage, mockTile(), asset);
+      var oldArray = texture._array;
+
+      asset.timestamp.returns(1);
+      asset.width.returns(512);
+      asset.height.returns(512);
+      texture.refresh(mockTile(), asset);
+
+      assert.notEqual(texture._array, oldArray);
+      assert.strictEqual(texture._array.width, 512);
+      assert.strictEqual(texture._array.height, 512);
+      assert.isTrue(gl.deleteTexture.calledOnceWith(oldArray.texture));
+      assert.deepEqual(gl.texSubImage3D.secondCall.args.slice(4, 8), [
+        texture._layer,
+        512,
+        512,
+        1,
+      ]);
+      stage.destroy();
+    });
+
+    test('reject assets larger than the maximum texture size', function () {
+      var stage = new TestStage({ limits: { MAX_TEXTURE_SIZE: 1024 } });
+      var gl = stage.webGlContext();
+      assert.throws(function () {
+        new WebGl2Texture(stage, mockTile(), mockAsset(2048, 256));
+      }, /larger than max size/);
+      assert.isFalse(gl.createTexture.called);
+      stage.destroy();
+    });
+  });
+
+  suite('texture class', function () {
+    test('stores tiles of instanced renderers in array textures', function () {
+      var stage = new TestStage();
+      registerDefaultRenderers(stage);
+      assert.strictEqual(
+        stage.textureClassForTile({ type: 'cube' }),
+        WebGl2Texture
+      );
+      assert.strictEqual(
+        stage.textureClassForTile({ type: 'flat' }),
+        WebGl2Texture
+      );
+      assert.strictEqual(
+        stage.textureClassForTile({ type: 'equirect' }),
+        WebGlTexture
+      );
+      stage.destroy();
+    });
+
+    test('follows the renderer registered last', function () {
+      var stage = new TestStage();
+      registerDefaultRenderers(stage);
+      stage.registerRenderer('cube', 'rectilinear', WebGlCubeRenderer);
+      assert.strictEqual(
+        stage.textureClassForTile({ type: 'cube' }),
+        WebGlTexture
+      );
+      stage.destroy();
+    });
+  });
+
+  test('creates a new texture pool for a restored context', function () {
+    var stage = new TestStage();
+    var pool = stage._textureArrayPool;
+    var canvas = stage.domElement();
+    canvas.dispatchEvent(new Event('webglcontextlost', { cancelable: true }));
+    canvas.dispatchEvent(new Event('webglcontextrestored'));
+    assert.notEqual(stage._textureArrayPool, pool);
+
+    var texture = new WebGl2Texture(stage, mockTile(), mockAsset(256, 256));
+    assert.isTrue(stage.webGlContext().createTexture.calledOnce);
+    assert.strictEqual(texture._gl, stage.webGlContext());
+    stage.destroy();
+  });
+});
@@ -0,0 +1,264 @@
+import WebGlStage, {
+  WebGlStageOptions,
+  WebGlTexture,
+  initWebGlContext,
+} from './WebGl';
+import clearOwnProperties from '../util/clearOwnProperties';
+import { Texture, TextureConstructor, Tile } from '../jsdoc-extras';
+
+var defaultTextureArrayLayers = 16;
+
+/**
+ * An array texture holding tile textures of identical dimensions, one per
+ * layer.
+ */
+interface TextureArray {
+  texture: WebGLTexture;
+  width: number;
+  height: number;
+  free: number[];
+}
+
+/**
+ * Allocates layers in array textures for {@link WebGl2Texture}. Array textures
+ * are created as needed and deleted once all of their layers are released.
+ */
+class TextureArrayPool {
+  #gl: WebGL2RenderingContext;
+  #layers: number;
+  #arrays: TextureArray[];
+  constructor(gl: WebGL2RenderingContext, layers: number) {
+    this.#gl = gl;
+    this.#layers = Math.min(
+      layers,
+      gl.getParameter(gl.MAX_ARRAY_TEXTURE_LAYERS)
+    );
+    this.#arrays = [];
+  }
+  allocate(width: number, height: number) {
+    var arrays = this.#arrays;
+    for (var i = 0; i < arrays.length; i++) {
+      var existing = arrays[i];
+      if (
+        existing.width === width &&
+        existing.height === height &&
+        existing.free.length > 0
+      ) {
+        return { array: existing, layer: existing.free.pop() as number };
+      }
+    }
+
+    var gl = this.#gl;
+    var texture = gl.createTexture() as WebGLTexture;
+    gl.bindTexture(gl.TEXTURE_2D_ARRAY, texture);
+    gl.texStorage3D(
+      gl.TEXTURE_2D_ARRAY,
+      1,
+      gl.RGBA8,
+      width,
+      height,
+      this.#layers
+    );
+    gl.texParameteri(gl.TEXTURE_2D_ARRAY, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D_ARRAY, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D_ARRAY, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D_ARRAY, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.bindTexture(gl.TEXTURE_2D_ARRAY, null);
+
+    var free: number[] = [];
+    for (var layer = this.#layers - 1; layer >= 0; layer--) {
+      free.push(layer);
+    }
+
+    var array = { texture, width, height, free };
+    arrays.push(array);
+
+    return { array: array, layer: array.free.pop() as number };
+  }
+  release(array: TextureArray, layer: number) {
+    array.free.push(layer);
+    if (array.free.length === this.#layers) {
+      this.#gl.deleteTexture(array.texture);
+      this.#arrays.splice(this.#arrays.indexOf(array), 1);
+    }
+  }
+}
+
+/**
+ * @implements {Texture}
+ *
+ * A texture stored as a layer of an array texture shared with other tiles of
+ * the same dimensions. This allows all tiles in a layer to be drawn with a
+ * single instanced call.
+ */
+class WebGl2Texture implements Texture {
+  _stage: WebGl2Stage;
+  _gl: WebGL2RenderingContext;
+  _pool: TextureArrayPool;
+  _array: TextureArray | null;
+  _layer: number;
+  _timestamp: null;
+  _width: null;
+  _height: null;
+  constructor(stage, tile, asset) {
+    this._stage = stage;
+    this._gl = stage._gl;
+    this._pool = stage._textureArrayPool;
+    this._array = null;
+    this._layer = -1;
+    this._timestamp = null;
+    this._width = this._height = null;
+    this.refresh(tile, asset);
+  }
+  refresh(_tile, asset) {
+    var gl = this._gl;
+
+    // Check whether the texture needs to be updated.
+    var timestamp = asset.timestamp();
+    if (timestamp === this._timestamp) {
+      return;
+    }
+
+    var element = asset.element();
+    var width = asset.width();
+    var height = asset.height();
+
+    if (width !== this._width || height !== this._height) {
+      // If the texture dimensions have changed since the last refresh, move the
+      // texture into an array with the correct size.
+      var maxSize = this._stage.maxTextureSize();
+      if (width > maxSize || height > maxSize) {
+        throw new Error(
+          'Texture size larger than max size (' +
+            width +
+            'x' +
+            height +
+            ' vs. ' +
+            maxSize +
+            ')'
+        );
+      }
+      if (this._array) {
+        this._pool.release(this._array, this._layer);
+      }
+      var slot = this._pool.allocate(width, height);
+      this._array = slot.array;
+      this._layer = slot.layer;
+    }
+
+    // See WebGlTexture for why the texture is premultiplied by alpha.
+    var array = this._array as TextureArray;
+    gl.bindTexture(gl.TEXTURE_2D_ARRAY, array.texture);
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+    gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, true);
+    gl.texSubImage3D(
+      gl.TEXTURE_2D_ARRAY,
+      0,
+      0,
+      0,
+      this._layer,
+      width,
+      height,
+      1,
+      gl.RGBA,
+      gl.UNSIGNED_BYTE,
+      element
+    );
+    gl.bindTexture(gl.TEXTURE_2D_ARRAY, null);
+
+    // Update texture dimensions and timestamp.
+    this._timestamp = timestamp;
+    this._width = width;
+    this._height = height;
+  }
+  destroy() {
+    if (this._array) {
+      this._pool.release(this._array, this._layer);
+    }
+    clearOwnProperties(this);
+  }
+}
+
+export interface WebGl2StageOptions extends WebGlStageOptions {
+  textureArrayLayers?: number;
+}
+
+/**
+ * @class WebGl2Stage
+ * @extends WebGlStage
+ * @classdesc
+ *
+ * A {@link Stage} implementation using WebGL 2.
+ *
+ * Tiles belonging to geometries whose renderers draw with instancing are
+ * stored as layers of shared array textures, so that all visible tiles of a
+ * layer may be drawn with as few draw calls as possible. Textures for other
+ * geometries are stored as in {@link WebGlStage}, and rendered with the same
+ * renderers.
+ *
+ * Use {@link WebGl2Stage.supported} to check whether WebGL 2 is available
+ * before creating the stage; {@link Viewer} does so and falls back to
+ * {@link WebGlStage} when it is not.
+ *
+ * @param {Object} opts
+ * @param {number} [opts.textureArrayLayers=16] The number of layers in each
+ *     array texture. Larger values reduce the number of draw calls at the cost
+ *     of allocating more texture memory upfront.
+ *
+ * Also see the available {@link WebGlStage} options. The `generateMipmaps`
+ * option only applies to textures not stored in array textures.
+ */
+class WebGl2Stage extends WebGlStage {
+  type = 'webgl2';
+  declare _textureArrayPool: TextureArrayPool;
+  _instancedGeometryTypes: string[] = [];
+  static type: string;
+  constructor(opts?: WebGl2StageOptions) {
+    super(opts);
+  }
+  /**
+   * Returns whether WebGL 2 is available in the current environment.
+   *
+   * @return {boolean}
+   */
+  static supported() {
+    try {
+      var canvas = document.createElement('canvas');
+      return !!(canvas.getContext && canvas.getContext('webgl2'));
+    } catch (e) {
+      return false;
+    }
+  }
+  _createContext(opts: WebGl2StageOptions) {
+    var gl = initWebGlContext(this._domElement, opts, ['webgl2']);
+    // Textures stored in array textures belonging to a lost context are
+    // invalid, so a new pool is needed for every context.
+    this._textureArrayPool = new TextureArrayPool(
+      gl,
+      opts.textureArrayLayers || defaultTextureArrayLayers
+    );
+    return gl;
+  }
+  registerRenderer(geometryType: string, viewType: string, Renderer: any) {
+    // Remember which geometries are drawn by renderers expecting their
+    // textures to be stored in array textures.
+    var index = this._instancedGeometryTypes.indexOf(geometryType);
+    if (Renderer.instanced && index < 0) {
+      this._instancedGeometryTypes.push(geometryType);
+    } else if (!Renderer.instanced && index >= 0) {
+      this._instancedGeometryTypes.splice(index, 1);
+    }
+    return super.registerRenderer(geometryType, viewType, Renderer);
+  }
+  textureClassForTile(tile: Tile): TextureConstructor {
+    if (this._instancedGeometryTypes.indexOf(tile.type) >= 0) {
+      return WebGl2Texture;
+    }
+    return WebGlTexture;
+  }
+}
+
+WebGl2Stage.type = WebGl2Stage.prototype.type = 'webgl2';
+
+export { WebGl2Texture };
+export default WebGl2Stage;
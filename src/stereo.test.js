@@ -0,0 +1,160 @@
+import { suite, test, assert } from 'vitest';
+import { mat4, vec4 } from 'gl-matrix';
+
+import stereo from './stereo';
+import colorEffects from './colorEffects';
+
+suite('stereo', function () {
+  suite('eyeTextureCrop', function () {
+    test('mono', function () {
+      assert.deepEqual(stereo.eyeTextureCrop('mono', 'right'), {
+        x: 0,
+        y: 0,
+        width: 1,
+        height: 1,
+      });
+    });
+
+    test('top-bottom', function () {
+      // The left eye is on top, where the texture coordinates are higher.
+      assert.deepEqual(stereo.eyeTextureCrop('top-bottom', 'left'), {
+        x: 0,
+        y: 0.5,
+        width: 1,
+        height: 0.5,
+      });
+      assert.deepEqual(stereo.eyeTextureCrop('top-bottom', 'right'), {
+        x: 0,
+        y: 0,
+        width: 1,
+        height: 0.5,
+      });
+    });
+
+    test('side-by-side', function () {
+      assert.deepEqual(stereo.eyeTextureCrop('side-by-side', 'left'), {
+        x: 0,
+        y: 0,
+        width: 0.5,
+        height: 1,
+      });
+      assert.deepEqual(stereo.eyeTextureCrop('side-by-side', 'right'), {
+        x: 0.5,
+        y: 0,
+        width: 0.5,
+        height: 1,
+      });
+    });
+
+    test('relative to a crop', function () {
+      var crop = { x: 0.2, y: 0.1, width: 0.6, height: 0.8 };
+      var result = stereo.eyeTextureCrop('side-by-side', 'right', crop);
+      assert.closeTo(result.x, 0.5, 1e-6);
+      assert.closeTo(result.y, 0.1, 1e-6);
+      assert.closeTo(result.width, 0.3, 1e-6);
+      assert.closeTo(result.height, 0.8, 1e-6);
+    });
+  });
+
+  test('outputEyes', function () {
+    assert.deepEqual(stereo.outputEyes('left'), ['left']);
+    assert.deepEqual(stereo.outputEyes('right'), ['right']);
+    assert.deepEqual(stereo.outputEyes('split'), ['left', 'right']);
+    assert.deepEqual(stereo.outputEyes('anaglyph'), ['right', 'left']);
+  });
+
+  suite('anaglyphEffects', function () {
+    test('separates the color channels', function () {
+      var effects = stereo.anaglyphEffects('color');
+      var pixel = vec4.fromValues(0.2, 0.4, 0.6, 1);
+      var left = vec4.create();
+      var right = vec4.create();
+      colorEffects.applyToPixel(pixel, effects.left, left);
+      colorEffects.applyToPixel(pixel, effects.right, right);
+      var expectedLeft = [0.2, 0, 0, 0];
+      var expectedRight = [0, 0.4, 0.6, 1];
+      for (var i = 0; i < 4; i++) {
+        assert.closeTo(left[i], expectedLeft[i], 1e-6);
+        assert.closeTo(right[i], expectedRight[i], 1e-6);
+      }
+    });
+
+    test('throws on unknown type', function () {
+      assert.throws(function () {
+        stereo.anaglyphEffects('unknown');
+      });
+    });
+  });
+
+  suite('eyeEffects', function () {
+    test('keeps the layer effects', function () {
+      var effects = { opacity: 0.5 };
+      var result = stereo.eyeEffects(effects, { layout: 'mono' }, 'left');
+      assert.notStrictEqual(result, effects);
+      assert.deepEqual(result, { opacity: 0.5 });
+    });
+
+    test('crops the texture', function () {
+      var effects = { opacity: 0.5 };
+      var result = stereo.eyeEffects(
+        effects,
+        { layout: 'top-bottom' },
+        'right'
+      );
+      assert.strictEqual(result.opacity, 0.5);
+      assert.deepEqual(result.textureCrop, {
+        x: 0,
+        y: 0,
+        width: 1,
+        height: 0.5,
+      });
+      assert.isUndefined(effects.textureCrop);
+    });
+
+    test('split output', function () {
+      var opts = { layout: 'side-by-side', output: 'split' };
+      assert.deepEqual(stereo.eyeEffects({}, opts, 'left').rect, {
+        relativeX: 0,
+        relativeWidth: 0.5,
+      });
+      assert.deepEqual(stereo.eyeEffects({}, opts, 'right').rect, {
+        relativeX: 0.5,
+        relativeWidth: 0.5,
+      });
+    });
+
+    test('anaglyph output', function () {
+      var opts = { layout: 'top-bottom', output: 'anaglyph', anaglyph: 'gray' };
+      var result = stereo.eyeEffects({}, opts, 'right');
+      var expected = stereo.anaglyphEffects('gray').right;
+      assert.deepEqual(
+        Array.from(result.colorMatrix),
+        Array.from(expected.colorMatrix)
+      );
+    });
+
+    test('anaglyph output applies the layer color effects first', function () {
+      var layerEffects = colorEffects.identity();
+      mat4.fromScaling(layerEffects.colorMatrix, [0.5, 0.5, 0.5]);
+      vec4.set(layerEffects.colorOffset, 0.1, 0.2, 0.3, 0);
+
+      var opts = { layout: 'top-bottom', output: 'anaglyph', anaglyph: 'gray' };
+      var result = stereo.eyeEffects(layerEffects, opts, 'right');
+
+      var pixel = vec4.fromValues(0.2, 0.4, 0.6, 1);
+      var expected = vec4.create();
+      colorEffects.applyToPixel(pixel, layerEffects, expected);
+      colorEffects.applyToPixel(
+        expected,
+        stereo.anaglyphEffects('gray').right,
+        expected
+      );
+      var actual = vec4.create();
+      colorEffects.applyToPixel(pixel, result, actual);
+
+      for (var i = 0; i < 4; i++) {
+        assert.closeTo(actual[i], expected[i], 1e-6);
+      }
+    });
+  });
+});
@@ -0,0 +1,266 @@
+import { mat4 as mat4 } from 'gl-matrix';
+import { vec4 as vec4 } from 'gl-matrix';
+import colorEffects from './colorEffects';
+import { Effects, Rect } from './jsdoc-extras';
+
+/**
+ * How the images for the two eyes are packed into the media.
+ *
+ * - `mono`: the media holds a single image, seen by both eyes.
+ * - `top-bottom`: the left eye image occupies the top half and the right eye
+ *   image the bottom half.
+ * - `side-by-side`: the left eye image occupies the left half and the right
+ *   eye image the right half.
+ *
+ * For tiled geometries, each tile is expected to be packed in this way.
+ */
+export type StereoLayout = 'mono' | 'top-bottom' | 'side-by-side';
+
+/**
+ * How stereoscopic media is displayed outside of an immersive session.
+ *
+ * - `left` or `right`: only the respective eye is displayed.
+ * - `split`: the left eye is displayed on the left half of the layer and the
+ *   right eye on the right half, as required by headset viewers.
+ * - `anaglyph`: both eyes are composited using the color matrices given by
+ *   {@link stereo.anaglyphEffects}, for viewing with color filter glasses.
+ *
+ * During an immersive session, each eye is always displayed on the respective
+ * headset display.
+ */
+export type StereoOutput = 'left' | 'right' | 'split' | 'anaglyph';
+
+/**
+ * An eye.
+ */
+export type StereoEye = 'left' | 'right';
+
+/**
+ * The anaglyph methods described in
+ * http://www.3dtv.at/knowhow/anaglyphcomparison_en.aspx.
+ */
+export type AnaglyphType = 'gray' | 'color' | 'halfcolor' | 'optimized';
+
+/**
+ * Stereoscopic rendering options for a {@link Layer}.
+ */
+export interface StereoOptions {
+  /**
+   * How the eyes are packed into the media. Defaults to `mono`.
+   */
+  layout?: StereoLayout;
+  /**
+   * How the eyes are displayed. Defaults to `left`.
+   */
+  output?: StereoOutput;
+  /**
+   * The anaglyph method used by the `anaglyph` output. Defaults to `optimized`.
+   */
+  anaglyph?: AnaglyphType;
+}
+
+/**
+ * Helper functions for stereoscopic rendering.
+ *
+ * Stereoscopic media is displayed by rendering a {@link Layer} once per eye,
+ * with the effects returned by {@link stereo.eyeEffects}. This is done
+ * automatically by {@link Stage} and {@link XrRenderLoop} for layers created
+ * with {@link StereoOptions}.
+ *
+ * @namespace stereo
+ */
+
+// Color matrices for the left and right eyes, in the same column-major order as
+// {@link Effects#colorMatrix}. The left eye only contributes to the red channel
+// and the right eye to the green and blue channels. The gray matrices compute
+// the luminance.
+//
+// The alpha coefficients were chosen so that the blend function used by the
+// stage, glBlend(ONE, ONE_MINUS_SRC_ALPHA), results in additive composition
+// when the left eye is rendered on top of the right one.
+const grayLeft = [0.3086, 0.6094, 0.082, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0];
+const grayRight = [
+  0, 0, 0, 0, 0.3086, 0.6094, 0.082, 0, 0.3086, 0.6094, 0.082, 0, 0, 0, 0, 1,
+];
+const colorLeft = [1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0];
+const colorRight = [0, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+const optimizedLeft = [0, 0.7, 0.3, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0];
+
+const anaglyphMatrices = {
+  gray: { left: grayLeft, right: grayRight },
+  color: { left: colorLeft, right: colorRight },
+  halfcolor: { left: grayLeft, right: colorRight },
+  optimized: { left: optimizedLeft, right: colorRight },
+};
+
+const defaultAnaglyph: AnaglyphType = 'optimized';
+
+/**
+ * Returns the color effects producing the left and right components of an
+ * anaglyph. The left eye must be rendered on top of the right one.
+ *
+ * @param {AnaglyphType} type
+ * @return {{left: Effects, right: Effects}}
+ * @throws An error if the anaglyph type is unknown.
+ *
+ * @memberof stereo
+ */
+function anaglyphEffects(type: AnaglyphType): {
+  left: Effects;
+  right: Effects;
+} {
+  const matrices = anaglyphMatrices[type];
+  if (!matrices) {
+    throw new Error('Unknown anaglyph type: ' + type);
+  }
+  return {
+    left: {
+      colorOffset: vec4.create(),
+      colorMatrix: mat4.clone(matrices.left as mat4),
+    },
+    right: {
+      colorOffset: vec4.create(),
+      colorMatrix: mat4.clone(matrices.right as mat4),
+    },
+  };
+}
+
+/**
+ * Returns the region of a texture holding the image for an eye.
+ *
+ * The region is given in texture coordinates, where the origin is at the
+ * bottom left corner. If a crop is given, the region is computed relative to
+ * it.
+ *
+ * @param {StereoLayout} layout
+ * @param {StereoEye} eye
+ * @param {Rect} [crop] The region of the texture holding both eyes.
+ * @return {Rect}
+ *
+ * @memberof stereo
+ */
+function eyeTextureCrop(
+  layout: StereoLayout,
+  eye: StereoEye,
+  crop?: Rect
+): Rect {
+  crop = crop || {};
+  const x = crop.x != null ? crop.x : 0;
+  const y = crop.y != null ? crop.y : 0;
+  const width = crop.width != null ? crop.width : 1;
+  const height = crop.height != null ? crop.height : 1;
+
+  switch (layout) {
+    case 'top-bottom':
+      return {
+        x,
+        y: eye === 'left' ? y + height / 2 : y,
+        width,
+        height: height / 2,
+      };
+    case 'side-by-side':
+      return {
+        x: eye === 'left' ? x : x + width / 2,
+        y,
+        width: width / 2,
+        height,
+      };
+    default:
+      return { x, y, width, height };
+  }
+}
+
+/**
+ * Returns the eyes to be rendered for an output, in rendering order.
+ *
+ * @param {StereoOutput} output
+ * @return {StereoEye[]}
+ *
+ * @memberof stereo
+ */
+function outputEyes(output: StereoOutput): StereoEye[] {
+  switch (output) {
+    case 'right':
+      return ['right'];
+    case 'split':
+      return ['left', 'right'];
+    case 'anaglyph':
+      // The left eye must be rendered on top; see anaglyphEffects.
+      return ['right', 'left'];
+    default:
+      return ['left'];
+  }
+}
+
+/**
+ * Returns the effects for rendering an eye of a layer, derived from the layer
+ * effects.
+ *
+ * The texture crop selects the eye from the media. For the `split` output, the
+ * rect is replaced by the respective half of the rendering area. For the
+ * `anaglyph` output, the anaglyph color matrix is applied after the color
+ * effects of the layer.
+ *
+ * @param {Effects} effects The layer effects.
+ * @param {StereoOptions} stereo
+ * @param {StereoEye} eye
+ * @return {Effects} A new object; the layer effects are not modified.
+ *
+ * @memberof stereo
+ */
+function eyeEffects(
+  effects: Effects,
+  stereo: StereoOptions,
+  eye: StereoEye
+): Effects {
+  const result: Effects = { ...effects };
+
+  if (stereo.layout && stereo.layout !== 'mono') {
+    result.textureCrop = eyeTextureCrop(
+      stereo.layout,
+      eye,
+      effects.textureCrop
+    );
+  }
+
+  if (stereo.output === 'split') {
+    result.rect = {
+      relativeX: eye === 'left' ? 0 : 0.5,
+      relativeWidth: 0.5,
+    };
+  } else if (stereo.output === 'anaglyph') {
+    const matrices = anaglyphMatrices[stereo.anaglyph || defaultAnaglyph];
+    if (!matrices) {
+      throw new Error('Unknown anaglyph type: ' + stereo.anaglyph);
+    }
+    const anaglyphMatrix = matrices[eye] as mat4;
+
+    // Apply the layer color effects first, i.e. compute
+    // (pixel * M1 + O1) * M2 = pixel * (M1 * M2) + O1 * M2.
+    const colorMatrix = mat4.create();
+    const colorOffset = vec4.create();
+    if (effects.colorMatrix) {
+      mat4.multiply(colorMatrix, effects.colorMatrix, anaglyphMatrix);
+    } else {
+      mat4.copy(colorMatrix, anaglyphMatrix);
+    }
+    if (effects.colorOffset) {
+      colorEffects.applyToPixel(
+        effects.colorOffset,
+        { colorMatrix: anaglyphMatrix, colorOffset: vec4.create() },
+        colorOffset
+      );
+    }
+    result.colorMatrix = colorMatrix;
+    result.colorOffset = colorOffset;
+  }
+
+  return result;
+}
+
+export default {
+  anaglyphEffects,
+  eyeTextureCrop,
+  outputEyes,
+  eyeEffects,
+};
@@ -57,45 +57,53 @@ function setWithVendorPrefix(property: string) {
 const setTransform = setWithVendorPrefix('transform');
 const setTransformOrigin = setWithVendorPrefix('transformOrigin');
 
-function setNullTransform(element: HTMLElement) {
+function setNullTransform(element: HTMLElement | SVGElement) {
   setTransform(element, 'translateZ(0)');
 }
 
-function setNullTransformOrigin(element: HTMLElement) {
+function setNullTransformOrigin(element: HTMLElement | SVGElement) {
   setTransformOrigin(element, '0 0 0');
 }
 
-function setAbsolute(element: HTMLElement) {
+function setAbsolute(element: HTMLElement | SVGElement) {
   element.style.position = 'absolute';
 }
 
-function setPixelPosition(element: HTMLElement, x: string, y: string) {
+function setPixelPosition(
+  element: HTMLElement | SVGElement,
+  x: string,
+  y: string
+) {
   element.style.left = x + 'px';
   element.style.top = y + 'px';
 }
 
-function setPixelSize(element: HTMLElement, width: number, height: number) {
+function setPixelSize(
+  element: HTMLElement | SVGElement,
+  width: number,
+  height: number
+) {
   element.style.width = width + 'px';
   element.style.height = height + 'px';
 }
 
-function setNullSize(element: HTMLElement) {
+function setNullSize(element: HTMLElement | SVGElement) {
   element.style.width = element.style.height = '0';
 }
 
-function setFullSize(element: HTMLElement) {
+function setFullSize(element: HTMLElement | SVGElement) {
   element.style.width = element.style.height = '100%';
 }
 
-function setOverflowHidden(element: HTMLElement) {
+function setOverflowHidden(element: HTMLElement | SVGElement) {
   element.style.overflow = 'hidden';
 }
 
-function setOverflowVisible(element: HTMLElement) {
+function setOverflowVisible(element: HTMLElement | SVGElement) {
   element.style.overflow = 'visible';
 }
 
-function setNoPointerEvents(element: HTMLElement) {
+function setNoPointerEvents(element: HTMLElement | SVGElement) {
   element.style.pointerEvents = 'none';
 }
 
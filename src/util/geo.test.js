@@ -0,0 +1,51 @@
+import { suite, test, assert } from 'vitest';
+
+import { geoBearing, geoDistance, normalizeBearing } from './geo';
+
+suite('geo', function () {
+  var origin = { latitude: 0, longitude: 0 };
+
+  test('geoBearing', function () {
+    assert.closeTo(geoBearing(origin, { latitude: 1, longitude: 0 }), 0, 1e-9);
+    assert.closeTo(
+      geoBearing(origin, { latitude: 0, longitude: 1 }),
+      Math.PI / 2,
+      1e-9
+    );
+    assert.closeTo(
+      geoBearing(origin, { latitude: -1, longitude: 0 }),
+      Math.PI,
+      1e-9
+    );
+    assert.closeTo(
+      geoBearing(origin, { latitude: 0, longitude: -1 }),
+      (3 * Math.PI) / 2,
+      1e-9
+    );
+  });
+
+  test('geoDistance', function () {
+    // One degree along the equator.
+    assert.closeTo(
+      geoDistance(origin, { latitude: 0, longitude: 1 }),
+      111195,
+      1
+    );
+    // Paris to London.
+    assert.closeTo(
+      geoDistance(
+        { latitude: 48.8566, longitude: 2.3522 },
+        { latitude: 51.5074, longitude: -0.1278 }
+      ),
+      343500,
+      1000
+    );
+    assert.equal(geoDistance(origin, origin), 0);
+  });
+
+  test('normalizeBearing', function () {
+    assert.closeTo(normalizeBearing(-Math.PI / 2), (3 * Math.PI) / 2, 1e-9);
+    assert.closeTo(normalizeBearing(5 * Math.PI), Math.PI, 1e-9);
+    assert.equal(normalizeBearing(1), 1);
+  });
+});
@@ -0,0 +1,72 @@
+import degToRad from './degToRad';
+
+// Mean Earth radius in meters.
+const earthRadius = 6371008.8;
+
+/**
+ * A geographic position.
+ */
+export interface GeoLocation {
+  /**
+   * Latitude in degrees.
+   */
+  latitude: number;
+  /**
+   * Longitude in degrees.
+   */
+  longitude: number;
+  /**
+   * Altitude in meters.
+   */
+  altitude?: number;
+}
+
+/**
+ * Returns the initial bearing of the great-circle path from one position to
+ * another, in radians clockwise from north, in the [0, 2π) range.
+ * @param {GeoLocation} from
+ * @param {GeoLocation} to
+ * @return {number}
+ */
+export function geoBearing(from: GeoLocation, to: GeoLocation) {
+  const lat1 = degToRad(from.latitude);
+  const lat2 = degToRad(to.latitude);
+  const dLon = degToRad(to.longitude - from.longitude);
+  const y = Math.sin(dLon) * Math.cos(lat2);
+  const x =
+    Math.cos(lat1) * Math.sin(lat2) -
+    Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+  return normalizeBearing(Math.atan2(y, x));
+}
+
+/**
+ * Returns the great-circle distance between two positions in meters, ignoring
+ * their altitude.
+ * @param {GeoLocation} from
+ * @param {GeoLocation} to
+ * @return {number}
+ */
+export function geoDistance(from: GeoLocation, to: GeoLocation) {
+  const lat1 = degToRad(from.latitude);
+  const lat2 = degToRad(to.latitude);
+  const sinLat = Math.sin((lat2 - lat1) / 2);
+  const sinLon = Math.sin(degToRad(to.longitude - from.longitude) / 2);
+  const h = sinLat * sinLat + Math.cos(lat1) * Math.cos(lat2) * sinLon * sinLon;
+  return 2 * earthRadius * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Normalizes a bearing into the [0, 2π) range.
+ * @param {number} bearing
+ * @return {number}
+ */
+export function normalizeBearing(bearing: number) {
+  const result = bearing % (2 * Math.PI);
+  return result < 0 ? result + 2 * Math.PI : result;
+}
+
+export default {
+  geoBearing,
+  geoDistance,
+  normalizeBearing,
+};
@@ -0,0 +1,81 @@
+import { suite, test, assert } from 'vitest';
+
+import {
+  angularDistance,
+  floorDistance,
+  floorPointDistance,
+  heightAboveFloor,
+} from './measure';
+
+suite('measure', function () {
+  test('angularDistance', function () {
+    assert.closeTo(
+      angularDistance({ yaw: 0, pitch: 0 }, { yaw: 0.5, pitch: 0 }),
+      0.5,
+      1e-9
+    );
+    assert.closeTo(
+      angularDistance({ yaw: 0, pitch: -0.2 }, { yaw: 0, pitch: 0.3 }),
+      0.5,
+      1e-9
+    );
+    assert.closeTo(
+      angularDistance({ yaw: 0, pitch: 0 }, { yaw: Math.PI, pitch: 0 }),
+      Math.PI,
+      1e-9
+    );
+    // Meridians converge towards the poles.
+    assert.isBelow(
+      angularDistance({ yaw: 0, pitch: 1.4 }, { yaw: 1, pitch: 1.4 }),
+      0.2
+    );
+  });
+
+  test('floorDistance', function () {
+    assert.closeTo(floorDistance({ yaw: 1, pitch: Math.PI / 4 }, 2), 2, 1e-9);
+    assert.equal(floorDistance({ yaw: 0, pitch: Math.PI / 2 }, 2), 0);
+    assert.isNull(floorDistance({ yaw: 0, pitch: 0 }, 2));
+    assert.isNull(floorDistance({ yaw: 0, pitch: -0.5 }, 2));
+  });
+
+  test('floorPointDistance', function () {
+    var down = Math.PI / 4;
+    assert.closeTo(
+      floorPointDistance(
+        { yaw: 0, pitch: down },
+        { yaw: Math.PI, pitch: down },
+        1.5
+      ),
+      3,
+      1e-9
+    );
+    assert.closeTo(
+      floorPointDistance(
+        { yaw: 0, pitch: down },
+        { yaw: Math.PI / 2, pitch: down },
+        1
+      ),
+      Math.SQRT2,
+      1e-9
+    );
+    assert.isNull(
+      floorPointDistance({ yaw: 0, pitch: down }, { yaw: 0, pitch: -0.1 }, 1)
+    );
+  });
+
+  test('heightAboveFloor', function () {
+    // A wall at a horizontal distance of 2 from a camera at a height of 1.5.
+    var base = { yaw: 0, pitch: Math.atan(1.5 / 2) };
+    assert.closeTo(
+      heightAboveFloor(base, { yaw: 0, pitch: 0 }, 1.5),
+      1.5,
+      1e-9
+    );
+    assert.closeTo(
+      heightAboveFloor(base, { yaw: 0, pitch: -Math.atan(0.5) }, 1.5),
+      2.5,
+      1e-9
+    );
+    assert.isNull(heightAboveFloor({ yaw: 0, pitch: -0.1 }, base, 1.5));
+  });
+});
@@ -0,0 +1,88 @@
+import { SphericalPoint } from './sphericalPath';
+
+/**
+ * Returns the angle in radians between two directions.
+ * @param {SphericalPoint} a
+ * @param {SphericalPoint} b
+ * @return {number}
+ */
+export function angularDistance(a: SphericalPoint, b: SphericalPoint) {
+  // Haversine formula, which is well conditioned for small angles.
+  const sinPitch = Math.sin((b.pitch - a.pitch) / 2);
+  const sinYaw = Math.sin((b.yaw - a.yaw) / 2);
+  const h =
+    sinPitch * sinPitch +
+    Math.cos(a.pitch) * Math.cos(b.pitch) * sinYaw * sinYaw;
+  return 2 * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Returns the horizontal distance from the camera to the point of a flat floor
+ * seen in a direction, or null if the direction does not point below the
+ * horizon.
+ * @param {SphericalPoint} point
+ * @param {number} cameraHeight The camera height above the floor.
+ * @return {?number}
+ */
+export function floorDistance(point: SphericalPoint, cameraHeight: number) {
+  // Positive pitches point downwards.
+  if (point.pitch <= 0) {
+    return null;
+  }
+  if (point.pitch >= Math.PI / 2) {
+    return 0;
+  }
+  return cameraHeight / Math.tan(point.pitch);
+}
+
+/**
+ * Returns the distance between the points of a flat floor seen in two
+ * directions, or null if either direction does not point below the horizon.
+ * @param {SphericalPoint} a
+ * @param {SphericalPoint} b
+ * @param {number} cameraHeight The camera height above the floor.
+ * @return {?number}
+ */
+export function floorPointDistance(
+  a: SphericalPoint,
+  b: SphericalPoint,
+  cameraHeight: number
+) {
+  const da = floorDistance(a, cameraHeight);
+  const db = floorDistance(b, cameraHeight);
+  if (da == null || db == null) {
+    return null;
+  }
+  // Law of cosines on the floor plane.
+  return Math.sqrt(
+    Math.max(0, da * da + db * db - 2 * da * db * Math.cos(b.yaw - a.yaw))
+  );
+}
+
+/**
+ * Returns the height above a flat floor of a point seen in one direction,
+ * assuming it lies vertically above the floor point seen in another, or null
+ * if the latter does not point below the horizon.
+ * @param {SphericalPoint} base The direction of the floor point.
+ * @param {SphericalPoint} top The direction of the point above it.
+ * @param {number} cameraHeight The camera height above the floor.
+ * @return {?number}
+ */
+export function heightAboveFloor(
+  base: SphericalPoint,
+  top: SphericalPoint,
+  cameraHeight: number
+) {
+  const distance = floorDistance(base, cameraHeight);
+  if (distance == null) {
+    return null;
+  }
+  return cameraHeight - distance * Math.tan(top.pitch);
+}
+
+export default {
+  angularDistance,
+  floorDistance,
+  floorPointDistance,
+  heightAboveFloor,
+};
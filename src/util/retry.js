@@ -17,8 +17,9 @@
 import noop from './noop';
 
 // Return a cancelable function that executes fn in a loop until it returns
-// successfully.
-function retry(fn) {
+// successfully. If shouldRetry is given, it is called with each error and the
+// loop stops, passing the error along, when it returns false.
+function retry(fn, shouldRetry) {
   return function retried() {
     var args = arguments.length
       ? Array.prototype.slice.call(arguments, 0, arguments.length - 1)
@@ -30,7 +31,7 @@ function retry(fn) {
 
     function exec() {
       var err = arguments[0];
-      if (!err || canceled) {
+      if (!err || canceled || (shouldRetry && !shouldRetry(err))) {
         done.apply(null, arguments);
       } else {
         cfn = fn.apply(null, args);
@@ -38,7 +39,7 @@ function retry(fn) {
     }
 
     args.push(exec);
-    exec(true);
+    cfn = fn.apply(null, args);
 
     return function cancel() {
       canceled = true;
@@ -71,6 +71,19 @@ suite('retry', function () {
     });
   });
 
+  test('give up', function (done) {
+    var spy = sinon.spy();
+    var shouldRetry = sinon.stub().returns(false);
+    var fn = retry(cancelize(flaky(2)), shouldRetry);
+    fn(2, spy);
+    wait.untilSpyCalled(spy, function () {
+      assert.isTrue(spy.calledOnce);
+      assert.isTrue(spy.calledWithExactly(true));
+      assert.isTrue(shouldRetry.calledOnceWithExactly(true));
+      done();
+    });
+  });
+
   test('cancel', function (done) {
     var spy = sinon.spy();
     var fn = retry(cancelize(flaky(0)));
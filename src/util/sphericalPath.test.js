@@ -0,0 +1,136 @@
+import { suite, test, assert } from 'vitest';
+
+import RectilinearView from '../views/Rectilinear';
+import {
+  projectSphericalPath,
+  pathContains,
+  pathDistance,
+} from './sphericalPath';
+
+function makeView(params) {
+  var view = new RectilinearView(params);
+  view.setSize({ width: 200, height: 100 });
+  return view;
+}
+
+function project(view, points, closed) {
+  return projectSphericalPath(
+    points,
+    closed,
+    view.projection(),
+    view.width(),
+    view.height()
+  );
+}
+
+suite('sphericalPath', function () {
+  test('projects vertices like the view', function () {
+    var view = makeView({ yaw: 0, pitch: 0, fov: 1 });
+    var points = [
+      { yaw: -0.2, pitch: -0.1 },
+      { yaw: 0.2, pitch: -0.1 },
+      { yaw: 0.1, pitch: 0.2 },
+    ];
+    var paths = project(view, points, true);
+    assert.lengthOf(paths, 1);
+
+    var first = view.coordinatesToScreen(points[0]);
+    assert.closeTo(paths[0][0], first.x, 1e-6);
+    assert.closeTo(paths[0][1], first.y, 1e-6);
+
+    // Every projected vertex is part of the path.
+    points.forEach(function (point) {
+      var screen = view.coordinatesToScreen(point);
+      var found = false;
+      for (var i = 0; i < paths[0].length; i += 2) {
+        if (
+          Math.abs(paths[0][i] - screen.x) < 1e-6 &&
+          Math.abs(paths[0][i + 1] - screen.y) < 1e-6
+        ) {
+          found = true;
+        }
+      }
+      assert.isTrue(found);
+    });
+  });
+
+  test('follows great-circle arcs', function () {
+    var view = makeView({ yaw: 0, pitch: 0, fov: 1 });
+    // An arc along the horizon is a straight horizontal line on screen.
+    var paths = project(
+      view,
+      [
+        { yaw: -0.4, pitch: 0 },
+        { yaw: 0.4, pitch: 0 },
+      ],
+      false
+    );
+    assert.lengthOf(paths, 1);
+    assert.isAbove(paths[0].length, 4);
+    for (var i = 1; i < paths[0].length; i += 2) {
+      assert.closeTo(paths[0][i], 50, 1e-6);
+    }
+  });
+
+  test('clips polygons behind the camera', function () {
+    var view = makeView({ yaw: 0, pitch: 0, fov: 1 });
+    var paths = project(
+      view,
+      [
+        { yaw: -0.2, pitch: 0 },
+        { yaw: Math.PI, pitch: 0.1 },
+        { yaw: 0.2, pitch: 0 },
+      ],
+      true
+    );
+    assert.lengthOf(paths, 1);
+    for (var i = 0; i < paths[0].length; i++) {
+      assert.isTrue(isFinite(paths[0][i]));
+    }
+  });
+
+  test('splits polylines crossing behind the camera', function () {
+    var view = makeView({ yaw: 0, pitch: 0, fov: 1 });
+    var paths = project(
+      view,
+      [
+        { yaw: -0.2, pitch: 0 },
+        { yaw: -2, pitch: 0 },
+        { yaw: 3, pitch: 0 },
+        { yaw: 2, pitch: 0 },
+        { yaw: 0.2, pitch: 0 },
+      ],
+      false
+    );
+    assert.lengthOf(paths, 2);
+  });
+
+  test('returns nothing for paths entirely behind the camera', function () {
+    var view = makeView({ yaw: 0, pitch: 0, fov: 1 });
+    var paths = project(
+      view,
+      [
+        { yaw: 3, pitch: 0 },
+        { yaw: -3, pitch: 0 },
+        { yaw: Math.PI, pitch: 0.2 },
+      ],
+      true
+    );
+    assert.lengthOf(paths, 0);
+  });
+
+  test('tests points inside paths', function () {
+    var square = [0, 0, 10, 0, 10, 10, 0, 10];
+    assert.isTrue(pathContains(square, 5, 5));
+    assert.isFalse(pathContains(square, 15, 5));
+  });
+
+  test('computes distances to paths', function () {
+    var line = [0, 0, 10, 0];
+    assert.closeTo(pathDistance(line, false, 5, 3), 3, 1e-9);
+    assert.closeTo(pathDistance(line, false, 13, 4), 5, 1e-9);
+    var triangle = [0, 0, 10, 0, 0, 10];
+    assert.closeTo(pathDistance(triangle, false, 0, 5), 5 / Math.SQRT2, 1e-9);
+    assert.closeTo(pathDistance(triangle, true, 0, 5), 0, 1e-9);
+  });
+});
@@ -0,0 +1,203 @@
+import { mat4, vec4 } from 'gl-matrix';
+
+export interface SphericalPoint {
+  yaw: number;
+  pitch: number;
+}
+
+// Maximum angle in radians between consecutive points of a tessellated arc.
+const maxArcStep = Math.PI / 90;
+
+// Points closer to the camera plane are clipped, as they would project to
+// infinity.
+const minClipW = 1e-2;
+
+// Returns the unit vector pointing into the (yaw, pitch) direction, using the
+// same convention as the views.
+function toVector(point: SphericalPoint, result: number[]) {
+  result[0] = Math.sin(point.yaw) * Math.cos(point.pitch);
+  result[1] = -Math.sin(point.pitch);
+  result[2] = -Math.cos(point.yaw) * Math.cos(point.pitch);
+  return result;
+}
+
+// Appends the points of the great-circle arc from a to b, excluding b, to a
+// list of unit vectors, flattened into [x, y, z, ...].
+function tessellateArc(a: number[], b: number[], result: number[]) {
+  const dot = Math.max(
+    -1,
+    Math.min(1, a[0] * b[0] + a[1] * b[1] + a[2] * b[2])
+  );
+  const angle = Math.acos(dot);
+  const steps = Math.max(1, Math.ceil(angle / maxArcStep));
+  const sin = Math.sin(angle);
+  for (let i = 0; i < steps; i++) {
+    const t = i / steps;
+    // Fall back to linear interpolation for nearly identical or opposite
+    // points, for which the arc is undefined.
+    const wa = sin > 1e-6 ? Math.sin((1 - t) * angle) / sin : 1 - t;
+    const wb = sin > 1e-6 ? Math.sin(t * angle) / sin : t;
+    result.push(
+      wa * a[0] + wb * b[0],
+      wa * a[1] + wb * b[1],
+      wa * a[2] + wb * b[2]
+    );
+  }
+}
+
+/**
+ * Projects a path of (yaw, pitch) points joined by great-circle arcs onto the
+ * screen of a {@link RectilinearView}.
+ *
+ * Portions of the path behind the camera are clipped. A closed path yields at
+ * most one path, and an open path yields one path for every portion in front
+ * of the camera.
+ *
+ * @param {SphericalPoint[]} points The path vertices.
+ * @param {boolean} closed Whether the last point is joined to the first.
+ * @param {mat4} projection The view projection matrix.
+ * @param {number} width The view width in pixels.
+ * @param {number} height The view height in pixels.
+ * @return {number[][]} The screen paths, as flattened [x, y, ...] arrays.
+ */
+export function projectSphericalPath(
+  points: SphericalPoint[],
+  closed: boolean,
+  projection: mat4,
+  width: number,
+  height: number
+): number[][] {
+  if (points.length < 2 || width <= 0 || height <= 0) {
+    return [];
+  }
+
+  // Tessellate the arcs into unit vectors.
+  const vectors: number[] = [];
+  const a = [0, 0, 0];
+  const b = [0, 0, 0];
+  const count = closed ? points.length : points.length - 1;
+  for (let i = 0; i < count; i++) {
+    toVector(points[i], a);
+    toVector(points[(i + 1) % points.length], b);
+    tessellateArc(a, b, vectors);
+  }
+  if (!closed) {
+    toVector(points[points.length - 1], a);
+    vectors.push(a[0], a[1], a[2]);
+  }
+
+  // Transform into clip space.
+  const clip: number[] = [];
+  const tmp = vec4.create();
+  for (let i = 0; i < vectors.length; i += 3) {
+    vec4.set(tmp, vectors[i], vectors[i + 1], vectors[i + 2], 1);
+    vec4.transformMat4(tmp, tmp, projection);
+    clip.push(tmp[0], tmp[1], tmp[3]);
+  }
+
+  // Clip against the camera plane and convert to screen coordinates.
+  const paths: number[][] = [];
+  let path: number[] = [];
+  const n = clip.length / 3;
+  const edges = closed ? n : n - 1;
+
+  const emit = (x: number, y: number, w: number) => {
+    path.push((width * (x / w + 1)) / 2, (height * (1 - y / w)) / 2);
+  };
+
+  if (n > 0 && clip[2] >= minClipW) {
+    emit(clip[0], clip[1], clip[2]);
+  }
+  for (let i = 0; i < edges; i++) {
+    const j = (i + 1) % n;
+    const w0 = clip[3 * i + 2];
+    const w1 = clip[3 * j + 2];
+    const in0 = w0 >= minClipW;
+    const in1 = w1 >= minClipW;
+    if (in0 !== in1) {
+      // Emit the intersection with the clipping plane.
+      const t = (minClipW - w0) / (w1 - w0);
+      emit(
+        clip[3 * i] + t * (clip[3 * j] - clip[3 * i]),
+        clip[3 * i + 1] + t * (clip[3 * j + 1] - clip[3 * i + 1]),
+        minClipW
+      );
+      if (!in1 && !closed) {
+        paths.push(path);
+        path = [];
+      }
+    }
+    // The first point of a closed path was already emitted.
+    if (in1 && !(closed && j === 0)) {
+      emit(clip[3 * j], clip[3 * j + 1], w1);
+    }
+  }
+  if (path.length >= 4) {
+    paths.push(path);
+  }
+
+  return paths.filter((p) => p.length >= 4);
+}
+
+/**
+ * Returns whether a point is inside a closed screen path, using the even-odd
+ * rule.
+ * @param {number[]} path The path, as a flattened [x, y, ...] array.
+ * @param {number} x
+ * @param {number} y
+ * @return {boolean}
+ */
+export function pathContains(path: number[], x: number, y: number) {
+  let inside = false;
+  for (let i = 0, j = path.length - 2; i < path.length; j = i, i += 2) {
+    const xi = path[i];
+    const yi = path[i + 1];
+    const xj = path[j];
+    const yj = path[j + 1];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Returns the distance from a point to a screen path.
+ * @param {number[]} path The path, as a flattened [x, y, ...] array.
+ * @param {boolean} closed Whether the last point is joined to the first.
+ * @param {number} x
+ * @param {number} y
+ * @return {number}
+ */
+export function pathDistance(
+  path: number[],
+  closed: boolean,
+  x: number,
+  y: number
+) {
+  let min = Infinity;
+  const n = path.length / 2;
+  const edges = closed ? n : n - 1;
+  for (let i = 0; i < edges; i++) {
+    const j = (i + 1) % n;
+    const x0 = path[2 * i];
+    const y0 = path[2 * i + 1];
+    const dx = path[2 * j] - x0;
+    const dy = path[2 * j + 1] - y0;
+    const length = dx * dx + dy * dy;
+    const t =
+      length > 0
+        ? Math.max(0, Math.min(1, ((x - x0) * dx + (y - y0) * dy) / length))
+        : 0;
+    const px = x0 + t * dx - x;
+    const py = y0 + t * dy - y;
+    min = Math.min(min, Math.sqrt(px * px + py * py));
+  }
+  return min;
+}
+
+export default {
+  projectSphericalPath,
+  pathContains,
+  pathDistance,
+};
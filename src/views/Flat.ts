@@ -206,7 +206,10 @@ class FlatView {
     letterbox: () => (params: any) => any;
   };
   static type: string;
-  constructor(params: FlatViewConstructorParams, limiter: FlatViewLimiter) {
+  constructor(
+    params: FlatViewConstructorParams,
+    limiter?: FlatViewLimiter | null
+  ) {
     // Require an aspect ratio to be specified.
     if (!(params && params.mediaAspectRatio != null)) {
       throw new Error('mediaAspectRatio must be defined');
@@ -920,4 +920,189 @@ suite('RectilinearView', function () {
       });
     });
   });
+
+  suite('projection modes', function () {
+    var modes = ['stereographic', 'equisolid', 'pannini', 'mercator'];
+
+    test('default', function () {
+      var view = new RectilinearView();
+      assert.strictEqual(view.projectionMode(), 'rectilinear');
+      assert.strictEqual(view.projectionMix(), 1);
+    });
+
+    test('unknown mode', function () {
+      assert.throws(function () {
+        new RectilinearView({ projectionMode: 'foo' });
+      }, 'Unknown projection mode');
+      var view = new RectilinearView();
+      assert.throws(function () {
+        view.setProjectionMode('foo');
+      }, 'Unknown projection mode');
+      assert.strictEqual(view.projectionMode(), 'rectilinear');
+    });
+
+    test('projection mix', function () {
+      var view = new RectilinearView({ projectionMix: 0.25 });
+      assert.strictEqual(view.parameters().projectionMix, 0.25);
+      view.setParameters({ projectionMix: 0.5 });
+      assert.strictEqual(view.projectionMix(), 0.5);
+      view.setProjectionMix(2);
+      assert.strictEqual(view.projectionMix(), 1);
+    });
+
+    test('field of view limits', function () {
+      var view = new RectilinearView({
+        width: 100,
+        height: 100,
+        projectionMode: 'stereographic',
+        fov: 4,
+      });
+      assert.strictEqual(view.fov(), 4);
+      // A smaller mix lowers the limit.
+      view.setProjectionMix(0.5);
+      assert.isBelow(view.fov(), (4 * Math.PI) / 3);
+      var changes = 0;
+      view.addEventListener('change', function () {
+        changes++;
+      });
+      view.setProjectionMode('rectilinear');
+      assert.isBelow(view.fov(), Math.PI);
+      assert.strictEqual(changes, 1);
+      view.setProjectionMode('equisolid');
+      assert.strictEqual(changes, 2);
+    });
+
+    test('stereographic without mix matches rectilinear', function () {
+      var params = { width: 200, height: 100, yaw: 0.3, pitch: -0.2, fov: 1 };
+      var rectilinear = new RectilinearView(params);
+      var stereographic = new RectilinearView(params);
+      stereographic.setProjectionMode('stereographic');
+      stereographic.setProjectionMix(0);
+      var coords = { yaw: 0.6, pitch: 0.1 };
+      var expected = rectilinear.coordinatesToScreen(coords);
+      var actual = stereographic.coordinatesToScreen(coords);
+      assert.closeTo(actual.x, expected.x, 1e-3);
+      assert.closeTo(actual.y, expected.y, 1e-3);
+    });
+
+    modes.forEach(function (mode) {
+      suite(mode, function () {
+        function makeView() {
+          return new RectilinearView({
+            width: 200,
+            height: 100,
+            yaw: 0.5,
+            pitch: 0.2,
+            roll: 0.1,
+            fov: 2,
+            projectionMode: mode,
+          });
+        }
+
+        test('center', function () {
+          var view = makeView();
+          var screen = view.coordinatesToScreen({ yaw: 0.5, pitch: 0.2 });
+          assert.closeTo(screen.x, 100, 1e-3);
+          assert.closeTo(screen.y, 50, 1e-3);
+        });
+
+        test('vertical field of view', function () {
+          var view = new RectilinearView({
+            width: 200,
+            height: 100,
+            fov: 2,
+            projectionMode: mode,
+          });
+          var coords = view.screenToCoordinates({ x: 100, y: 0 });
+          assert.closeTo(coords.yaw, 0, 1e-3);
+          assert.closeTo(coords.pitch, -1, 1e-3);
+        });
+
+        test('round trip', function () {
+          var view = makeView();
+          [
+            { x: 10, y: 20 },
+            { x: 190, y: 90 },
+            { x: 120, y: 40 },
+          ].forEach(function (screen) {
+            var coords = view.screenToCoordinates(screen);
+            var result = view.coordinatesToScreen(coords);
+            assert.closeTo(result.x, screen.x, 1e-3);
+            assert.closeTo(result.y, screen.y, 1e-3);
+          });
+        });
+      });
+    });
+
+    test('little planet', function () {
+      var view = new RectilinearView({
+        width: 100,
+        height: 100,
+        pitch: Math.PI / 2,
+        fov: (4 * Math.PI) / 3,
+        projectionMode: 'stereographic',
+      });
+      // The nadir is at the center, and the horizon around it.
+      var nadir = view.coordinatesToScreen({ yaw: 0, pitch: Math.PI / 2 });
+      assert.closeTo(nadir.x, 50, 1e-3);
+      assert.closeTo(nadir.y, 50, 1e-3);
+      var horizon = view.coordinatesToScreen({ yaw: 0, pitch: 0 });
+      assert.isNotNull(horizon);
+      assert.closeTo(horizon.x, 50, 1e-3);
+      assert.isBelow(horizon.y, 50);
+      // The zenith is not visible.
+      assert.isNull(view.coordinatesToScreen({ yaw: 0, pitch: -Math.PI / 2 }));
+    });
+
+    test('outside of the projection', function () {
+      var view = new RectilinearView({
+        width: 200,
+        height: 100,
+        fov: 6,
+        projectionMode: 'equisolid',
+      });
+      var coords = view.screenToCoordinates({ x: 0, y: 0 });
+      assert.isNull(coords.yaw);
+      assert.isNull(coords.pitch);
+    });
+
+    test('intersects', function () {
+      var front = [
+        [-0.5, 0.5, -0.5],
+        [0.5, 0.5, -0.5],
+        [0.5, -0.5, -0.5],
+        [-0.5, -0.5, -0.5],
+      ];
+      var back = [
+        [-0.5, 0.5, 0.5],
+        [0.5, 0.5, 0.5],
+        [0.5, -0.5, 0.5],
+        [-0.5, -0.5, 0.5],
+      ];
+      ['stereographic', 'equisolid', 'pannini', 'mercator'].forEach(function (
+        mode
+      ) {
+        var view = new RectilinearView({
+          width: 200,
+          height: 100,
+          fov: Math.PI / 4,
+          projectionMode: mode,
+        });
+        assert.isTrue(view.intersects(front), mode);
+        assert.isFalse(view.intersects(back), mode);
+        view.setYaw(Math.PI);
+        assert.isFalse(view.intersects(front), mode);
+        assert.isTrue(view.intersects(back), mode);
+      });
+
+      // The whole sphere is visible.
+      var view = new RectilinearView({
+        width: 100,
+        height: 100,
+        fov: 2 * Math.PI,
+        projectionMode: 'equisolid',
+      });
+      assert.isTrue(view.intersects(back));
+    });
+  });
 });
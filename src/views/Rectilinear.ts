@@ -25,8 +25,25 @@ import clamp from '../util/clamp';
 import decimal from '../util/decimal';
 import compose from '../util/compose';
 import clearOwnProperties from '../util/clearOwnProperties';
+import radToDeg from '../util/radToDeg';
 import { Coords } from '../jsdoc-extras';
+import {
+  matrixToFrustum,
+  frustumIntersects,
+  coneIntersects,
+  projectToScreen,
+  unprojectFromScreen,
+} from './common';
 import Level from '../geometries/Level';
+import {
+  type ProjectionMode,
+  projectionModes,
+  maxProjectionFov,
+  projectionScale,
+  projectDirection,
+  unprojectPoint,
+  visibleAngle,
+} from './projections';
 
 // Default viewport dimensions.
 // Start with zero to ensure that those values are handled correctly.
@@ -40,6 +57,8 @@ const defaultRoll = 0;
 const defaultFov = Math.PI / 4;
 const defaultProjectionCenterX = 0;
 const defaultProjectionCenterY = 0;
+const defaultProjectionMode = 'rectilinear';
+const defaultProjectionMix = 1;
 
 // A fov of exactly 0 or π breaks some computations, so we constrain it to the
 // [fovLimitEpsilon, π - fovLimitEpsilon] interval. We use 6 decimal places for
@@ -64,7 +83,25 @@ const fovLimitEpsilon = 0.000001;
  *     When `roll < 0`, the view rotates clockwise.
  *     When `roll > 0`, the view rotates counter-clockwise.
  *
- * @property {fov} fov The vertical field of view, in the [0, π] range.
+ * @property {fov} fov The vertical field of view, in the [0, π] range for the
+ *     rectilinear projection. Other projections allow wider fields of view;
+ *     see {@link ProjectionMode}.
+ *
+ * @property {number} projectionMix How far the projection is from the
+ *     rectilinear projection, in the [0, 1] range. At 0, the stereographic and
+ *     Pannini projections are identical to the rectilinear projection, and
+ *     they gradually change into themselves as the mix increases, which allows
+ *     tweening between them. Ignored by the other projections.
+ *
+ * @property {number} projectionCenterX The horizontal offset of the view
+ *     center from the viewport center, as a fraction of the viewport width.
+ *     When `projectionCenterX > 0`, the view center is right of the viewport
+ *     center. Only followed by the rectilinear projection.
+ *
+ * @property {number} projectionCenterY The vertical offset of the view center
+ *     from the viewport center, as a fraction of the viewport height.
+ *     When `projectionCenterY > 0`, the view center is below the viewport
+ *     center. Only followed by the rectilinear projection.
  */
 export interface RectilinearViewParams {
   yaw?: number;
@@ -73,6 +110,7 @@ export interface RectilinearViewParams {
   fov?: number;
   projectionCenterX?: number;
   projectionCenterY?: number;
+  projectionMix?: number;
 }
 
 /**
@@ -111,8 +149,18 @@ export interface RectilinearViewCoords {
  *
  * A {@link View} implementing a rectilinear projection for 360° images.
  *
+ * Other projections, such as the stereographic "little planet" projection, may
+ * be selected with {@link RectilinearView#setProjectionMode}. They are
+ * rendered by the WebGL renderers for {@link EquirectGeometry} and
+ * {@link CubeGeometry} only; see {@link ProjectionMode} for the scenes
+ * rejecting them. CSS transforms
+ * for embedded hotspots and annotations keep using the rectilinear
+ * projection. Hotspots positioned with
+ * {@link RectilinearView#coordinatesToScreen} follow the selected projection.
+ *
  * @param {RectilinearViewParams=} params The initial view parameters. If
  *     unspecified, defaults to `{yaw: 0, pitch: 0, roll: 0, fov: Math.PI/4 }`.
+ *     The `projectionMode` may also be given.
  * @param {RectilinearViewLimiter=} limiter The view limiter. If unspecified,
  *     no view limiting is applied. See {@link RectilinearView.limit} for
  *     commonly used limiters.
@@ -126,14 +174,23 @@ class RectilinearView {
   #height: any;
   #projectionCenterX: any;
   #projectionCenterY: any;
+  #projectionMode: ProjectionMode;
+  #projectionMix: number;
+  #projectionModeValidator: ((mode: ProjectionMode) => void) | null;
   #limiter: any;
   #projMatrix: mat4;
   #invProjMatrix: mat4;
+  #rotMatrix: mat4;
+  #invRotMatrix: mat4;
+  #viewDirection: vec4;
+  #visibleAngle: number;
+  #projectionScale: number;
   #frustum: vec4[];
   #projectionChanged: boolean;
   #params: any;
   #fovs: any;
   #tmpVec: vec4;
+  #tmpPoint: { x: number; y: number };
   static limit: {
     /**
      * Returns a view limiter that constrains the yaw angle.
@@ -198,6 +255,7 @@ class RectilinearView {
       height?: number;
       projectionCenterX?: number;
       projectionCenterY?: number;
+      projectionMode?: ProjectionMode;
     },
     limiter?: Function | null
   ) {
@@ -217,6 +275,18 @@ class RectilinearView {
       params && params.projectionCenterY != null
         ? params.projectionCenterY
         : defaultProjectionCenterY;
+    this.#projectionMode = defaultProjectionMode;
+    if (params && params.projectionMode != null) {
+      checkProjectionMode(params.projectionMode);
+      this.#projectionMode = params.projectionMode;
+    }
+    this.#projectionMix =
+      params && params.projectionMix != null
+        ? params.projectionMix
+        : defaultProjectionMix;
+
+    // Rejects the projection modes that cannot be drawn.
+    this.#projectionModeValidator = null;
 
     // The initial value for the view limiter.
     this.#limiter = limiter || null;
@@ -225,6 +295,18 @@ class RectilinearView {
     this.#projMatrix = mat4.create();
     this.#invProjMatrix = mat4.create();
 
+    // The last calculated camera rotation and its inverse, and the scale of the
+    // projection, used by projections other than the rectilinear one.
+    this.#rotMatrix = mat4.create();
+    this.#invRotMatrix = mat4.create();
+    this.#projectionScale = 1;
+
+    // The view direction in world space and the largest angle from it seen on
+    // the screen, used to cull tiles for projections other than the rectilinear
+    // one.
+    this.#viewDirection = vec4.create();
+    this.#visibleAngle = Math.PI;
+
     // The last calculated view frustum.
     this.#frustum = [
       vec4.create(),
@@ -241,6 +323,7 @@ class RectilinearView {
     this.#params = {};
     this.#fovs = {};
     this.#tmpVec = vec4.create();
+    this.#tmpPoint = { x: 0, y: 0 };
 
     // Force view limiting on initial parameters.
     this.#update();
@@ -278,6 +361,20 @@ class RectilinearView {
   projectionCenterY() {
     return this.#projectionCenterY;
   }
+  /**
+   * Get the projection mode.
+   * @return {ProjectionMode}
+   */
+  projectionMode() {
+    return this.#projectionMode;
+  }
+  /**
+   * Get the projection mix. See {@link RectilinearViewParams}.
+   * @return {number}
+   */
+  projectionMix() {
+    return this.#projectionMix;
+  }
   /**
    * Get the fov value.
    * @return {number}
@@ -323,6 +420,7 @@ class RectilinearView {
     params.pitch = this.#pitch;
     params.roll = this.#roll;
     params.fov = this.#fov;
+    params.projectionMix = this.#projectionMix;
     return params;
   }
   /**
@@ -378,6 +476,51 @@ class RectilinearView {
     this.#params.projectionCenterY = projectionCenterY;
     this.#update(this.#params);
   }
+  /**
+   * Set the projection mode. The field of view is reduced if it exceeds the
+   * limit of the new projection.
+   * @param {ProjectionMode} mode
+   * @throws An error if the projection mode is unknown, or if the
+   *     {@link Scene} has a layer whose renderer cannot draw it.
+   */
+  setProjectionMode(mode: ProjectionMode) {
+    checkProjectionMode(mode);
+    if (mode === this.#projectionMode) {
+      return;
+    }
+    if (this.#projectionModeValidator) {
+      this.#projectionModeValidator(mode);
+    }
+    const oldFov = this.#fov;
+    this.#projectionMode = mode;
+    this.#projectionChanged = true;
+    this.#update();
+    // The change has already been signaled if the field of view was reduced.
+    if (this.#fov === oldFov) {
+      this.emit('change');
+    }
+  }
+  /**
+   * Sets a function called by {@link RectilinearView#setProjectionMode} with
+   * the new mode, which throws if the mode cannot be drawn. Used by
+   * {@link Scene} to reject the projections its layers cannot draw.
+   * @param {?function(ProjectionMode)} validator
+   * @private
+   */
+  setProjectionModeValidator(
+    validator: ((mode: ProjectionMode) => void) | null
+  ) {
+    this.#projectionModeValidator = validator;
+  }
+  /**
+   * Set the projection mix. See {@link RectilinearViewParams}.
+   * @param {number} mix
+   */
+  setProjectionMix(mix: number) {
+    this.#resetParams();
+    this.#params.projectionMix = mix;
+    this.#update(this.#params);
+  }
   /**
    * Add yawOffset to the current yaw value.
    * @param {number} yawOffset
@@ -428,6 +571,7 @@ class RectilinearView {
     this.#params.fov = params.fov;
     this.#params.projectionCenterX = params.projectionCenterX;
     this.#params.projectionCenterY = params.projectionCenterY;
+    this.#params.projectionMix = params.projectionMix;
     this.#update(this.#params);
   }
   /**
@@ -446,6 +590,7 @@ class RectilinearView {
     params.fov = null;
     params.width = null;
     params.height = null;
+    params.projectionMix = null;
   }
   #update(
     params?: {
@@ -457,6 +602,7 @@ class RectilinearView {
       height?: any;
       projectionCenterX?: any;
       projectionCenterY?: any;
+      projectionMix?: any;
     } | null
   ) {
     // Avoid object allocation when no parameters are supplied.
@@ -473,6 +619,7 @@ class RectilinearView {
     const oldFov = this.#fov;
     const oldProjectionCenterX = this.#projectionCenterX;
     const oldProjectionCenterY = this.#projectionCenterY;
+    const oldProjectionMix = this.#projectionMix;
     const oldWidth = this.#width;
     const oldHeight = this.#height;
 
@@ -491,6 +638,8 @@ class RectilinearView {
       params.projectionCenterY != null
         ? params.projectionCenterY
         : oldProjectionCenterY;
+    params.projectionMix =
+      params.projectionMix != null ? params.projectionMix : oldProjectionMix;
 
     // Apply view limiting when defined.
     if (this.#limiter) {
@@ -513,6 +662,7 @@ class RectilinearView {
     const newHeight = params.height;
     const newProjectionCenterX = params.projectionCenterX;
     const newProjectionCenterY = params.projectionCenterY;
+    const newProjectionMix = params.projectionMix;
 
     // Consistency check.
     if (
@@ -523,7 +673,8 @@ class RectilinearView {
       !real(newWidth) ||
       !real(newHeight) ||
       !real(newProjectionCenterX) ||
-      !real(newProjectionCenterY)
+      !real(newProjectionCenterY) ||
+      !real(newProjectionMix)
     ) {
       throw new Error('Bad view - suspect a broken limiter');
     }
@@ -537,6 +688,7 @@ class RectilinearView {
     this.#height = newHeight;
     this.#projectionCenterX = newProjectionCenterX;
     this.#projectionCenterY = newProjectionCenterY;
+    this.#projectionMix = newProjectionMix;
 
     // Check whether the parameters changed and emit the corresponding events.
     if (
@@ -547,7 +699,8 @@ class RectilinearView {
       newWidth !== oldWidth ||
       newHeight !== oldHeight ||
       newProjectionCenterX !== oldProjectionCenterX ||
-      newProjectionCenterY !== oldProjectionCenterY
+      newProjectionCenterY !== oldProjectionCenterY ||
+      newProjectionMix !== oldProjectionMix
     ) {
       this.#projectionChanged = true;
       this.emit('change');
@@ -571,13 +724,21 @@ class RectilinearView {
     height: any;
     projectionCenterX?: any;
     projectionCenterY?: any;
+    projectionMix?: any;
   }) {
     this.#normalizeCoordinates(params);
 
+    params.projectionMix = clamp(params.projectionMix, 0, 1);
+
     // Make sure that neither the horizontal nor the vertical fields of view
-    // exceed π - fovLimitEpsilon.
-    const hfovPi = convertFov.htov(Math.PI, params.width, params.height);
-    const maxFov = isNaN(hfovPi) ? Math.PI : Math.min(Math.PI, hfovPi);
+    // exceed π - fovLimitEpsilon. Other projections only limit the vertical
+    // field of view.
+    let maxFov;
+    if (this.#projectionMode === 'rectilinear') {
+      maxFov = maxRectilinearFov(params.width, params.height);
+    } else {
+      maxFov = maxProjectionFov(this.#projectionMode, params.projectionMix);
+    }
     params.fov = clamp(params.fov, fovLimitEpsilon, maxFov - fovLimitEpsilon);
 
     return params;
@@ -670,7 +831,16 @@ class RectilinearView {
       const width = this.#width;
       const height = this.#height;
 
-      const vfov = this.#fov;
+      // Other projections may have wider fields of view, which are reduced
+      // for the rectilinear projection matrix still used by the renderers not
+      // supporting them.
+      let vfov = this.#fov;
+      if (this.#projectionMode !== 'rectilinear') {
+        vfov = Math.min(
+          vfov,
+          maxRectilinearFov(width, height) - fovLimitEpsilon
+        );
+      }
       const hfov = convertFov.vtoh(vfov, width, height);
       const aspect = width / height;
 
@@ -678,17 +848,23 @@ class RectilinearView {
       const projectionCenterY = this.#projectionCenterY;
 
       if (projectionCenterX !== 0 || projectionCenterY !== 0) {
-        const offsetAngleX = Math.atan(
-          projectionCenterX * 2 * Math.tan(hfov / 2)
+        // Shift the frustum in the image plane, so that the projection is the
+        // same as that of a larger viewport with the view center elsewhere.
+        const tanX = Math.tan(hfov / 2);
+        const tanY = Math.tan(vfov / 2);
+        const fovs = this.#fovs;
+        fovs.leftDegrees = radToDeg(
+          Math.atan(tanX * (1 + 2 * projectionCenterX))
         );
-        const offsetAngleY = Math.atan(
-          projectionCenterY * 2 * Math.tan(vfov / 2)
+        fovs.rightDegrees = radToDeg(
+          Math.atan(tanX * (1 - 2 * projectionCenterX))
+        );
+        fovs.upDegrees = radToDeg(
+          Math.atan(tanY * (1 + 2 * projectionCenterY))
+        );
+        fovs.downDegrees = radToDeg(
+          Math.atan(tanY * (1 - 2 * projectionCenterY))
         );
-        const fovs = this.#fovs;
-        fovs.leftDegrees = ((hfov / 2 + offsetAngleX) * 180) / Math.PI;
-        fovs.rightDegrees = ((hfov / 2 - offsetAngleX) * 180) / Math.PI;
-        fovs.upDegrees = ((vfov / 2 + offsetAngleY) * 180) / Math.PI;
-        fovs.downDegrees = ((vfov / 2 - offsetAngleY) * 180) / Math.PI;
         mat4.perspectiveFromFieldOfView(projMatrix, fovs, -1, 1);
       } else {
         mat4.perspective(projMatrix, vfov, aspect, -1, 1);
@@ -700,20 +876,38 @@ class RectilinearView {
 
       mat4.invert(invProjMatrix, projMatrix);
 
-      this.#matrixToFrustum(projMatrix, frustum);
+      matrixToFrustum(projMatrix, frustum);
+
+      const rotMatrix = this.#rotMatrix;
+      mat4.identity(rotMatrix);
+      mat4.rotateZ(rotMatrix, rotMatrix, this.#roll);
+      mat4.rotateX(rotMatrix, rotMatrix, this.#pitch);
+      mat4.rotateY(rotMatrix, rotMatrix, this.#yaw);
+      mat4.transpose(this.#invRotMatrix, rotMatrix);
+
+      this.#projectionScale = projectionScale(
+        this.#projectionMode,
+        this.#projectionMix,
+        this.#fov
+      );
+
+      // Other projections are culled by the angle from the view direction.
+      vec4.set(this.#viewDirection, 0, 0, -1, 0);
+      vec4.transformMat4(
+        this.#viewDirection,
+        this.#viewDirection,
+        this.#invRotMatrix
+      );
+      this.#visibleAngle = visibleAngle(
+        this.#projectionMode,
+        this.#projectionMix,
+        this.#projectionScale * aspect,
+        this.#projectionScale
+      );
 
       this.#projectionChanged = false;
     }
   }
-  #matrixToFrustum(p: any[] | Float32Array, f: vec4[]) {
-    // Extract frustum planes from projection matrix.
-    // http://www8.cs.umu.se/kurser/5DV051/HT12/lab/plane#extraction.pdf
-    vec4.set(f[0], p[3] + p[0], p[7] + p[4], p[11] + p[8], 0); // left
-    vec4.set(f[1], p[3] - p[0], p[7] - p[4], p[11] - p[8], 0); // right
-    vec4.set(f[2], p[3] + p[1], p[7] + p[5], p[11] + p[9], 0); // top
-    vec4.set(f[3], p[3] - p[1], p[7] - p[5], p[11] - p[9], 0); // bottom
-    vec4.set(f[4], p[3] + p[2], p[7] + p[6], p[11] + p[10], 0); // camera
-  }
   /**
    * Returns the projection matrix for the current view.
    * @returns {mat4}
@@ -730,6 +924,23 @@ class RectilinearView {
     this.#updateProjection();
     return this.#invProjMatrix;
   }
+  /**
+   * Returns the matrix rotating camera space directions into world space.
+   * @returns {mat4}
+   */
+  inverseRotation() {
+    this.#updateProjection();
+    return this.#invRotMatrix;
+  }
+  /**
+   * Returns the distance from the view center to the top edge of the screen in
+   * the plane of the projection. See {@link ProjectionMode}.
+   * @returns {number}
+   */
+  projectionScale() {
+    this.#updateProjection();
+    return this.#projectionScale;
+  }
   /**
    * Return whether the view frustum intersects the given rectangle.
    *
@@ -739,30 +950,18 @@ class RectilinearView {
    *
    * @param {vec2[]} rectangle The vertices of the rectangle.
    */
-  intersects(rectangle: string | any[]) {
+  intersects(rectangle: any[]) {
     this.#updateProjection();
-
-    const frustum = this.#frustum;
-    const vertex = this.#tmpVec;
-
-    // Check whether the rectangle is on the outer side of any of the frustum
-    // planes. This is a sufficient condition, though not necessary, for the
-    // rectangle to be completely outside the frustum.
-    for (let i = 0; i < frustum.length; i++) {
-      const plane = frustum[i];
-      let inside = false;
-      for (let j = 0; j < rectangle.length; j++) {
-        const corner = rectangle[j];
-        vec4.set(vertex, corner[0], corner[1], corner[2], 0);
-        if (vec4.dot(plane, vertex) >= 0) {
-          inside = true;
-        }
-      }
-      if (!inside) {
-        return false;
-      }
+    if (this.#projectionMode !== 'rectilinear') {
+      // The view is not bounded by a frustum.
+      return coneIntersects(
+        this.#viewDirection,
+        this.#visibleAngle,
+        rectangle,
+        this.#tmpVec
+      );
     }
-    return true;
+    return frustumIntersects(this.#frustum, rectangle, this.#tmpVec);
   }
   /**
    * Select the level that should be used to render the view.
@@ -782,7 +981,7 @@ class RectilinearView {
     // falling back on the largest level if none do.
 
     const requiredPixels = pixelRatio() * this.#height;
-    const coverFactor = Math.tan(0.5 * this.#fov);
+    const coverFactor = this.projectionScale();
 
     for (let i = 0; i < levelList.length; i++) {
       const level = levelList[i];
@@ -803,43 +1002,27 @@ class RectilinearView {
    * @return {Coords}
    */
   coordinatesToScreen(coords: RectilinearViewCoords, result: Coords) {
-    const ray = this.#tmpVec;
-
     if (!result) {
       result = {} as any;
     }
 
-    const width = this.#width;
-    const height = this.#height;
-
-    // Undefined on a null viewport.
-    if (width <= 0 || height <= 0) {
-      // @ts-ignore
-      result.x = null;
-      // @ts-ignore
-      result.y = null;
-      return null;
+    let visible;
+    if (this.#projectionMode === 'rectilinear') {
+      visible = projectToScreen(
+        this.projection(),
+        this.#width,
+        this.#height,
+        coords.yaw,
+        coords.pitch,
+        result,
+        this.#tmpVec
+      );
+    } else {
+      visible = this.#projectToScreen(coords, result);
     }
 
-    // Compute view ray pointing into the (yaw, pitch) direction.
-    const yaw = coords.yaw;
-    const pitch = coords.pitch;
-    const x = Math.sin(yaw) * Math.cos(pitch);
-    const y = -Math.sin(pitch);
-    const z = -Math.cos(yaw) * Math.cos(pitch);
-    vec4.set(ray, x, y, z, 1);
-
-    // Project view ray onto clip space.
-    vec4.transformMat4(ray, ray, this.projection());
-
-    // w in clip space equals -z in camera space.
-    if (ray[3] >= 0) {
-      // Point is in front of camera.
-      // Convert to viewport coordinates.
-      result.x = (width * (ray[0] / ray[3] + 1)) / 2;
-      result.y = (height * (1 - ray[1] / ray[3])) / 2;
-    } else {
-      // Point is behind camera.
+    if (!visible) {
+      // Undefined on a null viewport or behind the camera.
       // @ts-ignore
       result.x = null;
       // @ts-ignore
@@ -861,31 +1044,87 @@ class RectilinearView {
     coords: Coords,
     result: RectilinearViewCoords
   ): RectilinearViewCoords {
-    const ray = this.#tmpVec;
-
     if (!result) {
       result = {} as any;
     }
 
+    if (this.#projectionMode === 'rectilinear') {
+      unprojectFromScreen(
+        this.inverseProjection(),
+        this.#width,
+        this.#height,
+        coords,
+        result,
+        this.#tmpVec
+      );
+    } else if (!this.#unprojectFromScreen(coords, result)) {
+      // Outside of the projection.
+      // @ts-ignore
+      result.yaw = null;
+      // @ts-ignore
+      result.pitch = null;
+      return result;
+    }
+
+    this.#normalizeCoordinates(result);
+
+    return result;
+  }
+  // Same as projectToScreen, for projections other than the rectilinear one.
+  #projectToScreen(coords: RectilinearViewCoords, result: Coords) {
     const width = this.#width;
     const height = this.#height;
+    if (width <= 0 || height <= 0) {
+      return false;
+    }
 
-    // Convert viewport coordinates to clip space.
-    const vecx = (2 * coords.x) / width - 1;
-    const vecy = 1 - (2 * coords.y) / height;
-    vec4.set(ray, vecx, vecy, 1, 1);
+    const yaw = coords.yaw;
+    const pitch = coords.pitch;
+    const dir = this.#tmpVec;
+    vec4.set(
+      dir,
+      Math.sin(yaw) * Math.cos(pitch),
+      -Math.sin(pitch),
+      -Math.cos(yaw) * Math.cos(pitch),
+      0
+    );
+    vec4.transformMat4(dir, dir, this.#rotationMatrix());
 
-    // Project back to world space.
-    vec4.transformMat4(ray, ray, this.inverseProjection());
+    const point = this.#tmpPoint;
+    if (
+      !projectDirection(this.#projectionMode, this.#projectionMix, dir, point)
+    ) {
+      return false;
+    }
 
-    // Convert to spherical coordinates.
-    const r = Math.sqrt(ray[0] * ray[0] + ray[1] * ray[1] + ray[2] * ray[2]);
-    result.yaw = Math.atan2(ray[0], -ray[2]);
-    result.pitch = Math.acos(ray[1] / r) - Math.PI / 2;
+    const scale = this.#projectionScale;
+    const aspect = width / height;
+    result.x = (width * (point.x / (scale * aspect) + 1)) / 2;
+    result.y = (height * (1 - point.y / scale)) / 2;
+    return true;
+  }
+  // Same as unprojectFromScreen, for projections other than the rectilinear
+  // one. Returns false if the screen position is outside of the projection.
+  #unprojectFromScreen(coords: Coords, result: RectilinearViewCoords) {
+    const width = this.#width;
+    const height = this.#height;
+    const scale = this.projectionScale();
+    const x = ((2 * coords.x) / width - 1) * scale * (width / height);
+    const y = (1 - (2 * coords.y) / height) * scale;
 
-    this.#normalizeCoordinates(result);
+    const dir = this.#tmpVec;
+    if (!unprojectPoint(this.#projectionMode, this.#projectionMix, x, y, dir)) {
+      return false;
+    }
+    vec4.transformMat4(dir, dir, this.#invRotMatrix);
 
-    return result;
+    result.yaw = Math.atan2(dir[0], -dir[2]);
+    result.pitch = Math.acos(clamp(dir[1], -1, 1)) - Math.PI / 2;
+    return true;
+  }
+  #rotationMatrix() {
+    this.#updateProjection();
+    return this.#rotMatrix;
   }
   /**
    * Calculate the perspective transform required to position an element with
@@ -1059,6 +1298,19 @@ RectilinearView.limit = {
   },
 };
 
+// Returns the largest vertical field of view of the rectilinear projection for
+// a viewport, which also keeps the horizontal field of view below π.
+function maxRectilinearFov(width: number, height: number) {
+  const hfovPi = convertFov.htov(Math.PI, width, height);
+  return isNaN(hfovPi) ? Math.PI : Math.min(Math.PI, hfovPi);
+}
+
+function checkProjectionMode(mode: string) {
+  if (projectionModes.indexOf(mode as ProjectionMode) < 0) {
+    throw new Error('Unknown projection mode: ' + mode);
+  }
+}
+
 // TODO: check if this is still needed and how this can be expressed in typescript
 // @ts-ignore
 RectilinearView.type = RectilinearView.prototype.type = 'rectilinear';
@@ -0,0 +1,122 @@
+import { suite, test, assert } from 'vitest';
+import sinon from 'sinon';
+
+import XrView from './Xr';
+import RectilinearView from './Rectilinear';
+import { mat4, quat } from 'gl-matrix';
+
+function makePose(fov, aspect, orientation) {
+  var projectionMatrix = mat4.create();
+  mat4.perspective(projectionMatrix, fov, aspect, -1, 1);
+  var q = orientation || quat.create();
+  return {
+    projectionMatrix: projectionMatrix,
+    transform: { orientation: { x: q[0], y: q[1], z: q[2], w: q[3] } },
+  };
+}
+
+function makeRectilinearView(params) {
+  var view = new RectilinearView(params);
+  view.setSize({ width: 100, height: 100 });
+  return view;
+}
+
+function assertMatricesEqual(actual, expected) {
+  for (var i = 0; i < 16; i++) {
+    assert.closeTo(actual[i], expected[i], 1e-6);
+  }
+}
+
+suite('XrView', function () {
+  test('type', function () {
+    var view = new XrView();
+    assert.strictEqual(view.type, 'rectilinear');
+  });
+
+  test('fov from projection matrix', function () {
+    var view = new XrView();
+    view.setPose(makePose(1.2, 1));
+    assert.closeTo(view.fov(), 1.2, 1e-6);
+  });
+
+  suite('projection', function () {
+    test('matches rectilinear view with identity orientation', function () {
+      var view = new XrView();
+      view.setPose(makePose(Math.PI / 2, 1));
+      var expected = makeRectilinearView({ fov: Math.PI / 2 }).projection();
+      assertMatricesEqual(view.projection(), expected);
+    });
+
+    test('applies headset orientation', function () {
+      var orientation = quat.create();
+      quat.setAxisAngle(orientation, [1, 0, 0], 0.3);
+      var view = new XrView();
+      view.setPose(makePose(Math.PI / 2, 1, orientation));
+      var expected = makeRectilinearView({
+        fov: Math.PI / 2,
+        pitch: -0.3,
+      }).projection();
+      assertMatricesEqual(view.projection(), expected);
+    });
+
+    test('applies yaw offset', function () {
+      var view = new XrView({ yaw: 0.5 });
+      view.setPose(makePose(Math.PI / 2, 1));
+      var expected = makeRectilinearView({
+        fov: Math.PI / 2,
+        yaw: 0.5,
+      }).projection();
+      assertMatricesEqual(view.projection(), expected);
+    });
+
+    test('inverse projection', function () {
+      var view = new XrView({ yaw: 0.5 });
+      view.setPose(makePose(Math.PI / 2, 1));
+      var product = mat4.create();
+      mat4.multiply(product, view.projection(), view.inverseProjection());
+      assertMatricesEqual(product, mat4.create());
+    });
+  });
+
+  suite('coordinates', function () {
+    test('center of the view', function () {
+      var view = new XrView({ yaw: 0.5 });
+      view.setSize({ width: 200, height: 100 });
+      view.setPose(makePose(Math.PI / 2, 2));
+      var screen = view.coordinatesToScreen({ yaw: 0.5, pitch: 0 });
+      assert.closeTo(screen.x, 100, 1e-6);
+      assert.closeTo(screen.y, 50, 1e-6);
+      var coords = view.screenToCoordinates({ x: 100, y: 50 });
+      assert.closeTo(coords.yaw, 0.5, 1e-6);
+      assert.closeTo(coords.pitch, 0, 1e-6);
+    });
+
+    test('behind the view', function () {
+      var view = new XrView();
+      view.setSize({ width: 100, height: 100 });
+      view.setPose(makePose(Math.PI / 2, 1));
+      assert.isNull(view.coordinatesToScreen({ yaw: Math.PI, pitch: 0 }));
+    });
+  });
+
+  suite('events', function () {
+    test('emits change on pose update', function () {
+      var view = new XrView();
+      var spy = sinon.spy();
+      view.addEventListener('change', spy);
+      view.setPose(makePose(Math.PI / 2, 1));
+      assert.isTrue(spy.calledOnce);
+    });
+
+    test('control parameters only affect yaw', function () {
+      var view = new XrView();
+      view.setPose(makePose(Math.PI / 2, 1));
+      view.updateWithControlParameters({
+        axisScaledX: 0,
+        x: 0,
+        yaw: 0.25,
+      });
+      assert.closeTo(view.yaw(), 0.25, 1e-6);
+    });
+  });
+});
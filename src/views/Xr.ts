@@ -0,0 +1,347 @@
+import eventEmitter from 'minimal-event-emitter';
+import { mat4, quat, vec4 } from 'gl-matrix';
+import pixelRatio from '../util/pixelRatio';
+import mod from '../util/mod';
+import clearOwnProperties from '../util/clearOwnProperties';
+import { Coords } from '../jsdoc-extras';
+import Level from '../geometries/Level';
+import {
+  matrixToFrustum,
+  frustumIntersects,
+  projectToScreen,
+  unprojectFromScreen,
+} from './common';
+import { RectilinearViewCoords } from './Rectilinear';
+
+/**
+ * The subset of a WebXR `XRView` used by {@link XrView#setPose}.
+ */
+export interface XrPose {
+  projectionMatrix: Float32Array | number[];
+  transform: {
+    orientation: { x: number; y: number; z: number; w: number };
+  };
+}
+
+/**
+ * @class XrView
+ * @implements View
+ * @classdesc
+ *
+ * A {@link View} for one eye of an immersive WebXR session. Unlike
+ * {@link RectilinearView}, the camera is not described by view parameters but
+ * by the projection matrix and the headset orientation reported by the session
+ * on every frame. The position of the headset is ignored, as 360° images have
+ * no parallax.
+ *
+ * A yaw offset may be applied on top of the headset orientation, so that the
+ * user may still turn around with the usual controls while immersed.
+ *
+ * The view type is `"rectilinear"`, so that layers using it are rendered by the
+ * same renderers as layers using a {@link RectilinearView}.
+ *
+ * Most users do not need to instantiate this class; see {@link XrRenderLoop}.
+ *
+ * @param {Object} opts
+ * @param {number} [opts.yaw=0] The initial yaw offset.
+ */
+class XrView {
+  #yaw: number;
+  #width: number;
+  #height: number;
+  #xrProjMatrix: mat4;
+  #orientation: quat;
+  #projMatrix: mat4;
+  #invProjMatrix: mat4;
+  #frustum: vec4[];
+  #projectionChanged: boolean;
+  #tmpVec: vec4;
+  #tmpMat: mat4;
+  type = 'rectilinear' as const;
+  static type: string;
+  constructor(opts?: { yaw?: number }) {
+    this.#yaw = opts && opts.yaw != null ? opts.yaw : 0;
+
+    this.#width = 0;
+    this.#height = 0;
+
+    // The projection matrix and orientation last reported by the session.
+    this.#xrProjMatrix = mat4.create();
+    this.#orientation = quat.create();
+
+    // The last calculated projection matrix and its inverse.
+    this.#projMatrix = mat4.create();
+    this.#invProjMatrix = mat4.create();
+
+    // The last calculated view frustum.
+    this.#frustum = [
+      vec4.create(),
+      vec4.create(),
+      vec4.create(),
+      vec4.create(),
+      vec4.create(), // camera
+    ];
+
+    // Whether the projection matrices and the view frustum need to be updated.
+    this.#projectionChanged = true;
+
+    // Temporary variables used for calculations.
+    this.#tmpVec = vec4.create();
+    this.#tmpMat = mat4.create();
+  }
+  /**
+   * Destructor.
+   */
+  destroy() {
+    clearOwnProperties(this);
+  }
+  emit(_arg0: string) {
+    throw new Error('Method not implemented.');
+  }
+  addEventListener(_arg0: string, _arg1: any) {
+    throw new Error('Method not implemented.');
+  }
+  removeEventListener(_arg0: string, _arg1: any) {
+    throw new Error('Method not implemented.');
+  }
+  /**
+   * Returns the yaw offset applied on top of the headset orientation.
+   * @return {number}
+   */
+  yaw() {
+    return this.#yaw;
+  }
+  /**
+   * Sets the yaw offset applied on top of the headset orientation.
+   * @param {number} yaw
+   */
+  setYaw(yaw: number) {
+    yaw = mod(yaw - Math.PI, -2 * Math.PI) + Math.PI;
+    if (yaw === this.#yaw) {
+      return;
+    }
+    this.#yaw = yaw;
+    this.#projectionChanged = true;
+    this.emit('change');
+  }
+  /**
+   * Adds to the yaw offset.
+   * @param {number} yawOffset
+   */
+  offsetYaw(yawOffset: number) {
+    this.setYaw(this.#yaw + yawOffset);
+  }
+  /**
+   * Returns the vertical field of view, as implied by the projection matrix
+   * last reported by the session.
+   * @return {number}
+   */
+  fov() {
+    const scale = this.#xrProjMatrix[5];
+    return scale > 0 ? 2 * Math.atan(1 / scale) : Math.PI / 2;
+  }
+  /**
+   * Returns the viewport width.
+   * @return {number}
+   */
+  width() {
+    return this.#width;
+  }
+  /**
+   * Returns the viewport height.
+   * @return {number}
+   */
+  height() {
+    return this.#height;
+  }
+  /**
+   * Returns the viewport dimensions. If an argument is supplied, it is filled
+   * in with the result and returned. Otherwise, a fresh object is filled in and
+   * returned.
+   * @param {Size=} size
+   * @return {Size}
+   */
+  size(size?: { width?: number; height?: number }) {
+    size = size || {};
+    size.width = this.#width;
+    size.height = this.#height;
+    return size;
+  }
+  /**
+   * Sets the viewport dimensions.
+   * @param {Size} size
+   */
+  setSize(size: { width: number; height: number }) {
+    if (size.width === this.#width && size.height === this.#height) {
+      return;
+    }
+    this.#width = size.width;
+    this.#height = size.height;
+    this.emit('change');
+    this.emit('resize');
+  }
+  /**
+   * Updates the view from the projection matrix and orientation of an
+   * `XRView` obtained from the viewer pose of an `XRFrame`.
+   * @param {XrPose} pose
+   */
+  setPose(pose: XrPose) {
+    const orientation = pose.transform.orientation;
+    mat4.copy(this.#xrProjMatrix, pose.projectionMatrix as mat4);
+    quat.set(
+      this.#orientation,
+      orientation.x,
+      orientation.y,
+      orientation.z,
+      orientation.w
+    );
+    this.#projectionChanged = true;
+    this.emit('change');
+  }
+  /**
+   * Applies control parameters to the view. Only the horizontal components are
+   * used, since the headset determines the remaining degrees of freedom.
+   * @param {Object} parameters
+   */
+  updateWithControlParameters(parameters) {
+    const fov = this.fov();
+    this.offsetYaw(
+      parameters.axisScaledX * fov + parameters.x * 2 * fov + parameters.yaw
+    );
+  }
+  #updateProjection() {
+    if (!this.#projectionChanged) {
+      return;
+    }
+
+    const projMatrix = this.#projMatrix;
+    const rotation = this.#tmpMat;
+
+    // The headset orientation rotates the camera, so its inverse rotates the
+    // world into camera space.
+    mat4.fromQuat(rotation, this.#orientation);
+    mat4.invert(rotation, rotation);
+
+    mat4.multiply(projMatrix, this.#xrProjMatrix, rotation);
+    mat4.rotateY(projMatrix, projMatrix, this.#yaw);
+
+    mat4.invert(this.#invProjMatrix, projMatrix);
+
+    matrixToFrustum(projMatrix, this.#frustum);
+
+    this.#projectionChanged = false;
+  }
+  /**
+   * Returns the projection matrix for the current view.
+   * @returns {mat4}
+   */
+  projection() {
+    this.#updateProjection();
+    return this.#projMatrix;
+  }
+  /**
+   * Returns the inverse projection matrix for the current view.
+   * @returns {mat4}
+   */
+  inverseProjection() {
+    this.#updateProjection();
+    return this.#invProjMatrix;
+  }
+  /**
+   * Return whether the view frustum intersects the given rectangle.
+   *
+   * This function may return false positives, but never false negatives.
+   * It is used for frustum culling, i.e., excluding invisible tiles from the
+   * rendering process.
+   *
+   * @param {vec2[]} rectangle The vertices of the rectangle.
+   */
+  intersects(rectangle: any[]) {
+    this.#updateProjection();
+    return frustumIntersects(this.#frustum, rectangle, this.#tmpVec);
+  }
+  /**
+   * Select the level that should be used to render the view.
+   *
+   * The criterion is the same as for {@link RectilinearView#selectLevel}, using
+   * the field of view implied by the projection matrix.
+   *
+   * @param levelList the list of levels from which to select.
+   * @return the selected level.
+   */
+  selectLevel(levelList: Level[]) {
+    const requiredPixels = pixelRatio() * this.#height;
+    const coverFactor = Math.tan(0.5 * this.fov());
+
+    for (let i = 0; i < levelList.length; i++) {
+      const level = levelList[i];
+      if (coverFactor * level.height() >= requiredPixels) {
+        return level;
+      }
+    }
+
+    return levelList[levelList.length - 1];
+  }
+  /**
+   * Convert view parameters into screen position. If a result argument is
+   * provided, it is filled in and returned. Otherwise, a fresh object is filled
+   * in and returned.
+   *
+   * @param {RectilinearViewCoords} coords The view coordinates.
+   * @param {Coords=} result The result argument for the screen coordinates.
+   * @return {Coords}
+   */
+  coordinatesToScreen(coords: RectilinearViewCoords, result?: Coords) {
+    result = result || ({} as Coords);
+
+    const visible = projectToScreen(
+      this.projection(),
+      this.#width,
+      this.#height,
+      coords.yaw,
+      coords.pitch,
+      result,
+      this.#tmpVec
+    );
+
+    if (!visible) {
+      // @ts-ignore
+      result.x = null;
+      // @ts-ignore
+      result.y = null;
+      return null;
+    }
+
+    return result;
+  }
+  /**
+   * Convert screen coordinates into view coordinates. If a result argument is
+   * provided, it is filled in with the result and returned. Otherwise, a fresh
+   * object is filled in and returned.
+   *
+   * @param coords The screen coordinates.
+   * @param result The view coordinates.
+   */
+  screenToCoordinates(coords: Coords, result?: RectilinearViewCoords) {
+    result = result || ({} as RectilinearViewCoords);
+
+    unprojectFromScreen(
+      this.inverseProjection(),
+      this.#width,
+      this.#height,
+      coords,
+      result,
+      this.#tmpVec
+    );
+
+    result.yaw = mod(result.yaw - Math.PI, -2 * Math.PI) + Math.PI;
+
+    return result;
+  }
+}
+
+eventEmitter(XrView);
+
+XrView.type = XrView.prototype.type = 'rectilinear';
+
+export default XrView;
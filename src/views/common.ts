@@ -0,0 +1,159 @@
+import { mat4, vec4 } from 'gl-matrix';
+import { Coords } from '../jsdoc-extras';
+
+// Extract frustum planes from a projection matrix.
+// http://www8.cs.umu.se/kurser/5DV051/HT12/lab/plane_extraction.pdf
+function matrixToFrustum(p: any[] | Float32Array, f: vec4[]) {
+  vec4.set(f[0], p[3] + p[0], p[7] + p[4], p[11] + p[8], 0); // left
+  vec4.set(f[1], p[3] - p[0], p[7] - p[4], p[11] - p[8], 0); // right
+  vec4.set(f[2], p[3] + p[1], p[7] + p[5], p[11] + p[9], 0); // top
+  vec4.set(f[3], p[3] - p[1], p[7] - p[5], p[11] - p[9], 0); // bottom
+  vec4.set(f[4], p[3] + p[2], p[7] + p[6], p[11] + p[10], 0); // camera
+}
+
+// Check whether the rectangle is on the outer side of any of the frustum
+// planes. This is a sufficient condition, though not necessary, for the
+// rectangle to be completely outside the frustum.
+function frustumIntersects(frustum: vec4[], rectangle: any[], tmpVec: vec4) {
+  for (let i = 0; i < frustum.length; i++) {
+    const plane = frustum[i];
+    let inside = false;
+    for (let j = 0; j < rectangle.length; j++) {
+      const corner = rectangle[j];
+      vec4.set(tmpVec, corner[0], corner[1], corner[2], 0);
+      if (vec4.dot(plane, tmpVec) >= 0) {
+        inside = true;
+      }
+    }
+    if (!inside) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// Check whether the rectangle may be within the given angle of a normalized
+// direction, for views not bounded by a frustum. The rectangle is bounded by
+// the cone around the mean direction of its corners containing all of them,
+// and assumed to intersect when that cone is too wide.
+function coneIntersects(
+  direction: vec4,
+  angle: number,
+  rectangle: any[],
+  tmpVec: vec4
+) {
+  if (angle >= Math.PI) {
+    return true;
+  }
+  vec4.set(tmpVec, 0, 0, 0, 0);
+  for (let i = 0; i < rectangle.length; i++) {
+    const corner = rectangle[i];
+    const length = Math.hypot(corner[0], corner[1], corner[2]);
+    tmpVec[0] += corner[0] / length;
+    tmpVec[1] += corner[1] / length;
+    tmpVec[2] += corner[2] / length;
+  }
+  if (vec4.length(tmpVec) === 0) {
+    return true;
+  }
+  vec4.normalize(tmpVec, tmpVec);
+  let radius = 0;
+  for (let i = 0; i < rectangle.length; i++) {
+    radius = Math.max(radius, angleTo(tmpVec, rectangle[i]));
+  }
+  if (radius >= Math.PI / 2) {
+    return true;
+  }
+  return angleTo(direction, tmpVec) <= angle + radius;
+}
+
+// The angle between a normalized direction and a vector.
+function angleTo(direction: vec4, v: any) {
+  const length = Math.hypot(v[0], v[1], v[2]);
+  const cos =
+    (direction[0] * v[0] + direction[1] * v[1] + direction[2] * v[2]) / length;
+  return Math.acos(Math.max(-1, Math.min(1, cos)));
+}
+
+// Project the (yaw, pitch) direction onto the screen of a view with the given
+// projection matrix and viewport size. Returns false if the point is behind the
+// camera or the viewport is null, in which case the result is left untouched.
+function projectToScreen(
+  projMatrix: mat4,
+  width: number,
+  height: number,
+  yaw: number,
+  pitch: number,
+  result: Coords,
+  tmpVec: vec4
+) {
+  // Undefined on a null viewport.
+  if (width <= 0 || height <= 0) {
+    return false;
+  }
+
+  // Compute view ray pointing into the (yaw, pitch) direction.
+  const x = Math.sin(yaw) * Math.cos(pitch);
+  const y = -Math.sin(pitch);
+  const z = -Math.cos(yaw) * Math.cos(pitch);
+  vec4.set(tmpVec, x, y, z, 1);
+
+  // Project view ray onto clip space.
+  vec4.transformMat4(tmpVec, tmpVec, projMatrix);
+
+  // w in clip space equals -z in camera space.
+  if (tmpVec[3] < 0) {
+    // Point is behind camera.
+    return false;
+  }
+
+  // Convert to viewport coordinates.
+  result.x = (width * (tmpVec[0] / tmpVec[3] + 1)) / 2;
+  result.y = (height * (1 - tmpVec[1] / tmpVec[3])) / 2;
+  return true;
+}
+
+// Convert a screen position into the (yaw, pitch) direction for a view with the
+// given inverse projection matrix and viewport size. The result is not
+// normalized into the [-π, π] range.
+function unprojectFromScreen(
+  invProjMatrix: mat4,
+  width: number,
+  height: number,
+  coords: Coords,
+  result: { yaw: number; pitch: number },
+  tmpVec: vec4
+) {
+  // Convert viewport coordinates to clip space.
+  const vecx = (2 * coords.x) / width - 1;
+  const vecy = 1 - (2 * coords.y) / height;
+  vec4.set(tmpVec, vecx, vecy, 1, 1);
+
+  // Project back to world space.
+  vec4.transformMat4(tmpVec, tmpVec, invProjMatrix);
+
+  // Convert to spherical coordinates.
+  const r = Math.sqrt(
+    tmpVec[0] * tmpVec[0] + tmpVec[1] * tmpVec[1] + tmpVec[2] * tmpVec[2]
+  );
+  result.yaw = Math.atan2(tmpVec[0], -tmpVec[2]);
+  result.pitch = Math.acos(tmpVec[1] / r) - Math.PI / 2;
+
+  return result;
+}
+
+export {
+  matrixToFrustum,
+  frustumIntersects,
+  coneIntersects,
+  projectToScreen,
+  unprojectFromScreen,
+};
+
+export default {
+  matrixToFrustum: matrixToFrustum,
+  frustumIntersects: frustumIntersects,
+  coneIntersects: coneIntersects,
+  projectToScreen: projectToScreen,
+  unprojectFromScreen: unprojectFromScreen,
+};
@@ -0,0 +1,274 @@
+import { vec4 } from 'gl-matrix';
+
+/**
+ * The projection used by a {@link RectilinearView} to map the sphere onto the
+ * screen:
+ *
+ *   - `rectilinear` keeps straight lines straight, but stretches the edges of
+ *     wide views. The field of view is limited to π.
+ *   - `stereographic` preserves angles. With a wide field of view looking
+ *     down, it produces the "little planet" effect. The field of view is
+ *     limited to 2π.
+ *   - `equisolid` is the equisolid angle fisheye projection, which preserves
+ *     areas. The field of view is limited to 2π.
+ *   - `pannini` keeps vertical lines and lines through the view center
+ *     straight, and compresses the horizontal edges of wide views. The field
+ *     of view is limited to π.
+ *   - `mercator` is the cylindrical projection preserving angles. The field
+ *     of view is limited to π.
+ *
+ * Projections other than the rectilinear one are drawn per pixel by the WebGL
+ * renderers for {@link EquirectGeometry} and {@link CubeGeometry}. The other
+ * renderers, such as those for {@link TiledEquirectGeometry}, only draw the
+ * rectilinear projection: {@link RectilinearView#setProjectionMode} and
+ * {@link Scene#enterLittlePlanet} throw for a {@link Scene} with such a layer,
+ * and {@link Scene#createLayer} throws for such a layer while the view has
+ * another projection. Renderers list the projections they draw in
+ * {@link Renderer.projectionModes}.
+ *
+ * Screen points are expressed in the plane of the projection, where the view
+ * center is at the origin, x points right and y points up. Directions are
+ * expressed in camera space, looking along the negative z axis.
+ */
+export type ProjectionMode =
+  | 'rectilinear'
+  | 'stereographic'
+  | 'equisolid'
+  | 'pannini'
+  | 'mercator';
+
+/**
+ * The supported projections. The index of a projection identifies it in the
+ * shaders.
+ * @private
+ */
+export const projectionModes: ProjectionMode[] = [
+  'rectilinear',
+  'stereographic',
+  'equisolid',
+  'pannini',
+  'mercator',
+];
+
+// The stereographic projection is the rectilinear projection of the angles
+// scaled by k, with k going from 1 to 1/2 as the mix goes from 0 to 1.
+function stereographicFactor(mix: number) {
+  return 1 - mix / 2;
+}
+
+/**
+ * Returns the largest vertical field of view of a projection.
+ * @param {ProjectionMode} mode
+ * @param {number} mix
+ * @return {number}
+ * @private
+ */
+export function maxProjectionFov(mode: ProjectionMode, mix: number) {
+  switch (mode) {
+    case 'stereographic':
+      return Math.PI / stereographicFactor(mix);
+    case 'equisolid':
+      return 2 * Math.PI;
+    default:
+      return Math.PI;
+  }
+}
+
+/**
+ * Returns the distance from the view center to the top edge of the screen in
+ * the plane of a projection, for a given vertical field of view.
+ * @param {ProjectionMode} mode
+ * @param {number} mix
+ * @param {number} fov
+ * @return {number}
+ * @private
+ */
+export function projectionScale(
+  mode: ProjectionMode,
+  mix: number,
+  fov: number
+) {
+  const half = fov / 2;
+  switch (mode) {
+    case 'stereographic': {
+      const k = stereographicFactor(mix);
+      return Math.tan(k * half) / k;
+    }
+    case 'equisolid':
+      return 2 * Math.sin(half / 2);
+    case 'mercator':
+      return Math.asinh(Math.tan(half));
+    default:
+      return Math.tan(half);
+  }
+}
+
+/**
+ * Projects a normalized camera space direction onto the plane of a projection.
+ * Returns false if the direction is not visible, in which case the result is
+ * left untouched.
+ * @param {ProjectionMode} mode
+ * @param {number} mix
+ * @param {vec4} dir
+ * @param {Coords} result
+ * @return {boolean}
+ * @private
+ */
+export function projectDirection(
+  mode: ProjectionMode,
+  mix: number,
+  dir: vec4,
+  result: { x: number; y: number }
+) {
+  const x = dir[0];
+  const y = dir[1];
+  const z = dir[2];
+
+  switch (mode) {
+    case 'stereographic':
+    case 'equisolid': {
+      const theta = Math.acos(Math.max(-1, Math.min(1, -z)));
+      let r: number;
+      if (mode === 'stereographic') {
+        const k = stereographicFactor(mix);
+        if (k * theta >= Math.PI / 2) {
+          return false;
+        }
+        r = Math.tan(k * theta) / k;
+      } else {
+        r = 2 * Math.sin(theta / 2);
+      }
+      const s = Math.sqrt(x * x + y * y);
+      result.x = s > 0 ? (x / s) * r : 0;
+      result.y = s > 0 ? (y / s) * r : 0;
+      return true;
+    }
+    case 'pannini': {
+      const h = Math.sqrt(x * x + z * z);
+      const lambda = Math.atan2(x, -z);
+      const denom = mix + Math.cos(lambda);
+      if (h <= 0 || denom <= 0) {
+        return false;
+      }
+      const scale = (mix + 1) / denom;
+      result.x = scale * Math.sin(lambda);
+      result.y = (scale * y) / h;
+      return true;
+    }
+    case 'mercator': {
+      const phi = Math.asin(Math.max(-1, Math.min(1, y)));
+      const v = Math.asinh(Math.tan(phi));
+      if (!isFinite(v)) {
+        return false;
+      }
+      result.x = Math.atan2(x, -z);
+      result.y = v;
+      return true;
+    }
+    default:
+      if (-z <= 0) {
+        return false;
+      }
+      result.x = x / -z;
+      result.y = y / -z;
+      return true;
+  }
+}
+
+/**
+ * Converts a point in the plane of a projection into a normalized camera space
+ * direction. Returns false if the point is outside the projection, in which
+ * case the result is left untouched.
+ * @param {ProjectionMode} mode
+ * @param {number} mix
+ * @param {number} x
+ * @param {number} y
+ * @param {vec4} result
+ * @return {boolean}
+ * @private
+ */
+export function unprojectPoint(
+  mode: ProjectionMode,
+  mix: number,
+  x: number,
+  y: number,
+  result: vec4
+) {
+  switch (mode) {
+    case 'stereographic':
+    case 'equisolid': {
+      const r = Math.sqrt(x * x + y * y);
+      let theta: number;
+      if (mode === 'stereographic') {
+        const k = stereographicFactor(mix);
+        theta = Math.atan(k * r) / k;
+      } else {
+        if (r > 2) {
+          return false;
+        }
+        theta = 2 * Math.asin(r / 2);
+      }
+      const s = r > 0 ? Math.sin(theta) / r : 0;
+      vec4.set(result, x * s, y * s, -Math.cos(theta), 0);
+      return true;
+    }
+    case 'pannini': {
+      const k = mix + 1;
+      const lambda =
+        Math.atan2(x, k) + Math.asin((x * mix) / Math.sqrt(k * k + x * x));
+      const denom = mix + Math.cos(lambda);
+      if (denom <= 0) {
+        return false;
+      }
+      vec4.set(result, Math.sin(lambda), (y * denom) / k, -Math.cos(lambda), 0);
+      break;
+    }
+    case 'mercator': {
+      if (Math.abs(x) > Math.PI) {
+        return false;
+      }
+      const phi = Math.atan(Math.sinh(y));
+      vec4.set(
+        result,
+        Math.sin(x) * Math.cos(phi),
+        Math.sin(phi),
+        -Math.cos(x) * Math.cos(phi),
+        0
+      );
+      return true;
+    }
+    default:
+      vec4.set(result, x, y, -1, 0);
+      break;
+  }
+  vec4.normalize(result, result);
+  return true;
+}
+
+// Temporary vector for visibleAngle.
+const tmpDirection = vec4.create();
+
+/**
+ * Returns the largest angle between the view center and the directions seen
+ * on a screen extending to the given distances from the center in the plane of
+ * a projection, or π if part of the screen is outside the projection.
+ * @param {ProjectionMode} mode
+ * @param {number} mix
+ * @param {number} halfWidth
+ * @param {number} halfHeight
+ * @return {number}
+ * @private
+ */
+export function visibleAngle(
+  mode: ProjectionMode,
+  mix: number,
+  halfWidth: number,
+  halfHeight: number
+) {
+  // The angle grows with the distance from the center along both axes, so
+  // that it is largest at the corners, which are symmetric.
+  if (!unprojectPoint(mode, mix, halfWidth, halfHeight, tmpDirection)) {
+    return Math.PI;
+  }
+  return Math.acos(Math.max(-1, Math.min(1, -tmpDirection[2])));
+}